@@ -0,0 +1,3 @@
+drop table if exists model_invocations;
+drop table if exists messages;
+drop table if exists conversations;
@@ -1,5 +1,3 @@
-begin;
-
 create extension if not exists "pgcrypto";
 
 create table if not exists conversations (
@@ -33,5 +31,3 @@ create table if not exists model_invocations (
   estimated_cost_usd numeric(10, 6),
   created_at timestamptz not null default now()
 );
-
-commit;
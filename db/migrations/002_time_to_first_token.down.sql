@@ -0,0 +1,2 @@
+alter table model_invocations
+  drop column if exists time_to_first_token_ms;
@@ -0,0 +1,2 @@
+alter table model_invocations
+  add column if not exists time_to_first_token_ms integer;
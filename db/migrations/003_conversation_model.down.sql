@@ -0,0 +1,3 @@
+alter table conversations
+  drop column if exists provider,
+  drop column if exists model;
@@ -0,0 +1,3 @@
+alter table conversations
+  add column if not exists provider text,
+  add column if not exists model text;
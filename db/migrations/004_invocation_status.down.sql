@@ -0,0 +1,4 @@
+drop index if exists idx_model_invocations_created_at;
+
+alter table model_invocations
+  drop column if exists status;
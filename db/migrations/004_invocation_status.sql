@@ -0,0 +1,5 @@
+alter table model_invocations
+  add column if not exists status text not null default 'success';
+
+create index if not exists idx_model_invocations_created_at
+  on model_invocations (created_at);
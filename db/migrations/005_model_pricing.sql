@@ -0,0 +1,13 @@
+create table if not exists model_pricing (
+  id uuid primary key default gen_random_uuid(),
+  provider text not null,
+  model text not null,
+  input_usd_per_million numeric(12, 6) not null,
+  output_usd_per_million numeric(12, 6) not null,
+  effective_from timestamptz not null default now(),
+  created_at timestamptz not null default now(),
+  unique (provider, model, effective_from)
+);
+
+create index if not exists idx_model_pricing_lookup
+  on model_pricing (provider, model, effective_from desc);
@@ -0,0 +1,7 @@
+drop function if exists daily_token_usage(uuid, text);
+drop function if exists consume_rate_limit(text, integer, double precision);
+
+drop index if exists idx_conversations_guest_id;
+drop index if exists idx_conversations_user_id;
+
+drop table if exists rate_limit_buckets;
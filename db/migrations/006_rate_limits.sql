@@ -0,0 +1,98 @@
+create table if not exists rate_limit_buckets (
+  bucket_key text primary key,
+  tokens double precision not null,
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_rate_limit_buckets_updated_at
+  on rate_limit_buckets (updated_at);
+
+-- Token bucket: refills continuously at p_refill_per_second up to p_capacity
+-- and consumes one token per call. The row lock makes concurrent requests
+-- from different serverless instances serialize on the same bucket.
+create or replace function consume_rate_limit(
+  p_bucket_key text,
+  p_capacity integer,
+  p_refill_per_second double precision
+)
+returns table (allowed boolean, remaining integer, retry_after_ms integer, reset_ms integer)
+language plpgsql
+as $$
+declare
+  v_now timestamptz := clock_timestamp();
+  v_tokens double precision;
+  v_updated_at timestamptz;
+begin
+  insert into rate_limit_buckets (bucket_key, tokens, updated_at)
+  values (p_bucket_key, p_capacity, v_now)
+  on conflict (bucket_key) do nothing;
+
+  select b.tokens, b.updated_at into v_tokens, v_updated_at
+  from rate_limit_buckets b
+  where b.bucket_key = p_bucket_key
+  for update;
+
+  v_tokens := least(
+    p_capacity,
+    v_tokens + greatest(0, extract(epoch from (v_now - v_updated_at))) * p_refill_per_second
+  );
+
+  if v_tokens >= 1 then
+    v_tokens := v_tokens - 1;
+    allowed := true;
+    retry_after_ms := 0;
+  else
+    allowed := false;
+    retry_after_ms := ceil((1 - v_tokens) / p_refill_per_second * 1000);
+  end if;
+
+  update rate_limit_buckets
+  set tokens = v_tokens, updated_at = v_now
+  where bucket_key = p_bucket_key;
+
+  remaining := floor(v_tokens);
+  reset_ms := ceil((p_capacity - v_tokens) / p_refill_per_second * 1000);
+
+  -- Opportunistic eviction so idle buckets do not accumulate forever.
+  if random() < 0.01 then
+    delete from rate_limit_buckets where updated_at < v_now - interval '1 day';
+  end if;
+
+  return next;
+end;
+$$;
+
+create index if not exists idx_conversations_user_id on conversations (user_id);
+create index if not exists idx_conversations_guest_id on conversations (guest_id);
+
+create or replace function daily_token_usage(p_user_id uuid, p_guest_id text)
+returns bigint
+language sql
+stable
+as $$
+  select coalesce(sum(mi.total_tokens), 0)::bigint
+  from model_invocations mi
+  join conversations c on c.id = mi.conversation_id
+  where mi.created_at >= date_trunc('day', now())
+    and (
+      (p_user_id is not null and c.user_id = p_user_id)
+      or (p_user_id is null and p_guest_id is not null and c.guest_id = p_guest_id)
+    );
+$$;
+
+revoke execute on function consume_rate_limit(text, integer, double precision) from public;
+revoke execute on function daily_token_usage(uuid, text) from public;
+
+do $$
+begin
+  if exists (select 1 from pg_roles where rolname = 'anon') then
+    revoke execute on function consume_rate_limit(text, integer, double precision) from anon, authenticated;
+    revoke execute on function daily_token_usage(uuid, text) from anon, authenticated;
+  end if;
+
+  if exists (select 1 from pg_roles where rolname = 'service_role') then
+    grant execute on function consume_rate_limit(text, integer, double precision) to service_role;
+    grant execute on function daily_token_usage(uuid, text) to service_role;
+  end if;
+end;
+$$;
@@ -0,0 +1,2 @@
+drop function if exists claim_guest_conversations(text, uuid);
+drop table if exists guest_claims;
@@ -0,0 +1,50 @@
+create table if not exists guest_claims (
+  guest_id text primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  claimed_at timestamptz not null default now()
+);
+
+-- Moves a guest's conversations to the signed-in user. A guest id is bound to
+-- the first user that claims it, so calling this again (e.g. on every sign-in)
+-- is safe and only picks up conversations created since the last claim.
+create or replace function claim_guest_conversations(p_guest_id text, p_user_id uuid)
+returns integer
+language plpgsql
+as $$
+declare
+  v_owner uuid;
+  v_claimed integer;
+begin
+  insert into guest_claims (guest_id, user_id)
+  values (p_guest_id, p_user_id)
+  on conflict (guest_id) do nothing;
+
+  select user_id into v_owner from guest_claims where guest_id = p_guest_id;
+
+  if v_owner <> p_user_id then
+    return -1;
+  end if;
+
+  update conversations
+  set user_id = p_user_id
+  where guest_id = p_guest_id
+    and user_id is null;
+
+  get diagnostics v_claimed = row_count;
+  return v_claimed;
+end;
+$$;
+
+revoke execute on function claim_guest_conversations(text, uuid) from public;
+
+do $$
+begin
+  if exists (select 1 from pg_roles where rolname = 'anon') then
+    revoke execute on function claim_guest_conversations(text, uuid) from anon, authenticated;
+  end if;
+
+  if exists (select 1 from pg_roles where rolname = 'service_role') then
+    grant execute on function claim_guest_conversations(text, uuid) to service_role;
+  end if;
+end;
+$$;
@@ -0,0 +1,5 @@
+-- Rolling summaries are stored as `system` messages. `summarizes_until` is the
+-- created_at of the newest turn folded into the summary; context assembly
+-- replaces every turn up to that point with the summary text.
+alter table messages
+  add column if not exists summarizes_until timestamptz;
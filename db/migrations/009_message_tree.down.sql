@@ -0,0 +1,7 @@
+alter table conversations
+  drop column if exists active_message_id;
+
+drop index if exists idx_messages_parent_id;
+
+alter table messages
+  drop column if exists parent_id;
@@ -0,0 +1,50 @@
+alter table messages
+  add column if not exists parent_id uuid references messages (id) on delete cascade;
+
+alter table conversations
+  add column if not exists active_message_id uuid references messages (id) on delete set null;
+
+create index if not exists idx_messages_parent_id on messages (parent_id);
+
+-- Existing conversations are linear: chain each user/assistant turn to the
+-- previous one in created_at order.
+with ordered as (
+  select
+    id,
+    lag(id) over (partition by conversation_id order by created_at, id) as previous_id
+  from messages
+  where role in ('user', 'assistant')
+)
+update messages m
+set parent_id = ordered.previous_id
+from ordered
+where m.id = ordered.id
+  and m.parent_id is null
+  and ordered.previous_id is not null;
+
+-- Rolling summaries hang off the last turn they cover, so they only apply to
+-- branches that contain that turn.
+update messages s
+set parent_id = (
+  select t.id
+  from messages t
+  where t.conversation_id = s.conversation_id
+    and t.role in ('user', 'assistant')
+    and t.created_at <= s.summarizes_until
+  order by t.created_at desc, t.id desc
+  limit 1
+)
+where s.role = 'system'
+  and s.summarizes_until is not null
+  and s.parent_id is null;
+
+update conversations c
+set active_message_id = (
+  select m.id
+  from messages m
+  where m.conversation_id = c.id
+    and m.role in ('user', 'assistant')
+  order by m.created_at desc, m.id desc
+  limit 1
+)
+where c.active_message_id is null;
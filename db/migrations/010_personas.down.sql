@@ -0,0 +1,7 @@
+alter table conversations
+  drop column if exists persona_id,
+  drop column if exists system_prompt,
+  drop column if exists temperature,
+  drop column if exists max_tokens;
+
+drop table if exists personas;
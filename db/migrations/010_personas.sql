@@ -0,0 +1,23 @@
+create table if not exists personas (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  system_prompt text not null,
+  provider text,
+  model text,
+  temperature numeric(3, 2) check (temperature between 0 and 2),
+  max_tokens integer check (max_tokens > 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_personas_user_id on personas (user_id, name);
+
+-- A conversation keeps a copy of the persona's prompt and sampling settings
+-- from when it was started, so editing or deleting the persona does not
+-- change how existing history is replayed.
+alter table conversations
+  add column if not exists persona_id uuid references personas (id) on delete set null,
+  add column if not exists system_prompt text,
+  add column if not exists temperature numeric(3, 2),
+  add column if not exists max_tokens integer;
@@ -0,0 +1,22 @@
+-- Restores the conversation-only quota from 006_rate_limits.sql.
+create or replace function daily_token_usage(p_user_id uuid, p_guest_id text)
+returns bigint
+language sql
+stable
+as $$
+  select coalesce(sum(mi.total_tokens), 0)::bigint
+  from model_invocations mi
+  join conversations c on c.id = mi.conversation_id
+  where mi.created_at >= date_trunc('day', now())
+    and (
+      (p_user_id is not null and c.user_id = p_user_id)
+      or (p_user_id is null and p_guest_id is not null and c.guest_id = p_guest_id)
+    );
+$$;
+
+drop index if exists idx_model_invocations_api_key_id;
+
+alter table model_invocations
+  drop column if exists api_key_id;
+
+drop table if exists api_keys;
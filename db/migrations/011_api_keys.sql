@@ -0,0 +1,39 @@
+-- Personal API keys for /api/v1. Only a SHA-256 hash of the key is stored;
+-- `key_prefix` is the first few characters, kept so keys can be told apart
+-- in the settings page.
+create table if not exists api_keys (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  key_prefix text not null,
+  key_hash text not null unique,
+  created_at timestamptz not null default now(),
+  last_used_at timestamptz,
+  revoked_at timestamptz
+);
+
+create index if not exists idx_api_keys_user_id on api_keys (user_id);
+
+alter table model_invocations
+  add column if not exists api_key_id uuid references api_keys (id) on delete set null;
+
+create index if not exists idx_model_invocations_api_key_id
+  on model_invocations (api_key_id, created_at);
+
+-- API calls have no conversation, so count them towards the key owner's
+-- daily quota through the key instead.
+create or replace function daily_token_usage(p_user_id uuid, p_guest_id text)
+returns bigint
+language sql
+stable
+as $$
+  select coalesce(sum(mi.total_tokens), 0)::bigint
+  from model_invocations mi
+  left join conversations c on c.id = mi.conversation_id
+  left join api_keys k on k.id = mi.api_key_id
+  where mi.created_at >= date_trunc('day', now())
+    and (
+      (p_user_id is not null and (c.user_id = p_user_id or k.user_id = p_user_id))
+      or (p_user_id is null and p_guest_id is not null and c.guest_id = p_guest_id)
+    );
+$$;
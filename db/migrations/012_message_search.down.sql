@@ -0,0 +1,6 @@
+drop function if exists search_messages(uuid, text, text, integer);
+
+drop index if exists idx_messages_content_tsv;
+
+alter table messages
+  drop column if exists content_tsv;
@@ -0,0 +1,72 @@
+alter table messages
+  add column if not exists content_tsv tsvector
+    generated always as (to_tsvector('english', content)) stored;
+
+create index if not exists idx_messages_content_tsv
+  on messages using gin (content_tsv);
+
+-- Searches the user/assistant turns of the caller's conversations, using the
+-- same ownership rule as the API: a user's own conversations, or unclaimed
+-- ones for a guest id. Matches in the snippet are wrapped in chr(2)/chr(3) so
+-- the client can highlight them without rendering HTML from message text.
+create or replace function search_messages(
+  p_user_id uuid,
+  p_guest_id text,
+  p_query text,
+  p_limit integer default 20
+)
+returns table (
+  message_id uuid,
+  conversation_id uuid,
+  conversation_title text,
+  role text,
+  snippet text,
+  rank real,
+  created_at timestamptz
+)
+language sql
+stable
+as $$
+  with query as (
+    select websearch_to_tsquery('english', p_query) as q
+  )
+  select
+    m.id,
+    m.conversation_id,
+    c.title,
+    m.role,
+    ts_headline(
+      'english',
+      m.content,
+      query.q,
+      'StartSel=' || chr(2) || ', StopSel=' || chr(3) ||
+        ', MaxFragments=2, MaxWords=20, MinWords=8, FragmentDelimiter=" … "'
+    ),
+    ts_rank(m.content_tsv, query.q),
+    m.created_at
+  from query, messages m
+  join conversations c on c.id = m.conversation_id
+  where m.content_tsv @@ query.q
+    and m.role in ('user', 'assistant')
+    and (
+      (p_user_id is not null and c.user_id = p_user_id)
+      or (p_user_id is null and p_guest_id is not null
+          and c.guest_id = p_guest_id and c.user_id is null)
+    )
+  order by ts_rank(m.content_tsv, query.q) desc, m.created_at desc
+  limit least(greatest(p_limit, 1), 50);
+$$;
+
+revoke execute on function search_messages(uuid, text, text, integer) from public;
+
+do $$
+begin
+  if exists (select 1 from pg_roles where rolname = 'anon') then
+    revoke execute on function search_messages(uuid, text, text, integer) from anon, authenticated;
+  end if;
+
+  if exists (select 1 from pg_roles where rolname = 'service_role') then
+    grant execute on function search_messages(uuid, text, text, integer) to service_role;
+  end if;
+end;
+$$;
@@ -0,0 +1,15 @@
+-- Read-only share links. The shared branch is copied into `snapshot` when the
+-- link is created, so later turns, edits and branch switches in the original
+-- conversation are not visible through an existing link.
+create table if not exists conversation_shares (
+  id uuid primary key default gen_random_uuid(),
+  token text not null unique,
+  conversation_id uuid not null references conversations (id) on delete cascade,
+  title text,
+  snapshot jsonb not null,
+  created_at timestamptz not null default now(),
+  revoked_at timestamptz
+);
+
+create index if not exists idx_conversation_shares_conversation_id
+  on conversation_shares (conversation_id);
@@ -0,0 +1,18 @@
+drop policy if exists api_keys_owner_select on api_keys;
+drop policy if exists personas_owner_all on personas;
+drop policy if exists model_invocations_owner_select on model_invocations;
+drop policy if exists messages_owner_delete on messages;
+drop policy if exists messages_owner_update on messages;
+drop policy if exists messages_owner_insert on messages;
+drop policy if exists messages_owner_select on messages;
+drop policy if exists conversations_owner_delete on conversations;
+drop policy if exists conversations_owner_update on conversations;
+drop policy if exists conversations_owner_insert on conversations;
+drop policy if exists conversations_owner_select on conversations;
+
+alter table conversation_shares disable row level security;
+alter table api_keys disable row level security;
+alter table personas disable row level security;
+alter table model_invocations disable row level security;
+alter table messages disable row level security;
+alter table conversations disable row level security;
@@ -0,0 +1,114 @@
+-- The API uses the service-role key, which bypasses RLS, and checks ownership
+-- itself. These policies are the backstop for anything that runs as the
+-- caller instead: the request-scoped server client and any browser query
+-- with the anon key. Guest rows (user_id is null) are never visible that way.
+alter table conversations enable row level security;
+alter table messages enable row level security;
+alter table model_invocations enable row level security;
+alter table personas enable row level security;
+alter table api_keys enable row level security;
+alter table conversation_shares enable row level security;
+
+drop policy if exists conversations_owner_select on conversations;
+create policy conversations_owner_select on conversations
+  for select to authenticated
+  using ((select auth.uid()) = user_id);
+
+drop policy if exists conversations_owner_insert on conversations;
+create policy conversations_owner_insert on conversations
+  for insert to authenticated
+  with check ((select auth.uid()) = user_id);
+
+drop policy if exists conversations_owner_update on conversations;
+create policy conversations_owner_update on conversations
+  for update to authenticated
+  using ((select auth.uid()) = user_id)
+  with check ((select auth.uid()) = user_id);
+
+drop policy if exists conversations_owner_delete on conversations;
+create policy conversations_owner_delete on conversations
+  for delete to authenticated
+  using ((select auth.uid()) = user_id);
+
+-- Messages inherit ownership from their conversation.
+drop policy if exists messages_owner_select on messages;
+create policy messages_owner_select on messages
+  for select to authenticated
+  using (
+    exists (
+      select 1 from conversations c
+      where c.id = messages.conversation_id
+        and c.user_id = (select auth.uid())
+    )
+  );
+
+drop policy if exists messages_owner_insert on messages;
+create policy messages_owner_insert on messages
+  for insert to authenticated
+  with check (
+    exists (
+      select 1 from conversations c
+      where c.id = messages.conversation_id
+        and c.user_id = (select auth.uid())
+    )
+  );
+
+drop policy if exists messages_owner_update on messages;
+create policy messages_owner_update on messages
+  for update to authenticated
+  using (
+    exists (
+      select 1 from conversations c
+      where c.id = messages.conversation_id
+        and c.user_id = (select auth.uid())
+    )
+  )
+  with check (
+    exists (
+      select 1 from conversations c
+      where c.id = messages.conversation_id
+        and c.user_id = (select auth.uid())
+    )
+  );
+
+drop policy if exists messages_owner_delete on messages;
+create policy messages_owner_delete on messages
+  for delete to authenticated
+  using (
+    exists (
+      select 1 from conversations c
+      where c.id = messages.conversation_id
+        and c.user_id = (select auth.uid())
+    )
+  );
+
+-- Usage rows are written by the server only; owners may read them, whether
+-- they came from one of their conversations or one of their API keys.
+drop policy if exists model_invocations_owner_select on model_invocations;
+create policy model_invocations_owner_select on model_invocations
+  for select to authenticated
+  using (
+    exists (
+      select 1 from conversations c
+      where c.id = model_invocations.conversation_id
+        and c.user_id = (select auth.uid())
+    )
+    or exists (
+      select 1 from api_keys k
+      where k.id = model_invocations.api_key_id
+        and k.user_id = (select auth.uid())
+    )
+  );
+
+drop policy if exists personas_owner_all on personas;
+create policy personas_owner_all on personas
+  for all to authenticated
+  using ((select auth.uid()) = user_id)
+  with check ((select auth.uid()) = user_id);
+
+-- Key hashes are readable by their owner; keys are only issued and revoked
+-- through the API. Share links have no policies and stay server-only.
+drop policy if exists api_keys_owner_select on api_keys;
+create policy api_keys_owner_select on api_keys
+  for select to authenticated
+  using ((select auth.uid()) = user_id);
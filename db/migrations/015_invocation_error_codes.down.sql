@@ -0,0 +1,4 @@
+drop index if exists idx_model_invocations_status_created_at;
+
+alter table model_invocations
+  drop constraint if exists model_invocations_status_check;
@@ -0,0 +1,25 @@
+-- Failed upstream attempts (including retries and fallbacks) are logged with
+-- the classified error code as their status. `error` is kept for older rows
+-- and calls that are not classified.
+alter table model_invocations
+  drop constraint if exists model_invocations_status_check;
+
+alter table model_invocations
+  add constraint model_invocations_status_check check (
+    status in (
+      'success',
+      'error',
+      'upstream_timeout',
+      'upstream_rate_limited',
+      'upstream_unavailable',
+      'upstream_auth_failed',
+      'upstream_bad_request',
+      'content_filtered',
+      'context_length_exceeded',
+      'upstream_error'
+    )
+  );
+
+create index if not exists idx_model_invocations_status_created_at
+  on model_invocations (status, created_at)
+  where status <> 'success';
@@ -0,0 +1,2 @@
+-- The storage bucket is left in place so uploaded files are not lost.
+drop table if exists attachments;
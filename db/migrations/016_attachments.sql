@@ -0,0 +1,47 @@
+-- Files uploaded from the composer. A row is created on upload with no
+-- message and linked to the user turn it was sent with. `extracted_text` holds
+-- the text of text, code and PDF files; images are read back from storage.
+create table if not exists attachments (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users (id) on delete set null,
+  guest_id text,
+  conversation_id uuid references conversations (id) on delete cascade,
+  message_id uuid references messages (id) on delete cascade,
+  kind text not null check (kind in ('image', 'pdf', 'text')),
+  file_name text not null,
+  content_type text not null,
+  size_bytes integer not null check (size_bytes >= 0),
+  storage_path text not null unique,
+  extracted_text text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_attachments_message_id on attachments (message_id);
+create index if not exists idx_attachments_conversation_id
+  on attachments (conversation_id);
+
+-- Same rules as 014_row_level_security.sql: readable by the owner of the
+-- conversation, written only by the server.
+alter table attachments enable row level security;
+
+drop policy if exists attachments_owner_select on attachments;
+create policy attachments_owner_select on attachments
+  for select to authenticated
+  using (
+    exists (
+      select 1 from conversations c
+      where c.id = attachments.conversation_id
+        and c.user_id = (select auth.uid())
+    )
+  );
+
+-- Private bucket for the file contents, when running on Supabase.
+do $$
+begin
+  if exists (select 1 from pg_namespace where nspname = 'storage') then
+    insert into storage.buckets (id, name, public)
+    values ('attachments', 'attachments', false)
+    on conflict (id) do nothing;
+  end if;
+end;
+$$;
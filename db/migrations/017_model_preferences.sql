@@ -0,0 +1,37 @@
+-- Compare mode sends one user turn to two models. Each pairing is stored here
+-- with the invocations that produced the two replies; `winner` is null until
+-- the user votes. Like model_invocations, rows outlive their conversation so
+-- win rates are not lost when chats are deleted.
+create table if not exists model_preferences (
+  id uuid primary key default gen_random_uuid(),
+  conversation_id uuid references conversations (id) on delete set null,
+  user_message_id uuid references messages (id) on delete set null,
+  message_a_id uuid references messages (id) on delete set null,
+  message_b_id uuid references messages (id) on delete set null,
+  invocation_a_id uuid not null references model_invocations (id) on delete cascade,
+  invocation_b_id uuid not null references model_invocations (id) on delete cascade,
+  blind boolean not null default false,
+  winner text check (winner in ('a', 'b', 'tie')),
+  created_at timestamptz not null default now(),
+  voted_at timestamptz
+);
+
+create index if not exists idx_model_preferences_conversation_id
+  on model_preferences (conversation_id);
+create index if not exists idx_model_preferences_voted_at
+  on model_preferences (voted_at)
+  where winner is not null;
+
+-- Readable by the owner of the conversation, written only by the server.
+alter table model_preferences enable row level security;
+
+drop policy if exists model_preferences_owner_select on model_preferences;
+create policy model_preferences_owner_select on model_preferences
+  for select to authenticated
+  using (
+    exists (
+      select 1 from conversations c
+      where c.id = model_preferences.conversation_id
+        and c.user_id = (select auth.uid())
+    )
+  );
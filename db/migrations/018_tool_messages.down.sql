@@ -0,0 +1,34 @@
+-- Tool calls and results cannot be represented without these columns, so they
+-- are dropped. Replies that hang off them first move up to the nearest
+-- ancestor outside the tool exchange (parent_id cascades on delete).
+with recursive exchange as (
+  select id, parent_id
+  from messages
+  where role = 'tool' or tool_calls is not null
+),
+climb as (
+  select m.id as message_id, e.parent_id as ancestor_id
+  from messages m
+  join exchange e on e.id = m.parent_id
+  where m.role <> 'tool' and m.tool_calls is null
+  union all
+  select c.message_id, e.parent_id
+  from climb c
+  join exchange e on e.id = c.ancestor_id
+)
+update messages m
+set parent_id = c.ancestor_id
+from climb c
+where m.id = c.message_id
+  and (c.ancestor_id is null or c.ancestor_id not in (select id from exchange));
+
+delete from messages where role = 'tool' or tool_calls is not null;
+
+alter table messages drop constraint if exists messages_role_check;
+alter table messages
+  add constraint messages_role_check
+  check (role in ('user', 'assistant', 'system'));
+
+alter table messages drop column if exists tool_name;
+alter table messages drop column if exists tool_call_id;
+alter table messages drop column if exists tool_calls;
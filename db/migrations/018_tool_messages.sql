@@ -0,0 +1,11 @@
+-- Tool calling. An assistant turn that calls tools stores the calls in
+-- `tool_calls` ([{ id, name, arguments }], arguments as the raw JSON string);
+-- each result is a `tool` message answering one call by `tool_call_id`.
+alter table messages drop constraint if exists messages_role_check;
+alter table messages
+  add constraint messages_role_check
+  check (role in ('user', 'assistant', 'system', 'tool'));
+
+alter table messages add column if not exists tool_calls jsonb;
+alter table messages add column if not exists tool_call_id text;
+alter table messages add column if not exists tool_name text;
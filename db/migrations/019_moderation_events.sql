@@ -0,0 +1,24 @@
+-- Audit log of chat turns the moderation pipeline redacted or rejected, on the
+-- user's message (`input`) or the model's reply (`output`). Only categories
+-- and match counts are stored, never the flagged text. Rows outlive their
+-- conversation and message.
+create table if not exists moderation_events (
+  id uuid primary key default gen_random_uuid(),
+  conversation_id uuid references conversations (id) on delete set null,
+  message_id uuid references messages (id) on delete set null,
+  user_id uuid references auth.users (id) on delete set null,
+  guest_id text,
+  stage text not null check (stage in ('input', 'output')),
+  action text not null check (action in ('redacted', 'rejected')),
+  categories text[] not null,
+  findings jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_moderation_events_created_at
+  on moderation_events (created_at);
+create index if not exists idx_moderation_events_conversation_id
+  on moderation_events (conversation_id);
+
+-- Written and read only by the server with the service-role key.
+alter table moderation_events enable row level security;
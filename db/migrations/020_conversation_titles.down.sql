@@ -0,0 +1,7 @@
+alter table model_invocations
+  drop constraint if exists model_invocations_purpose_check;
+alter table model_invocations drop column if exists purpose;
+
+alter table conversations
+  drop constraint if exists conversations_title_source_check;
+alter table conversations drop column if exists title_source;
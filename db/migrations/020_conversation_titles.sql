@@ -0,0 +1,20 @@
+-- Generated conversation titles. `title_source` records where the title came
+-- from, so a generated title never replaces one the user typed; `purpose`
+-- separates chat turns from the side calls made for summaries and titles.
+alter table conversations
+  add column if not exists title_source text not null default 'message';
+
+alter table conversations
+  drop constraint if exists conversations_title_source_check;
+alter table conversations
+  add constraint conversations_title_source_check
+  check (title_source in ('message', 'generated', 'user'));
+
+alter table model_invocations
+  add column if not exists purpose text not null default 'chat';
+
+alter table model_invocations
+  drop constraint if exists model_invocations_purpose_check;
+alter table model_invocations
+  add constraint model_invocations_purpose_check
+  check (purpose in ('chat', 'summary', 'title'));
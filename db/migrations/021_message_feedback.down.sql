@@ -0,0 +1,3 @@
+drop table if exists message_feedback;
+
+alter table messages drop column if exists invocation_id;
@@ -0,0 +1,54 @@
+-- Thumbs up/down on assistant replies, with an optional reason and comment.
+-- Each reply has at most one rating, which can be changed. `invocation_id`
+-- links the rating to the call's latency and tokens; like model_preferences,
+-- rows outlive their conversation so satisfaction stats are kept.
+alter table messages
+  add column if not exists invocation_id uuid references model_invocations (id) on delete set null;
+
+create table if not exists message_feedback (
+  id uuid primary key default gen_random_uuid(),
+  conversation_id uuid references conversations (id) on delete set null,
+  message_id uuid references messages (id) on delete set null,
+  invocation_id uuid references model_invocations (id) on delete set null,
+  persona_id uuid references personas (id) on delete set null,
+  user_id uuid references auth.users (id) on delete set null,
+  guest_id text,
+  rating text not null check (rating in ('up', 'down')),
+  reason text check (
+    reason in (
+      'accurate',
+      'helpful',
+      'well_written',
+      'incorrect',
+      'unhelpful',
+      'incomplete',
+      'unsafe',
+      'too_slow',
+      'other'
+    )
+  ),
+  comment text check (char_length(comment) <= 2000),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists idx_message_feedback_message_id
+  on message_feedback (message_id);
+create index if not exists idx_message_feedback_conversation_id
+  on message_feedback (conversation_id);
+create index if not exists idx_message_feedback_updated_at
+  on message_feedback (updated_at);
+
+-- Readable by the owner of the conversation, written only by the server.
+alter table message_feedback enable row level security;
+
+drop policy if exists message_feedback_owner_select on message_feedback;
+create policy message_feedback_owner_select on message_feedback
+  for select to authenticated
+  using (
+    exists (
+      select 1 from conversations c
+      where c.id = message_feedback.conversation_id
+        and c.user_id = (select auth.uid())
+    )
+  );
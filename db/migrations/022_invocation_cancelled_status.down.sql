@@ -0,0 +1,21 @@
+-- Before 022 a stopped reply was logged as a success.
+update model_invocations set status = 'success' where status = 'cancelled';
+
+alter table model_invocations
+  drop constraint if exists model_invocations_status_check;
+
+alter table model_invocations
+  add constraint model_invocations_status_check check (
+    status in (
+      'success',
+      'error',
+      'upstream_timeout',
+      'upstream_rate_limited',
+      'upstream_unavailable',
+      'upstream_auth_failed',
+      'upstream_bad_request',
+      'content_filtered',
+      'context_length_exceeded',
+      'upstream_error'
+    )
+  );
@@ -0,0 +1,21 @@
+-- Requests the client stopped are logged as `cancelled`, whether or not any
+-- output had arrived, so they still show up in the metrics.
+alter table model_invocations
+  drop constraint if exists model_invocations_status_check;
+
+alter table model_invocations
+  add constraint model_invocations_status_check check (
+    status in (
+      'success',
+      'cancelled',
+      'error',
+      'upstream_timeout',
+      'upstream_rate_limited',
+      'upstream_unavailable',
+      'upstream_auth_failed',
+      'upstream_bad_request',
+      'content_filtered',
+      'context_length_exceeded',
+      'upstream_error'
+    )
+  );
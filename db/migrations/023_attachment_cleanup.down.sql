@@ -0,0 +1,5 @@
+-- Objects still queued for removal stay in the bucket.
+drop index if exists idx_attachments_unsent;
+drop trigger if exists attachments_queue_orphan on attachments;
+drop function if exists queue_attachment_orphan();
+drop table if exists attachment_orphans;
@@ -0,0 +1,39 @@
+-- Storage objects of deleted attachment rows, waiting to be removed by
+-- `removeStaleAttachments`. Rows also go away through cascades (a deleted
+-- conversation or message), which cannot reach Storage themselves, so every
+-- deleted row queues its object here.
+create table if not exists attachment_orphans (
+  storage_path text primary key,
+  deleted_at timestamptz not null default now()
+);
+
+-- No policies: the queue is only read and written by the server.
+alter table attachment_orphans enable row level security;
+
+-- Security definer so that a cascade started by a signed-in user (deleting
+-- their own conversation) can still write to the queue.
+create or replace function queue_attachment_orphan()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into attachment_orphans (storage_path)
+  values (old.storage_path)
+  on conflict (storage_path) do nothing;
+  return old;
+end;
+$$;
+
+revoke execute on function queue_attachment_orphan() from public;
+
+drop trigger if exists attachments_queue_orphan on attachments;
+create trigger attachments_queue_orphan
+  after delete on attachments
+  for each row execute function queue_attachment_orphan();
+
+-- Unsent uploads are deleted after a day.
+create index if not exists idx_attachments_unsent
+  on attachments (created_at)
+  where message_id is null;
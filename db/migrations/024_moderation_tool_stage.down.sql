@@ -0,0 +1,10 @@
+-- Before 024 tool results were not moderated.
+delete from moderation_events where stage = 'tool';
+
+alter table moderation_events
+  drop constraint if exists moderation_events_stage_check;
+
+alter table moderation_events
+  add constraint moderation_events_stage_check check (
+    stage in ('input', 'output')
+  );
@@ -0,0 +1,9 @@
+-- Tool results are moderated before they are stored and sent back to the
+-- model, and logged under their own `tool` stage.
+alter table moderation_events
+  drop constraint if exists moderation_events_stage_check;
+
+alter table moderation_events
+  add constraint moderation_events_stage_check check (
+    stage in ('input', 'output', 'tool')
+  );
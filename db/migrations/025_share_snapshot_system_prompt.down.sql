@@ -0,0 +1,2 @@
+-- The removed prompts cannot be restored; nothing to undo.
+select 1;
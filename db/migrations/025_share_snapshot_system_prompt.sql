@@ -0,0 +1,5 @@
+-- Share snapshots no longer carry the owner's system prompt, which could be a
+-- private persona prompt. Removes it from links created before.
+update conversation_shares
+set snapshot = snapshot - 'system_prompt'
+where snapshot ? 'system_prompt';
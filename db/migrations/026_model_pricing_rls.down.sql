@@ -0,0 +1 @@
+alter table model_pricing disable row level security;
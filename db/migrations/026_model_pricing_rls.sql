@@ -0,0 +1,2 @@
+-- Read and written only by the server with the service-role key.
+alter table model_pricing enable row level security;
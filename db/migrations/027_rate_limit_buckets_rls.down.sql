@@ -0,0 +1 @@
+alter table rate_limit_buckets disable row level security;
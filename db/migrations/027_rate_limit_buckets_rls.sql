@@ -0,0 +1,3 @@
+-- No policies: buckets are only touched by consume_rate_limit, which runs
+-- with the service-role key, so callers cannot reset their own bucket.
+alter table rate_limit_buckets enable row level security;
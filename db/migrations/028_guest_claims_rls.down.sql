@@ -0,0 +1 @@
+alter table guest_claims disable row level security;
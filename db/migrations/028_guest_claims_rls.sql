@@ -0,0 +1,3 @@
+-- No policies: claims are only read and written by claim_guest_conversations
+-- with the service-role key.
+alter table guest_claims enable row level security;
@@ -0,0 +1,57 @@
+const path = require("path");
+require("dotenv").config({ path: path.join(__dirname, "..", ".env.local") });
+const { Client } = require("pg");
+
+// Fills estimated_cost_usd on historical model_invocations rows from the
+// model_pricing row that was in effect when each invocation was created.
+// Pass --all to recompute rows that already have a cost.
+const BACKFILL_SQL = `
+  update model_invocations mi
+  set estimated_cost_usd = round(
+    (
+      coalesce(mi.input_tokens, 0) * p.input_usd_per_million +
+      coalesce(mi.output_tokens, 0) * p.output_usd_per_million
+    ) / 1000000.0,
+    6
+  )
+  from model_pricing p
+  where p.provider = mi.provider
+    and p.model = mi.model
+    and p.effective_from = (
+      select max(p2.effective_from)
+      from model_pricing p2
+      where p2.provider = mi.provider
+        and p2.model = mi.model
+        and p2.effective_from <= mi.created_at
+    )
+    and (mi.input_tokens is not null or mi.output_tokens is not null)
+    and ($1::boolean or mi.estimated_cost_usd is null)
+`;
+
+async function main() {
+  const connectionString = process.env.SUPABASE_DB_URL;
+
+  if (!connectionString) {
+    console.error(
+      "SUPABASE_DB_URL is not set. Make sure it exists in .env.local before running the backfill."
+    );
+    process.exit(1);
+  }
+
+  const recomputeAll = process.argv.includes("--all");
+
+  const client = new Client({ connectionString });
+  await client.connect();
+
+  try {
+    const result = await client.query(BACKFILL_SQL, [recomputeAll]);
+    console.log(`Updated estimated_cost_usd on ${result.rowCount} row(s).`);
+  } catch (error) {
+    console.error("Cost backfill failed:", error);
+    process.exitCode = 1;
+  } finally {
+    await client.end();
+  }
+}
+
+main();
@@ -1,44 +1,249 @@
 const path = require("path");
 const fs = require("fs");
+const crypto = require("crypto");
 require("dotenv").config({ path: path.join(__dirname, "..", ".env.local") });
 const { Client } = require("pg");
 
+// Usage: node scripts/run-migrations.cjs
+//          [status | up | down [count] | baseline <NNN or name>]
+//
+// Applied migrations are recorded in schema_migrations with a checksum of
+// the file, so `up` only runs new files and refuses to continue if an
+// applied file was edited. `NNN_name.down.sql` is the rollback for
+// `NNN_name.sql`. Each file runs in its own transaction together with its
+// schema_migrations row, so migrations must not contain begin/commit.
+// `baseline` records every file up to the given one as applied without
+// running it, for databases migrated before schema_migrations existed.
+
+const MIGRATIONS_DIR = path.join(__dirname, "..", "db", "migrations");
+// Any fixed key works; every runner has to use the same one.
+const ADVISORY_LOCK_KEY = 4_820_173_001;
+const TRANSACTION_CONTROL = /^\s*(begin|commit|rollback)\s*;/im;
+
+function checksum(sql) {
+  return crypto.createHash("sha256").update(sql).digest("hex");
+}
+
+function loadMigrations() {
+  return fs
+    .readdirSync(MIGRATIONS_DIR)
+    .filter((file) => /^\d+_.+\.sql$/.test(file) && !file.endsWith(".down.sql"))
+    .sort()
+    .map((file) => {
+      const name = file.slice(0, -".sql".length);
+      const sql = fs.readFileSync(path.join(MIGRATIONS_DIR, file), "utf8");
+      const downPath = path.join(MIGRATIONS_DIR, `${name}.down.sql`);
+
+      return {
+        name,
+        sql,
+        checksum: checksum(sql),
+        downSql: fs.existsSync(downPath)
+          ? fs.readFileSync(downPath, "utf8")
+          : null,
+      };
+    });
+}
+
+async function loadApplied(client) {
+  await client.query(`
+    create table if not exists schema_migrations (
+      name text primary key,
+      checksum text not null,
+      applied_at timestamptz not null default now()
+    )
+  `);
+
+  const { rows } = await client.query(
+    "select name, checksum, applied_at from schema_migrations order by name"
+  );
+  return new Map(rows.map((row) => [row.name, row]));
+}
+
+async function inTransaction(client, work) {
+  await client.query("begin");
+  try {
+    await work();
+    await client.query("commit");
+  } catch (error) {
+    await client.query("rollback");
+    throw error;
+  }
+}
+
+function printStatus(migrations, applied) {
+  const known = new Set(migrations.map((m) => m.name));
+
+  for (const migration of migrations) {
+    const row = applied.get(migration.name);
+    let state = "pending";
+    if (row) {
+      state = row.checksum === migration.checksum ? "applied" : "CHANGED";
+    }
+
+    const appliedAt = row ? `  ${row.applied_at.toISOString()}` : "";
+    const down = migration.downSql === null ? "  (no down script)" : "";
+    console.log(`${state.padEnd(8)} ${migration.name}${appliedAt}${down}`);
+  }
+
+  for (const name of applied.keys()) {
+    if (!known.has(name)) console.log(`${"MISSING".padEnd(8)} ${name}`);
+  }
+}
+
+async function migrateUp(client, migrations, applied) {
+  const changed = migrations.filter(
+    (m) => applied.has(m.name) && applied.get(m.name).checksum !== m.checksum
+  );
+
+  if (changed.length > 0) {
+    throw new Error(
+      `Applied migrations were edited: ${changed
+        .map((m) => m.name)
+        .join(", ")}. Add a new migration instead of changing an applied one.`
+    );
+  }
+
+  const pending = migrations.filter((m) => !applied.has(m.name));
+  if (pending.length === 0) {
+    console.log("Database is up to date.");
+    return;
+  }
+
+  for (const migration of pending) {
+    if (TRANSACTION_CONTROL.test(migration.sql)) {
+      throw new Error(
+        `${migration.name} contains begin/commit; the runner wraps each file in its own transaction.`
+      );
+    }
+
+    console.log(`Applying ${migration.name}`);
+    await inTransaction(client, async () => {
+      await client.query(migration.sql);
+      await client.query(
+        "insert into schema_migrations (name, checksum) values ($1, $2)",
+        [migration.name, migration.checksum]
+      );
+    });
+  }
+
+  console.log(`Applied ${pending.length} migration(s).`);
+}
+
+async function migrateDown(client, migrations, applied, count) {
+  const byName = new Map(migrations.map((m) => [m.name, m]));
+  const targets = [...applied.keys()].sort().reverse().slice(0, count);
+
+  if (targets.length === 0) {
+    console.log("No applied migrations to roll back.");
+    return;
+  }
+
+  for (const name of targets) {
+    const migration = byName.get(name);
+    if (!migration || migration.downSql === null) {
+      throw new Error(`No down script for ${name}; stopping.`);
+    }
+
+    console.log(`Rolling back ${name}`);
+    await inTransaction(client, async () => {
+      await client.query(migration.downSql);
+      await client.query("delete from schema_migrations where name = $1", [
+        name,
+      ]);
+    });
+  }
+
+  console.log(`Rolled back ${targets.length} migration(s).`);
+}
+
+async function baseline(client, migrations, applied, target) {
+  const last = migrations.findIndex(
+    (m) => m.name === target || m.name.split("_")[0] === target
+  );
+
+  if (last === -1) {
+    throw new Error(`No migration named ${target}.`);
+  }
+
+  const adopted = migrations
+    .slice(0, last + 1)
+    .filter((m) => !applied.has(m.name));
+
+  await inTransaction(client, async () => {
+    for (const migration of adopted) {
+      await client.query(
+        "insert into schema_migrations (name, checksum) values ($1, $2)",
+        [migration.name, migration.checksum]
+      );
+      console.log(`Recorded ${migration.name}`);
+    }
+  });
+
+  console.log(
+    `Recorded ${adopted.length} migration(s) as applied without running them.`
+  );
+}
+
 async function main() {
-  const connectionString = process.env.SUPABASE_DB_URL;
+  const [command = "up", arg] = process.argv.slice(2);
+  const count = arg === undefined ? 1 : Number(arg);
 
-  if (!connectionString) {
+  if (!["status", "up", "down", "baseline"].includes(command)) {
     console.error(
-      "SUPABASE_DB_URL is not set. Make sure it exists in .env.local before running migrations."
+      `Unknown command "${command}". Use status, up, down or baseline.`
     );
     process.exit(1);
   }
 
-  const migrationsDir = path.join(__dirname, "..", "db", "migrations");
-  const files = fs
-    .readdirSync(migrationsDir)
-    .filter((file) => file.endsWith(".sql"))
-    .sort();
+  if (command === "down" && (!Number.isInteger(count) || count < 1)) {
+    console.error("down takes a positive number of migrations to roll back.");
+    process.exit(1);
+  }
 
-  if (files.length === 0) {
-    console.log("No migration files found in db/migrations.");
-    return;
+  if (command === "baseline" && !arg) {
+    console.error(
+      "baseline takes the last migration the database already has, e.g. 014."
+    );
+    process.exit(1);
+  }
+
+  const connectionString = process.env.SUPABASE_DB_URL;
+
+  if (!connectionString) {
+    console.error(
+      "SUPABASE_DB_URL is not set. Make sure it exists in .env.local before running migrations."
+    );
+    process.exit(1);
   }
 
+  const migrations = loadMigrations();
   const client = new Client({ connectionString });
   await client.connect();
 
   try {
-    for (const file of files) {
-      const fullPath = path.join(migrationsDir, file);
-      const sql = fs.readFileSync(fullPath, "utf8");
-      console.log(`Running migration: ${file}`);
-      await client.query(sql);
+    // Session-level lock: a second deploy waits here, then finds nothing
+    // left to apply.
+    await client.query("select pg_advisory_lock($1)", [ADVISORY_LOCK_KEY]);
+
+    const applied = await loadApplied(client);
+
+    if (command === "status") {
+      printStatus(migrations, applied);
+    } else if (command === "up") {
+      await migrateUp(client, migrations, applied);
+    } else if (command === "baseline") {
+      await baseline(client, migrations, applied, arg);
+    } else {
+      await migrateDown(client, migrations, applied, count);
     }
-    console.log("Migrations completed successfully.");
   } catch (error) {
-    console.error("Migration failed:", error);
+    console.error("Migration failed:", error.message ?? error);
     process.exitCode = 1;
   } finally {
+    await client
+      .query("select pg_advisory_unlock($1)", [ADVISORY_LOCK_KEY])
+      .catch(() => {});
     await client.end();
   }
 }
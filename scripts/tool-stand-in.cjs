@@ -0,0 +1,83 @@
+const http = require("http");
+
+// A local stand-in for the sites the fetch_url tool may read, so tool calling
+// can be tried without network access. Serves a few fixed pages on
+// 127.0.0.1; point TOOL_FETCH_ALLOWLIST at http://127.0.0.1:4010/ to use it.
+const PORT = Number(process.env.TOOL_STAND_IN_PORT) || 4010;
+
+const PAGES = {
+  "/": {
+    type: "text/html; charset=utf-8",
+    body: `<!doctype html>
+<html>
+  <head><title>Tool stand-in</title></head>
+  <body>
+    <h1>Tool stand-in</h1>
+    <p>Sample pages for the fetch_url tool:</p>
+    <ul>
+      <li><a href="/docs/getting-started">/docs/getting-started</a></li>
+      <li><a href="/status.json">/status.json</a></li>
+      <li><a href="/changelog.txt">/changelog.txt</a></li>
+    </ul>
+  </body>
+</html>`,
+  },
+  "/docs/getting-started": {
+    type: "text/html; charset=utf-8",
+    body: `<!doctype html>
+<html>
+  <head>
+    <title>Getting started</title>
+    <style>body { font-family: sans-serif; }</style>
+  </head>
+  <body>
+    <h1>Getting started</h1>
+    <p>Install the CLI with <code>npm install -g acme-cli</code>.</p>
+    <p>Run <code>acme init</code> in an empty folder to create a project.</p>
+    <p>The free plan includes 3 projects and 10&nbsp;GB of storage.</p>
+  </body>
+</html>`,
+  },
+  "/status.json": {
+    type: "application/json",
+    body: JSON.stringify(
+      {
+        status: "degraded",
+        components: [
+          { name: "api", status: "operational" },
+          { name: "storage", status: "degraded", since: "2026-01-15T08:30:00Z" },
+        ],
+      },
+      null,
+      2
+    ),
+  },
+  "/changelog.txt": {
+    type: "text/plain; charset=utf-8",
+    body: [
+      "2.4.0 - Added project templates.",
+      "2.3.1 - Fixed uploads larger than 2 GB.",
+      "2.3.0 - Added the `acme logs --follow` command.",
+    ].join("\n"),
+  },
+};
+
+const server = http.createServer((request, response) => {
+  const { pathname } = new URL(request.url, `http://127.0.0.1:${PORT}`);
+  const page = request.method === "GET" ? PAGES[pathname] : null;
+
+  if (!page) {
+    response.writeHead(request.method === "GET" ? 404 : 405, {
+      "Content-Type": "text/plain; charset=utf-8",
+    });
+    response.end("Not found.");
+    return;
+  }
+
+  response.writeHead(200, { "Content-Type": page.type });
+  response.end(page.body);
+});
+
+server.listen(PORT, "127.0.0.1", () => {
+  console.log(`Tool stand-in listening on http://127.0.0.1:${PORT}/`);
+});
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCaller } from "@/lib/auth";
+import { getOwnedAttachment } from "@/lib/attachments";
+import { getAttachmentObject } from "@/lib/attachmentStorage";
+
+/** Downloads an attachment the caller owns. */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const guestId = request.nextUrl.searchParams.get("guestId");
+  const caller = await getCaller(request, guestId);
+
+  const { data: attachment, error } = await getOwnedAttachment(caller, id);
+
+  if (error) {
+    console.error("Error loading attachment", error);
+    return NextResponse.json(
+      { error: "Failed to load attachment." },
+      { status: 500 },
+    );
+  }
+
+  if (!attachment) {
+    return NextResponse.json(
+      { error: "Attachment not found." },
+      { status: 404 },
+    );
+  }
+
+  const { data: bytes, error: storageError } = await getAttachmentObject(
+    attachment.storage_path,
+  );
+
+  if (storageError || !bytes) {
+    console.error("Error reading attachment", storageError);
+    return NextResponse.json(
+      { error: "Failed to load attachment." },
+      { status: 500 },
+    );
+  }
+
+  const fileName = attachment.file_name.replace(/["\\\r\n]/g, "_");
+
+  return new Response(new Uint8Array(bytes), {
+    headers: {
+      "Content-Type": attachment.content_type,
+      "Content-Disposition": `attachment; filename="${fileName}"`,
+      "Cache-Control": "private, no-store",
+      "X-Content-Type-Options": "nosniff",
+    },
+  });
+}
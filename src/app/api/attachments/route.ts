@@ -0,0 +1,142 @@
+import { after, NextRequest, NextResponse } from "next/server";
+import { getCaller } from "@/lib/auth";
+import {
+  MAX_ATTACHMENT_BYTES,
+  classifyAttachment,
+  createAttachment,
+  extractAttachmentText,
+  removeStaleAttachments,
+} from "@/lib/attachments";
+import {
+  moderateContent,
+  moderationCategories,
+  recordModerationEvent,
+} from "@/lib/moderation/pipeline";
+import { checkRateLimit, rateLimitHeaders } from "@/lib/rateLimit";
+
+/**
+ * Uploads one file (`multipart/form-data` with `file` and, for guests,
+ * `guestId`). The returned id is sent with the next chat turn. Uploads count
+ * against the same rate limit as chat requests.
+ */
+export async function POST(request: NextRequest) {
+  let form: FormData;
+
+  try {
+    form = await request.formData();
+  } catch {
+    return NextResponse.json(
+      { error: "Expected a multipart form upload." },
+      { status: 400 },
+    );
+  }
+
+  const guestId = form.get("guestId");
+  const caller = await getCaller(
+    request,
+    typeof guestId === "string" ? guestId : null,
+  );
+
+  if (!caller.userId && !caller.guestId) {
+    return NextResponse.json(
+      { error: "Sign in or provide a guest id to upload files." },
+      { status: 401 },
+    );
+  }
+
+  const rateLimit = await checkRateLimit(request, caller);
+  const limitHeaders = rateLimitHeaders(rateLimit);
+
+  if (rateLimit && !rateLimit.allowed) {
+    return NextResponse.json(
+      {
+        error: "Rate limit exceeded. Please wait a moment and try again.",
+        retryAfterSeconds: rateLimit.retryAfterSeconds,
+      },
+      { status: 429, headers: limitHeaders },
+    );
+  }
+
+  const file = form.get("file");
+
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: "'file' is required." }, { status: 400 });
+  }
+
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return NextResponse.json(
+      {
+        error: `Files can be at most ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB.`,
+      },
+      { status: 413 },
+    );
+  }
+
+  const kind = classifyAttachment(file.name, file.type);
+
+  if (!kind) {
+    return NextResponse.json(
+      { error: "Only images, PDFs, and text or code files are supported." },
+      { status: 415 },
+    );
+  }
+
+  const bytes = Buffer.from(await file.arrayBuffer());
+  const text = extractAttachmentText(kind, bytes);
+
+  // The text is sent upstream with every turn that carries the file, so it is
+  // moderated once here, like a typed message, and stored redacted.
+  const moderation = text
+    ? await moderateContent(text, { stage: "input", signal: request.signal })
+    : null;
+
+  if (moderation) {
+    await recordModerationEvent({
+      caller,
+      conversationId: null,
+      messageId: null,
+      stage: "input",
+      result: moderation,
+    });
+  }
+
+  if (moderation?.rejected) {
+    return NextResponse.json(
+      {
+        error:
+          "This file was blocked by the content policy. Remove the flagged content and try again.",
+        code: "moderation_rejected",
+        categories: moderationCategories(moderation),
+      },
+      { status: 422, headers: limitHeaders },
+    );
+  }
+
+  const { data: attachment, error } = await createAttachment(
+    caller,
+    { name: file.name, type: file.type, bytes },
+    kind,
+    moderation?.content ?? text,
+  );
+
+  if (error || !attachment) {
+    console.error("Error storing attachment", error);
+    return NextResponse.json(
+      { error: "Failed to upload file." },
+      { status: 500 },
+    );
+  }
+
+  // Housekeeping rides along with uploads, once the response is sent.
+  after(async () => {
+    const { error: cleanupError } = await removeStaleAttachments();
+    if (cleanupError) {
+      console.error("Error removing stale attachments", cleanupError);
+    }
+  });
+
+  return NextResponse.json(
+    { attachment },
+    { status: 201, headers: limitHeaders },
+  );
+}
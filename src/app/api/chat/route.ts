@@ -1,77 +1,575 @@
-import { NextRequest, NextResponse } from "next/server";
+import { after, NextRequest, NextResponse } from "next/server";
+import {
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  getPendingAttachments,
+  linkAttachments,
+  loadConversationAttachments,
+  loadImageDataUrls,
+  withAttachmentText,
+  type Attachment,
+} from "@/lib/attachments";
+import { getCaller, type Caller } from "@/lib/auth";
+import { createComparison } from "@/lib/comparisons";
+import {
+  fitToBudget,
+  getContextBudget,
+  splitAtSummary,
+  storeSummary,
+  summarizeTurns,
+  toSummaryMessage,
+} from "@/lib/context";
+import {
+  getOwnedConversation,
+  isToolExchange,
+  listConversationMessages,
+  setActiveMessage,
+  toTurnNodes,
+  type StoredMessage,
+} from "@/lib/conversations";
+import { EMPTY_USAGE, recordInvocation } from "@/lib/invocations";
+import {
+  findModel,
+  getDefaultModel,
+  getProvider,
+  makeModelId,
+  type ModelOption,
+} from "@/lib/llm/registry";
+import {
+  classifyUpstreamError,
+  completeWithRetries,
+  openStreamWithRetries,
+  type FailedAttempt,
+} from "@/lib/llm/resilience";
+import {
+  type ChatCompletionMessage,
+  type TokenUsage,
+  type ToolCall,
+  type ToolDefinition,
+  type UpstreamErrorCode,
+} from "@/lib/llm/types";
+import { getPath } from "@/lib/messageTree";
+import {
+  moderateContent,
+  moderationCategories,
+  recordModerationEvent,
+} from "@/lib/moderation/pipeline";
+import { getOwnedPersona, type Persona } from "@/lib/personas";
+import {
+  checkDailyTokenQuota,
+  checkRateLimit,
+  rateLimitHeaders,
+} from "@/lib/rateLimit";
 import { supabaseServerClient } from "@/lib/supabaseServerClient";
+import { encodeSseEvent } from "@/lib/sse";
+import { generateConversationTitle, titleFromMessage } from "@/lib/titles";
+import { estimateMessageTokens } from "@/lib/tokens";
+import {
+  executeToolCall,
+  getToolMaxSteps,
+  listToolDefinitions,
+} from "@/lib/tools/registry";
 
 type IncomingMessage = {
   role: "user" | "assistant" | "system";
   content: string;
 };
 
-const rateLimitStore = new Map<
-  string,
-  { count: number; windowStart: number }
->();
+/** Stored turns that are replayed as history (see `isToolExchange`). */
+type HistoryMessage = StoredMessage & { role: IncomingMessage["role"] };
+
+function isHistoryTurn<T extends StoredMessage>(
+  message: T,
+): message is T & HistoryMessage {
+  return !isToolExchange(message);
+}
+
+type AssistantReplyMessage = {
+  id: string;
+  parentId: string | null;
+  role: "assistant";
+  content: string;
+};
+
+type ToolStepMessage = {
+  id: string;
+  parentId: string | null;
+  role: "assistant";
+  content: string;
+  toolCalls: ToolCall[];
+};
+
+type ToolResultMessage = {
+  id: string;
+  parentId: string | null;
+  role: "tool";
+  content: string;
+  toolCallId: string;
+  toolName: string;
+};
+
+/** Upstream failures, plus turns the moderation pipeline rejected. */
+type ChatErrorCode = UpstreamErrorCode | "moderation_rejected";
+
+type ChatStreamEvent =
+  | {
+      type: "start";
+      conversationId: string;
+      modelId: string;
+      userMessageId: string | null;
+      contextSummary: string | null;
+      /** The stored user turn, when moderation redacted part of it. */
+      redactedUserContent: string | null;
+    }
+  | { type: "delta"; content: string }
+  | { type: "tool_step"; message: ToolStepMessage }
+  | { type: "tool_result"; message: ToolResultMessage }
+  | {
+      type: "done";
+      conversationId: string;
+      message: AssistantReplyMessage;
+      /** The stored reply differs from the streamed text. */
+      redacted: boolean;
+    }
+  | { type: "title"; conversationId: string; title: string }
+  /**
+   * `code` is left out when the reply could not be stored. `message` is the
+   * stored partial reply of a stream that failed midway.
+   */
+  | {
+      type: "error";
+      error: string;
+      code?: ChatErrorCode;
+      message?: AssistantReplyMessage;
+    };
 
-const RATE_LIMIT_WINDOW_MS = 60_000;
-const RATE_LIMIT_MAX_REQUESTS = 20;
 const MAX_GUEST_MESSAGES = 12;
-const MAX_AUTH_MESSAGES = 40;
+type PromptSettings = {
+  systemPrompt: string;
+  temperature: number | null;
+  maxTokens: number | null;
+};
 
-function getClientIdentifier(
-  request: NextRequest,
-  userId: string | null,
-  guestId: string | null,
-) {
-  const ipHeader = request.headers.get("x-forwarded-for");
-  const ipFromHeader = ipHeader?.split(",")[0]?.trim();
-  const ip = ipFromHeader ?? null;
-
-  if (userId) return `user:${userId}`;
-  if (guestId) return `guest:${guestId}`;
-  if (ip) return `ip:${ip}`;
-  return "anonymous";
+const DEFAULT_PROMPT_SETTINGS: PromptSettings = {
+  systemPrompt:
+    "You are a helpful assistant inside a Baseten-powered chat application.",
+  temperature: null,
+  maxTokens: null,
+};
+
+const UPSTREAM_ERROR_RESPONSES: Record<
+  UpstreamErrorCode,
+  { status: number; error: string }
+> = {
+  upstream_timeout: {
+    status: 504,
+    error: "The model took too long to respond.",
+  },
+  upstream_rate_limited: {
+    status: 503,
+    error: "The model provider is busy right now.",
+  },
+  upstream_unavailable: {
+    status: 502,
+    error: "The model provider is unavailable.",
+  },
+  upstream_auth_failed: {
+    status: 502,
+    error: "The model provider rejected the server's credentials.",
+  },
+  upstream_bad_request: {
+    status: 502,
+    error: "The model provider rejected the request.",
+  },
+  content_filtered: {
+    status: 422,
+    error: "The response was blocked by the provider's content filter.",
+  },
+  context_length_exceeded: {
+    status: 413,
+    error: "This conversation is too long for the selected model.",
+  },
+  upstream_error: { status: 502, error: "Model request failed." },
+};
+
+const MODERATION_REJECTED_ERRORS = {
+  input:
+    "This message was blocked by the content policy. Remove the flagged content and try again.",
+  output: "The reply was blocked by the content policy.",
+};
+
+/** Every failed upstream attempt, including retries and fallbacks, is logged. */
+function recordFailedAttempt(conversationId: string) {
+  return async ({ model, code, latencyMs }: FailedAttempt) => {
+    await recordInvocation({
+      conversationId,
+      model,
+      latencyMs,
+      timeToFirstTokenMs: null,
+      usage: EMPTY_USAGE,
+      status: code,
+    });
+  };
 }
 
-function isRateLimited(key: string) {
-  const now = Date.now();
-  const entry = rateLimitStore.get(key);
+const REPLY_NOT_SAVED_ERROR = "The reply could not be saved. Please try again.";
 
-  if (!entry) {
-    rateLimitStore.set(key, { count: 1, windowStart: now });
-    return false;
+async function persistAssistantTurn({
+  conversationId,
+  parentId,
+  model,
+  content,
+  latencyMs,
+  timeToFirstTokenMs,
+  usage,
+  status = "success",
+}: {
+  conversationId: string;
+  parentId: string | null;
+  model: ModelOption;
+  content: string;
+  latencyMs: number;
+  timeToFirstTokenMs: number | null;
+  usage: TokenUsage;
+  /**
+   * `cancelled` for a partial reply the client stopped, or the failure code
+   * for one cut short by the provider.
+   */
+  status?: "success" | "cancelled" | UpstreamErrorCode;
+}) {
+  const invocationId = await recordInvocation({
+    conversationId,
+    model,
+    latencyMs,
+    timeToFirstTokenMs,
+    usage,
+    status,
+  });
+
+  const { data: assistantRow, error: insertAssistantError } =
+    await supabaseServerClient
+      .from("messages")
+      .insert({
+        conversation_id: conversationId,
+        role: "assistant",
+        content,
+        parent_id: parentId,
+        invocation_id: invocationId,
+      })
+      .select("id")
+      .single();
+
+  if (insertAssistantError) {
+    console.error("Error inserting assistant message", insertAssistantError);
   }
 
-  if (now - entry.windowStart > RATE_LIMIT_WINDOW_MS) {
-    rateLimitStore.set(key, { count: 1, windowStart: now });
-    return false;
+  const assistantMessageId = (assistantRow?.id as string | undefined) ?? null;
+  if (assistantMessageId) {
+    await setActiveMessage(conversationId, assistantMessageId);
   }
 
-  entry.count += 1;
-  if (entry.count > RATE_LIMIT_MAX_REQUESTS) {
-    return true;
+  return { assistantMessageId, invocationId };
+}
+
+/**
+ * Moderates a finished reply before storing it. A rejected reply is not
+ * stored, but its invocation is still recorded since the tokens were spent.
+ */
+async function persistModeratedReply({
+  caller,
+  signal,
+  ...turn
+}: Parameters<typeof persistAssistantTurn>[0] & {
+  caller: Caller;
+  signal?: AbortSignal;
+}) {
+  const moderation = await moderateContent(turn.content, {
+    stage: "output",
+    signal,
+  });
+
+  if (moderation.rejected) {
+    const invocationId = await recordInvocation({
+      conversationId: turn.conversationId,
+      model: turn.model,
+      latencyMs: turn.latencyMs,
+      timeToFirstTokenMs: turn.timeToFirstTokenMs,
+      usage: turn.usage,
+      status: turn.status ?? "success",
+    });
+    await recordModerationEvent({
+      caller,
+      conversationId: turn.conversationId,
+      messageId: null,
+      stage: "output",
+      result: moderation,
+    });
+    return { moderation, assistantMessageId: null, invocationId };
   }
 
-  return false;
+  const { assistantMessageId, invocationId } = await persistAssistantTurn({
+    ...turn,
+    content: moderation.content,
+  });
+  await recordModerationEvent({
+    caller,
+    conversationId: turn.conversationId,
+    messageId: assistantMessageId,
+    stage: "output",
+    result: moderation,
+  });
+
+  return { moderation, assistantMessageId, invocationId };
 }
 
-function makeClientMessageId() {
-  return `assistant-${Math.random().toString(36).slice(2)}`;
+/**
+ * Names a conversation created by this turn once its first reply is stored.
+ * A failure keeps the placeholder title and is only logged. JSON responses run
+ * it with `after()`, so the client picks the title up from
+ * `GET /api/conversations/:id/title` rather than waiting for it.
+ */
+async function titleNewConversation(
+  conversationId: string,
+  model: ModelOption,
+) {
+  const { data, error } = await generateConversationTitle({
+    conversationId,
+    model,
+  });
+
+  if (error) {
+    console.error("Error generating conversation title", error);
+  }
+  return data;
 }
 
-export async function POST(request: NextRequest) {
-  const basetenApiKey = process.env.BASETEN_API_KEY;
-  const basetenModelSlug = process.env.BASETEN_MODEL_SLUG;
+/**
+ * Stores the assistant message of a step that asked for tools. Like the final
+ * reply it gets an invocation row, but it does not become the active message.
+ * Resolves to `null` if the message could not be stored.
+ */
+async function persistToolRequest({
+  conversationId,
+  parentId,
+  model,
+  content,
+  toolCalls,
+  latencyMs,
+  timeToFirstTokenMs,
+  usage,
+}: {
+  conversationId: string;
+  parentId: string | null;
+  model: ModelOption;
+  content: string;
+  toolCalls: ToolCall[];
+  latencyMs: number;
+  timeToFirstTokenMs: number | null;
+  usage: TokenUsage;
+}): Promise<ToolStepMessage | null> {
+  const invocationId = await recordInvocation({
+    conversationId,
+    model,
+    latencyMs,
+    timeToFirstTokenMs,
+    usage,
+    status: "success",
+  });
 
-  if (!basetenApiKey || !basetenModelSlug) {
-    return NextResponse.json(
-      { error: "Baseten configuration is missing." },
-      { status: 500 },
-    );
+  const { data, error } = await supabaseServerClient
+    .from("messages")
+    .insert({
+      conversation_id: conversationId,
+      role: "assistant",
+      content,
+      parent_id: parentId,
+      tool_calls: toolCalls,
+      invocation_id: invocationId,
+    })
+    .select("id")
+    .single();
+
+  if (error || !data) {
+    console.error("Error inserting tool call message", error);
+    return null;
+  }
+
+  return {
+    id: data.id as string,
+    parentId,
+    role: "assistant",
+    content,
+    toolCalls,
+  };
+}
+
+/**
+ * Runs the calls one after the other, storing each result as a `tool`
+ * message chained below the previous one. Results are moderated first: a
+ * rejected one is replaced with a notice the model can answer from. Resolves
+ * to `null` if a result could not be stored, since the model cannot continue
+ * without it.
+ */
+async function runToolCalls({
+  conversationId,
+  parentId,
+  toolCalls,
+  caller,
+  signal,
+  onResult,
+}: {
+  conversationId: string;
+  parentId: string | null;
+  toolCalls: ToolCall[];
+  caller: Caller;
+  signal: AbortSignal;
+  onResult?: (message: ToolResultMessage) => void;
+}) {
+  const results: ToolResultMessage[] = [];
+  let lastParentId = parentId;
+
+  for (const call of toolCalls) {
+    const output = await executeToolCall(call, { caller, signal });
+    const moderation = await moderateContent(output.content, {
+      stage: "tool",
+      signal,
+    });
+    const content = moderation.rejected
+      ? "Error: the tool result was blocked by the content policy."
+      : moderation.content;
+
+    const { data, error } = await supabaseServerClient
+      .from("messages")
+      .insert({
+        conversation_id: conversationId,
+        role: "tool",
+        content,
+        parent_id: lastParentId,
+        tool_call_id: call.id,
+        tool_name: call.name,
+      })
+      .select("id")
+      .single();
+
+    if (error || !data) {
+      console.error("Error inserting tool message", error);
+      return null;
+    }
+
+    await recordModerationEvent({
+      caller,
+      conversationId,
+      messageId: data.id as string,
+      stage: "tool",
+      result: moderation,
+    });
+
+    const result: ToolResultMessage = {
+      id: data.id as string,
+      parentId: lastParentId,
+      role: "tool",
+      content,
+      toolCallId: call.id,
+      toolName: call.name,
+    };
+    results.push(result);
+    onResult?.(result);
+    lastParentId = result.id;
   }
 
+  return { results, lastParentId };
+}
+
+/** The step as the model sees it on its next call. */
+function toFollowUpMessages(
+  step: ToolStepMessage,
+  results: ToolResultMessage[],
+): ChatCompletionMessage[] {
+  return [
+    { role: "assistant", content: step.content, toolCalls: step.toolCalls },
+    ...results.map((result) => ({
+      role: "tool" as const,
+      content: result.content,
+      toolCallId: result.toolCallId,
+    })),
+  ];
+}
+
+/**
+ * Fits history into the model's token budget. Turns that no longer fit are
+ * folded into a rolling summary that is persisted as a `system` message.
+ */
+async function assembleContext({
+  conversationId,
+  model,
+  storedPath,
+  summaries,
+  newTurn,
+  budgetTokens,
+  signal,
+}: {
+  conversationId: string;
+  model: ModelOption;
+  storedPath: HistoryMessage[];
+  summaries: StoredMessage[];
+  newTurn: ChatCompletionMessage;
+  budgetTokens: number;
+  signal: AbortSignal;
+}): Promise<{ summary: string | null; turns: IncomingMessage[] }> {
+  const { summary: storedSummary, turns } = splitAtSummary(
+    storedPath,
+    summaries,
+  );
+  let summary = storedSummary?.content ?? null;
+
+  const fitted = fitToBudget({ turns, newTurn, summary, budgetTokens });
+  if (!fitted) return { summary, turns: [] };
+
+  const toTurn = (m: HistoryMessage): IncomingMessage => ({
+    role: m.role,
+    content: m.content,
+  });
+
+  if (fitted.overflow.length > 0) {
+    try {
+      const content = await summarizeTurns({
+        conversationId,
+        model,
+        previousSummary: summary,
+        turns: fitted.overflow.map(toTurn),
+        signal,
+      });
+
+      if (content) {
+        summary = content;
+        await storeSummary(
+          conversationId,
+          summary,
+          fitted.overflow[fitted.overflow.length - 1],
+        );
+      }
+    } catch (error) {
+      // Fall back to plain truncation; the next turn will try again.
+      console.error("Error summarizing conversation", error);
+    }
+  }
+
+  return { summary, turns: fitted.kept.map(toTurn) };
+}
+
+export async function POST(request: NextRequest) {
   let body: {
-    messages?: IncomingMessage[];
+    modelId?: string | null;
+    compareModelId?: string | null;
+    blind?: boolean;
+    message?: string;
+    messages?: unknown;
     conversationId?: string | null;
+    parentMessageId?: string | null;
+    regenerate?: boolean;
+    personaId?: string | null;
+    attachmentIds?: string[];
     guestId?: string | null;
+    stream?: boolean;
   };
 
   try {
@@ -80,42 +578,364 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
   }
 
-  const { messages, conversationId, guestId } = body;
+  const {
+    modelId,
+    compareModelId,
+    blind = false,
+    message,
+    messages,
+    conversationId,
+    parentMessageId,
+    regenerate,
+    personaId,
+    attachmentIds = [],
+    guestId,
+    stream,
+  } = body;
+
+  const requestedModel = findModel(modelId);
+  if (modelId && !requestedModel) {
+    return NextResponse.json({ error: "Unknown model." }, { status: 400 });
+  }
+
+  // Compare mode answers the turn with a second model as well; both replies
+  // become sibling branches and the user votes for one.
+  const compareModel = findModel(compareModelId);
+  if (compareModelId && !compareModel) {
+    return NextResponse.json(
+      { error: "Unknown comparison model." },
+      { status: 400 },
+    );
+  }
 
-  if (!messages || !Array.isArray(messages) || messages.length === 0) {
+  if (compareModel && stream) {
     return NextResponse.json(
-      { error: "'messages' array is required." },
+      { error: "Compare mode does not support streaming." },
       { status: 400 },
     );
   }
 
-  const authHeader = request.headers.get("authorization");
-  let userId: string | null = null;
+  // The client sends only the new user turn; the history is always rebuilt
+  // from the database, so client-written turns are never replayed.
+  const newUserContent =
+    typeof message === "string" && message.trim() ? message.trim() : null;
+
+  if (messages !== undefined) {
+    return NextResponse.json(
+      {
+        error:
+          "'messages' is no longer supported. Send the new turn as 'message'.",
+      },
+      { status: 400 },
+    );
+  }
 
-  if (authHeader?.startsWith("Bearer ")) {
-    const accessToken = authHeader.slice("Bearer ".length).trim();
-    if (accessToken) {
-      const { data, error } = await supabaseServerClient.auth.getUser(
-        accessToken,
+  if (regenerate) {
+    if (!conversationId || !parentMessageId) {
+      return NextResponse.json(
+        {
+          error:
+            "'conversationId' and 'parentMessageId' are required to regenerate.",
+        },
+        { status: 400 },
+      );
+    }
+  } else if (!newUserContent) {
+    return NextResponse.json(
+      { error: "'message' is required." },
+      { status: 400 },
+    );
+  }
+
+  if (
+    !Array.isArray(attachmentIds) ||
+    attachmentIds.length > MAX_ATTACHMENTS_PER_MESSAGE ||
+    attachmentIds.some((id) => typeof id !== "string")
+  ) {
+    return NextResponse.json(
+      {
+        error: `'attachmentIds' must be a list of at most ${MAX_ATTACHMENTS_PER_MESSAGE} ids.`,
+      },
+      { status: 400 },
+    );
+  }
+
+  if (attachmentIds.length > 0 && regenerate) {
+    return NextResponse.json(
+      { error: "Attachments can only be sent with a new 'message'." },
+      { status: 400 },
+    );
+  }
+
+  const caller = await getCaller(request, guestId ?? null);
+  const { userId } = caller;
+
+  const rateLimit = await checkRateLimit(request, caller);
+  const limitHeaders = rateLimitHeaders(rateLimit);
+
+  if (rateLimit && !rateLimit.allowed) {
+    return NextResponse.json(
+      {
+        error: "Rate limit exceeded. Please wait a moment and try again.",
+        retryAfterSeconds: rateLimit.retryAfterSeconds,
+      },
+      { status: 429, headers: limitHeaders },
+    );
+  }
+
+  const quota = await checkDailyTokenQuota(caller);
+
+  if (quota && !quota.allowed) {
+    return NextResponse.json(
+      {
+        error: userId
+          ? "You have reached today's token quota. It resets at midnight UTC."
+          : "Guests have reached today's token quota. Sign in with Google for a higher limit.",
+        retryAfterSeconds: quota.retryAfterSeconds,
+      },
+      {
+        status: 429,
+        headers: {
+          ...limitHeaders,
+          "Retry-After": String(quota.retryAfterSeconds),
+          "X-Quota-Limit": String(quota.limit),
+          "X-Quota-Used": String(quota.used),
+        },
+      },
+    );
+  }
+
+  const { data: pendingAttachments, error: attachmentsError } =
+    await getPendingAttachments(caller, attachmentIds);
+
+  if (attachmentsError) {
+    console.error("Error loading attachments", attachmentsError);
+    return NextResponse.json(
+      { error: "Failed to load attachments." },
+      { status: 500 },
+    );
+  }
+
+  if (!pendingAttachments) {
+    return NextResponse.json(
+      { error: "Attachment not found or already sent." },
+      { status: 400 },
+    );
+  }
+
+  let resolvedConversationId = conversationId ?? null;
+  let isNewConversation = false;
+  let storedModelId: string | null = null;
+  let activeMessageId: string | null = null;
+  let promptSettings: PromptSettings = DEFAULT_PROMPT_SETTINGS;
+
+  if (resolvedConversationId) {
+    const { data: ownedConversation, error } = await getOwnedConversation(
+      caller,
+      resolvedConversationId,
+    );
+
+    if (error) {
+      console.error("Error loading conversation", error);
+      return NextResponse.json(
+        { error: "Failed to load conversation." },
+        { status: 500 },
+      );
+    }
+
+    if (!ownedConversation) {
+      return NextResponse.json(
+        { error: "Conversation not found." },
+        { status: 404 },
+      );
+    }
+
+    activeMessageId = ownedConversation.active_message_id;
+
+    if (ownedConversation.system_prompt) {
+      promptSettings = {
+        systemPrompt: ownedConversation.system_prompt,
+        temperature: ownedConversation.temperature,
+        maxTokens: ownedConversation.max_tokens,
+      };
+    }
+
+    if (ownedConversation.provider && ownedConversation.model) {
+      storedModelId = makeModelId(
+        ownedConversation.provider,
+        ownedConversation.model,
+      );
+    }
+  }
+
+  // A persona is chosen when a chat starts; later turns replay the prompt that
+  // was copied onto the conversation.
+  let persona: Persona | null = null;
+
+  if (personaId && !resolvedConversationId) {
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Sign in to use personas." },
+        { status: 401 },
+      );
+    }
+
+    const { data, error } = await getOwnedPersona(userId, personaId);
+
+    if (error) {
+      console.error("Error loading persona", error);
+      return NextResponse.json(
+        { error: "Failed to load persona." },
+        { status: 500 },
+      );
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { error: "Persona not found." },
+        { status: 404 },
+      );
+    }
+
+    persona = data;
+    promptSettings = {
+      systemPrompt: data.system_prompt,
+      temperature: data.temperature,
+      maxTokens: data.max_tokens,
+    };
+  }
+
+  const personaModel =
+    persona?.provider && persona.model
+      ? findModel(makeModelId(persona.provider, persona.model))
+      : null;
+
+  const selectedModel =
+    requestedModel ??
+    findModel(storedModelId) ??
+    personaModel ??
+    getDefaultModel();
+  const provider = selectedModel ? getProvider(selectedModel.provider) : null;
+
+  if (!selectedModel || !provider) {
+    return NextResponse.json(
+      { error: "No model provider is configured." },
+      { status: 500 },
+    );
+  }
+
+  if (compareModel?.id === selectedModel.id) {
+    return NextResponse.json(
+      { error: "Pick two different models to compare." },
+      { status: 400 },
+    );
+  }
+
+  const replyModels = compareModel
+    ? [selectedModel, compareModel]
+    : [selectedModel];
+
+  let storedHistory: StoredMessage[] = [];
+
+  if (resolvedConversationId) {
+    const { data, error } = await listConversationMessages(
+      resolvedConversationId,
+    );
+
+    if (error) {
+      console.error("Error loading messages", error);
+      return NextResponse.json(
+        { error: "Failed to load conversation." },
+        { status: 500 },
       );
-      if (!error && data.user) {
-        userId = data.user.id;
-      }
     }
+
+    storedHistory = data;
   }
 
-  const clientKey = getClientIdentifier(request, userId, guestId ?? null);
-  if (isRateLimited(clientKey)) {
+  // The conversation is a tree: new turns hang off `parentMessageId` (an
+  // explicit `null` starts a new root, e.g. when editing the first message)
+  // or, by default, off the conversation's active leaf.
+  const turnNodes = toTurnNodes(storedHistory);
+  const summaries = storedHistory.filter((m) => m.role === "system");
+
+  let branchLeafId: string | null;
+  if (parentMessageId !== undefined) {
+    branchLeafId = parentMessageId;
+  } else {
+    branchLeafId =
+      activeMessageId ?? turnNodes[turnNodes.length - 1]?.id ?? null;
+  }
+
+  if (branchLeafId && !turnNodes.some((m) => m.id === branchLeafId)) {
     return NextResponse.json(
-      { error: "Rate limit exceeded. Please wait a moment and try again." },
-      { status: 429 },
+      { error: "Parent message not found in this conversation." },
+      { status: 400 },
+    );
+  }
+
+  // The intermediate steps of earlier tool-using turns are not replayed.
+  const branchPath = getPath(turnNodes, branchLeafId).filter(isHistoryTurn);
+
+  let sentAttachments: Attachment[] = [];
+
+  if (resolvedConversationId) {
+    const { data, error } = await loadConversationAttachments(
+      resolvedConversationId,
     );
+
+    if (error) {
+      console.error("Error loading attachments", error);
+      return NextResponse.json(
+        { error: "Failed to load conversation." },
+        { status: 500 },
+      );
+    }
+
+    sentAttachments = data;
   }
 
+  const attachmentsOf = (messageId: string) =>
+    sentAttachments.filter((a) => a.message_id === messageId);
+
+  let storedPath: HistoryMessage[];
+  let contextMessages: IncomingMessage[];
+  let newTurnAttachments: Attachment[] = pendingAttachments;
+
+  // Without `regenerate`, `newUserContent` was checked above.
+  if (regenerate || !newUserContent) {
+    const regeneratedTurn = branchPath[branchPath.length - 1];
+    if (
+      regeneratedTurn?.role !== "user" ||
+      regeneratedTurn.id !== branchLeafId
+    ) {
+      return NextResponse.json(
+        { error: "Only replies to a user message can be regenerated." },
+        { status: 400 },
+      );
+    }
+
+    storedPath = branchPath.slice(0, -1);
+    newTurnAttachments = attachmentsOf(regeneratedTurn.id);
+    contextMessages = branchPath.map((m) => ({
+      role: m.role,
+      content: m.content,
+    }));
+  } else {
+    storedPath = branchPath;
+    contextMessages = [
+      ...branchPath.map((m) => ({ role: m.role, content: m.content })),
+      { role: "user", content: newUserContent },
+    ];
+  }
+
+  // Counted over every stored turn of the conversation, so neither resending
+  // a turn nor starting a new branch resets it.
   const isAuthenticated = Boolean(userId);
-  const maxMessages = isAuthenticated ? MAX_AUTH_MESSAGES : MAX_GUEST_MESSAGES;
+  const guestTurnCount =
+    turnNodes.filter(isHistoryTurn).length + (regenerate ? 0 : 1);
 
-  if (!isAuthenticated && messages.length > maxMessages) {
+  if (!isAuthenticated && guestTurnCount > MAX_GUEST_MESSAGES) {
     return NextResponse.json(
       {
         error:
@@ -125,20 +945,133 @@ export async function POST(request: NextRequest) {
     );
   }
 
-  let resolvedConversationId = conversationId ?? null;
+  const requestedTurn = [...contextMessages]
+    .reverse()
+    .find((m) => m.role === "user");
+
+  if (!requestedTurn) {
+    return NextResponse.json(
+      { error: "A user message is required." },
+      { status: 400 },
+    );
+  }
+
+  // The new turn is moderated before it is stored or sent upstream; a
+  // regenerated turn already was when it was first sent. Attachment text was
+  // moderated on upload, so what goes upstream has been checked in full.
+  const inputModeration = regenerate
+    ? null
+    : await moderateContent(requestedTurn.content, {
+        stage: "input",
+        signal: request.signal,
+      });
+
+  if (inputModeration?.rejected) {
+    await recordModerationEvent({
+      caller,
+      conversationId: resolvedConversationId,
+      messageId: null,
+      stage: "input",
+      result: inputModeration,
+    });
+    return NextResponse.json(
+      {
+        error: MODERATION_REJECTED_ERRORS.input,
+        code: "moderation_rejected",
+        categories: moderationCategories(inputModeration),
+      },
+      { status: 422, headers: limitHeaders },
+    );
+  }
+
+  const newTurn = inputModeration
+    ? { ...requestedTurn, content: inputModeration.content }
+    : requestedTurn;
+  contextMessages = contextMessages.map((m) =>
+    m === requestedTurn ? newTurn : m,
+  );
+  const redactedUserContent = inputModeration?.findings.length
+    ? newTurn.content
+    : null;
+
+  // Both models in a comparison see the same context, so it has to fit the
+  // smaller window.
+  const budgetTokens =
+    Math.min(...replyModels.map(getContextBudget)) -
+    estimateMessageTokens({
+      role: "system",
+      content: promptSettings.systemPrompt,
+    });
+
+  const hasImages = newTurnAttachments.some((a) => a.kind === "image");
+
+  if (hasImages && !replyModels.every((m) => m.supportsVision)) {
+    return NextResponse.json(
+      {
+        error:
+          "The selected model cannot read images. Pick a vision-capable model.",
+      },
+      { status: 400 },
+    );
+  }
+
+  let imageUrls: string[] | undefined;
+
+  if (hasImages) {
+    const { data, error } = await loadImageDataUrls(newTurnAttachments);
+
+    if (error || !data) {
+      console.error("Error loading attachment images", error);
+      return NextResponse.json(
+        { error: "Failed to load attachments." },
+        { status: 500 },
+      );
+    }
+
+    imageUrls = data;
+  }
+
+  // The newest turn's files get most of the budget; some is left for history.
+  const newTurnTokens = estimateMessageTokens({ ...newTurn, imageUrls });
+  const attachmentTokens = Math.min(
+    budgetTokens - newTurnTokens,
+    Math.floor(budgetTokens * 0.75),
+  );
+  const modelNewTurn: ChatCompletionMessage = {
+    role: "user",
+    content: withAttachmentText(
+      newTurn.content,
+      newTurnAttachments,
+      Math.max(0, attachmentTokens - 50 * newTurnAttachments.length),
+    ),
+    imageUrls,
+  };
+
+  if (estimateMessageTokens(modelNewTurn) > budgetTokens) {
+    return NextResponse.json(
+      { error: "This message is too long for the selected model." },
+      { status: 413 },
+    );
+  }
 
   if (!resolvedConversationId) {
-    const firstUserMessage = messages.find((m) => m.role === "user");
+    const firstUserMessage = contextMessages.find((m) => m.role === "user");
     const title = firstUserMessage?.content
-      ? firstUserMessage.content.slice(0, 80)
+      ? titleFromMessage(firstUserMessage.content)
       : null;
 
     const { data, error } = await supabaseServerClient
       .from("conversations")
       .insert({
         user_id: userId,
-        guest_id: userId ? null : guestId ?? null,
+        guest_id: caller.guestId,
         title,
+        provider: selectedModel.provider,
+        model: selectedModel.model,
+        persona_id: persona?.id ?? null,
+        system_prompt: persona ? promptSettings.systemPrompt : null,
+        temperature: persona ? promptSettings.temperature : null,
+        max_tokens: persona ? promptSettings.maxTokens : null,
       })
       .select("id")
       .single();
@@ -150,121 +1083,715 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    resolvedConversationId = data.id;
+    resolvedConversationId = data.id as string;
+    isNewConversation = true;
+  } else if (storedModelId !== selectedModel.id) {
+    const { error: updateModelError } = await supabaseServerClient
+      .from("conversations")
+      .update({ provider: selectedModel.provider, model: selectedModel.model })
+      .eq("id", resolvedConversationId);
+
+    if (updateModelError) {
+      console.error("Error updating conversation model", updateModelError);
+    }
   }
 
-  const lastUserMessage = [...messages].reverse().find((m) => m.role === "user");
+  let replyParentId: string | null;
 
-  if (lastUserMessage) {
-    const { error: insertUserError } = await supabaseServerClient
+  if (regenerate) {
+    replyParentId = branchLeafId;
+  } else {
+    const { data: userRow, error: insertUserError } = await supabaseServerClient
       .from("messages")
       .insert({
         conversation_id: resolvedConversationId,
         role: "user",
-        content: lastUserMessage.content,
-      });
+        content: newTurn.content,
+        parent_id: branchLeafId,
+      })
+      .select("id")
+      .single();
 
     if (insertUserError) {
       // Non-fatal: log and continue
       console.error("Error inserting user message", insertUserError);
     }
+
+    replyParentId = (userRow?.id as string | undefined) ?? branchLeafId;
+    if (inputModeration) {
+      await recordModerationEvent({
+        caller,
+        conversationId: resolvedConversationId,
+        messageId: (userRow?.id as string | undefined) ?? null,
+        stage: "input",
+        result: inputModeration,
+      });
+    }
+    if (userRow?.id) {
+      await setActiveMessage(resolvedConversationId, userRow.id as string);
+      await linkAttachments(
+        pendingAttachments.map((a) => a.id),
+        resolvedConversationId,
+        userRow.id as string,
+      );
+    }
   }
 
-  const limitedMessages = messages.slice(-maxMessages);
+  const context = await assembleContext({
+    conversationId: resolvedConversationId,
+    model: selectedModel,
+    // Earlier turns carry their files' text, cut to a per-file allowance.
+    storedPath: storedPath.map((m) => ({
+      ...m,
+      content: withAttachmentText(m.content, attachmentsOf(m.id)),
+    })),
+    summaries,
+    newTurn: modelNewTurn,
+    budgetTokens,
+    signal: request.signal,
+  });
 
-  const basetenMessages = [
-    {
-      role: "system" as const,
-      content:
-        "You are a helpful assistant inside a Baseten-powered chat application.",
-    },
-    ...limitedMessages,
+  const completionMessages: ChatCompletionMessage[] = [
+    { role: "system", content: promptSettings.systemPrompt },
+    ...(context.summary ? [toSummaryMessage(context.summary)] : []),
+    ...context.turns,
+    modelNewTurn,
   ];
 
   const startedAt = Date.now();
 
-  const basetenResponse = await fetch(
-    "https://inference.baseten.co/v1/chat/completions",
-    {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${basetenApiKey}`,
-      },
-      body: JSON.stringify({
-        model: basetenModelSlug,
-        messages: basetenMessages,
-      }),
-    },
-  );
+  if (compareModel) {
+    return compareCompletion({
+      request,
+      caller,
+      models: [selectedModel, compareModel],
+      messages: completionMessages,
+      promptSettings,
+      conversationId: resolvedConversationId,
+      userMessageId: regenerate ? null : replyParentId,
+      replyParentId,
+      contextSummary: context.summary,
+      redactedUserContent,
+      isNewConversation,
+      blind: blind === true,
+      startedAt,
+      headers: limitHeaders,
+    });
+  }
 
-  const latencyMs = Date.now() - startedAt;
+  // Tool-capable models may call server tools; each step's calls and results
+  // are stored and sent back until the model answers or the cap is reached.
+  const tools = selectedModel.supportsTools ? listToolDefinitions() : [];
 
-  if (!basetenResponse.ok) {
-    const text = await basetenResponse.text().catch(() => "");
-    console.error("Baseten error", basetenResponse.status, text);
-    return NextResponse.json(
-      { error: "Baseten request failed." },
-      { status: 502 },
-    );
+  if (stream) {
+    return streamCompletion({
+      request,
+      caller,
+      model: selectedModel,
+      messages: completionMessages,
+      tools,
+      promptSettings,
+      conversationId: resolvedConversationId,
+      userMessageId: regenerate ? null : replyParentId,
+      replyParentId,
+      contextSummary: context.summary,
+      redactedUserContent,
+      isNewConversation,
+      startedAt,
+      headers: limitHeaders,
+    });
   }
 
-  const json = await basetenResponse.json();
+  const maxToolSteps = getToolMaxSteps();
+  const toolSteps: (ToolStepMessage | ToolResultMessage)[] = [];
+  let stepMessages = completionMessages;
+  let parentId = replyParentId;
+  let stepStartedAt = startedAt;
+  // Later tool steps start from the model that answered the previous one.
+  let stepModel = selectedModel;
+
+  for (let step = 0; ; step++) {
+    const offerTools = tools.length > 0 && step < maxToolSteps;
+
+    let completion;
+    try {
+      completion = await completeWithRetries({
+        model: stepModel,
+        call: {
+          messages: stepMessages,
+          tools: offerTools ? tools : undefined,
+          temperature: promptSettings.temperature,
+          maxTokens: promptSettings.maxTokens,
+          signal: request.signal,
+        },
+        onFailedAttempt: recordFailedAttempt(resolvedConversationId),
+      });
+    } catch (error) {
+      console.error("Model provider error", error);
+      const code = classifyUpstreamError(error);
+      const { status, error: message } = UPSTREAM_ERROR_RESPONSES[code];
+      return NextResponse.json(
+        { error: message, code },
+        { status, headers: limitHeaders },
+      );
+    }
+
+    const { model: completionModel, result } = completion;
+    const latencyMs = Date.now() - stepStartedAt;
+    stepModel = completionModel;
+
+    if (offerTools && result.toolCalls?.length) {
+      const stepMessage = await persistToolRequest({
+        conversationId: resolvedConversationId,
+        parentId,
+        model: completionModel,
+        content: result.content,
+        toolCalls: result.toolCalls,
+        latencyMs,
+        timeToFirstTokenMs: null,
+        usage: result.usage,
+      });
+      const toolResults =
+        stepMessage &&
+        (await runToolCalls({
+          conversationId: resolvedConversationId,
+          parentId: stepMessage.id,
+          toolCalls: result.toolCalls,
+          caller,
+          signal: request.signal,
+        }));
+
+      if (!stepMessage || !toolResults) {
+        return NextResponse.json(
+          { error: REPLY_NOT_SAVED_ERROR },
+          { status: 500, headers: limitHeaders },
+        );
+      }
+
+      toolSteps.push(stepMessage, ...toolResults.results);
+      stepMessages = [
+        ...stepMessages,
+        ...toFollowUpMessages(stepMessage, toolResults.results),
+      ];
+      parentId = toolResults.lastParentId;
+      stepStartedAt = Date.now();
+      continue;
+    }
+
+    const { moderation, assistantMessageId } = await persistModeratedReply({
+      caller,
+      signal: request.signal,
+      conversationId: resolvedConversationId,
+      parentId,
+      model: completionModel,
+      content: result.content,
+      latencyMs,
+      timeToFirstTokenMs: null,
+      usage: result.usage,
+    });
 
-  const assistantContent: string | undefined =
-    json?.choices?.[0]?.message?.content;
+    if (moderation.rejected) {
+      return NextResponse.json(
+        {
+          error: MODERATION_REJECTED_ERRORS.output,
+          code: "moderation_rejected",
+          categories: moderationCategories(moderation),
+        },
+        { status: 422, headers: limitHeaders },
+      );
+    }
+
+    if (!assistantMessageId) {
+      return NextResponse.json(
+        { error: REPLY_NOT_SAVED_ERROR },
+        { status: 500, headers: limitHeaders },
+      );
+    }
+
+    if (isNewConversation) {
+      const conversationId = resolvedConversationId;
+      after(() => titleNewConversation(conversationId, completionModel));
+    }
 
-  if (!assistantContent) {
     return NextResponse.json(
-      { error: "Unexpected response from Baseten." },
-      { status: 500 },
+      {
+        conversationId: resolvedConversationId,
+        model: selectedModel,
+        contextSummary: context.summary,
+        userMessageId: regenerate ? null : replyParentId,
+        redactedUserContent,
+        toolSteps,
+        message: {
+          id: assistantMessageId,
+          parentId,
+          role: "assistant" as const,
+          content: moderation.content,
+        },
+        redacted: moderation.findings.length > 0,
+      },
+      { headers: limitHeaders },
     );
   }
+}
 
-  const usage = json?.usage ?? {};
-  const inputTokens =
-    usage.prompt_tokens ?? usage.input_tokens ?? usage.request_tokens ?? null;
-  const outputTokens =
-    usage.completion_tokens ?? usage.output_tokens ?? usage.response_tokens ??
-    null;
-  const totalTokens = usage.total_tokens ??
-    (inputTokens && outputTokens ? inputTokens + outputTokens : null);
+type ComparisonReply = {
+  side: "a" | "b";
+  /** Hidden until the vote when the comparison is blind. */
+  model: ModelOption | null;
+  message: {
+    id: string;
+    parentId: string | null;
+    role: "assistant";
+    content: string;
+  } | null;
+  error?: string;
+  code?: ChatErrorCode;
+};
 
-  const { error: insertAssistantError } = await supabaseServerClient
-    .from("messages")
-    .insert({
-      conversation_id: resolvedConversationId,
-      role: "assistant",
-      content: assistantContent,
+/**
+ * Runs the turn against both models in parallel and stores each reply as a
+ * branch of the user turn. A vote is only possible when both succeed; blind
+ * comparisons come back in random order without model names.
+ */
+async function compareCompletion({
+  request,
+  caller,
+  models,
+  messages,
+  promptSettings,
+  conversationId,
+  userMessageId,
+  replyParentId,
+  contextSummary,
+  redactedUserContent,
+  isNewConversation,
+  blind,
+  startedAt,
+  headers,
+}: {
+  request: NextRequest;
+  caller: Caller;
+  models: [ModelOption, ModelOption];
+  messages: ChatCompletionMessage[];
+  promptSettings: PromptSettings;
+  conversationId: string;
+  userMessageId: string | null;
+  replyParentId: string | null;
+  contextSummary: string | null;
+  redactedUserContent: string | null;
+  isNewConversation: boolean;
+  blind: boolean;
+  startedAt: number;
+  headers: Record<string, string>;
+}) {
+  const settled = await Promise.allSettled(
+    models.map(async (model) => {
+      const completion = await completeWithRetries({
+        model,
+        call: {
+          messages,
+          temperature: promptSettings.temperature,
+          maxTokens: promptSettings.maxTokens,
+          signal: request.signal,
+        },
+        onFailedAttempt: recordFailedAttempt(conversationId),
+      });
+      return { ...completion, latencyMs: Date.now() - startedAt };
+    }),
+  );
+
+  const replies: ComparisonReply[] = [];
+  const sides: { messageId: string | null; invocationId: string | null }[] = [];
+
+  // Persisted one after the other so the branches keep a stable order.
+  for (const [index, outcome] of settled.entries()) {
+    const side = index === 0 ? "a" : "b";
+
+    if (outcome.status === "rejected") {
+      console.error("Model provider error", outcome.reason);
+      const code = classifyUpstreamError(outcome.reason);
+      replies.push({
+        side,
+        model: models[index],
+        message: null,
+        error: UPSTREAM_ERROR_RESPONSES[code].error,
+        code,
+      });
+      continue;
+    }
+
+    const { model, result, latencyMs } = outcome.value;
+    const { moderation, assistantMessageId, invocationId } =
+      await persistModeratedReply({
+        caller,
+        signal: request.signal,
+        conversationId,
+        parentId: replyParentId,
+        model,
+        content: result.content,
+        latencyMs,
+        timeToFirstTokenMs: null,
+        usage: result.usage,
+      });
+
+    if (moderation.rejected) {
+      replies.push({
+        side,
+        model,
+        message: null,
+        error: MODERATION_REJECTED_ERRORS.output,
+        code: "moderation_rejected",
+      });
+      continue;
+    }
+
+    if (!assistantMessageId) {
+      replies.push({
+        side,
+        model,
+        message: null,
+        error: REPLY_NOT_SAVED_ERROR,
+      });
+      continue;
+    }
+
+    sides.push({ messageId: assistantMessageId, invocationId });
+    replies.push({
+      side,
+      model,
+      message: {
+        id: assistantMessageId,
+        parentId: replyParentId,
+        role: "assistant",
+        content: moderation.content,
+      },
     });
+  }
 
-  if (insertAssistantError) {
-    console.error("Error inserting assistant message", insertAssistantError);
+  if (replies.every((reply) => !reply.message)) {
+    const { code } = replies[0];
+    const { status, error } =
+      code === undefined
+        ? { status: 500, error: REPLY_NOT_SAVED_ERROR }
+        : code === "moderation_rejected"
+          ? { status: 422, error: MODERATION_REJECTED_ERRORS.output }
+          : UPSTREAM_ERROR_RESPONSES[code];
+    return NextResponse.json({ error, code }, { status, headers });
   }
 
-  const { error: metricsError } = await supabaseServerClient
-    .from("model_invocations")
-    .insert({
-      conversation_id: resolvedConversationId,
-      provider: "baseten",
-      model: basetenModelSlug,
-      latency_ms: latencyMs,
-      input_tokens: inputTokens,
-      output_tokens: outputTokens,
-      total_tokens: totalTokens,
-      estimated_cost_usd: null,
+  let comparisonId: string | null = null;
+  const [a, b] = sides;
+
+  if (a?.invocationId && b?.invocationId) {
+    if (a.messageId) await setActiveMessage(conversationId, a.messageId);
+
+    const { data, error } = await createComparison({
+      conversationId,
+      userMessageId,
+      a: { messageId: a.messageId, invocationId: a.invocationId },
+      b: { messageId: b.messageId, invocationId: b.invocationId },
+      blind,
     });
 
-  if (metricsError) {
-    console.error("Error inserting model_invocations", metricsError);
+    if (error) {
+      console.error("Error creating comparison", error);
+    }
+    comparisonId = data;
   }
 
-  return NextResponse.json({
-    conversationId: resolvedConversationId,
-    message: {
-      id: makeClientMessageId(),
-      role: "assistant" as const,
-      content: assistantContent,
+  if (isNewConversation) {
+    after(() => titleNewConversation(conversationId, models[0]));
+  }
+
+  if (blind && Math.random() < 0.5) replies.reverse();
+
+  return NextResponse.json(
+    {
+      conversationId,
+      model: models[0],
+      contextSummary,
+      userMessageId,
+      redactedUserContent,
+      comparison: {
+        id: comparisonId,
+        blind,
+        replies: blind
+          ? replies.map((reply) => ({ ...reply, model: null }))
+          : replies,
+      },
+    },
+    { headers },
+  );
+}
+
+function streamCompletion({
+  request,
+  caller,
+  model,
+  messages,
+  tools,
+  promptSettings,
+  conversationId,
+  userMessageId,
+  replyParentId,
+  contextSummary,
+  redactedUserContent,
+  isNewConversation,
+  startedAt,
+  headers,
+}: {
+  request: NextRequest;
+  caller: Caller;
+  model: ModelOption;
+  messages: ChatCompletionMessage[];
+  tools: ToolDefinition[];
+  promptSettings: PromptSettings;
+  conversationId: string;
+  userMessageId: string | null;
+  replyParentId: string | null;
+  contextSummary: string | null;
+  redactedUserContent: string | null;
+  isNewConversation: boolean;
+  startedAt: number;
+  headers: Record<string, string>;
+}) {
+  const encoder = new TextEncoder();
+  const upstreamController = new AbortController();
+  const abortUpstream = () => upstreamController.abort();
+  request.signal.addEventListener("abort", abortUpstream);
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ChatStreamEvent) => {
+        if (upstreamController.signal.aborted) return;
+        try {
+          controller.enqueue(encoder.encode(encodeSseEvent(event)));
+        } catch {
+          // The client has gone away; persistence below still runs.
+        }
+      };
+
+      send({
+        type: "start",
+        conversationId,
+        modelId: model.id,
+        userMessageId,
+        contextSummary,
+        redactedUserContent,
+      });
+
+      const maxToolSteps = getToolMaxSteps();
+      let stepMessages = messages;
+      let parentId = replyParentId;
+      let stepStartedAt = startedAt;
+      let assistantContent = "";
+      let usage: TokenUsage = EMPTY_USAGE;
+      let timeToFirstTokenMs: number | null = null;
+      // Becomes the fallback model if the primary could not be reached, and
+      // later tool steps start from it so one reply stays on one model.
+      let streamModel = model;
+      let isStreamOpen = false;
+      // The current step's model call has no invocation row yet.
+      let isCallUnlogged = false;
+      // Set when the stream failed after some text had arrived.
+      let interruptedCode: UpstreamErrorCode | null = null;
+
+      try {
+        for (let step = 0; ; step++) {
+          const offerTools = tools.length > 0 && step < maxToolSteps;
+          let toolCalls: ToolCall[] = [];
+          isCallUnlogged = true;
+
+          const opened = await openStreamWithRetries({
+            model: streamModel,
+            call: {
+              messages: stepMessages,
+              tools: offerTools ? tools : undefined,
+              temperature: promptSettings.temperature,
+              maxTokens: promptSettings.maxTokens,
+              signal: upstreamController.signal,
+            },
+            onFailedAttempt: recordFailedAttempt(conversationId),
+          });
+          streamModel = opened.model;
+          isStreamOpen = true;
+
+          for await (const chunk of opened.chunks) {
+            if (chunk.type === "delta") {
+              if (timeToFirstTokenMs === null) {
+                timeToFirstTokenMs = Date.now() - stepStartedAt;
+              }
+              assistantContent += chunk.content;
+              send({ type: "delta", content: chunk.content });
+            } else if (chunk.type === "tool_calls") {
+              toolCalls = chunk.toolCalls;
+            } else {
+              usage = chunk.usage;
+            }
+          }
+
+          if (!offerTools || toolCalls.length === 0) break;
+
+          const stepMessage = await persistToolRequest({
+            conversationId,
+            parentId,
+            model: streamModel,
+            content: assistantContent,
+            toolCalls,
+            latencyMs: Date.now() - stepStartedAt,
+            timeToFirstTokenMs,
+            usage,
+          });
+          // The step's invocation is logged either way, so nothing is left
+          // for the block below to store.
+          assistantContent = "";
+          isCallUnlogged = false;
+          if (stepMessage) send({ type: "tool_step", message: stepMessage });
+
+          const toolResults =
+            stepMessage &&
+            (await runToolCalls({
+              conversationId,
+              parentId: stepMessage.id,
+              toolCalls,
+              caller,
+              signal: upstreamController.signal,
+              onResult: (message) => send({ type: "tool_result", message }),
+            }));
+
+          if (!stepMessage || !toolResults) {
+            send({ type: "error", error: REPLY_NOT_SAVED_ERROR });
+            break;
+          }
+
+          stepMessages = [
+            ...stepMessages,
+            ...toFollowUpMessages(stepMessage, toolResults.results),
+          ];
+          parentId = toolResults.lastParentId;
+          stepStartedAt = Date.now();
+          usage = EMPTY_USAGE;
+          timeToFirstTokenMs = null;
+          isStreamOpen = false;
+        }
+      } catch (error) {
+        if (!upstreamController.signal.aborted) {
+          console.error("Model provider stream error", error);
+          const code = classifyUpstreamError(error);
+
+          // Failures before the stream opened were logged per attempt.
+          if (isStreamOpen && !assistantContent) {
+            await recordInvocation({
+              conversationId,
+              model: streamModel,
+              latencyMs: Date.now() - stepStartedAt,
+              timeToFirstTokenMs,
+              usage,
+              status: code,
+            });
+          }
+          isCallUnlogged = false;
+          // A partial reply is stored below, which sends the error with it.
+          if (assistantContent) {
+            interruptedCode = code;
+          } else {
+            send({
+              type: "error",
+              error: UPSTREAM_ERROR_RESPONSES[code].error,
+              code,
+            });
+          }
+        }
+      } finally {
+        request.signal.removeEventListener("abort", abortUpstream);
+        const isCancelled = upstreamController.signal.aborted;
+
+        if (assistantContent) {
+          // The text has already been streamed; moderation decides what is
+          // kept, and the client swaps in the stored version. It runs without
+          // the upstream signal so a stopped reply is still checked.
+          const { moderation, assistantMessageId } =
+            await persistModeratedReply({
+              caller,
+              conversationId,
+              parentId,
+              model: streamModel,
+              content: assistantContent,
+              latencyMs: Date.now() - stepStartedAt,
+              timeToFirstTokenMs,
+              usage,
+              status: isCancelled
+                ? "cancelled"
+                : (interruptedCode ?? "success"),
+            });
+          const storedReply: AssistantReplyMessage | null = assistantMessageId
+            ? {
+                id: assistantMessageId,
+                parentId,
+                role: "assistant",
+                content: moderation.content,
+              }
+            : null;
+
+          if (moderation.rejected) {
+            send({
+              type: "error",
+              error: MODERATION_REJECTED_ERRORS.output,
+              code: "moderation_rejected",
+            });
+          } else if (!storedReply) {
+            send({ type: "error", error: REPLY_NOT_SAVED_ERROR });
+          } else if (interruptedCode) {
+            send({
+              type: "error",
+              error: "Model stream was interrupted.",
+              code: interruptedCode,
+              message: storedReply,
+            });
+          } else {
+            send({
+              type: "done",
+              conversationId,
+              message: storedReply,
+              redacted: moderation.findings.length > 0,
+            });
+
+            // After `done`, so the reply is complete before the title call.
+            const title = isNewConversation
+              ? await titleNewConversation(conversationId, streamModel)
+              : null;
+            if (title) send({ type: "title", conversationId, title });
+          }
+        } else if (isCancelled && isCallUnlogged) {
+          // Stopped before any output (or while the stream was opening).
+          await recordInvocation({
+            conversationId,
+            model: streamModel,
+            latencyMs: Date.now() - stepStartedAt,
+            timeToFirstTokenMs,
+            usage,
+            status: "cancelled",
+          });
+        }
+
+        try {
+          controller.close();
+        } catch {
+          // Already closed by a cancelled client.
+        }
+      }
+    },
+    cancel() {
+      abortUpstream();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      ...headers,
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
     },
   });
 }
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCaller } from "@/lib/auth";
+import {
+  comparisonModelIds,
+  getOwnedComparison,
+  isPreferenceWinner,
+  recordVote,
+} from "@/lib/comparisons";
+import { setActiveMessage } from "@/lib/conversations";
+
+/**
+ * Records which reply of a compare-mode turn was better and continues the
+ * conversation on that branch. The response reveals both models.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+
+  let body: { winner?: unknown; guestId?: string | null };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  if (!isPreferenceWinner(body.winner)) {
+    return NextResponse.json(
+      { error: "'winner' must be 'a', 'b' or 'tie'." },
+      { status: 400 },
+    );
+  }
+
+  const caller = await getCaller(request, body.guestId ?? null);
+  const { data: comparison, error } = await getOwnedComparison(caller, id);
+
+  if (error) {
+    console.error("Error loading comparison", error);
+    return NextResponse.json(
+      { error: "Failed to load comparison." },
+      { status: 500 },
+    );
+  }
+
+  if (!comparison) {
+    return NextResponse.json(
+      { error: "Comparison not found." },
+      { status: 404 },
+    );
+  }
+
+  if (comparison.winner) {
+    return NextResponse.json(
+      { error: "This comparison has already been voted on." },
+      { status: 409 },
+    );
+  }
+
+  const { data: voted, error: voteError } = await recordVote(
+    comparison.id,
+    body.winner,
+  );
+
+  if (voteError) {
+    console.error("Error recording vote", voteError);
+    return NextResponse.json(
+      { error: "Failed to record vote." },
+      { status: 500 },
+    );
+  }
+
+  if (!voted) {
+    return NextResponse.json(
+      { error: "This comparison has already been voted on." },
+      { status: 409 },
+    );
+  }
+
+  // A tie keeps whichever branch is currently active.
+  const winningMessageId =
+    voted.winner === "a"
+      ? voted.message_a_id
+      : voted.winner === "b"
+        ? voted.message_b_id
+        : null;
+
+  if (winningMessageId && voted.conversation_id) {
+    await setActiveMessage(voted.conversation_id, winningMessageId);
+  }
+
+  return NextResponse.json({
+    comparison: {
+      id: voted.id,
+      winner: voted.winner,
+      models: comparisonModelIds(voted),
+      messageIds: { a: voted.message_a_id, b: voted.message_b_id },
+    },
+    activeMessageId: winningMessageId,
+  });
+}
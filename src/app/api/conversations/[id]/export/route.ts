@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCaller } from "@/lib/auth";
+import {
+  buildChatExport,
+  exportFileName,
+  toMarkdown,
+} from "@/lib/conversationExport";
+import { getOwnedConversation } from "@/lib/conversations";
+
+/** `?format=markdown` (default) or `?format=json`. */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const searchParams = request.nextUrl.searchParams;
+  const format = searchParams.get("format") ?? "markdown";
+
+  if (format !== "markdown" && format !== "json") {
+    return NextResponse.json(
+      { error: "'format' must be 'markdown' or 'json'." },
+      { status: 400 },
+    );
+  }
+
+  const caller = await getCaller(request, searchParams.get("guestId"));
+  const { data: conversation, error } = await getOwnedConversation(caller, id);
+
+  if (error) {
+    console.error("Error loading conversation", error);
+    return NextResponse.json(
+      { error: "Failed to load conversation." },
+      { status: 500 },
+    );
+  }
+
+  if (!conversation) {
+    return NextResponse.json(
+      { error: "Conversation not found." },
+      { status: 404 },
+    );
+  }
+
+  const { data: exported, error: exportError } = await buildChatExport([
+    conversation,
+  ]);
+
+  if (exportError || !exported) {
+    console.error("Error exporting conversation", exportError);
+    return NextResponse.json(
+      { error: "Failed to export conversation." },
+      { status: 500 },
+    );
+  }
+
+  if (format === "json") {
+    return NextResponse.json(exported, {
+      headers: {
+        "Content-Disposition": `attachment; filename="${exportFileName(conversation, "json")}"`,
+      },
+    });
+  }
+
+  return new Response(toMarkdown(exported.conversations[0]), {
+    headers: {
+      "Content-Type": "text/markdown; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${exportFileName(conversation, "md")}"`,
+    },
+  });
+}
@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCaller } from "@/lib/auth";
+import { getOwnedConversation } from "@/lib/conversations";
+import {
+  deleteFeedback,
+  isFeedbackRating,
+  isFeedbackReason,
+  MAX_FEEDBACK_COMMENT_CHARS,
+  saveFeedback,
+} from "@/lib/feedback";
+
+type FeedbackBody = {
+  messageId?: unknown;
+  rating?: unknown;
+  reason?: unknown;
+  comment?: unknown;
+  guestId?: string | null;
+};
+
+async function readBody(request: NextRequest) {
+  try {
+    return (await request.json()) as FeedbackBody;
+  } catch {
+    return null;
+  }
+}
+
+async function loadConversation(
+  request: NextRequest,
+  id: string,
+  guestId: string | null,
+) {
+  const caller = await getCaller(request, guestId);
+  const { data: conversation, error } = await getOwnedConversation(caller, id);
+
+  if (error) {
+    console.error("Error loading conversation", error);
+    return {
+      caller,
+      conversation: null,
+      response: NextResponse.json(
+        { error: "Failed to load conversation." },
+        { status: 500 },
+      ),
+    };
+  }
+
+  if (!conversation) {
+    return {
+      caller,
+      conversation: null,
+      response: NextResponse.json(
+        { error: "Conversation not found." },
+        { status: 404 },
+      ),
+    };
+  }
+
+  return { caller, conversation, response: null };
+}
+
+/** Rates an assistant reply; rating it again replaces the earlier rating. */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const body = await readBody(request);
+
+  if (!body) {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const { messageId, rating, reason = null, comment = null } = body;
+
+  if (typeof messageId !== "string") {
+    return NextResponse.json(
+      { error: "'messageId' is required." },
+      { status: 400 },
+    );
+  }
+
+  if (!isFeedbackRating(rating)) {
+    return NextResponse.json(
+      { error: "'rating' must be 'up' or 'down'." },
+      { status: 400 },
+    );
+  }
+
+  if (reason !== null && !isFeedbackReason(rating, reason)) {
+    return NextResponse.json(
+      { error: "'reason' is not valid for this rating." },
+      { status: 400 },
+    );
+  }
+
+  if (
+    comment !== null &&
+    (typeof comment !== "string" || comment.length > MAX_FEEDBACK_COMMENT_CHARS)
+  ) {
+    return NextResponse.json(
+      {
+        error: `'comment' must be a string of at most ${MAX_FEEDBACK_COMMENT_CHARS} characters.`,
+      },
+      { status: 400 },
+    );
+  }
+
+  const { caller, conversation, response } = await loadConversation(
+    request,
+    id,
+    body.guestId ?? null,
+  );
+  if (!conversation) return response;
+
+  const { data: feedback, error } = await saveFeedback({
+    caller,
+    conversation,
+    messageId,
+    rating,
+    reason,
+    comment: comment?.trim() || null,
+  });
+
+  if (error) {
+    console.error("Error saving feedback", error);
+    return NextResponse.json(
+      { error: "Failed to save feedback." },
+      { status: 500 },
+    );
+  }
+
+  if (!feedback) {
+    return NextResponse.json(
+      { error: "Only assistant replies in this conversation can be rated." },
+      { status: 400 },
+    );
+  }
+
+  return NextResponse.json({ feedback });
+}
+
+/** Clears the rating of a reply. */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const body = await readBody(request);
+
+  if (!body) {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  if (typeof body.messageId !== "string") {
+    return NextResponse.json(
+      { error: "'messageId' is required." },
+      { status: 400 },
+    );
+  }
+
+  const { conversation, response } = await loadConversation(
+    request,
+    id,
+    body.guestId ?? null,
+  );
+  if (!conversation) return response;
+
+  const { error } = await deleteFeedback(conversation.id, body.messageId);
+
+  if (error) {
+    console.error("Error deleting feedback", error);
+    return NextResponse.json(
+      { error: "Failed to delete feedback." },
+      { status: 500 },
+    );
+  }
+
+  return NextResponse.json({ messageId: body.messageId });
+}
@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listConversationAttachments } from "@/lib/attachments";
+import { getCaller } from "@/lib/auth";
+import {
+  getOwnedConversation,
+  isUuid,
+  listConversationMessages,
+  setActiveMessage,
+} from "@/lib/conversations";
+import { listConversationFeedback } from "@/lib/feedback";
+import { getReadClient } from "@/lib/supabaseRequestClient";
+import { normalizeTitle, renameConversation } from "@/lib/titles";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const guestId = request.nextUrl.searchParams.get("guestId");
+  const caller = await getCaller(request, guestId);
+  const db = getReadClient(request, caller);
+
+  const { data: conversation, error } = await getOwnedConversation(
+    caller,
+    id,
+    db,
+  );
+
+  if (error) {
+    console.error("Error loading conversation", error);
+    return NextResponse.json(
+      { error: "Failed to load conversation." },
+      { status: 500 },
+    );
+  }
+
+  if (!conversation) {
+    return NextResponse.json(
+      { error: "Conversation not found." },
+      { status: 404 },
+    );
+  }
+
+  const { data: messages, error: messagesError } =
+    await listConversationMessages(conversation.id, db);
+
+  if (messagesError) {
+    console.error("Error loading messages", messagesError);
+    return NextResponse.json(
+      { error: "Failed to load conversation." },
+      { status: 500 },
+    );
+  }
+
+  const { data: attachments, error: attachmentsError } =
+    await listConversationAttachments(conversation.id);
+
+  if (attachmentsError) {
+    console.error("Error loading attachments", attachmentsError);
+  }
+
+  const { data: feedback, error: feedbackError } =
+    await listConversationFeedback(conversation.id);
+
+  if (feedbackError) {
+    console.error("Error loading feedback", feedbackError);
+  }
+
+  return NextResponse.json({ conversation, messages, attachments, feedback });
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+
+  let body: {
+    activeMessageId?: string;
+    title?: string;
+    guestId?: string | null;
+  };
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const caller = await getCaller(request, body.guestId ?? null);
+  const { data: conversation, error } = await getOwnedConversation(caller, id);
+
+  if (error) {
+    console.error("Error loading conversation", error);
+    return NextResponse.json(
+      { error: "Failed to load conversation." },
+      { status: 500 },
+    );
+  }
+
+  if (!conversation) {
+    return NextResponse.json(
+      { error: "Conversation not found." },
+      { status: 404 },
+    );
+  }
+
+  const { activeMessageId, title } = body;
+
+  if (title !== undefined) {
+    const normalized = typeof title === "string" ? normalizeTitle(title) : null;
+
+    if (!normalized) {
+      return NextResponse.json(
+        { error: "'title' must be a non-empty string." },
+        { status: 400 },
+      );
+    }
+
+    const { data: renamed, error: renameError } = await renameConversation(
+      conversation.id,
+      normalized,
+    );
+
+    if (renameError) {
+      console.error("Error renaming conversation", renameError);
+      return NextResponse.json(
+        { error: "Failed to rename conversation." },
+        { status: 500 },
+      );
+    }
+
+    if (activeMessageId === undefined) {
+      return NextResponse.json({ title: renamed });
+    }
+  }
+
+  if (typeof activeMessageId !== "string" || !isUuid(activeMessageId)) {
+    return NextResponse.json(
+      { error: "'activeMessageId' or 'title' is required." },
+      { status: 400 },
+    );
+  }
+
+  const { data: messages, error: messagesError } =
+    await listConversationMessages(conversation.id);
+
+  if (messagesError) {
+    console.error("Error loading messages", messagesError);
+    return NextResponse.json(
+      { error: "Failed to load conversation." },
+      { status: 500 },
+    );
+  }
+
+  if (
+    !messages.some((m) => m.id === activeMessageId && m.role !== "system")
+  ) {
+    return NextResponse.json(
+      { error: "Message not found in this conversation." },
+      { status: 400 },
+    );
+  }
+
+  await setActiveMessage(conversation.id, activeMessageId);
+
+  return NextResponse.json({ activeMessageId });
+}
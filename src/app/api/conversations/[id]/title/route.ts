@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCaller } from "@/lib/auth";
+import { getOwnedConversation } from "@/lib/conversations";
+import { findModel, getDefaultModel, makeModelId } from "@/lib/llm/registry";
+import { checkRateLimit, rateLimitHeaders } from "@/lib/rateLimit";
+import { generateConversationTitle, getConversationTitle } from "@/lib/titles";
+
+/**
+ * The current title. `pending` is true while it is still the placeholder from
+ * the first message, e.g. until the title of a new conversation answered with
+ * JSON has been generated.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const guestId = request.nextUrl.searchParams.get("guestId");
+  const caller = await getCaller(request, guestId);
+  const { data: conversation, error } = await getOwnedConversation(caller, id);
+
+  if (error) {
+    console.error("Error loading conversation", error);
+    return NextResponse.json(
+      { error: "Failed to load conversation." },
+      { status: 500 },
+    );
+  }
+
+  if (!conversation) {
+    return NextResponse.json(
+      { error: "Conversation not found." },
+      { status: 404 },
+    );
+  }
+
+  const { data: title, error: titleError } = await getConversationTitle(
+    conversation.id,
+  );
+
+  if (titleError || !title) {
+    console.error("Error loading conversation title", titleError);
+    return NextResponse.json(
+      { error: "Failed to load conversation." },
+      { status: 500 },
+    );
+  }
+
+  return NextResponse.json({
+    title: title.title,
+    pending: title.isPlaceholder,
+  });
+}
+
+/**
+ * Generates a new title from the first exchange, replacing the current one
+ * even if the user typed it. Counts against the caller's rate limit.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+
+  let body: { guestId?: string | null };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const caller = await getCaller(request, body.guestId ?? null);
+  const { data: conversation, error } = await getOwnedConversation(caller, id);
+
+  if (error) {
+    console.error("Error loading conversation", error);
+    return NextResponse.json(
+      { error: "Failed to load conversation." },
+      { status: 500 },
+    );
+  }
+
+  if (!conversation) {
+    return NextResponse.json(
+      { error: "Conversation not found." },
+      { status: 404 },
+    );
+  }
+
+  const rateLimit = await checkRateLimit(request, caller);
+  const headers = rateLimitHeaders(rateLimit);
+
+  if (rateLimit && !rateLimit.allowed) {
+    return NextResponse.json(
+      {
+        error: "Rate limit exceeded. Please wait a moment and try again.",
+        retryAfterSeconds: rateLimit.retryAfterSeconds,
+      },
+      { status: 429, headers },
+    );
+  }
+
+  const model =
+    (conversation.provider && conversation.model
+      ? findModel(makeModelId(conversation.provider, conversation.model))
+      : null) ?? getDefaultModel();
+
+  if (!model) {
+    return NextResponse.json(
+      { error: "No model provider is configured." },
+      { status: 500, headers },
+    );
+  }
+
+  const { data: title, error: titleError } = await generateConversationTitle({
+    conversationId: conversation.id,
+    model,
+    overwrite: true,
+  });
+
+  if (titleError) {
+    console.error("Error generating conversation title", titleError);
+    return NextResponse.json(
+      { error: "Failed to generate a title. Please try again." },
+      { status: 502, headers },
+    );
+  }
+
+  if (!title) {
+    return NextResponse.json(
+      { error: "This conversation needs a reply before it can be named." },
+      { status: 409, headers },
+    );
+  }
+
+  return NextResponse.json({ title }, { headers });
+}
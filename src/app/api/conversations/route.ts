@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCaller } from "@/lib/auth";
+import { listConversations } from "@/lib/conversations";
+import { getReadClient } from "@/lib/supabaseRequestClient";
+
+export async function GET(request: NextRequest) {
+  const guestId = request.nextUrl.searchParams.get("guestId");
+  const caller = await getCaller(request, guestId);
+
+  if (!caller.userId && !caller.guestId) {
+    return NextResponse.json(
+      { error: "Sign in or provide a guest id to list conversations." },
+      { status: 401 },
+    );
+  }
+
+  const { data, error } = await listConversations(
+    caller,
+    getReadClient(request, caller),
+  );
+
+  if (error) {
+    console.error("Error listing conversations", error);
+    return NextResponse.json(
+      { error: "Failed to load conversations." },
+      { status: 500 },
+    );
+  }
+
+  return NextResponse.json({ conversations: data });
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUserIdFromRequest } from "@/lib/auth";
+import {
+  buildChatExport,
+  listAllUserConversations,
+} from "@/lib/conversationExport";
+import { listPersonas } from "@/lib/personas";
+
+/** Everything a signed-in user owns, in the importable JSON format. */
+export async function GET(request: NextRequest) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: "Sign in to export your data." },
+      { status: 401 },
+    );
+  }
+
+  const { data: conversations, error } = await listAllUserConversations(userId);
+
+  if (error) {
+    console.error("Error listing conversations for export", error);
+    return NextResponse.json(
+      { error: "Failed to export your data." },
+      { status: 500 },
+    );
+  }
+
+  const [exportResult, personasResult] = await Promise.all([
+    buildChatExport(conversations),
+    listPersonas(userId),
+  ]);
+
+  if (exportResult.error || !exportResult.data || personasResult.error) {
+    console.error(
+      "Error exporting user data",
+      exportResult.error ?? personasResult.error,
+    );
+    return NextResponse.json(
+      { error: "Failed to export your data." },
+      { status: 500 },
+    );
+  }
+
+  const day = new Date().toISOString().slice(0, 10);
+
+  return NextResponse.json(
+    { ...exportResult.data, personas: personasResult.data },
+    {
+      headers: {
+        "Content-Disposition": `attachment; filename="chat-export-${day}.json"`,
+      },
+    },
+  );
+}
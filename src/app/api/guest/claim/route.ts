@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUserIdFromRequest } from "@/lib/auth";
+import { isUuid } from "@/lib/conversations";
+import { supabaseServerClient } from "@/lib/supabaseServerClient";
+
+export async function POST(request: NextRequest) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: "Sign in to claim guest conversations." },
+      { status: 401 },
+    );
+  }
+
+  let body: { guestId?: string | null };
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const guestId = body.guestId;
+
+  if (typeof guestId !== "string" || !isUuid(guestId)) {
+    return NextResponse.json(
+      { error: "'guestId' must be a guest session id." },
+      { status: 400 },
+    );
+  }
+
+  const { data, error } = await supabaseServerClient.rpc(
+    "claim_guest_conversations",
+    { p_guest_id: guestId, p_user_id: userId },
+  );
+
+  if (error) {
+    console.error("Error claiming guest conversations", error);
+    return NextResponse.json(
+      { error: "Failed to move guest conversations to your account." },
+      { status: 500 },
+    );
+  }
+
+  if (data === -1) {
+    return NextResponse.json(
+      { error: "This guest session was already linked to another account." },
+      { status: 409 },
+    );
+  }
+
+  return NextResponse.json({ claimed: Number(data ?? 0) });
+}
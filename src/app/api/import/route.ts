@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUserIdFromRequest } from "@/lib/auth";
+import {
+  importConversations,
+  parseImportFile,
+} from "@/lib/conversationImport";
+
+/**
+ * Recreates conversations from a JSON export, a ChatGPT `conversations.json`
+ * or an OpenAI-style `{ messages }` file. The file is the request body.
+ */
+export async function POST(request: NextRequest) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: "Sign in to import conversations." },
+      { status: 401 },
+    );
+  }
+
+  let body: unknown;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const { data: conversations, error: parseError } = parseImportFile(body);
+
+  if (!conversations) {
+    return NextResponse.json({ error: parseError }, { status: 400 });
+  }
+
+  const { data: conversationIds, error } = await importConversations(
+    userId,
+    conversations,
+  );
+
+  if (error) {
+    console.error("Error importing conversations", error);
+    return NextResponse.json(
+      {
+        error: "Failed to import all conversations.",
+        imported: conversationIds.length,
+        conversationIds,
+      },
+      { status: 500 },
+    );
+  }
+
+  return NextResponse.json(
+    { imported: conversationIds.length, conversationIds },
+    { status: 201 },
+  );
+}
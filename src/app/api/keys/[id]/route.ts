@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUserIdFromRequest } from "@/lib/auth";
+import { API_KEY_COLUMNS } from "@/lib/apiKeys";
+import { isUuid } from "@/lib/conversations";
+import { supabaseServerClient } from "@/lib/supabaseServerClient";
+
+/** Revokes a key. The row is kept so past usage stays attributed to it. */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: "Sign in to manage API keys." },
+      { status: 401 },
+    );
+  }
+
+  if (!isUuid(id)) {
+    return NextResponse.json({ error: "API key not found." }, { status: 404 });
+  }
+
+  const { data, error } = await supabaseServerClient
+    .from("api_keys")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", id)
+    .eq("user_id", userId)
+    .is("revoked_at", null)
+    .select(API_KEY_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error revoking API key", error);
+    return NextResponse.json(
+      { error: "Failed to revoke API key." },
+      { status: 500 },
+    );
+  }
+
+  if (!data) {
+    return NextResponse.json({ error: "API key not found." }, { status: 404 });
+  }
+
+  return NextResponse.json({ apiKey: data });
+}
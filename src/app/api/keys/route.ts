@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUserIdFromRequest } from "@/lib/auth";
+import {
+  API_KEY_COLUMNS,
+  generateApiKey,
+  listApiKeys,
+} from "@/lib/apiKeys";
+import { supabaseServerClient } from "@/lib/supabaseServerClient";
+
+const MAX_KEY_NAME_LENGTH = 80;
+
+export async function GET(request: NextRequest) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: "Sign in to manage API keys." },
+      { status: 401 },
+    );
+  }
+
+  const { data, error } = await listApiKeys(userId);
+
+  if (error) {
+    console.error("Error listing API keys", error);
+    return NextResponse.json(
+      { error: "Failed to load API keys." },
+      { status: 500 },
+    );
+  }
+
+  return NextResponse.json({ apiKeys: data });
+}
+
+export async function POST(request: NextRequest) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: "Sign in to manage API keys." },
+      { status: 401 },
+    );
+  }
+
+  let body: { name?: string };
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const name = typeof body?.name === "string" ? body.name.trim() : "";
+  if (!name || name.length > MAX_KEY_NAME_LENGTH) {
+    return NextResponse.json(
+      {
+        error: `'name' is required and must be at most ${MAX_KEY_NAME_LENGTH} characters.`,
+      },
+      { status: 400 },
+    );
+  }
+
+  const { key, prefix, hash } = generateApiKey();
+
+  const { data, error } = await supabaseServerClient
+    .from("api_keys")
+    .insert({ user_id: userId, name, key_prefix: prefix, key_hash: hash })
+    .select(API_KEY_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    console.error("Error creating API key", error);
+    return NextResponse.json(
+      { error: "Failed to create API key." },
+      { status: 500 },
+    );
+  }
+
+  // The plaintext key is only ever returned here.
+  return NextResponse.json({ apiKey: data, key }, { status: 201 });
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUserFromRequest, isAdminUser } from "@/lib/auth";
+import {
+  buildMetricsReport,
+  fetchFeedback,
+  fetchInvocations,
+  fetchPreferenceVotes,
+} from "@/lib/metrics";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 7;
+const MAX_RANGE_DAYS = 90;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseDay(value: string | null) {
+  if (!value || !DATE_PATTERN.test(value)) return null;
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export async function GET(request: NextRequest) {
+  const user = await getUserFromRequest(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "Sign in to view metrics." },
+      { status: 401 },
+    );
+  }
+
+  if (!isAdminUser(user)) {
+    return NextResponse.json(
+      { error: "Metrics are restricted to admin users." },
+      { status: 403 },
+    );
+  }
+
+  const params = request.nextUrl.searchParams;
+  const today = new Date(new Date().toISOString().slice(0, 10));
+  const to = parseDay(params.get("to")) ?? today;
+  const from =
+    parseDay(params.get("from")) ??
+    new Date(to.getTime() - (DEFAULT_RANGE_DAYS - 1) * DAY_MS);
+
+  if (from > to) {
+    return NextResponse.json(
+      { error: "'from' must be on or before 'to'." },
+      { status: 400 },
+    );
+  }
+
+  if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+    return NextResponse.json(
+      { error: `Date range is limited to ${MAX_RANGE_DAYS} days.` },
+      { status: 400 },
+    );
+  }
+
+  // `to` is inclusive, so query up to the start of the following day.
+  const toExclusive = new Date(to.getTime() + DAY_MS);
+
+  const [invocations, votes, feedback] = await Promise.all([
+    fetchInvocations(from.toISOString(), toExclusive.toISOString()),
+    fetchPreferenceVotes(from.toISOString(), toExclusive.toISOString()),
+    fetchFeedback(from.toISOString(), toExclusive.toISOString()),
+  ]);
+
+  if (invocations.error) {
+    console.error("Error loading model_invocations", invocations.error);
+    return NextResponse.json(
+      { error: "Failed to load metrics." },
+      { status: 500 },
+    );
+  }
+
+  if (votes.error) {
+    console.error("Error loading model_preferences", votes.error);
+    return NextResponse.json(
+      { error: "Failed to load metrics." },
+      { status: 500 },
+    );
+  }
+
+  if (feedback.error) {
+    console.error("Error loading message_feedback", feedback.error);
+    return NextResponse.json(
+      { error: "Failed to load metrics." },
+      { status: 500 },
+    );
+  }
+
+  return NextResponse.json(
+    buildMetricsReport(invocations.data, votes.data, feedback.data, {
+      from: from.toISOString().slice(0, 10),
+      to: to.toISOString().slice(0, 10),
+      modelId: params.get("model") || null,
+      truncated: invocations.truncated,
+    }),
+  );
+}
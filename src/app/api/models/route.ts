@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server";
+import { getDefaultModel, listModels } from "@/lib/llm/registry";
+
+export async function GET() {
+  return NextResponse.json({
+    models: listModels(),
+    defaultModelId: getDefaultModel()?.id ?? null,
+  });
+}
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUserIdFromRequest } from "@/lib/auth";
+import {
+  PERSONA_COLUMNS,
+  getOwnedPersona,
+  parsePersonaInput,
+} from "@/lib/personas";
+import { supabaseServerClient } from "@/lib/supabaseServerClient";
+
+async function loadOwnedPersona(request: NextRequest, id: string) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return {
+      response: NextResponse.json(
+        { error: "Sign in to manage personas." },
+        { status: 401 },
+      ),
+    };
+  }
+
+  const { data: persona, error } = await getOwnedPersona(userId, id);
+
+  if (error) {
+    console.error("Error loading persona", error);
+    return {
+      response: NextResponse.json(
+        { error: "Failed to load persona." },
+        { status: 500 },
+      ),
+    };
+  }
+
+  if (!persona) {
+    return {
+      response: NextResponse.json(
+        { error: "Persona not found." },
+        { status: 404 },
+      ),
+    };
+  }
+
+  return { persona };
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const { persona, response } = await loadOwnedPersona(request, id);
+  if (!persona) return response;
+
+  return NextResponse.json({ persona });
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+
+  let body: Record<string, unknown>;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const { persona, response } = await loadOwnedPersona(request, id);
+  if (!persona) return response;
+
+  // Fields left out of the body keep their current values. The default model
+  // is only re-validated when it changes, so a persona whose model has since
+  // been removed from the deployment can still be edited.
+  const { value, error: validationError } = parsePersonaInput({
+    name: persona.name,
+    systemPrompt: persona.system_prompt,
+    temperature: persona.temperature,
+    maxTokens: persona.max_tokens,
+    ...body,
+  });
+
+  if (!value) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+
+  if (!("defaultModelId" in body)) {
+    value.provider = persona.provider;
+    value.model = persona.model;
+  }
+
+  const { data, error } = await supabaseServerClient
+    .from("personas")
+    .update({ ...value, updated_at: new Date().toISOString() })
+    .eq("id", persona.id)
+    .select(PERSONA_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    console.error("Error updating persona", error);
+    return NextResponse.json(
+      { error: "Failed to update persona." },
+      { status: 500 },
+    );
+  }
+
+  return NextResponse.json({ persona: data });
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const { persona, response } = await loadOwnedPersona(request, id);
+  if (!persona) return response;
+
+  const { error } = await supabaseServerClient
+    .from("personas")
+    .delete()
+    .eq("id", persona.id);
+
+  if (error) {
+    console.error("Error deleting persona", error);
+    return NextResponse.json(
+      { error: "Failed to delete persona." },
+      { status: 500 },
+    );
+  }
+
+  return NextResponse.json({ deleted: true });
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUserIdFromRequest } from "@/lib/auth";
+import {
+  PERSONA_COLUMNS,
+  listPersonas,
+  parsePersonaInput,
+} from "@/lib/personas";
+import { supabaseServerClient } from "@/lib/supabaseServerClient";
+
+export async function GET(request: NextRequest) {
+  const userId = await getUserIdFromRequest(request);
+
+  // Personas belong to accounts; guests simply have none.
+  if (!userId) {
+    return NextResponse.json({ personas: [] });
+  }
+
+  const { data, error } = await listPersonas(userId);
+
+  if (error) {
+    console.error("Error listing personas", error);
+    return NextResponse.json(
+      { error: "Failed to load personas." },
+      { status: 500 },
+    );
+  }
+
+  return NextResponse.json({ personas: data });
+}
+
+export async function POST(request: NextRequest) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: "Sign in to create personas." },
+      { status: 401 },
+    );
+  }
+
+  let body: Record<string, unknown>;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const { value, error: validationError } = parsePersonaInput(body ?? {});
+  if (!value) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+
+  const { data, error } = await supabaseServerClient
+    .from("personas")
+    .insert({ ...value, user_id: userId })
+    .select(PERSONA_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    console.error("Error creating persona", error);
+    return NextResponse.json(
+      { error: "Failed to create persona." },
+      { status: 500 },
+    );
+  }
+
+  return NextResponse.json({ persona: data }, { status: 201 });
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCaller } from "@/lib/auth";
+import { searchMessages } from "@/lib/conversations";
+
+const MAX_QUERY_LENGTH = 200;
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const caller = await getCaller(request, searchParams.get("guestId"));
+
+  if (!caller.userId && !caller.guestId) {
+    return NextResponse.json(
+      { error: "Sign in or provide a guest id to search conversations." },
+      { status: 401 },
+    );
+  }
+
+  const query = (searchParams.get("q") ?? "").trim();
+
+  if (!query) {
+    return NextResponse.json({ results: [] });
+  }
+
+  if (query.length > MAX_QUERY_LENGTH) {
+    return NextResponse.json(
+      { error: `'q' must be at most ${MAX_QUERY_LENGTH} characters.` },
+      { status: 400 },
+    );
+  }
+
+  const { data, error } = await searchMessages(caller, query);
+
+  if (error) {
+    console.error("Error searching messages", error);
+    return NextResponse.json(
+      { error: "Failed to search conversations." },
+      { status: 500 },
+    );
+  }
+
+  return NextResponse.json({ results: data });
+}
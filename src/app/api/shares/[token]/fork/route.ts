@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCaller } from "@/lib/auth";
+import { forkShare, getActiveShare } from "@/lib/shares";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> },
+) {
+  const { token } = await params;
+
+  let body: { guestId?: string | null };
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const caller = await getCaller(request, body.guestId ?? null);
+
+  if (!caller.userId && !caller.guestId) {
+    return NextResponse.json(
+      { error: "Sign in or provide a guest id to continue this chat." },
+      { status: 401 },
+    );
+  }
+
+  const { data: share, error } = await getActiveShare(token);
+
+  if (error) {
+    console.error("Error loading share", error);
+    return NextResponse.json(
+      { error: "Failed to load share link." },
+      { status: 500 },
+    );
+  }
+
+  if (!share) {
+    return NextResponse.json(
+      { error: "Share link not found." },
+      { status: 404 },
+    );
+  }
+
+  const { data: conversationId, error: forkError } = await forkShare(
+    share,
+    caller,
+  );
+
+  if (forkError || !conversationId) {
+    console.error("Error forking shared conversation", forkError);
+    return NextResponse.json(
+      { error: "Failed to copy the conversation." },
+      { status: 500 },
+    );
+  }
+
+  return NextResponse.json({ conversationId }, { status: 201 });
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCaller } from "@/lib/auth";
+import { getOwnedConversation } from "@/lib/conversations";
+import { getActiveShare } from "@/lib/shares";
+import { supabaseServerClient } from "@/lib/supabaseServerClient";
+
+/** Revokes a share link. Only the conversation's owner can do this. */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> },
+) {
+  const { token } = await params;
+  const caller = await getCaller(
+    request,
+    request.nextUrl.searchParams.get("guestId"),
+  );
+
+  const { data: share, error } = await getActiveShare(token);
+
+  if (error) {
+    console.error("Error loading share", error);
+    return NextResponse.json(
+      { error: "Failed to load share link." },
+      { status: 500 },
+    );
+  }
+
+  const { data: conversation, error: conversationError } = share
+    ? await getOwnedConversation(caller, share.conversation_id)
+    : { data: null, error: null };
+
+  if (conversationError) {
+    console.error("Error loading conversation", conversationError);
+    return NextResponse.json(
+      { error: "Failed to load share link." },
+      { status: 500 },
+    );
+  }
+
+  if (!share || !conversation) {
+    return NextResponse.json(
+      { error: "Share link not found." },
+      { status: 404 },
+    );
+  }
+
+  const { error: revokeError } = await supabaseServerClient
+    .from("conversation_shares")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", share.id);
+
+  if (revokeError) {
+    console.error("Error revoking share", revokeError);
+    return NextResponse.json(
+      { error: "Failed to revoke share link." },
+      { status: 500 },
+    );
+  }
+
+  return NextResponse.json({ revoked: true });
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCaller } from "@/lib/auth";
+import { getOwnedConversation } from "@/lib/conversations";
+import { createShare, listActiveShares } from "@/lib/shares";
+
+function toShareLink(
+  request: NextRequest,
+  share: { id: string; token: string; created_at: string },
+) {
+  return {
+    id: share.id,
+    token: share.token,
+    url: `${request.nextUrl.origin}/share/${share.token}`,
+    created_at: share.created_at,
+  };
+}
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const caller = await getCaller(request, searchParams.get("guestId"));
+  const { data: conversation, error } = await getOwnedConversation(
+    caller,
+    searchParams.get("conversationId") ?? "",
+  );
+
+  if (error) {
+    console.error("Error loading conversation", error);
+    return NextResponse.json(
+      { error: "Failed to load conversation." },
+      { status: 500 },
+    );
+  }
+
+  if (!conversation) {
+    return NextResponse.json(
+      { error: "Conversation not found." },
+      { status: 404 },
+    );
+  }
+
+  const { data: shares, error: sharesError } = await listActiveShares(
+    conversation.id,
+  );
+
+  if (sharesError) {
+    console.error("Error listing shares", sharesError);
+    return NextResponse.json(
+      { error: "Failed to load share links." },
+      { status: 500 },
+    );
+  }
+
+  return NextResponse.json({
+    shares: shares.map((share) => toShareLink(request, share)),
+  });
+}
+
+export async function POST(request: NextRequest) {
+  let body: { conversationId?: string; guestId?: string | null };
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const caller = await getCaller(request, body.guestId ?? null);
+  const { data: conversation, error } = await getOwnedConversation(
+    caller,
+    body.conversationId ?? "",
+  );
+
+  if (error) {
+    console.error("Error loading conversation", error);
+    return NextResponse.json(
+      { error: "Failed to load conversation." },
+      { status: 500 },
+    );
+  }
+
+  if (!conversation) {
+    return NextResponse.json(
+      { error: "Conversation not found." },
+      { status: 404 },
+    );
+  }
+
+  const { data: share, error: shareError } = await createShare(conversation);
+
+  if (shareError || !share) {
+    console.error("Error creating share", shareError);
+    return NextResponse.json(
+      { error: "Failed to create share link." },
+      { status: 500 },
+    );
+  }
+
+  return NextResponse.json(
+    { share: toShareLink(request, share) },
+    { status: 201 },
+  );
+}
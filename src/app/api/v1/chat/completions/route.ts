@@ -0,0 +1,471 @@
+import { randomUUID } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateApiKey, type ApiKeyCaller } from "@/lib/apiKeys";
+import { EMPTY_USAGE, recordInvocation } from "@/lib/invocations";
+import {
+  findModel,
+  getDefaultModel,
+  getProvider,
+  listModels,
+  type ModelOption,
+} from "@/lib/llm/registry";
+import {
+  classifyUpstreamError,
+  completeWithRetries,
+  openStreamWithRetries,
+  type FailedAttempt,
+} from "@/lib/llm/resilience";
+import type {
+  ChatCompletionMessage,
+  TokenUsage,
+  UpstreamErrorCode,
+} from "@/lib/llm/types";
+import {
+  checkDailyTokenQuota,
+  checkRateLimit,
+  rateLimitHeaders,
+} from "@/lib/rateLimit";
+import { encodeSseEvent } from "@/lib/sse";
+
+// OpenAI-compatible entry point for scripts and CI. Stateless: nothing is
+// written to `conversations`/`messages`, only to `model_invocations`.
+
+type OpenAIMessage = {
+  role?: unknown;
+  content?: unknown;
+};
+
+type OpenAIRequestBody = {
+  model?: unknown;
+  messages?: unknown;
+  stream?: unknown;
+  stream_options?: { include_usage?: unknown } | null;
+  temperature?: unknown;
+  max_tokens?: unknown;
+  max_completion_tokens?: unknown;
+};
+
+// The classified code is passed through as `error.code`.
+const UPSTREAM_ERRORS: Record<
+  UpstreamErrorCode,
+  { status: number; type: string; message: string }
+> = {
+  upstream_timeout: {
+    status: 504,
+    type: "api_error",
+    message: "The model took too long to respond.",
+  },
+  upstream_rate_limited: {
+    status: 503,
+    type: "api_error",
+    message: "The model provider is busy right now.",
+  },
+  upstream_unavailable: {
+    status: 502,
+    type: "api_error",
+    message: "The model provider is unavailable.",
+  },
+  upstream_auth_failed: {
+    status: 502,
+    type: "api_error",
+    message: "The model provider rejected the server's credentials.",
+  },
+  upstream_bad_request: {
+    status: 502,
+    type: "api_error",
+    message: "The model provider rejected the request.",
+  },
+  content_filtered: {
+    status: 400,
+    type: "invalid_request_error",
+    message: "The response was blocked by the provider's content filter.",
+  },
+  context_length_exceeded: {
+    status: 400,
+    type: "invalid_request_error",
+    message: "The messages are too long for the selected model.",
+  },
+  upstream_error: {
+    status: 502,
+    type: "api_error",
+    message: "Model request failed.",
+  },
+};
+
+function openAIError(
+  message: string,
+  status: number,
+  type = "invalid_request_error",
+  headers?: Record<string, string>,
+  code: string | null = null,
+) {
+  return NextResponse.json(
+    { error: { message, type, param: null, code } },
+    { status, headers },
+  );
+}
+
+/** Every failed upstream attempt, including retries and fallbacks, is logged. */
+function recordFailedAttempt(apiKeyId: string) {
+  return async ({ model, code, latencyMs }: FailedAttempt) => {
+    await recordInvocation({
+      apiKeyId,
+      model,
+      latencyMs,
+      timeToFirstTokenMs: null,
+      usage: EMPTY_USAGE,
+      status: code,
+    });
+  };
+}
+
+function toOpenAIUsage(usage: TokenUsage) {
+  return {
+    prompt_tokens: usage.inputTokens ?? 0,
+    completion_tokens: usage.outputTokens ?? 0,
+    total_tokens: usage.totalTokens ?? 0,
+  };
+}
+
+/** Accepts plain string content or an array of `{ type: "text" }` parts. */
+function toMessageContent(content: unknown) {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return null;
+
+  const parts = content.map((part) =>
+    part?.type === "text" && typeof part.text === "string" ? part.text : null,
+  );
+  return parts.every((part) => part !== null) ? parts.join("") : null;
+}
+
+function parseMessages(raw: unknown): ChatCompletionMessage[] | null {
+  if (!Array.isArray(raw) || raw.length === 0) return null;
+
+  const messages: ChatCompletionMessage[] = [];
+  for (const message of raw as OpenAIMessage[]) {
+    const role = message?.role === "developer" ? "system" : message?.role;
+    const content = toMessageContent(message?.content);
+
+    if (
+      (role !== "system" && role !== "user" && role !== "assistant") ||
+      content === null
+    ) {
+      return null;
+    }
+    messages.push({ role, content });
+  }
+
+  return messages;
+}
+
+/** Matches our `provider:model` ids first, then a bare upstream model name. */
+function resolveModel(model: unknown): ModelOption | null {
+  if (model === undefined || model === null || model === "") {
+    return getDefaultModel();
+  }
+  if (typeof model !== "string") return null;
+
+  return (
+    findModel(model) ?? listModels().find((m) => m.model === model) ?? null
+  );
+}
+
+function optionalNumber(value: unknown) {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+export async function POST(request: NextRequest) {
+  const apiKey = await authenticateApiKey(request);
+
+  if (!apiKey) {
+    return openAIError(
+      "Invalid or missing API key.",
+      401,
+      "authentication_error",
+    );
+  }
+
+  let body: OpenAIRequestBody;
+
+  try {
+    body = await request.json();
+  } catch {
+    return openAIError("Invalid JSON body.", 400);
+  }
+
+  const messages = parseMessages(body?.messages);
+  if (!messages) {
+    return openAIError(
+      "'messages' must be a non-empty array of system, user or assistant messages with text content.",
+      400,
+    );
+  }
+
+  const model = resolveModel(body.model);
+  const provider = model ? getProvider(model.provider) : null;
+
+  if (!model || !provider) {
+    return openAIError(
+      `The model '${String(body.model)}' does not exist.`,
+      404,
+      "invalid_request_error",
+    );
+  }
+
+  const temperature = optionalNumber(body.temperature);
+  if (temperature !== null && (temperature < 0 || temperature > 2)) {
+    return openAIError("'temperature' must be between 0 and 2.", 400);
+  }
+
+  const maxTokens = optionalNumber(
+    body.max_completion_tokens ?? body.max_tokens,
+  );
+  if (maxTokens !== null && (!Number.isInteger(maxTokens) || maxTokens <= 0)) {
+    return openAIError("'max_tokens' must be a positive integer.", 400);
+  }
+
+  // Same buckets and daily quota as the browser chat for this user.
+  const caller = { userId: apiKey.userId, guestId: null };
+  const rateLimit = await checkRateLimit(request, caller);
+  const limitHeaders = rateLimitHeaders(rateLimit);
+
+  if (rateLimit && !rateLimit.allowed) {
+    return openAIError(
+      "Rate limit reached. Please slow down.",
+      429,
+      "rate_limit_error",
+      limitHeaders,
+    );
+  }
+
+  const quota = await checkDailyTokenQuota(caller);
+
+  if (quota && !quota.allowed) {
+    return openAIError(
+      "You have reached today's token quota. It resets at midnight UTC.",
+      429,
+      "insufficient_quota",
+      {
+        ...limitHeaders,
+        "Retry-After": String(quota.retryAfterSeconds),
+        "X-Quota-Limit": String(quota.limit),
+        "X-Quota-Used": String(quota.used),
+      },
+    );
+  }
+
+  const completionRequest = { messages, temperature, maxTokens };
+  const completionId = `chatcmpl-${randomUUID().replace(/-/g, "")}`;
+  const created = Math.floor(Date.now() / 1000);
+  const startedAt = Date.now();
+
+  if (body.stream === true) {
+    return streamCompletion({
+      request,
+      model,
+      completionRequest,
+      apiKey,
+      completionId,
+      created,
+      includeUsage: body.stream_options?.include_usage === true,
+      startedAt,
+      headers: limitHeaders,
+    });
+  }
+
+  let completion;
+  try {
+    completion = await completeWithRetries({
+      model,
+      call: { ...completionRequest, signal: request.signal },
+      onFailedAttempt: recordFailedAttempt(apiKey.keyId),
+    });
+  } catch (error) {
+    console.error("Model provider error", error);
+    const code = classifyUpstreamError(error);
+    const { status, type, message } = UPSTREAM_ERRORS[code];
+    return openAIError(message, status, type, limitHeaders, code);
+  }
+
+  const { model: completionModel, result } = completion;
+
+  await recordInvocation({
+    apiKeyId: apiKey.keyId,
+    model: completionModel,
+    latencyMs: Date.now() - startedAt,
+    timeToFirstTokenMs: null,
+    usage: result.usage,
+    status: "success",
+  });
+
+  return NextResponse.json(
+    {
+      id: completionId,
+      object: "chat.completion",
+      created,
+      model: completionModel.id,
+      choices: [
+        {
+          index: 0,
+          message: { role: "assistant", content: result.content },
+          finish_reason: "stop",
+        },
+      ],
+      usage: toOpenAIUsage(result.usage),
+    },
+    { headers: limitHeaders },
+  );
+}
+
+function streamCompletion({
+  request,
+  model,
+  completionRequest,
+  apiKey,
+  completionId,
+  created,
+  includeUsage,
+  startedAt,
+  headers,
+}: {
+  request: NextRequest;
+  model: ModelOption;
+  completionRequest: {
+    messages: ChatCompletionMessage[];
+    temperature: number | null;
+    maxTokens: number | null;
+  };
+  apiKey: ApiKeyCaller;
+  completionId: string;
+  created: number;
+  includeUsage: boolean;
+  startedAt: number;
+  headers: Record<string, string>;
+}) {
+  const encoder = new TextEncoder();
+  const upstreamController = new AbortController();
+  const abortUpstream = () => upstreamController.abort();
+  request.signal.addEventListener("abort", abortUpstream);
+
+  // Becomes the fallback model if the primary could not be reached.
+  let streamModel = model;
+
+  const chunk = (
+    delta: Record<string, string>,
+    finishReason: string | null = null,
+  ) => ({
+    id: completionId,
+    object: "chat.completion.chunk",
+    created,
+    model: streamModel.id,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  });
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (data: string) => {
+        if (upstreamController.signal.aborted) return;
+        try {
+          controller.enqueue(encoder.encode(data));
+        } catch {
+          // The client has gone away; usage is still recorded below.
+        }
+      };
+
+      let usage: TokenUsage = EMPTY_USAGE;
+      let timeToFirstTokenMs: number | null = null;
+      let status: "success" | UpstreamErrorCode = "success";
+      let isStreamOpen = false;
+
+      try {
+        const opened = await openStreamWithRetries({
+          model,
+          call: { ...completionRequest, signal: upstreamController.signal },
+          onFailedAttempt: recordFailedAttempt(apiKey.keyId),
+        });
+        streamModel = opened.model;
+        isStreamOpen = true;
+
+        send(encodeSseEvent(chunk({ role: "assistant", content: "" })));
+
+        for await (const part of opened.chunks) {
+          if (part.type === "delta") {
+            if (timeToFirstTokenMs === null) {
+              timeToFirstTokenMs = Date.now() - startedAt;
+            }
+            send(encodeSseEvent(chunk({ content: part.content })));
+          } else if (part.type === "usage") {
+            usage = part.usage;
+          }
+        }
+
+        send(encodeSseEvent(chunk({}, "stop")));
+        if (includeUsage) {
+          send(
+            encodeSseEvent({
+              id: completionId,
+              object: "chat.completion.chunk",
+              created,
+              model: streamModel.id,
+              choices: [],
+              usage: toOpenAIUsage(usage),
+            }),
+          );
+        }
+      } catch (error) {
+        if (!upstreamController.signal.aborted) {
+          console.error("Model provider stream error", error);
+          status = classifyUpstreamError(error);
+          const { type, message } = UPSTREAM_ERRORS[status];
+          send(
+            encodeSseEvent({
+              error: {
+                message:
+                  timeToFirstTokenMs === null
+                    ? message
+                    : "Model stream was interrupted.",
+                type,
+                param: null,
+                code: status,
+              },
+            }),
+          );
+        }
+      } finally {
+        request.signal.removeEventListener("abort", abortUpstream);
+        const isCancelled = upstreamController.signal.aborted;
+        send("data: [DONE]\n\n");
+
+        // Failures before the stream opened were logged per attempt.
+        if (isStreamOpen || isCancelled) {
+          await recordInvocation({
+            apiKeyId: apiKey.keyId,
+            model: streamModel,
+            latencyMs: Date.now() - startedAt,
+            timeToFirstTokenMs,
+            usage,
+            status: isCancelled ? "cancelled" : status,
+          });
+        }
+
+        try {
+          controller.close();
+        } catch {
+          // Already closed by a cancelled client.
+        }
+      }
+    },
+    cancel() {
+      abortUpstream();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      ...headers,
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,404 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState, FormEvent } from "react";
+import { getAuthHeaders } from "@/lib/clientAuth";
+import type { MetricsReport } from "@/lib/metrics";
+import {
+  LatencyHistogram,
+  TokensOverTimeChart,
+} from "@/components/MetricsCharts";
+
+function daysAgo(days: number) {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() - days);
+  return date.toISOString().slice(0, 10);
+}
+
+function formatMs(value: number | null) {
+  return value === null ? "–" : `${value.toLocaleString()} ms`;
+}
+
+function formatUsd(value: number) {
+  return `$${value.toFixed(4)}`;
+}
+
+function formatPercent(value: number) {
+  return `${Math.round(value * 100)}%`;
+}
+
+export default function MetricsPage() {
+  const [from, setFrom] = useState(() => daysAgo(6));
+  const [to, setTo] = useState(() => daysAgo(0));
+  const [model, setModel] = useState("");
+  const [filters, setFilters] = useState({ from, to, model });
+  const [report, setReport] = useState<MetricsReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let isCurrent = true;
+
+    const loadReport = async () => {
+      setIsLoading(true);
+      try {
+        const params = new URLSearchParams({
+          from: filters.from,
+          to: filters.to,
+        });
+        if (filters.model) params.set("model", filters.model);
+
+        const res = await fetch(`/api/metrics?${params}`, {
+          headers: await getAuthHeaders(),
+        });
+        const json = (await res.json()) as MetricsReport & { error?: string };
+        if (!isCurrent) return;
+
+        if (!res.ok) {
+          setReport(null);
+          setError(json.error ?? "Failed to load metrics.");
+          return;
+        }
+
+        setReport(json);
+        setError(null);
+      } catch (loadError) {
+        console.error("Error loading metrics", loadError);
+        if (isCurrent) setError("Failed to load metrics.");
+      } finally {
+        if (isCurrent) setIsLoading(false);
+      }
+    };
+
+    void loadReport();
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [filters]);
+
+  const handleApply = (event: FormEvent) => {
+    event.preventDefault();
+    setFilters({ from, to, model });
+  };
+
+  const tokensByDay = Object.values(
+    (report?.daily ?? []).reduce<
+      Record<string, { day: string; inputTokens: number; outputTokens: number }>
+    >((acc, row) => {
+      const entry = acc[row.day] ?? {
+        day: row.day,
+        inputTokens: 0,
+        outputTokens: 0,
+      };
+      entry.inputTokens += row.inputTokens;
+      entry.outputTokens += row.outputTokens;
+      acc[row.day] = entry;
+      return acc;
+    }, {}),
+  ).sort((a, b) => a.day.localeCompare(b.day));
+
+  return (
+    <div className="flex min-h-screen flex-col bg-zinc-950 text-zinc-50">
+      <header className="flex items-center justify-between border-b border-zinc-800 px-4 py-3 sm:px-6">
+        <div className="flex flex-col gap-1">
+          <h1 className="text-lg font-semibold tracking-tight sm:text-xl">
+            Model metrics
+          </h1>
+          <p className="text-xs text-zinc-400 sm:text-sm">
+            Latency, token usage, errors, cost and compare-mode votes.
+          </p>
+        </div>
+        <Link
+          href="/"
+          className="rounded-full border border-zinc-700 px-3 py-1 text-xs font-medium text-zinc-100 hover:bg-zinc-800"
+        >
+          Back to chat
+        </Link>
+      </header>
+
+      <main className="mx-auto flex w-full max-w-5xl flex-1 flex-col gap-4 px-4 py-4 sm:px-6 sm:py-6">
+        <form
+          onSubmit={handleApply}
+          className="flex flex-wrap items-end gap-3 rounded-2xl border border-zinc-800 bg-zinc-900/60 px-4 py-3"
+        >
+          <label className="flex flex-col gap-1 text-xs text-zinc-400">
+            From
+            <input
+              type="date"
+              value={from}
+              max={to}
+              onChange={(event) => setFrom(event.target.value)}
+              className="rounded-lg border border-zinc-800 bg-zinc-900 px-2 py-1 text-sm text-zinc-50"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-zinc-400">
+            To
+            <input
+              type="date"
+              value={to}
+              min={from}
+              onChange={(event) => setTo(event.target.value)}
+              className="rounded-lg border border-zinc-800 bg-zinc-900 px-2 py-1 text-sm text-zinc-50"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-zinc-400">
+            Model
+            <select
+              value={model}
+              onChange={(event) => setModel(event.target.value)}
+              className="rounded-lg border border-zinc-800 bg-zinc-900 px-2 py-1 text-sm text-zinc-50"
+            >
+              <option value="">All models</option>
+              {(report?.availableModels ?? []).map((id) => (
+                <option key={id} value={id}>
+                  {id}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="rounded-xl bg-emerald-500 px-3 py-1.5 text-sm font-medium text-emerald-950 hover:bg-emerald-400 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {isLoading ? "Loading..." : "Apply"}
+          </button>
+        </form>
+
+        {error && (
+          <div className="rounded-2xl border border-rose-500/40 bg-rose-500/10 px-4 py-2 text-sm text-rose-200">
+            {error}
+          </div>
+        )}
+
+        {report?.truncated && (
+          <div className="rounded-2xl border border-amber-500/40 bg-amber-500/10 px-4 py-2 text-sm text-amber-200">
+            This range has more invocations than can be aggregated at once;
+            narrow the dates for complete figures.
+          </div>
+        )}
+
+        {report && (
+          <>
+            <section className="overflow-x-auto rounded-2xl border border-zinc-800 bg-zinc-900/60">
+              <table className="w-full text-left text-xs sm:text-sm">
+                <thead className="border-b border-zinc-800 text-zinc-400">
+                  <tr>
+                    <th className="px-3 py-2 font-medium">Model</th>
+                    <th className="px-3 py-2 font-medium">Requests</th>
+                    <th className="px-3 py-2 font-medium">Errors</th>
+                    <th className="px-3 py-2 font-medium">p50</th>
+                    <th className="px-3 py-2 font-medium">p90</th>
+                    <th className="px-3 py-2 font-medium">p99</th>
+                    <th className="px-3 py-2 font-medium">Avg TTFT</th>
+                    <th className="px-3 py-2 font-medium">Tokens in / out</th>
+                    <th className="px-3 py-2 font-medium">Cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.summary.length === 0 ? (
+                    <tr>
+                      <td colSpan={9} className="px-3 py-4 text-zinc-500">
+                        No invocations in range.
+                      </td>
+                    </tr>
+                  ) : (
+                    report.summary.map((row) => (
+                      <tr
+                        key={row.modelId}
+                        className="border-b border-zinc-800/60 last:border-0"
+                      >
+                        <td className="px-3 py-2">
+                          <p className="text-zinc-100">{row.model}</p>
+                          <p className="text-[11px] text-zinc-500">
+                            {row.provider}
+                          </p>
+                        </td>
+                        <td className="px-3 py-2">{row.requests}</td>
+                        <td className="px-3 py-2">{row.errors}</td>
+                        <td className="px-3 py-2">{formatMs(row.latencyP50)}</td>
+                        <td className="px-3 py-2">{formatMs(row.latencyP90)}</td>
+                        <td className="px-3 py-2">{formatMs(row.latencyP99)}</td>
+                        <td className="px-3 py-2">
+                          {formatMs(row.avgTimeToFirstToken)}
+                        </td>
+                        <td className="px-3 py-2">
+                          {row.inputTokens.toLocaleString()} /{" "}
+                          {row.outputTokens.toLocaleString()}
+                        </td>
+                        <td className="px-3 py-2">{formatUsd(row.costUsd)}</td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </section>
+
+            <section className="overflow-x-auto rounded-2xl border border-zinc-800 bg-zinc-900/60">
+              <h2 className="border-b border-zinc-800 px-3 py-2 text-sm font-medium text-zinc-100">
+                Compare-mode win rates
+              </h2>
+              <table className="w-full text-left text-xs sm:text-sm">
+                <thead className="border-b border-zinc-800 text-zinc-400">
+                  <tr>
+                    <th className="px-3 py-2 font-medium">Model A</th>
+                    <th className="px-3 py-2 font-medium">Model B</th>
+                    <th className="px-3 py-2 font-medium">Votes (blind)</th>
+                    <th className="px-3 py-2 font-medium">A / tie / B</th>
+                    <th className="px-3 py-2 font-medium">Win rate A – B</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.winRates.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="px-3 py-4 text-zinc-500">
+                        No votes in range.
+                      </td>
+                    </tr>
+                  ) : (
+                    report.winRates.map((row) => (
+                      <tr
+                        key={`${row.modelA}-${row.modelB}`}
+                        className="border-b border-zinc-800/60 last:border-0"
+                      >
+                        <td className="px-3 py-2">{row.modelA}</td>
+                        <td className="px-3 py-2">{row.modelB}</td>
+                        <td className="px-3 py-2">
+                          {row.votes} ({row.blindVotes})
+                        </td>
+                        <td className="px-3 py-2">
+                          {row.winsA} / {row.ties} / {row.winsB}
+                        </td>
+                        <td className="px-3 py-2">
+                          {formatPercent(row.winRateA)} –{" "}
+                          {formatPercent(1 - row.winRateA)}
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </section>
+
+            <section className="overflow-x-auto rounded-2xl border border-zinc-800 bg-zinc-900/60">
+              <h2 className="border-b border-zinc-800 px-3 py-2 text-sm font-medium text-zinc-100">
+                Satisfaction by model and persona
+              </h2>
+              <table className="w-full text-left text-xs sm:text-sm">
+                <thead className="border-b border-zinc-800 text-zinc-400">
+                  <tr>
+                    <th className="px-3 py-2 font-medium">Model</th>
+                    <th className="px-3 py-2 font-medium">Persona</th>
+                    <th className="px-3 py-2 font-medium">👍 / 👎</th>
+                    <th className="px-3 py-2 font-medium">Satisfaction</th>
+                    <th className="px-3 py-2 font-medium">p50 👍 – 👎</th>
+                    <th className="px-3 py-2 font-medium">
+                      Output tokens 👍 – 👎
+                    </th>
+                    <th className="px-3 py-2 font-medium">Top 👎 reasons</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.satisfaction.length === 0 ? (
+                    <tr>
+                      <td colSpan={7} className="px-3 py-4 text-zinc-500">
+                        No feedback in range.
+                      </td>
+                    </tr>
+                  ) : (
+                    report.satisfaction.map((row) => (
+                      <tr
+                        key={`${row.modelId}-${row.personaId ?? "none"}`}
+                        className="border-b border-zinc-800/60 last:border-0"
+                      >
+                        <td className="px-3 py-2">{row.modelId}</td>
+                        <td className="px-3 py-2">
+                          {row.personaName ?? "None"}
+                        </td>
+                        <td className="px-3 py-2">
+                          {row.up} / {row.down}
+                        </td>
+                        <td className="px-3 py-2">
+                          {formatPercent(row.satisfaction)}
+                        </td>
+                        <td className="px-3 py-2">
+                          {formatMs(row.latencyP50Up)} –{" "}
+                          {formatMs(row.latencyP50Down)}
+                        </td>
+                        <td className="px-3 py-2">
+                          {row.avgOutputTokensUp?.toLocaleString() ?? "–"} –{" "}
+                          {row.avgOutputTokensDown?.toLocaleString() ?? "–"}
+                        </td>
+                        <td className="px-3 py-2">
+                          {row.topDownReasons.length === 0
+                            ? "–"
+                            : row.topDownReasons
+                                .map((r) => `${r.reason} (${r.count})`)
+                                .join(", ")}
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </section>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <section className="rounded-2xl border border-zinc-800 bg-zinc-900/60 px-4 py-3">
+                <h2 className="mb-3 text-sm font-medium text-zinc-100">
+                  Latency distribution
+                </h2>
+                <LatencyHistogram buckets={report.latencyHistogram} />
+              </section>
+              <section className="rounded-2xl border border-zinc-800 bg-zinc-900/60 px-4 py-3">
+                <h2 className="mb-3 text-sm font-medium text-zinc-100">
+                  Tokens over time
+                </h2>
+                <TokensOverTimeChart days={tokensByDay} />
+              </section>
+            </div>
+
+            <section className="overflow-x-auto rounded-2xl border border-zinc-800 bg-zinc-900/60">
+              <h2 className="border-b border-zinc-800 px-3 py-2 text-sm font-medium text-zinc-100">
+                By day
+              </h2>
+              <table className="w-full text-left text-xs sm:text-sm">
+                <thead className="border-b border-zinc-800 text-zinc-400">
+                  <tr>
+                    <th className="px-3 py-2 font-medium">Day</th>
+                    <th className="px-3 py-2 font-medium">Model</th>
+                    <th className="px-3 py-2 font-medium">Requests</th>
+                    <th className="px-3 py-2 font-medium">Errors</th>
+                    <th className="px-3 py-2 font-medium">p50</th>
+                    <th className="px-3 py-2 font-medium">Tokens in / out</th>
+                    <th className="px-3 py-2 font-medium">Cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.daily.map((row) => (
+                    <tr
+                      key={`${row.day}-${row.modelId}`}
+                      className="border-b border-zinc-800/60 last:border-0"
+                    >
+                      <td className="px-3 py-2">{row.day}</td>
+                      <td className="px-3 py-2">{row.modelId}</td>
+                      <td className="px-3 py-2">{row.requests}</td>
+                      <td className="px-3 py-2">{row.errors}</td>
+                      <td className="px-3 py-2">{formatMs(row.latencyP50)}</td>
+                      <td className="px-3 py-2">
+                        {row.inputTokens.toLocaleString()} /{" "}
+                        {row.outputTokens.toLocaleString()}
+                      </td>
+                      <td className="px-3 py-2">{formatUsd(row.costUsd)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
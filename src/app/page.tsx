@@ -1,26 +1,302 @@
 "use client";
 
-import { useEffect, useState, FormEvent } from "react";
+import Link from "next/link";
+import { useEffect, useRef, useState, FormEvent } from "react";
 import type { User } from "@supabase/supabase-js";
 import { supabaseBrowserClient } from "@/lib/supabaseClient";
+import { getAuthHeaders } from "@/lib/clientAuth";
+import { saveResponseAsFile } from "@/lib/download";
+import { getLatestLeaf, getPath, getSiblings } from "@/lib/messageTree";
+import { readSseData } from "@/lib/sse";
+import {
+  ConversationSidebar,
+  type ConversationListItem,
+  type MessageSearchResult,
+} from "@/components/ConversationSidebar";
+import {
+  AttachmentChips,
+  PendingAttachmentChips,
+  type MessageAttachment,
+  type PendingAttachment,
+} from "@/components/Attachments";
+import {
+  CompareControls,
+  ComparisonView,
+  type Comparison,
+  type ComparisonReply,
+  type PreferenceWinner,
+} from "@/components/ComparisonView";
+import { MarkdownMessage } from "@/components/MarkdownMessage";
+import {
+  MessageFeedbackControls,
+  type MessageFeedbackValue,
+} from "@/components/MessageFeedback";
+import { ModelPicker, type ModelOption } from "@/components/ModelPicker";
+import {
+  PersonaEditor,
+  type PersonaFormValues,
+} from "@/components/PersonaEditor";
+import { PersonaPicker, type PersonaOption } from "@/components/PersonaPicker";
+import { ShareDialog, type ShareLink } from "@/components/ShareDialog";
+import { ToolCallCards, type ToolCall } from "@/components/ToolCallCards";
 
 type ChatMessage = {
   id: string;
-  role: "user" | "assistant";
+  parentId: string | null;
+  role: "user" | "assistant" | "tool";
   content: string;
+  attachments?: MessageAttachment[];
+  toolCalls?: ToolCall[];
+  toolCallId?: string;
+  toolName?: string;
+  feedback?: MessageFeedbackValue | null;
 };
 
+type ChatStreamEvent =
+  | {
+      type: "start";
+      conversationId: string;
+      modelId: string;
+      userMessageId: string | null;
+      contextSummary: string | null;
+      redactedUserContent?: string | null;
+    }
+  | { type: "delta"; content: string }
+  | { type: "tool_step"; message: ChatMessage }
+  | { type: "tool_result"; message: ChatMessage }
+  | {
+      type: "done";
+      conversationId: string;
+      message: ChatMessage;
+      redacted?: boolean;
+    }
+  | { type: "title"; conversationId: string; title: string }
+  | { type: "error"; error: string; code?: string; message?: ChatMessage };
+
+type ConversationDetail = {
+  conversation?: ConversationListItem & {
+    active_message_id?: string | null;
+    persona_id?: string | null;
+  };
+  messages?: {
+    id: string;
+    parent_id?: string | null;
+    role: "user" | "assistant" | "system" | "tool";
+    content: string;
+    summarizes_until?: string | null;
+    tool_calls?: ToolCall[] | null;
+    tool_call_id?: string | null;
+    tool_name?: string | null;
+  }[];
+  attachments?: (MessageAttachment & { message_id: string | null })[];
+  feedback?: (MessageFeedbackValue & { message_id: string })[];
+};
+
+type PendingContinuation = {
+  conversationId: string | null;
+  draft: string;
+};
+
+const PENDING_CONTINUATION_KEY = "pending_continuation";
+
+// Mirrors the server limits in `@/lib/attachments`.
+const MAX_ATTACHMENT_BYTES = 4 * 1024 * 1024;
+const MAX_ATTACHMENTS_PER_MESSAGE = 5;
+
+type Banner = { kind: "warning" | "error" | "moderation"; text: string };
+
+// Content policy decisions get their own banner so they do not read as an
+// outage. Rejections come with the server's explanation.
+const MODERATION_REJECTED_CODE = "moderation_rejected";
+const REDACTED_INPUT_BANNER: Banner = {
+  kind: "moderation",
+  text: "Personal data or secrets in your message were redacted before it was sent.",
+};
+const REDACTED_REPLY_BANNER: Banner = {
+  kind: "moderation",
+  text: "Parts of the reply were redacted by the content policy.",
+};
+
+// Upstream failures the user can act on, keyed by the `code` the chat API
+// returns. Other codes show the server's message.
+const UPSTREAM_ERROR_BANNERS: Record<string, Banner> = {
+  upstream_timeout: {
+    kind: "warning",
+    text: "The model took too long to respond. Please try again.",
+  },
+  upstream_rate_limited: {
+    kind: "warning",
+    text: "The model provider is busy. Please try again in a few seconds.",
+  },
+  upstream_unavailable: {
+    kind: "error",
+    text: "The model provider is unavailable right now. Try again shortly or pick another model.",
+  },
+  content_filtered: {
+    kind: "warning",
+    text: "The provider's content filter blocked this response. Try rephrasing your message.",
+  },
+  context_length_exceeded: {
+    kind: "warning",
+    text: "This conversation is too long for the selected model. Start a new chat or pick a model with a larger context window.",
+  },
+};
+
+// Messages shown before the server has assigned them an id. They cannot be
+// branched from until the real id arrives.
+const UNSAVED_ID_PREFIX = "unsaved:";
+
+// Comparison replies arrive before the new conversation has been titled; the
+// title is looked up a few times afterwards (the server gives up after 10s).
+const TITLE_POLL_INTERVAL_MS = 2_000;
+const TITLE_POLL_ATTEMPTS = 6;
+
+function isUnsaved(id: string) {
+  return id.startsWith(UNSAVED_ID_PREFIX);
+}
+
+async function fetchConversation(id: string, guestId: string | null) {
+  const params = new URLSearchParams();
+  if (guestId) params.set("guestId", guestId);
+
+  const res = await fetch(`/api/conversations/${id}?${params}`, {
+    headers: await getAuthHeaders(),
+  });
+  if (!res.ok) throw new Error(`status ${res.status}`);
+
+  return (await res.json()) as ConversationDetail;
+}
+
+function toMessageTree(detail: ConversationDetail) {
+  const tree: ChatMessage[] = (detail.messages ?? [])
+    .filter((m) => m.role !== "system")
+    .map((m) => ({
+      id: m.id,
+      parentId: m.parent_id ?? null,
+      role: m.role as ChatMessage["role"],
+      content: m.content,
+      attachments: (detail.attachments ?? []).filter(
+        (a) => a.message_id === m.id,
+      ),
+      toolCalls: m.tool_calls ?? undefined,
+      toolCallId: m.tool_call_id ?? undefined,
+      toolName: m.tool_name ?? undefined,
+      feedback: detail.feedback?.find((f) => f.message_id === m.id) ?? null,
+    }));
+
+  const activeId = detail.conversation?.active_message_id;
+  const activeLeafId =
+    activeId && tree.some((m) => m.id === activeId)
+      ? activeId
+      : (tree[tree.length - 1]?.id ?? null);
+
+  return { tree, activeLeafId };
+}
+
+/**
+ * The intermediate steps of a tool-using reply: the assistant messages that
+ * asked for tools and the results. They are shown as cards on the reply.
+ */
+function isToolExchange(message: ChatMessage) {
+  return message.role === "tool" || !!message.toolCalls?.length;
+}
+
+/** Swaps a temporary id for the one the server assigned. */
+function renameMessage(tree: ChatMessage[], fromId: string, toId: string) {
+  return tree.map((m) => ({
+    ...m,
+    id: m.id === fromId ? toId : m.id,
+    parentId: m.parentId === fromId ? toId : m.parentId,
+  }));
+}
+
+function latestSummary(detail: ConversationDetail) {
+  const summary = [...(detail.messages ?? [])]
+    .reverse()
+    .find((m) => m.role === "system" && m.summarizes_until);
+  return summary?.content ?? null;
+}
+
+function takePendingContinuation(): PendingContinuation | null {
+  const raw = window.sessionStorage.getItem(PENDING_CONTINUATION_KEY);
+  if (!raw) return null;
+  window.sessionStorage.removeItem(PENDING_CONTINUATION_KEY);
+
+  try {
+    return JSON.parse(raw) as PendingContinuation;
+  } catch {
+    return null;
+  }
+}
+
+function formatCountdown(totalSeconds: number) {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds}s`;
+  return `${seconds}s`;
+}
+
 export default function Home() {
   const [user, setUser] = useState<User | null>(null);
   const [guestId, setGuestId] = useState<string | null>(null);
   const [conversationId, setConversationId] = useState<string | null>(null);
   const [isLoginOpen, setIsLoginOpen] = useState(false);
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [messageTree, setMessageTree] = useState<ChatMessage[]>([]);
+  const [activeLeafId, setActiveLeafId] = useState<string | null>(null);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(
+    null,
+  );
+  const [editDraft, setEditDraft] = useState("");
+  const [contextSummary, setContextSummary] = useState<string | null>(null);
+  const [isSummaryOpen, setIsSummaryOpen] = useState(false);
+  const [conversations, setConversations] = useState<ConversationListItem[]>(
+    [],
+  );
+  const [isLoadingConversations, setIsLoadingConversations] = useState(false);
+  const [titleBusyId, setTitleBusyId] = useState<string | null>(null);
+  const [models, setModels] = useState<ModelOption[]>([]);
+  const [selectedModelId, setSelectedModelId] = useState<string | null>(null);
+  const [defaultModelId, setDefaultModelId] = useState<string | null>(null);
+  const [personas, setPersonas] = useState<PersonaOption[]>([]);
+  const [selectedPersonaId, setSelectedPersonaId] = useState<string | null>(
+    null,
+  );
+  const [personaEditor, setPersonaEditor] = useState<{
+    persona: PersonaOption | null;
+  } | null>(null);
+  const [personaError, setPersonaError] = useState<string | null>(null);
+  const [isSavingPersona, setIsSavingPersona] = useState(false);
   const [input, setInput] = useState("");
+  const [pendingAttachments, setPendingAttachments] = useState<
+    PendingAttachment[]
+  >([]);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
   const [isSending, setIsSending] = useState(false);
-  const [errorBanner, setErrorBanner] = useState<
-    { kind: "warning" | "error"; text: string } | null
-  >(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [errorBanner, setErrorBanner] = useState<Banner | null>(null);
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const [retrySecondsLeft, setRetrySecondsLeft] = useState(0);
+  const [conversationsVersion, setConversationsVersion] = useState(0);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchResults, setSearchResults] = useState<MessageSearchResult[]>(
+    [],
+  );
+  const [isSearching, setIsSearching] = useState(false);
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(
+    null,
+  );
+  const claimedKeyRef = useRef<string | null>(null);
+  const linkedConversationRef = useRef(false);
+  const [shareLinks, setShareLinks] = useState<ShareLink[] | null>(null);
+  const [isSharing, setIsSharing] = useState(false);
+  const [compareModelId, setCompareModelId] = useState<string | null>(null);
+  const [isBlind, setIsBlind] = useState(false);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [isVoting, setIsVoting] = useState(false);
 
   useEffect(() => {
     let isMounted = true;
@@ -48,9 +324,22 @@ export default function Home() {
 
     const {
       data: { subscription },
-    } = supabaseBrowserClient.auth.onAuthStateChange((_event, session) => {
+    } = supabaseBrowserClient.auth.onAuthStateChange((event, session) => {
       if (!isMounted) return;
       setUser(session?.user ?? null);
+
+      // Start a fresh guest identity after sign-out so the next guest on this
+      // browser does not inherit (or get claimed into) the previous account.
+      if (event === "SIGNED_OUT") {
+        const newGuestId = crypto.randomUUID();
+        window.localStorage.setItem("guest_id", newGuestId);
+        setGuestId(newGuestId);
+        setConversationId(null);
+        setMessageTree([]);
+        setActiveLeafId(null);
+        setContextSummary(null);
+        setSelectedPersonaId(null);
+      }
     });
 
     return () => {
@@ -59,7 +348,592 @@ export default function Home() {
     };
   }, []);
 
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadModels = async () => {
+      try {
+        const res = await fetch("/api/models");
+        if (!res.ok) throw new Error(`status ${res.status}`);
+
+        const json = (await res.json()) as {
+          models?: ModelOption[];
+          defaultModelId?: string | null;
+        };
+        if (!isMounted) return;
+        setModels(json.models ?? []);
+        setDefaultModelId(json.defaultModelId ?? null);
+        setSelectedModelId((current) => current ?? json.defaultModelId ?? null);
+      } catch (error) {
+        console.error("Error loading models", error);
+      }
+    };
+
+    void loadModels();
+
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (retryAt === null) return;
+
+    const tick = () => {
+      const secondsLeft = Math.max(
+        0,
+        Math.ceil((retryAt - Date.now()) / 1000),
+      );
+      setRetrySecondsLeft(secondsLeft);
+      if (secondsLeft === 0) setRetryAt(null);
+    };
+
+    const interval = window.setInterval(tick, 1000);
+    const initial = window.setTimeout(tick, 0);
+
+    return () => {
+      window.clearInterval(interval);
+      window.clearTimeout(initial);
+    };
+  }, [retryAt]);
+
+  const userId = user?.id ?? null;
+
+  useEffect(() => {
+    if (!userId && !guestId) return;
+
+    let isCurrent = true;
+
+    const loadConversations = async () => {
+      setIsLoadingConversations(true);
+      try {
+        const params = new URLSearchParams();
+        if (guestId) params.set("guestId", guestId);
+
+        const res = await fetch(`/api/conversations?${params}`, {
+          headers: await getAuthHeaders(),
+        });
+        if (!res.ok) throw new Error(`status ${res.status}`);
+
+        const json = (await res.json()) as {
+          conversations?: ConversationListItem[];
+        };
+        if (isCurrent) setConversations(json.conversations ?? []);
+      } catch (error) {
+        console.error("Error loading conversations", error);
+      } finally {
+        if (isCurrent) setIsLoadingConversations(false);
+      }
+    };
+
+    void loadConversations();
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [userId, guestId, conversationsVersion]);
+
+  const trimmedSearchQuery = searchQuery.trim();
+
+  useEffect(() => {
+    if (!trimmedSearchQuery || (!userId && !guestId)) return;
+
+    let isCurrent = true;
+
+    const runSearch = async () => {
+      setIsSearching(true);
+      try {
+        const params = new URLSearchParams({ q: trimmedSearchQuery });
+        if (guestId) params.set("guestId", guestId);
+
+        const res = await fetch(`/api/search?${params}`, {
+          headers: await getAuthHeaders(),
+        });
+        if (!res.ok) throw new Error(`status ${res.status}`);
+
+        const json = (await res.json()) as {
+          results?: MessageSearchResult[];
+        };
+        if (isCurrent) setSearchResults(json.results ?? []);
+      } catch (error) {
+        console.error("Error searching conversations", error);
+        if (isCurrent) setSearchResults([]);
+      } finally {
+        if (isCurrent) setIsSearching(false);
+      }
+    };
+
+    // Debounce so typing does not fire a query per keystroke.
+    const timeout = window.setTimeout(() => void runSearch(), 250);
+
+    return () => {
+      isCurrent = false;
+      window.clearTimeout(timeout);
+    };
+  }, [trimmedSearchQuery, userId, guestId]);
+
+  useEffect(() => {
+    if (!focusedMessageId) return;
+
+    document
+      .getElementById(`message-${focusedMessageId}`)
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+
+    const timeout = window.setTimeout(() => setFocusedMessageId(null), 2500);
+    return () => window.clearTimeout(timeout);
+  }, [focusedMessageId, activeLeafId]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let isCurrent = true;
+
+    const loadPersonas = async () => {
+      try {
+        const res = await fetch("/api/personas", {
+          headers: await getAuthHeaders(),
+        });
+        if (!res.ok) throw new Error(`status ${res.status}`);
+
+        const json = (await res.json()) as { personas?: PersonaOption[] };
+        if (isCurrent) setPersonas(json.personas ?? []);
+      } catch (error) {
+        console.error("Error loading personas", error);
+      }
+    };
+
+    void loadPersonas();
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId || !guestId) return;
+
+    const claimKey = `${userId}:${guestId}`;
+    if (claimedKeyRef.current === claimKey) return;
+    claimedKeyRef.current = claimKey;
+
+    const claimGuestConversations = async () => {
+      try {
+        const res = await fetch("/api/guest/claim", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(await getAuthHeaders()),
+          },
+          body: JSON.stringify({ guestId }),
+        });
+
+        if (!res.ok) {
+          console.error("/api/guest/claim error", res.status);
+        } else {
+          const json = (await res.json()) as { claimed?: number };
+          if (json.claimed) setConversationsVersion((v) => v + 1);
+        }
+
+        const pending = takePendingContinuation();
+        if (!pending) return;
+
+        if (pending.conversationId) {
+          const detail = await fetchConversation(pending.conversationId, null);
+          const { tree, activeLeafId: leafId } = toMessageTree(detail);
+          setConversationId(pending.conversationId);
+          setMessageTree(tree);
+          setActiveLeafId(leafId);
+          setContextSummary(latestSummary(detail));
+        }
+        if (pending.draft) setInput(pending.draft);
+        setErrorBanner(null);
+      } catch (error) {
+        console.error("Error claiming guest conversations", error);
+      }
+    };
+
+    void claimGuestConversations();
+  }, [userId, guestId]);
+
+  useEffect(() => {
+    if (!guestId || linkedConversationRef.current) return;
+    linkedConversationRef.current = true;
+
+    // "Continue this chat" on a share page lands here with ?conversation=.
+    const linkedId = new URLSearchParams(window.location.search).get(
+      "conversation",
+    );
+    if (!linkedId) return;
+    window.history.replaceState(null, "", window.location.pathname);
+
+    const openLinkedConversation = async () => {
+      try {
+        const detail = await fetchConversation(linkedId, guestId);
+        const { tree, activeLeafId: leafId } = toMessageTree(detail);
+        setConversationId(linkedId);
+        setMessageTree(tree);
+        setActiveLeafId(leafId);
+        setContextSummary(latestSummary(detail));
+        setConversationsVersion((v) => v + 1);
+      } catch (error) {
+        console.error("Error opening linked conversation", error);
+      }
+    };
+
+    void openLinkedConversation();
+  }, [guestId]);
+
+  const messages = getPath(messageTree, activeLeafId);
+
+  const isUploadingAttachments = pendingAttachments.some(
+    (item) => item.status === "uploading",
+  );
+  const replyModels = models.filter(
+    (m) => m.id === selectedModelId || m.id === compareModelId,
+  );
+  const attachmentNotice =
+    replyModels.some((m) => !m.supportsVision) &&
+    pendingAttachments.some(
+      (item) => item.status === "ready" && item.attachment?.kind === "image",
+    )
+      ? "The selected model cannot read images. Pick a vision-capable model or remove the image."
+      : null;
+
+  // While a comparison is on screen its replies are shown side by side
+  // instead of as the last bubble of the thread.
+  const comparisonReplyIds = new Set(
+    (comparison?.replies ?? []).flatMap((reply) =>
+      reply.message ? [reply.message.id] : [],
+    ),
+  );
+  const visibleMessages = (
+    comparison
+      ? messages.filter((m) => !comparisonReplyIds.has(m.id))
+      : messages
+  ).filter((m) => !isToolExchange(m));
+
+  // Tool steps are grouped onto the reply that follows them; steps with no
+  // reply yet (still running, or the turn failed) trail the thread.
+  const toolStepsByReply = new Map<string, ChatMessage[]>();
+  let trailingToolSteps: ChatMessage[] = [];
+  for (const message of messages) {
+    if (isToolExchange(message)) {
+      trailingToolSteps = [...trailingToolSteps, message];
+    } else {
+      if (message.role === "assistant" && trailingToolSteps.length > 0) {
+        toolStepsByReply.set(message.id, trailingToolSteps);
+      }
+      trailingToolSteps = [];
+    }
+  }
+
+  const handleNewChat = () => {
+    setConversationId(null);
+    setMessageTree([]);
+    setActiveLeafId(null);
+    setEditingMessageId(null);
+    setContextSummary(null);
+    setSelectedModelId(defaultModelId);
+    setSelectedPersonaId(null);
+    setComparison(null);
+    setErrorBanner(null);
+  };
+
+  /**
+   * Opens a conversation. With `focusMessageId` (a search hit) the branch
+   * containing that message is shown and the message is scrolled into view.
+   */
+  const handleSelectConversation = async (
+    id: string,
+    focusMessageId?: string,
+  ) => {
+    if (id === conversationId) {
+      if (focusMessageId && messageTree.some((m) => m.id === focusMessageId)) {
+        setActiveLeafId(getLatestLeaf(messageTree, focusMessageId));
+        setFocusedMessageId(focusMessageId);
+      }
+      return;
+    }
+
+    setErrorBanner(null);
+    try {
+      const json = await fetchConversation(id, guestId);
+
+      setConversationId(id);
+      const storedModelId =
+        json.conversation?.provider && json.conversation.model
+          ? `${json.conversation.provider}:${json.conversation.model}`
+          : null;
+      if (storedModelId && models.some((m) => m.id === storedModelId)) {
+        setSelectedModelId(storedModelId);
+      }
+      setSelectedPersonaId(json.conversation?.persona_id ?? null);
+      const { tree, activeLeafId: leafId } = toMessageTree(json);
+      const focusIsInTree =
+        focusMessageId !== undefined &&
+        tree.some((m) => m.id === focusMessageId);
+      setMessageTree(tree);
+      setActiveLeafId(
+        focusIsInTree ? getLatestLeaf(tree, focusMessageId) : leafId,
+      );
+      setFocusedMessageId(focusIsInTree ? focusMessageId : null);
+      setEditingMessageId(null);
+      setComparison(null);
+      setContextSummary(latestSummary(json));
+      setIsSummaryOpen(false);
+    } catch (error) {
+      console.error("Error loading conversation", error);
+      setErrorBanner({
+        kind: "error",
+        text: "Could not load that conversation. Please try again.",
+      });
+    }
+  };
+
+  const handleExportConversation = async (format: "markdown" | "json") => {
+    if (!conversationId) return;
+
+    try {
+      const params = new URLSearchParams({ format });
+      if (guestId) params.set("guestId", guestId);
+
+      const res = await fetch(
+        `/api/conversations/${conversationId}/export?${params}`,
+        { headers: await getAuthHeaders() },
+      );
+      if (!res.ok) throw new Error(`status ${res.status}`);
+
+      await saveResponseAsFile(
+        res,
+        format === "json" ? "conversation.json" : "conversation.md",
+      );
+    } catch (error) {
+      console.error("Error exporting conversation", error);
+      setErrorBanner({
+        kind: "error",
+        text: "Could not export this conversation. Please try again.",
+      });
+    }
+  };
+
+  const handleOpenShare = async () => {
+    if (!conversationId) return;
+
+    setShareLinks([]);
+    setIsSharing(true);
+    try {
+      const params = new URLSearchParams({ conversationId });
+      if (guestId) params.set("guestId", guestId);
+
+      const res = await fetch(`/api/shares?${params}`, {
+        headers: await getAuthHeaders(),
+      });
+      if (!res.ok) throw new Error(`status ${res.status}`);
+
+      const json = (await res.json()) as { shares?: ShareLink[] };
+      setShareLinks(json.shares ?? []);
+    } catch (error) {
+      console.error("Error loading share links", error);
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const handleCreateShare = async () => {
+    if (!conversationId) return;
+
+    setIsSharing(true);
+    try {
+      const res = await fetch("/api/shares", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(await getAuthHeaders()),
+        },
+        body: JSON.stringify({ conversationId, guestId }),
+      });
+      if (!res.ok) throw new Error(`status ${res.status}`);
+
+      const json = (await res.json()) as { share: ShareLink };
+      setShareLinks((prev) => [json.share, ...(prev ?? [])]);
+    } catch (error) {
+      console.error("Error creating share link", error);
+      setErrorBanner({
+        kind: "error",
+        text: "Could not create a share link. Please try again.",
+      });
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const handleRevokeShare = async (link: ShareLink) => {
+    setIsSharing(true);
+    try {
+      const params = new URLSearchParams();
+      if (guestId) params.set("guestId", guestId);
+
+      const res = await fetch(`/api/shares/${link.token}?${params}`, {
+        method: "DELETE",
+        headers: await getAuthHeaders(),
+      });
+      if (!res.ok) throw new Error(`status ${res.status}`);
+
+      setShareLinks((prev) => (prev ?? []).filter((l) => l.id !== link.id));
+    } catch (error) {
+      console.error("Error revoking share link", error);
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const setConversationTitle = (id: string, title: string) => {
+    setConversations((prev) =>
+      prev.map((c) => (c.id === id ? { ...c, title } : c)),
+    );
+  };
+
+  const pollGeneratedTitle = async (id: string) => {
+    const params = new URLSearchParams();
+    if (guestId) params.set("guestId", guestId);
+
+    for (let attempt = 0; attempt < TITLE_POLL_ATTEMPTS; attempt++) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, TITLE_POLL_INTERVAL_MS),
+      );
+      try {
+        const res = await fetch(`/api/conversations/${id}/title?${params}`, {
+          headers: await getAuthHeaders(),
+        });
+        if (!res.ok) return;
+
+        const json = (await res.json()) as {
+          title: string | null;
+          pending: boolean;
+        };
+        if (!json.pending) {
+          if (json.title) setConversationTitle(id, json.title);
+          return;
+        }
+      } catch (error) {
+        console.error("Error loading conversation title", error);
+        return;
+      }
+    }
+  };
+
+  const handleRenameConversation = async (id: string, title: string) => {
+    setTitleBusyId(id);
+    try {
+      const res = await fetch(`/api/conversations/${id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          ...(await getAuthHeaders()),
+        },
+        body: JSON.stringify({ title, guestId }),
+      });
+      const json = (await res.json()) as { title?: string; error?: string };
+
+      if (!res.ok || !json.title) {
+        setErrorBanner({
+          kind: "error",
+          text: json.error ?? "Could not rename the conversation.",
+        });
+        return;
+      }
+
+      setConversationTitle(id, json.title);
+    } catch (error) {
+      console.error("Error renaming conversation", error);
+      setErrorBanner({
+        kind: "error",
+        text: "Could not rename the conversation.",
+      });
+    } finally {
+      setTitleBusyId(null);
+    }
+  };
+
+  const handleRegenerateTitle = async (id: string) => {
+    setTitleBusyId(id);
+    try {
+      const res = await fetch(`/api/conversations/${id}/title`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(await getAuthHeaders()),
+        },
+        body: JSON.stringify({ guestId }),
+      });
+      const json = (await res.json()) as { title?: string; error?: string };
+
+      if (!res.ok || !json.title) {
+        setErrorBanner({
+          kind: "error",
+          text: json.error ?? "Could not generate a new title.",
+        });
+        return;
+      }
+
+      setConversationTitle(id, json.title);
+    } catch (error) {
+      console.error("Error regenerating conversation title", error);
+      setErrorBanner({
+        kind: "error",
+        text: "Could not generate a new title.",
+      });
+    } finally {
+      setTitleBusyId(null);
+    }
+  };
+
+  const setMessageFeedback = (
+    messageId: string,
+    feedback: MessageFeedbackValue | null,
+  ) => {
+    setMessageTree((prev) =>
+      prev.map((m) => (m.id === messageId ? { ...m, feedback } : m)),
+    );
+  };
+
+  /** Saves optimistically and puts the previous rating back on failure. */
+  const handleSaveFeedback = async (
+    message: ChatMessage,
+    feedback: MessageFeedbackValue | null,
+  ) => {
+    if (!conversationId) return;
+
+    setMessageFeedback(message.id, feedback);
+    try {
+      const res = await fetch(`/api/conversations/${conversationId}/feedback`, {
+        method: feedback ? "PUT" : "DELETE",
+        headers: {
+          "Content-Type": "application/json",
+          ...(await getAuthHeaders()),
+        },
+        body: JSON.stringify({ messageId: message.id, ...feedback, guestId }),
+      });
+      if (!res.ok) throw new Error(`status ${res.status}`);
+    } catch (error) {
+      console.error("Error saving feedback", error);
+      setMessageFeedback(message.id, message.feedback ?? null);
+      setErrorBanner({
+        kind: "error",
+        text: "Could not save your feedback. Please try again.",
+      });
+    }
+  };
+
   const handleGoogleSignIn = async () => {
+    // The OAuth redirect reloads the page; remember where the guest was so the
+    // conversation (and any unsent text) can be resumed once it is claimed.
+    const pending: PendingContinuation = { conversationId, draft: input };
+    window.sessionStorage.setItem(
+      PENDING_CONTINUATION_KEY,
+      JSON.stringify(pending),
+    );
+
     const origin =
       typeof window !== "undefined" ? window.location.origin : undefined;
 
@@ -76,66 +950,353 @@ export default function Home() {
     });
   };
 
+  const handleSelectPersona = (id: string | null) => {
+    setSelectedPersonaId(id);
+
+    const persona = personas.find((p) => p.id === id);
+    const personaModelId =
+      persona?.provider && persona.model
+        ? `${persona.provider}:${persona.model}`
+        : null;
+    if (personaModelId && models.some((m) => m.id === personaModelId)) {
+      setSelectedModelId(personaModelId);
+    }
+  };
+
+  const openPersonaEditor = (persona: PersonaOption | null) => {
+    setPersonaError(null);
+    setPersonaEditor({ persona });
+  };
+
+  const handleSavePersona = async (values: PersonaFormValues) => {
+    const editing = personaEditor?.persona ?? null;
+
+    setIsSavingPersona(true);
+    setPersonaError(null);
+    try {
+      const res = await fetch(
+        editing ? `/api/personas/${editing.id}` : "/api/personas",
+        {
+          method: editing ? "PATCH" : "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(await getAuthHeaders()),
+          },
+          body: JSON.stringify(values),
+        },
+      );
+      const json = (await res.json()) as {
+        persona?: PersonaOption;
+        error?: string;
+      };
+
+      if (!res.ok || !json.persona) {
+        setPersonaError(json.error ?? "Could not save the persona.");
+        return;
+      }
+
+      const saved = json.persona;
+      setPersonas((prev) =>
+        [...prev.filter((p) => p.id !== saved.id), saved].sort((a, b) =>
+          a.name.localeCompare(b.name),
+        ),
+      );
+      setPersonaEditor(null);
+      if (!conversationId) setSelectedPersonaId(saved.id);
+    } catch (error) {
+      console.error("Error saving persona", error);
+      setPersonaError("Could not save the persona.");
+    } finally {
+      setIsSavingPersona(false);
+    }
+  };
+
+  const handleDeletePersona = async (persona: PersonaOption) => {
+    if (!window.confirm(`Delete the persona "${persona.name}"?`)) return;
+
+    setIsSavingPersona(true);
+    setPersonaError(null);
+    try {
+      const res = await fetch(`/api/personas/${persona.id}`, {
+        method: "DELETE",
+        headers: await getAuthHeaders(),
+      });
+      if (!res.ok) throw new Error(`status ${res.status}`);
+
+      setPersonas((prev) => prev.filter((p) => p.id !== persona.id));
+      setSelectedPersonaId((current) =>
+        current === persona.id ? null : current,
+      );
+      setPersonaEditor(null);
+    } catch (error) {
+      console.error("Error deleting persona", error);
+      setPersonaError("Could not delete the persona.");
+    } finally {
+      setIsSavingPersona(false);
+    }
+  };
+
   const handleSignOut = async () => {
     await supabaseBrowserClient.auth.signOut();
   };
 
-  const handleSend = async (event: FormEvent) => {
-    event.preventDefault();
-    const trimmed = input.trim();
-    if (!trimmed || isSending) return;
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const uploadAttachment = async (localId: string, file: File) => {
+    const updateItem = (patch: Partial<PendingAttachment>) =>
+      setPendingAttachments((prev) =>
+        prev.map((item) =>
+          item.localId === localId ? { ...item, ...patch } : item,
+        ),
+      );
+
+    try {
+      const form = new FormData();
+      form.append("file", file);
+      if (guestId) form.append("guestId", guestId);
+
+      const res = await fetch("/api/attachments", {
+        method: "POST",
+        headers: await getAuthHeaders(),
+        body: form,
+      });
+      const json = (await res.json().catch(() => ({}))) as {
+        attachment?: MessageAttachment;
+        error?: string;
+      };
+
+      if (!res.ok || !json.attachment) {
+        updateItem({
+          status: "error",
+          error: json.error ?? "Upload failed.",
+        });
+        return;
+      }
+
+      updateItem({ status: "ready", attachment: json.attachment });
+    } catch (error) {
+      console.error("Error uploading attachment", error);
+      updateItem({ status: "error", error: "Upload failed." });
+    }
+  };
+
+  const handleAddFiles = (files: FileList | File[]) => {
+    const room = MAX_ATTACHMENTS_PER_MESSAGE - pendingAttachments.length;
+    const accepted = Array.from(files).slice(0, Math.max(0, room));
+
+    if (accepted.length < files.length) {
+      setErrorBanner({
+        kind: "warning",
+        text: `You can attach up to ${MAX_ATTACHMENTS_PER_MESSAGE} files per message.`,
+      });
+    }
+
+    for (const file of accepted) {
+      const localId = crypto.randomUUID();
+
+      if (file.size > MAX_ATTACHMENT_BYTES) {
+        setPendingAttachments((prev) => [
+          ...prev,
+          {
+            localId,
+            fileName: file.name,
+            status: "error",
+            error: "Files can be at most 4 MB.",
+          },
+        ]);
+        continue;
+      }
+
+      setPendingAttachments((prev) => [
+        ...prev,
+        { localId, fileName: file.name, status: "uploading" },
+      ]);
+      void uploadAttachment(localId, file);
+    }
+  };
+
+  const handleRemoveAttachment = (localId: string) => {
+    setPendingAttachments((prev) =>
+      prev.filter((item) => item.localId !== localId),
+    );
+  };
+
+  const handleOpenAttachment = async (attachment: MessageAttachment) => {
+    try {
+      const params = new URLSearchParams();
+      if (guestId) params.set("guestId", guestId);
+
+      const res = await fetch(`/api/attachments/${attachment.id}?${params}`, {
+        headers: await getAuthHeaders(),
+      });
+      if (!res.ok) throw new Error(`status ${res.status}`);
+
+      await saveResponseAsFile(res, attachment.file_name);
+    } catch (error) {
+      console.error("Error downloading attachment", error);
+      setErrorBanner({
+        kind: "error",
+        text: "Could not download the file. Please try again.",
+      });
+    }
+  };
+
+  const sendTurn = async ({
+    content,
+    parentId,
+    regenerate = false,
+    attachments = [],
+  }: {
+    content: string;
+    parentId: string | null;
+    regenerate?: boolean;
+    attachments?: PendingAttachment[];
+  }) => {
+    if (isSending || retrySecondsLeft > 0) return;
 
     setErrorBanner(null);
+    setComparison(null);
 
-    const userMessage: ChatMessage = {
-      id: crypto.randomUUID(),
-      role: "user",
-      content: trimmed,
-    };
+    // A regenerated reply hangs off the existing user turn; otherwise the new
+    // user turn is added under `parentId` (the current leaf, or the parent of
+    // an edited message).
+    const unsavedUserId = regenerate
+      ? null
+      : `${UNSAVED_ID_PREFIX}${crypto.randomUUID()}`;
+    let userMessageId = unsavedUserId ?? parentId;
+    let assistantMessageId = `${UNSAVED_ID_PREFIX}${crypto.randomUUID()}`;
+    let hasAssistantMessage = false;
+    // Set once the model has called tools: the reply follows the last result.
+    let toolStepParentId: string | null = null;
 
-    const nextMessages = [...messages, userMessage];
-    setMessages(nextMessages);
-    setInput("");
+    const sentAttachments = attachments.flatMap((item) =>
+      item.attachment ? [item.attachment] : [],
+    );
+
+    if (unsavedUserId) {
+      setMessageTree((prev) => [
+        ...prev,
+        {
+          id: unsavedUserId,
+          parentId,
+          role: "user",
+          content,
+          attachments: sentAttachments,
+        },
+      ]);
+    }
+    setActiveLeafId(userMessageId);
     setIsSending(true);
 
-    try {
-      const { data } = await supabaseBrowserClient.auth.getSession();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    const appendToAssistant = (delta: string) => {
+      if (!hasAssistantMessage) {
+        hasAssistantMessage = true;
+        setMessageTree((prev) => [
+          ...prev,
+          {
+            id: assistantMessageId,
+            parentId: toolStepParentId ?? userMessageId,
+            role: "assistant",
+            content: delta,
+          },
+        ]);
+        setActiveLeafId(assistantMessageId);
+        return;
+      }
+
+      setMessageTree((prev) =>
+        prev.map((m) =>
+          m.id === assistantMessageId
+            ? { ...m, content: m.content + delta }
+            : m,
+        ),
+      );
+    };
 
+    try {
       const res = await fetch("/api/chat", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
-          ...(data.session?.access_token
-            ? { Authorization: `Bearer ${data.session.access_token}` }
-            : {}),
+          ...(await getAuthHeaders()),
         },
         body: JSON.stringify({
-          messages: nextMessages.map((m) => ({
-            role: m.role,
-            content: m.content,
-          })),
+          message: regenerate ? undefined : content,
           conversationId,
+          // After a stopped stream the reply has no server id yet; let the
+          // server fall back to the conversation's active leaf.
+          parentMessageId:
+            parentId && isUnsaved(parentId) ? undefined : parentId,
+          regenerate,
+          // The persona is fixed once the conversation exists.
+          personaId: conversationId ? undefined : selectedPersonaId,
+          attachmentIds: sentAttachments.length
+            ? sentAttachments.map((a) => a.id)
+            : undefined,
+          modelId: selectedModelId,
+          compareModelId: compareModelId ?? undefined,
+          blind: compareModelId ? isBlind : undefined,
           guestId,
+          // Compare mode answers with both replies at once.
+          stream: !compareModelId,
         }),
+        signal: abortController.signal,
       });
 
-      if (!res.ok) {
+      if (!res.ok || !res.body) {
         let friendly =
           "There was an error contacting the model. Please try again shortly.";
-        let kind: "warning" | "error" = "error";
+        let kind: Banner["kind"] = "error";
 
         try {
-          const data = (await res.json()) as { error?: string };
+          const data = (await res.json()) as { error?: string; code?: string };
           const serverError =
             typeof data?.error === "string" ? data.error : undefined;
+          const upstreamBanner = data?.code
+            ? UPSTREAM_ERROR_BANNERS[data.code]
+            : undefined;
 
-          if (res.status === 429) {
+          if (data?.code === MODERATION_REJECTED_CODE) {
+            kind = "moderation";
+            // Give the blocked turn back so it can be edited and resent.
+            if (unsavedUserId) {
+              setMessageTree((prev) =>
+                prev.filter((m) => m.id !== unsavedUserId),
+              );
+              setActiveLeafId(parentId);
+              setInput(content);
+              setPendingAttachments(attachments);
+            }
+            friendly = serverError ?? friendly;
+          } else if (upstreamBanner) {
+            kind = upstreamBanner.kind;
+            friendly = upstreamBanner.text;
+          } else if (res.status === 429) {
             kind = "warning";
+            const retryAfter = Number(res.headers.get("Retry-After"));
+            if (Number.isFinite(retryAfter) && retryAfter > 0) {
+              setRetryAt(Date.now() + retryAfter * 1000);
+              setRetrySecondsLeft(retryAfter);
+            }
             friendly =
               serverError ??
               "You are sending messages quickly. Please wait a moment before trying again.";
           } else if (res.status === 403) {
             kind = "warning";
+            // Keep the blocked turn as a draft so it can be sent after sign-in.
+            if (unsavedUserId) {
+              setMessageTree((prev) =>
+                prev.filter((m) => m.id !== unsavedUserId),
+              );
+              setActiveLeafId(parentId);
+              setInput(content);
+              setPendingAttachments(attachments);
+            }
             friendly =
               serverError ??
               "Guest conversations are limited. Sign in with Google to continue this conversation.";
@@ -151,30 +1312,317 @@ export default function Home() {
         return;
       }
 
-      const json = (await res.json()) as {
-        conversationId?: string;
-        message?: ChatMessage;
-      };
+      if (compareModelId) {
+        const json = (await res.json()) as {
+          conversationId: string;
+          model: ModelOption;
+          contextSummary: string | null;
+          userMessageId: string | null;
+          redactedUserContent: string | null;
+          comparison: {
+            id: string | null;
+            blind: boolean;
+            replies: ComparisonReply[];
+          };
+        };
+
+        setSelectedModelId(json.model.id);
+        setContextSummary(json.contextSummary);
+
+        const savedUserId = json.userMessageId;
+        if (unsavedUserId && savedUserId) {
+          userMessageId = savedUserId;
+          setMessageTree((prev) =>
+            renameMessage(prev, unsavedUserId, savedUserId),
+          );
+        }
+        const redactedUserContent = json.redactedUserContent;
+        if (savedUserId && redactedUserContent !== null) {
+          setMessageTree((prev) =>
+            prev.map((m) =>
+              m.id === savedUserId ? { ...m, content: redactedUserContent } : m,
+            ),
+          );
+          setErrorBanner(REDACTED_INPUT_BANNER);
+        }
 
-      if (json.conversationId && !conversationId) {
-        setConversationId(json.conversationId);
+        if (!conversationId) {
+          setConversationId(json.conversationId);
+          setConversations((prev) => [
+            {
+              id: json.conversationId,
+              title: content.slice(0, 80),
+              provider: null,
+              model: null,
+              created_at: new Date().toISOString(),
+            },
+            ...prev,
+          ]);
+          void pollGeneratedTitle(json.conversationId);
+        }
+
+        const replies = json.comparison.replies.flatMap((reply) =>
+          reply.message ? [reply.message] : [],
+        );
+        setMessageTree((prev) => [...prev, ...replies]);
+        // The server leaves side "a" active until the vote.
+        const activeReply =
+          json.comparison.replies.find((r) => r.side === "a" && r.message) ??
+          json.comparison.replies.find((r) => r.message);
+        setActiveLeafId(activeReply?.message?.id ?? userMessageId);
+        setComparison({
+          ...json.comparison,
+          userMessageId,
+          winner: null,
+          revealedModels: null,
+        });
+        return;
       }
 
-      if (json.message) {
-        setMessages((prev) => [...prev, json.message!]);
+      for await (const raw of readSseData(res.body)) {
+        let event: ChatStreamEvent;
+        try {
+          event = JSON.parse(raw) as ChatStreamEvent;
+        } catch {
+          continue;
+        }
+
+        if (event.type === "start") {
+          setSelectedModelId(event.modelId);
+          setContextSummary(event.contextSummary);
+
+          const savedUserId = event.userMessageId;
+          if (unsavedUserId && savedUserId) {
+            userMessageId = savedUserId;
+            setMessageTree((prev) =>
+              renameMessage(prev, unsavedUserId, savedUserId),
+            );
+            setActiveLeafId((current) =>
+              current === unsavedUserId ? savedUserId : current,
+            );
+          }
+
+          const redactedUserContent = event.redactedUserContent;
+          if (savedUserId && redactedUserContent) {
+            setMessageTree((prev) =>
+              prev.map((m) =>
+                m.id === savedUserId
+                  ? { ...m, content: redactedUserContent }
+                  : m,
+              ),
+            );
+            setErrorBanner(REDACTED_INPUT_BANNER);
+          }
+
+          if (!conversationId) {
+            setConversationId(event.conversationId);
+            setConversations((prev) => [
+              {
+                id: event.conversationId,
+                title: content.slice(0, 80),
+                provider: null,
+                model: null,
+                created_at: new Date().toISOString(),
+              },
+              ...prev,
+            ]);
+          }
+        } else if (event.type === "delta") {
+          appendToAssistant(event.content);
+        } else if (event.type === "tool_step" || event.type === "tool_result") {
+          // Text streamed before the tool calls belongs to the saved step.
+          const saved = event.message;
+          const unsavedAssistantId = assistantMessageId;
+          const replacesDraft =
+            event.type === "tool_step" && hasAssistantMessage;
+          setMessageTree((prev) =>
+            replacesDraft
+              ? prev.map((m) => (m.id === unsavedAssistantId ? saved : m))
+              : [...prev, saved],
+          );
+          assistantMessageId = `${UNSAVED_ID_PREFIX}${crypto.randomUUID()}`;
+          hasAssistantMessage = false;
+          toolStepParentId = saved.id;
+          setActiveLeafId(saved.id);
+        } else if (event.type === "done") {
+          const saved = event.message;
+          const unsavedAssistantId = assistantMessageId;
+          // The stored reply replaces the streamed one, which moderation may
+          // have redacted.
+          setMessageTree((prev) =>
+            hasAssistantMessage
+              ? prev.map((m) => (m.id === unsavedAssistantId ? saved : m))
+              : [...prev, saved],
+          );
+          assistantMessageId = saved.id;
+          hasAssistantMessage = true;
+          setActiveLeafId(saved.id);
+          if (event.redacted) setErrorBanner(REDACTED_REPLY_BANNER);
+        } else if (event.type === "title") {
+          setConversationTitle(event.conversationId, event.title);
+        } else if (
+          event.type === "error" &&
+          event.code === MODERATION_REJECTED_CODE
+        ) {
+          // The rejected reply was streamed but not stored.
+          if (hasAssistantMessage) {
+            const rejectedId = assistantMessageId;
+            setMessageTree((prev) => prev.filter((m) => m.id !== rejectedId));
+            setActiveLeafId(toolStepParentId ?? userMessageId);
+            hasAssistantMessage = false;
+          }
+          setErrorBanner({ kind: "moderation", text: event.error });
+        } else if (event.type === "error") {
+          // A stream that failed midway still stores the partial reply.
+          const saved = event.message;
+          if (saved && hasAssistantMessage) {
+            const unsavedAssistantId = assistantMessageId;
+            setMessageTree((prev) =>
+              prev.map((m) => (m.id === unsavedAssistantId ? saved : m)),
+            );
+            assistantMessageId = saved.id;
+            setActiveLeafId(saved.id);
+          }
+          setErrorBanner(
+            (!hasAssistantMessage && event.code
+              ? UPSTREAM_ERROR_BANNERS[event.code]
+              : undefined) ?? { kind: "error", text: event.error },
+          );
+        }
       }
-      setErrorBanner(null);
     } catch (error) {
-      console.error("Error sending message", error);
+      if (abortController.signal.aborted) {
+        setErrorBanner({
+          kind: "warning",
+          text: "Response stopped. The partial answer has been kept.",
+        });
+      } else {
+        console.error("Error sending message", error);
+        setErrorBanner({
+          kind: "error",
+          text: "Something went wrong while sending your message. Please try again.",
+        });
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setIsSending(false);
+    }
+  };
+
+  const handleSend = (event: FormEvent) => {
+    event.preventDefault();
+    const trimmed = input.trim();
+    if (!trimmed || isSending || retrySecondsLeft > 0) return;
+    if (isUploadingAttachments || attachmentNotice) return;
+
+    const readyAttachments = pendingAttachments.filter(
+      (item) => item.status === "ready",
+    );
+
+    setInput("");
+    setPendingAttachments([]);
+    const leaf = messages[messages.length - 1];
+    void sendTurn({
+      content: trimmed,
+      parentId: leaf?.id ?? null,
+      attachments: readyAttachments,
+    });
+  };
+
+  const handleVote = async (winner: PreferenceWinner) => {
+    if (!comparison?.id) return;
+
+    setIsVoting(true);
+    try {
+      const res = await fetch(`/api/comparisons/${comparison.id}/vote`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(await getAuthHeaders()),
+        },
+        body: JSON.stringify({ winner, guestId }),
+      });
+      if (!res.ok) throw new Error(`status ${res.status}`);
+
+      const json = (await res.json()) as {
+        comparison: {
+          winner: PreferenceWinner;
+          models: { a: string | null; b: string | null };
+        };
+        activeMessageId: string | null;
+      };
+
+      setComparison((current) =>
+        current
+          ? {
+              ...current,
+              winner: json.comparison.winner,
+              revealedModels: json.comparison.models,
+            }
+          : current,
+      );
+      if (json.activeMessageId) setActiveLeafId(json.activeMessageId);
+    } catch (error) {
+      console.error("Error recording vote", error);
       setErrorBanner({
         kind: "error",
-        text: "Something went wrong while sending your message. Please try again.",
+        text: "Could not record your vote. Please try again.",
       });
     } finally {
-      setIsSending(false);
+      setIsVoting(false);
     }
   };
 
+  const handleStartEdit = (message: ChatMessage) => {
+    setEditingMessageId(message.id);
+    setEditDraft(message.content);
+  };
+
+  const handleSubmitEdit = (message: ChatMessage) => {
+    const trimmed = editDraft.trim();
+    if (!trimmed) return;
+
+    setEditingMessageId(null);
+    // Editing forks a new branch next to the original turn.
+    void sendTurn({ content: trimmed, parentId: message.parentId });
+  };
+
+  const handleRegenerate = (message: ChatMessage) => {
+    if (!message.parentId) return;
+    void sendTurn({ content: "", parentId: message.parentId, regenerate: true });
+  };
+
+  const handleSwitchBranch = (message: ChatMessage, offset: number) => {
+    const siblings = getSiblings(messageTree, message);
+    const target = siblings[siblings.indexOf(message) + offset];
+    if (!target) return;
+
+    const leafId = getLatestLeaf(messageTree, target.id);
+    setActiveLeafId(leafId);
+    setEditingMessageId(null);
+    setComparison(null);
+
+    if (!conversationId || isUnsaved(leafId)) return;
+
+    const persistActiveBranch = async () => {
+      try {
+        const res = await fetch(`/api/conversations/${conversationId}`, {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+            ...(await getAuthHeaders()),
+          },
+          body: JSON.stringify({ activeMessageId: leafId, guestId }),
+        });
+        if (!res.ok) throw new Error(`status ${res.status}`);
+      } catch (error) {
+        console.error("Error saving active branch", error);
+      }
+    };
+
+    void persistActiveBranch();
+  };
+
   const signedInLabel = user
     ? `Signed in as ${user.email ?? user.id}`
     : guestId
@@ -196,6 +1644,14 @@ export default function Home() {
           <p className="hidden text-xs text-zinc-400 sm:block">
             {signedInLabel}
           </p>
+          {user && (
+            <Link
+              href="/settings"
+              className="rounded-full px-3 py-1 text-xs font-medium text-zinc-300 hover:bg-zinc-800"
+            >
+              Settings
+            </Link>
+          )}
           {user ? (
             <button
               onClick={handleSignOut}
@@ -244,19 +1700,124 @@ export default function Home() {
         </div>
       )}
 
-      <main className="flex flex-1 flex-col items-center px-4 py-4 sm:px-6 sm:py-6">
+      {shareLinks && (
+        <ShareDialog
+          links={shareLinks}
+          isBusy={isSharing}
+          onCreate={() => void handleCreateShare()}
+          onRevoke={(link) => void handleRevokeShare(link)}
+          onClose={() => setShareLinks(null)}
+        />
+      )}
+
+      {personaEditor && (
+        <PersonaEditor
+          key={personaEditor.persona?.id ?? "new"}
+          persona={personaEditor.persona}
+          models={models}
+          isSaving={isSavingPersona}
+          error={personaError}
+          onSave={(values) => void handleSavePersona(values)}
+          onDelete={(persona) => void handleDeletePersona(persona)}
+          onClose={() => setPersonaEditor(null)}
+        />
+      )}
+
+      <main className="flex flex-1 justify-center gap-4 px-4 py-4 sm:px-6 sm:py-6">
+        <ConversationSidebar
+          conversations={conversations}
+          activeConversationId={conversationId}
+          isLoading={isLoadingConversations}
+          disabled={isSending}
+          searchQuery={searchQuery}
+          searchResults={trimmedSearchQuery ? searchResults : []}
+          isSearching={isSearching}
+          onSearchChange={setSearchQuery}
+          onSelect={(id) => void handleSelectConversation(id)}
+          onSelectResult={(result) =>
+            void handleSelectConversation(
+              result.conversation_id,
+              result.message_id,
+            )
+          }
+          onNewChat={handleNewChat}
+          titleBusyId={titleBusyId}
+          onRename={(id, title) => void handleRenameConversation(id, title)}
+          onRegenerateTitle={(id) => void handleRegenerateTitle(id)}
+        />
         <div className="flex w-full max-w-3xl flex-1 flex-col overflow-hidden rounded-2xl border border-zinc-800 bg-zinc-900/60">
           <div className="flex items-center justify-between border-b border-zinc-800 px-4 py-3">
             <div className="flex flex-col gap-1">
-              <p className="text-sm font-medium text-zinc-100">Chat</p>
+              <p className="max-w-md truncate text-sm font-medium text-zinc-100">
+                {conversations.find((c) => c.id === conversationId)?.title ||
+                  "Chat"}
+              </p>
               <p className="text-xs text-zinc-400">
                 Ask questions, explore ideas, and iterate with an LLM powered by
                 Baseten.
               </p>
             </div>
-            <span className="rounded-full bg-emerald-500/10 px-3 py-1 text-xs font-medium text-emerald-300">
-              Prototype
-            </span>
+            <div className="flex items-center gap-2">
+              {user && (
+                <PersonaPicker
+                  personas={personas}
+                  value={selectedPersonaId}
+                  disabled={isSending || conversationId !== null}
+                  onChange={handleSelectPersona}
+                  onCreate={() => openPersonaEditor(null)}
+                  onEdit={openPersonaEditor}
+                />
+              )}
+              {conversationId && (
+                <button
+                  type="button"
+                  onClick={() => void handleOpenShare()}
+                  disabled={isSending}
+                  className="rounded-full border border-zinc-700 px-3 py-1 text-xs font-medium text-zinc-100 hover:bg-zinc-800 disabled:opacity-60"
+                >
+                  Share
+                </button>
+              )}
+              {conversationId && (
+                <select
+                  aria-label="Export conversation"
+                  value=""
+                  disabled={isSending}
+                  onChange={(event) => {
+                    const format = event.target.value;
+                    if (format === "markdown" || format === "json") {
+                      void handleExportConversation(format);
+                    }
+                  }}
+                  className="rounded-full border border-zinc-700 bg-zinc-900 px-3 py-1 text-xs text-zinc-100 focus:border-emerald-500 focus:outline-none disabled:opacity-60"
+                >
+                  <option value="">Export</option>
+                  <option value="markdown">Markdown</option>
+                  <option value="json">JSON</option>
+                </select>
+              )}
+              <ModelPicker
+                models={models}
+                value={selectedModelId}
+                disabled={isSending}
+                onChange={(id) => {
+                  setSelectedModelId(id);
+                  if (id === compareModelId) setCompareModelId(null);
+                }}
+              />
+              <CompareControls
+                models={models}
+                selectedModelId={selectedModelId}
+                compareModelId={compareModelId}
+                isBlind={isBlind}
+                disabled={isSending}
+                onChangeModel={setCompareModelId}
+                onChangeBlind={setIsBlind}
+              />
+              <span className="rounded-full bg-emerald-500/10 px-3 py-1 text-xs font-medium text-emerald-300">
+                Prototype
+              </span>
+            </div>
           </div>
 
           {errorBanner && (
@@ -264,50 +1825,279 @@ export default function Home() {
               className={`border-b px-4 py-2 text-xs sm:text-sm ${
                 errorBanner.kind === "warning"
                   ? "border-amber-500/40 bg-amber-500/10 text-amber-200"
-                  : "border-rose-500/40 bg-rose-500/10 text-rose-200"
+                  : errorBanner.kind === "moderation"
+                    ? "border-violet-500/40 bg-violet-500/10 text-violet-200"
+                    : "border-rose-500/40 bg-rose-500/10 text-rose-200"
               }`}
             >
               {errorBanner.text}
+              {retrySecondsLeft > 0 &&
+                ` Try again in ${formatCountdown(retrySecondsLeft)}.`}
             </div>
           )}
 
           <div className="flex-1 space-y-4 overflow-y-auto bg-zinc-950 px-4 py-4 sm:px-6">
-            {messages.length === 0 ? (
+            {contextSummary && (
+              <div className="rounded-xl border border-zinc-800 bg-zinc-900/60 px-3 py-2 text-xs text-zinc-400">
+                <div className="flex items-center justify-between gap-2">
+                  <p>
+                    Earlier messages were summarized to fit the model&apos;s
+                    context window.
+                  </p>
+                  <button
+                    type="button"
+                    onClick={() => setIsSummaryOpen((open) => !open)}
+                    className="shrink-0 text-zinc-300 underline-offset-2 hover:underline"
+                  >
+                    {isSummaryOpen ? "Hide summary" : "View summary"}
+                  </button>
+                </div>
+                {isSummaryOpen && (
+                  <p className="mt-2 whitespace-pre-wrap leading-relaxed text-zinc-300">
+                    {contextSummary}
+                  </p>
+                )}
+              </div>
+            )}
+            {visibleMessages.length === 0 ? (
               <div className="mt-8 text-center text-sm text-zinc-500">
                 <p>Start a conversation by typing a message below.</p>
               </div>
             ) : (
-              messages.map((message) => (
-                <div
-                  key={message.id}
-                  className={`flex w-full ${
-                    message.role === "user" ? "justify-end" : "justify-start"
-                  }`}
-                >
+              visibleMessages.map((message) => {
+                const toolSteps = toolStepsByReply.get(message.id) ?? [];
+                // Versions of a tool-using reply branch at its first step.
+                const turnHead = toolSteps[0] ?? message;
+                const siblings = getSiblings(messageTree, turnHead);
+                const siblingIndex = siblings.indexOf(turnHead);
+                const canBranch = !isSending && !isUnsaved(message.id);
+                const isEditing = editingMessageId === message.id;
+
+                return (
                   <div
-                    className={`max-w-[80%] rounded-2xl px-3 py-2 text-sm sm:px-4 sm:py-2.5 ${
-                      message.role === "user"
-                        ? "bg-emerald-500 text-emerald-950"
-                        : "bg-zinc-800 text-zinc-50"
+                    key={message.id}
+                    id={`message-${message.id}`}
+                    className={`flex w-full ${
+                      message.role === "user" ? "justify-end" : "justify-start"
                     }`}
                   >
-                    <p className="mb-1 text-[11px] font-medium uppercase tracking-wide text-zinc-300/80">
-                      {message.role === "user" ? "You" : "Assistant"}
-                    </p>
-                    <p className="whitespace-pre-wrap break-words leading-relaxed">
-                      {message.content}
-                    </p>
+                    <div
+                      className={`max-w-[80%] rounded-2xl px-3 py-2 text-sm sm:px-4 sm:py-2.5 ${
+                        message.role === "user"
+                          ? "bg-emerald-500 text-emerald-950"
+                          : "bg-zinc-800 text-zinc-50"
+                      } ${isEditing ? "w-full" : ""} ${
+                        focusedMessageId === message.id
+                          ? "ring-2 ring-amber-300"
+                          : ""
+                      }`}
+                    >
+                      <p className="mb-1 text-[11px] font-medium uppercase tracking-wide text-zinc-300/80">
+                        {message.role === "user" ? "You" : "Assistant"}
+                      </p>
+                      {isEditing ? (
+                        <div className="flex flex-col gap-2">
+                          <textarea
+                            className="min-h-20 w-full resize-y rounded-lg border border-emerald-700 bg-emerald-50 px-2 py-1.5 text-sm text-emerald-950 focus:outline-none"
+                            value={editDraft}
+                            onChange={(event) =>
+                              setEditDraft(event.target.value)
+                            }
+                          />
+                          <div className="flex justify-end gap-2 text-xs">
+                            <button
+                              type="button"
+                              onClick={() => setEditingMessageId(null)}
+                              className="rounded-full px-2 py-0.5 hover:bg-emerald-400"
+                            >
+                              Cancel
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => handleSubmitEdit(message)}
+                              disabled={
+                                !editDraft.trim() ||
+                                isSending ||
+                                retrySecondsLeft > 0
+                              }
+                              className="rounded-full bg-emerald-950 px-2 py-0.5 font-medium text-emerald-100 disabled:opacity-60"
+                            >
+                              Save &amp; send
+                            </button>
+                          </div>
+                        </div>
+                      ) : message.role === "assistant" ? (
+                        <>
+                          <ToolCallCards steps={toolSteps} />
+                          <MarkdownMessage content={message.content} />
+                        </>
+                      ) : (
+                        <p className="whitespace-pre-wrap break-words leading-relaxed">
+                          {message.content}
+                        </p>
+                      )}
+                      {!isEditing && !!message.attachments?.length && (
+                        <AttachmentChips
+                          attachments={message.attachments}
+                          onOpen={(attachment) =>
+                            void handleOpenAttachment(attachment)
+                          }
+                        />
+                      )}
+                      {!isEditing && (siblings.length > 1 || canBranch) && (
+                        <div className="mt-1.5 flex items-center gap-2 text-[11px] opacity-70">
+                          {siblings.length > 1 && (
+                            <span className="flex items-center gap-1">
+                              <button
+                                type="button"
+                                aria-label="Previous version"
+                                onClick={() => handleSwitchBranch(turnHead, -1)}
+                                disabled={isSending || siblingIndex === 0}
+                                className="px-1 disabled:opacity-40"
+                              >
+                                &lt;
+                              </button>
+                              <span>
+                                {siblingIndex + 1}/{siblings.length}
+                              </span>
+                              <button
+                                type="button"
+                                aria-label="Next version"
+                                onClick={() => handleSwitchBranch(turnHead, 1)}
+                                disabled={
+                                  isSending ||
+                                  siblingIndex === siblings.length - 1
+                                }
+                                className="px-1 disabled:opacity-40"
+                              >
+                                &gt;
+                              </button>
+                            </span>
+                          )}
+                          {canBranch && message.role === "user" && (
+                            <button
+                              type="button"
+                              onClick={() => handleStartEdit(message)}
+                              className="hover:underline"
+                            >
+                              Edit
+                            </button>
+                          )}
+                          {canBranch && message.role === "assistant" && (
+                            <button
+                              type="button"
+                              onClick={() => handleRegenerate(turnHead)}
+                              disabled={
+                                retrySecondsLeft > 0 ||
+                                !turnHead.parentId ||
+                                isUnsaved(turnHead.parentId)
+                              }
+                              className="hover:underline disabled:opacity-40"
+                            >
+                              Regenerate
+                            </button>
+                          )}
+                        </div>
+                      )}
+                      {message.role === "assistant" &&
+                        conversationId &&
+                        !isUnsaved(message.id) && (
+                          <div className="mt-1.5 text-[11px]">
+                            <MessageFeedbackControls
+                              feedback={message.feedback ?? null}
+                              onSave={(feedback) =>
+                                void handleSaveFeedback(message, feedback)
+                              }
+                              onClear={() =>
+                                void handleSaveFeedback(message, null)
+                              }
+                            />
+                          </div>
+                        )}
+                    </div>
                   </div>
+                );
+              })
+            )}
+            {comparison && (
+              <ComparisonView
+                comparison={comparison}
+                models={models}
+                isVoting={isVoting}
+                onVote={(winner) => void handleVote(winner)}
+              />
+            )}
+            {trailingToolSteps.length > 0 && (
+              <div className="flex w-full justify-start">
+                <div className="max-w-[80%] rounded-2xl bg-zinc-800 px-3 py-2 text-sm text-zinc-50 sm:px-4 sm:py-2.5">
+                  <p className="mb-1 text-[11px] font-medium uppercase tracking-wide text-zinc-300/80">
+                    Assistant
+                  </p>
+                  <ToolCallCards steps={trailingToolSteps} />
+                </div>
+              </div>
+            )}
+            {isSending && messages[messages.length - 1]?.role === "user" && (
+              <div className="flex w-full justify-start">
+                <div className="rounded-2xl bg-zinc-800 px-3 py-2 text-sm text-zinc-400 sm:px-4 sm:py-2.5">
+                  Thinking...
                 </div>
-              ))
+              </div>
             )}
           </div>
 
           <form
             onSubmit={handleSend}
-            className="border-t border-zinc-800 bg-zinc-950/80 px-4 py-3 sm:px-6"
+            onDragOver={(event) => {
+              if (!event.dataTransfer.types.includes("Files")) return;
+              event.preventDefault();
+              setIsDraggingFile(true);
+            }}
+            onDragLeave={() => setIsDraggingFile(false)}
+            onDrop={(event) => {
+              if (event.dataTransfer.files.length === 0) return;
+              event.preventDefault();
+              setIsDraggingFile(false);
+              handleAddFiles(event.dataTransfer.files);
+            }}
+            className={`border-t bg-zinc-950/80 px-4 py-3 sm:px-6 ${
+              isDraggingFile
+                ? "border-emerald-500 bg-emerald-500/5"
+                : "border-zinc-800"
+            }`}
           >
+            <PendingAttachmentChips
+              items={pendingAttachments}
+              onRemove={handleRemoveAttachment}
+            />
+            {attachmentNotice && (
+              <p className="mb-2 text-xs text-amber-300">{attachmentNotice}</p>
+            )}
             <div className="flex items-end gap-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                hidden
+                accept="image/png,image/jpeg,image/gif,image/webp,application/pdf,text/*,.md,.json,.jsonl,.csv,.yaml,.yml,.toml,.js,.jsx,.ts,.tsx,.py,.rb,.go,.rs,.java,.kt,.swift,.c,.h,.cpp,.hpp,.cs,.php,.sh,.sql"
+                onChange={(event) => {
+                  if (event.target.files) handleAddFiles(event.target.files);
+                  event.target.value = "";
+                }}
+              />
+              <button
+                type="button"
+                aria-label="Attach files"
+                title="Attach files (or drop them here)"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={
+                  isSending ||
+                  pendingAttachments.length >= MAX_ATTACHMENTS_PER_MESSAGE
+                }
+                className="inline-flex h-10 items-center justify-center rounded-xl border border-zinc-800 px-3 text-sm text-zinc-300 hover:bg-zinc-800 disabled:opacity-60 sm:h-11"
+              >
+                +
+              </button>
               <textarea
                 className="h-10 flex-1 resize-none rounded-xl border border-zinc-800 bg-zinc-900 px-3 py-2 text-sm text-zinc-50 placeholder:text-zinc-500 focus:border-emerald-500 focus:outline-none focus:ring-1 focus:ring-emerald-500 sm:h-11 sm:px-4"
                 placeholder="Send a message..."
@@ -315,13 +2105,28 @@ export default function Home() {
                 value={input}
                 onChange={(event) => setInput(event.target.value)}
               />
-              <button
-                type="submit"
-                disabled={isSending || !input.trim()}
-                className="inline-flex items-center justify-center rounded-xl bg-emerald-500 px-3 py-2 text-sm font-medium text-emerald-950 hover:bg-emerald-400 disabled:cursor-not-allowed disabled:opacity-60 sm:px-4"
-              >
-                {isSending ? "Sending..." : "Send"}
-              </button>
+              {isSending ? (
+                <button
+                  type="button"
+                  onClick={handleCancel}
+                  className="inline-flex items-center justify-center rounded-xl border border-zinc-700 px-3 py-2 text-sm font-medium text-zinc-100 hover:bg-zinc-800 sm:px-4"
+                >
+                  Stop
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  disabled={
+                    !input.trim() ||
+                    retrySecondsLeft > 0 ||
+                    isUploadingAttachments ||
+                    !!attachmentNotice
+                  }
+                  className="inline-flex items-center justify-center rounded-xl bg-emerald-500 px-3 py-2 text-sm font-medium text-emerald-950 hover:bg-emerald-400 disabled:cursor-not-allowed disabled:opacity-60 sm:px-4"
+                >
+                  Send
+                </button>
+              )}
             </div>
           </form>
         </div>
@@ -0,0 +1,346 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState, ChangeEvent, FormEvent } from "react";
+import { getAuthHeaders } from "@/lib/clientAuth";
+import { saveResponseAsFile } from "@/lib/download";
+import type { ApiKeySummary } from "@/lib/apiKeys";
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleString() : "Never";
+}
+
+export default function SettingsPage() {
+  const [apiKeys, setApiKeys] = useState<ApiKeySummary[]>([]);
+  const [name, setName] = useState("");
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isTransferring, setIsTransferring] = useState(false);
+  const [importNotice, setImportNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCurrent = true;
+
+    const loadApiKeys = async () => {
+      try {
+        const res = await fetch("/api/keys", {
+          headers: await getAuthHeaders(),
+        });
+        const json = (await res.json()) as {
+          apiKeys?: ApiKeySummary[];
+          error?: string;
+        };
+        if (!isCurrent) return;
+
+        if (!res.ok) {
+          setError(json.error ?? "Failed to load API keys.");
+          return;
+        }
+
+        setApiKeys(json.apiKeys ?? []);
+      } catch (loadError) {
+        console.error("Error loading API keys", loadError);
+        if (isCurrent) setError("Failed to load API keys.");
+      } finally {
+        if (isCurrent) setIsLoading(false);
+      }
+    };
+
+    void loadApiKeys();
+
+    return () => {
+      isCurrent = false;
+    };
+  }, []);
+
+  const handleCreate = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!name.trim()) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/keys", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(await getAuthHeaders()),
+        },
+        body: JSON.stringify({ name }),
+      });
+      const json = (await res.json()) as {
+        apiKey?: ApiKeySummary;
+        key?: string;
+        error?: string;
+      };
+
+      if (!res.ok || !json.apiKey || !json.key) {
+        setError(json.error ?? "Failed to create API key.");
+        return;
+      }
+
+      const created = json.apiKey;
+      setApiKeys((prev) => [created, ...prev]);
+      setCreatedKey(json.key);
+      setName("");
+    } catch (createError) {
+      console.error("Error creating API key", createError);
+      setError("Failed to create API key.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRevoke = async (apiKey: ApiKeySummary) => {
+    const confirmed = window.confirm(
+      `Revoke "${apiKey.name}"? Scripts using it will stop working.`,
+    );
+    if (!confirmed) return;
+
+    setError(null);
+    try {
+      const res = await fetch(`/api/keys/${apiKey.id}`, {
+        method: "DELETE",
+        headers: await getAuthHeaders(),
+      });
+      const json = (await res.json()) as {
+        apiKey?: ApiKeySummary;
+        error?: string;
+      };
+
+      if (!res.ok || !json.apiKey) {
+        setError(json.error ?? "Failed to revoke API key.");
+        return;
+      }
+
+      const revoked = json.apiKey;
+      setApiKeys((prev) =>
+        prev.map((key) => (key.id === revoked.id ? revoked : key)),
+      );
+    } catch (revokeError) {
+      console.error("Error revoking API key", revokeError);
+      setError("Failed to revoke API key.");
+    }
+  };
+
+  const handleExportAll = async () => {
+    setIsTransferring(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/export", {
+        headers: await getAuthHeaders(),
+      });
+      if (!res.ok) {
+        const json = (await res.json()) as { error?: string };
+        setError(json.error ?? "Failed to export your data.");
+        return;
+      }
+
+      await saveResponseAsFile(res, "chat-export.json");
+    } catch (exportError) {
+      console.error("Error exporting data", exportError);
+      setError("Failed to export your data.");
+    } finally {
+      setIsTransferring(false);
+    }
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    setIsTransferring(true);
+    setError(null);
+    setImportNotice(null);
+    try {
+      const res = await fetch("/api/import", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(await getAuthHeaders()),
+        },
+        body: await file.text(),
+      });
+      const json = (await res.json()) as { imported?: number; error?: string };
+
+      if (!res.ok) {
+        setError(json.error ?? "Failed to import conversations.");
+      }
+      if (json.imported) {
+        setImportNotice(
+          `Imported ${json.imported} conversation${json.imported === 1 ? "" : "s"}.`,
+        );
+      }
+    } catch (importError) {
+      console.error("Error importing conversations", importError);
+      setError("Failed to import conversations.");
+    } finally {
+      setIsTransferring(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen flex-col bg-zinc-950 text-zinc-50">
+      <header className="flex items-center justify-between border-b border-zinc-800 px-4 py-3 sm:px-6">
+        <div className="flex flex-col gap-1">
+          <h1 className="text-lg font-semibold tracking-tight sm:text-xl">
+            Settings
+          </h1>
+          <p className="text-xs text-zinc-400 sm:text-sm">
+            API keys and your conversation data.
+          </p>
+        </div>
+        <Link
+          href="/"
+          className="rounded-full border border-zinc-700 px-3 py-1 text-xs font-medium text-zinc-100 hover:bg-zinc-800"
+        >
+          Back to chat
+        </Link>
+      </header>
+
+      <main className="mx-auto flex w-full max-w-3xl flex-1 flex-col gap-4 px-4 py-4 sm:px-6 sm:py-6">
+        <h2 className="text-sm font-semibold text-zinc-100">API keys</h2>
+        <p className="-mt-2 text-xs text-zinc-400">
+          Use these with the OpenAI-compatible endpoint at
+          /api/v1/chat/completions.
+        </p>
+        <form
+          onSubmit={handleCreate}
+          className="flex flex-wrap items-end gap-3 rounded-2xl border border-zinc-800 bg-zinc-900/60 px-4 py-3"
+        >
+          <label className="flex flex-1 flex-col gap-1 text-xs text-zinc-400">
+            Key name
+            <input
+              value={name}
+              maxLength={80}
+              placeholder="e.g. CI pipeline"
+              onChange={(event) => setName(event.target.value)}
+              className="rounded-lg border border-zinc-800 bg-zinc-900 px-2 py-1 text-sm text-zinc-50"
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={isSaving || !name.trim()}
+            className="rounded-xl bg-emerald-500 px-3 py-1.5 text-sm font-medium text-emerald-950 hover:bg-emerald-400 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {isSaving ? "Creating..." : "Create key"}
+          </button>
+        </form>
+
+        {createdKey && (
+          <div className="rounded-2xl border border-emerald-500/40 bg-emerald-500/10 px-4 py-3 text-sm text-emerald-100">
+            <p>Copy this key now. It will not be shown again.</p>
+            <code className="mt-2 block break-all rounded-lg bg-zinc-950 px-2 py-1.5 font-mono text-xs text-zinc-50">
+              {createdKey}
+            </code>
+            <button
+              type="button"
+              onClick={() => setCreatedKey(null)}
+              className="mt-2 text-xs text-emerald-200 underline-offset-2 hover:underline"
+            >
+              Done
+            </button>
+          </div>
+        )}
+
+        {error && (
+          <div className="rounded-2xl border border-rose-500/40 bg-rose-500/10 px-4 py-2 text-sm text-rose-200">
+            {error}
+          </div>
+        )}
+
+        <section className="overflow-x-auto rounded-2xl border border-zinc-800 bg-zinc-900/60">
+          <table className="w-full text-left text-xs sm:text-sm">
+            <thead className="border-b border-zinc-800 text-zinc-400">
+              <tr>
+                <th className="px-3 py-2 font-medium">Name</th>
+                <th className="px-3 py-2 font-medium">Key</th>
+                <th className="px-3 py-2 font-medium">Created</th>
+                <th className="px-3 py-2 font-medium">Last used</th>
+                <th className="px-3 py-2 font-medium" />
+              </tr>
+            </thead>
+            <tbody>
+              {apiKeys.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-3 py-4 text-zinc-500">
+                    {isLoading ? "Loading..." : "No API keys yet."}
+                  </td>
+                </tr>
+              ) : (
+                apiKeys.map((apiKey) => (
+                  <tr
+                    key={apiKey.id}
+                    className={`border-b border-zinc-800/60 last:border-0 ${
+                      apiKey.revoked_at ? "text-zinc-500" : ""
+                    }`}
+                  >
+                    <td className="px-3 py-2">{apiKey.name}</td>
+                    <td className="px-3 py-2 font-mono text-xs">
+                      {apiKey.key_prefix}…
+                    </td>
+                    <td className="px-3 py-2">
+                      {formatDate(apiKey.created_at)}
+                    </td>
+                    <td className="px-3 py-2">
+                      {formatDate(apiKey.last_used_at)}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {apiKey.revoked_at ? (
+                        "Revoked"
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => void handleRevoke(apiKey)}
+                          className="text-rose-300 underline-offset-2 hover:underline"
+                        >
+                          Revoke
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </section>
+
+        <h2 className="mt-4 text-sm font-semibold text-zinc-100">Your data</h2>
+        <section className="flex flex-wrap items-center gap-3 rounded-2xl border border-zinc-800 bg-zinc-900/60 px-4 py-3 text-sm">
+          <button
+            type="button"
+            onClick={() => void handleExportAll()}
+            disabled={isTransferring}
+            className="rounded-xl border border-zinc-700 px-3 py-1.5 font-medium text-zinc-100 hover:bg-zinc-800 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            Export all data
+          </button>
+          <label
+            className={`rounded-xl border border-zinc-700 px-3 py-1.5 font-medium text-zinc-100 hover:bg-zinc-800 ${
+              isTransferring ? "pointer-events-none opacity-60" : "cursor-pointer"
+            }`}
+          >
+            Import conversations
+            <input
+              type="file"
+              accept="application/json,.json"
+              onChange={(event) => void handleImport(event)}
+              disabled={isTransferring}
+              className="hidden"
+            />
+          </label>
+          <p className="w-full text-xs text-zinc-400">
+            Imports accept this app&apos;s JSON export, a ChatGPT
+            conversations.json, or an OpenAI-style file with a messages array.
+          </p>
+          {importNotice && (
+            <p className="w-full text-xs text-emerald-300">{importNotice}</p>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { cache } from "react";
+import { ContinueChatButton } from "@/components/ContinueChatButton";
+import { MarkdownMessage } from "@/components/MarkdownMessage";
+import { getActiveShare } from "@/lib/shares";
+
+type SharePageProps = {
+  params: Promise<{ token: string }>;
+};
+
+// Shared by generateMetadata and the page within one request.
+const loadShare = cache(async (token: string) => {
+  const { data, error } = await getActiveShare(token);
+  if (error) {
+    console.error("Error loading share", error);
+    throw new Error("Failed to load shared conversation.");
+  }
+  return data;
+});
+
+function describeShare(firstMessage: string | undefined) {
+  if (!firstMessage) return "A conversation shared from Baseten-powered chat.";
+  const excerpt = firstMessage.replace(/\s+/g, " ").trim();
+  return excerpt.length > 160 ? `${excerpt.slice(0, 157)}...` : excerpt;
+}
+
+export async function generateMetadata({
+  params,
+}: SharePageProps): Promise<Metadata> {
+  const { token } = await params;
+  const share = await loadShare(token);
+
+  if (!share) {
+    return { title: "Shared conversation not found" };
+  }
+
+  const title = `${share.title || "Shared conversation"} · Baseten-powered chat`;
+  const description = describeShare(share.snapshot.messages[0]?.content);
+
+  return {
+    title,
+    description,
+    // Shared chats are reachable by link only.
+    robots: { index: false, follow: false },
+    openGraph: {
+      title,
+      description,
+      url: `https://chat.matthew-tran.com/share/${token}`,
+      siteName: "Baseten-powered chat",
+      images: [
+        {
+          url: "/og-image.svg",
+          width: 1200,
+          height: 630,
+          alt: "Baseten-powered chat at chat.matthew-tran.com",
+        },
+      ],
+      type: "article",
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description,
+      images: ["/og-image.svg"],
+    },
+  };
+}
+
+export default async function SharePage({ params }: SharePageProps) {
+  const { token } = await params;
+  const share = await loadShare(token);
+
+  if (!share) notFound();
+
+  const { snapshot } = share;
+
+  return (
+    <div className="flex min-h-screen flex-col bg-zinc-950 text-zinc-50">
+      <header className="flex items-center justify-between border-b border-zinc-800 px-4 py-3 sm:px-6">
+        <div className="flex flex-col gap-1">
+          <h1 className="text-lg font-semibold tracking-tight sm:text-xl">
+            {share.title || "Shared conversation"}
+          </h1>
+          <p className="text-xs text-zinc-400 sm:text-sm">
+            Read-only snapshot shared on{" "}
+            {new Date(share.created_at).toUTCString()}
+            {snapshot.model ? ` · ${snapshot.model}` : ""}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Link
+            href="/"
+            className="rounded-full border border-zinc-700 px-3 py-1 text-xs font-medium text-zinc-100 hover:bg-zinc-800"
+          >
+            Open chat
+          </Link>
+          <ContinueChatButton token={token} />
+        </div>
+      </header>
+
+      <main className="mx-auto w-full max-w-3xl flex-1 space-y-4 px-4 py-4 sm:px-6 sm:py-6">
+        {snapshot.messages.length === 0 ? (
+          <p className="mt-8 text-center text-sm text-zinc-500">
+            This conversation has no messages.
+          </p>
+        ) : (
+          snapshot.messages.map((message, index) => (
+            <div
+              key={index}
+              className={`flex w-full ${
+                message.role === "user" ? "justify-end" : "justify-start"
+              }`}
+            >
+              <div
+                className={`max-w-[80%] rounded-2xl px-3 py-2 text-sm sm:px-4 sm:py-2.5 ${
+                  message.role === "user"
+                    ? "bg-emerald-500 text-emerald-950"
+                    : "bg-zinc-800 text-zinc-50"
+                }`}
+              >
+                <p className="mb-1 text-[11px] font-medium uppercase tracking-wide text-zinc-300/80">
+                  {message.role === "user" ? "User" : "Assistant"}
+                </p>
+                {message.role === "assistant" ? (
+                  <MarkdownMessage content={message.content} />
+                ) : (
+                  <p className="whitespace-pre-wrap break-words leading-relaxed">
+                    {message.content}
+                  </p>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </main>
+    </div>
+  );
+}
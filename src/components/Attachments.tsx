@@ -0,0 +1,102 @@
+"use client";
+
+export type MessageAttachment = {
+  id: string;
+  kind: "image" | "pdf" | "text";
+  file_name: string;
+  size_bytes: number;
+};
+
+export type PendingAttachment = {
+  localId: string;
+  fileName: string;
+  status: "uploading" | "ready" | "error";
+  error?: string;
+  attachment?: MessageAttachment;
+};
+
+const KIND_LABELS: Record<MessageAttachment["kind"], string> = {
+  image: "Image",
+  pdf: "PDF",
+  text: "Text",
+};
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/** Files sent with a message; clicking one downloads it. */
+export function AttachmentChips({
+  attachments,
+  onOpen,
+}: {
+  attachments: MessageAttachment[];
+  onOpen: (attachment: MessageAttachment) => void;
+}) {
+  return (
+    <ul className="mt-1.5 flex flex-wrap gap-1.5">
+      {attachments.map((attachment) => (
+        <li key={attachment.id}>
+          <button
+            type="button"
+            onClick={() => onOpen(attachment)}
+            title={`Download ${attachment.file_name}`}
+            className="flex max-w-[14rem] items-center gap-1 rounded-lg bg-black/15 px-2 py-0.5 text-[11px] hover:bg-black/25"
+          >
+            <span className="font-medium">{KIND_LABELS[attachment.kind]}</span>
+            <span className="truncate">{attachment.file_name}</span>
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/** Uploads waiting in the composer. */
+export function PendingAttachmentChips({
+  items,
+  onRemove,
+}: {
+  items: PendingAttachment[];
+  onRemove: (localId: string) => void;
+}) {
+  if (items.length === 0) return null;
+
+  return (
+    <ul className="mb-2 flex flex-wrap gap-1.5">
+      {items.map((item) => (
+        <li
+          key={item.localId}
+          className={`flex max-w-[16rem] items-center gap-1.5 rounded-lg border px-2 py-1 text-xs ${
+            item.status === "error"
+              ? "border-rose-500/40 bg-rose-500/10 text-rose-200"
+              : "border-zinc-700 bg-zinc-900 text-zinc-200"
+          }`}
+        >
+          <span className="truncate" title={item.error ?? item.fileName}>
+            {item.fileName}
+          </span>
+          <span className="shrink-0 text-[11px] text-zinc-500">
+            {item.status === "uploading"
+              ? "Uploading…"
+              : item.status === "error"
+                ? "Failed"
+                : item.attachment
+                  ? formatFileSize(item.attachment.size_bytes)
+                  : ""}
+          </span>
+          <button
+            type="button"
+            aria-label={`Remove ${item.fileName}`}
+            onClick={() => onRemove(item.localId)}
+            className="shrink-0 rounded px-1 text-zinc-400 hover:bg-zinc-800 hover:text-zinc-100"
+          >
+            ×
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,166 @@
+"use client";
+
+import { MarkdownMessage } from "@/components/MarkdownMessage";
+import type { ModelOption } from "@/components/ModelPicker";
+
+export type PreferenceWinner = "a" | "b" | "tie";
+
+export type ComparisonReply = {
+  side: "a" | "b";
+  /** `null` while a blind comparison is waiting for its vote. */
+  model: ModelOption | null;
+  message: {
+    id: string;
+    parentId: string | null;
+    role: "assistant";
+    content: string;
+  } | null;
+  error?: string;
+  code?: string;
+};
+
+export type Comparison = {
+  /** `null` when one side failed, so there is nothing to vote on. */
+  id: string | null;
+  blind: boolean;
+  userMessageId: string | null;
+  /** In display order; blind comparisons arrive shuffled. */
+  replies: ComparisonReply[];
+  winner: PreferenceWinner | null;
+  /** Model ids per side, known once the vote is in. */
+  revealedModels: { a: string | null; b: string | null } | null;
+};
+
+/** Header controls: the second model to compare against, and blind mode. */
+export function CompareControls({
+  models,
+  selectedModelId,
+  compareModelId,
+  isBlind,
+  disabled,
+  onChangeModel,
+  onChangeBlind,
+}: {
+  models: ModelOption[];
+  selectedModelId: string | null;
+  compareModelId: string | null;
+  isBlind: boolean;
+  disabled: boolean;
+  onChangeModel: (id: string | null) => void;
+  onChangeBlind: (blind: boolean) => void;
+}) {
+  const candidates = models.filter((m) => m.id !== selectedModelId);
+  if (candidates.length === 0) return null;
+
+  return (
+    <div className="flex items-center gap-1.5">
+      <select
+        aria-label="Compare with"
+        value={compareModelId ?? ""}
+        disabled={disabled}
+        onChange={(event) => onChangeModel(event.target.value || null)}
+        className="max-w-[12rem] truncate rounded-full border border-zinc-700 bg-zinc-900 px-3 py-1 text-xs text-zinc-100 focus:border-emerald-500 focus:outline-none disabled:opacity-60"
+      >
+        <option value="">No comparison</option>
+        {candidates.map((model) => (
+          <option key={model.id} value={model.id}>
+            vs {model.label}
+          </option>
+        ))}
+      </select>
+      {compareModelId && (
+        <label className="flex items-center gap-1 text-xs text-zinc-300">
+          <input
+            type="checkbox"
+            checked={isBlind}
+            disabled={disabled}
+            onChange={(event) => onChangeBlind(event.target.checked)}
+            className="accent-emerald-500"
+          />
+          Blind
+        </label>
+      )}
+    </div>
+  );
+}
+
+/** Both replies of a compare-mode turn side by side, with the vote buttons. */
+export function ComparisonView({
+  comparison,
+  models,
+  isVoting,
+  onVote,
+}: {
+  comparison: Comparison;
+  models: ModelOption[];
+  isVoting: boolean;
+  onVote: (winner: PreferenceWinner) => void;
+}) {
+  const labelOf = (reply: ComparisonReply, index: number) => {
+    const modelId = comparison.revealedModels?.[reply.side] ?? reply.model?.id;
+    if (!modelId) return `Response ${index + 1}`;
+    return models.find((m) => m.id === modelId)?.label ?? modelId;
+  };
+
+  const canVote =
+    comparison.id !== null && comparison.winner === null && !isVoting;
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="grid gap-3 md:grid-cols-2">
+        {comparison.replies.map((reply, index) => {
+          const isWinner = comparison.winner === reply.side;
+
+          return (
+            <div
+              key={reply.side}
+              className={`flex flex-col gap-2 rounded-2xl px-3 py-2 text-sm sm:px-4 sm:py-2.5 ${
+                isWinner ? "bg-zinc-800 ring-2 ring-emerald-500" : "bg-zinc-800"
+              }`}
+            >
+              <p className="flex items-center justify-between gap-2 text-[11px] font-medium uppercase tracking-wide text-zinc-300/80">
+                <span className="truncate">{labelOf(reply, index)}</span>
+                {isWinner && (
+                  <span className="text-emerald-300">Preferred</span>
+                )}
+              </p>
+              {reply.message ? (
+                <MarkdownMessage content={reply.message.content} />
+              ) : (
+                <p className="text-rose-200">
+                  {reply.error ?? "This model did not answer."}
+                </p>
+              )}
+              {canVote && (
+                <button
+                  type="button"
+                  onClick={() => onVote(reply.side)}
+                  className="self-start rounded-full border border-zinc-600 px-3 py-1 text-xs text-zinc-100 hover:bg-zinc-700"
+                >
+                  This one is better
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {canVote && (
+        <button
+          type="button"
+          onClick={() => onVote("tie")}
+          className="self-center rounded-full px-3 py-1 text-xs text-zinc-400 hover:bg-zinc-800 hover:text-zinc-100"
+        >
+          About the same
+        </button>
+      )}
+      {comparison.id === null && (
+        <p className="text-center text-xs text-zinc-500">
+          Voting needs a reply from both models.
+        </p>
+      )}
+      {comparison.winner === "tie" && (
+        <p className="text-center text-xs text-zinc-500">Voted a tie.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { getAuthHeaders } from "@/lib/clientAuth";
+
+type ContinueChatButtonProps = {
+  token: string;
+};
+
+/** Forks a shared conversation into the viewer's account (or guest session). */
+export function ContinueChatButton({ token }: ContinueChatButtonProps) {
+  const router = useRouter();
+  const [isForking, setIsForking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleContinue = async () => {
+    setIsForking(true);
+    setError(null);
+    try {
+      let guestId = window.localStorage.getItem("guest_id");
+      if (!guestId) {
+        guestId = crypto.randomUUID();
+        window.localStorage.setItem("guest_id", guestId);
+      }
+
+      const res = await fetch(`/api/shares/${token}/fork`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(await getAuthHeaders()),
+        },
+        body: JSON.stringify({ guestId }),
+      });
+      const json = (await res.json()) as {
+        conversationId?: string;
+        error?: string;
+      };
+
+      if (!res.ok || !json.conversationId) {
+        setError(json.error ?? "Could not copy this conversation.");
+        return;
+      }
+
+      router.push(`/?conversation=${json.conversationId}`);
+    } catch (forkError) {
+      console.error("Error forking shared conversation", forkError);
+      setError("Could not copy this conversation.");
+    } finally {
+      setIsForking(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <button
+        type="button"
+        onClick={() => void handleContinue()}
+        disabled={isForking}
+        className="rounded-full bg-white px-3 py-1 text-xs font-medium text-zinc-900 hover:bg-zinc-200 disabled:opacity-60"
+      >
+        {isForking ? "Copying..." : "Continue this chat"}
+      </button>
+      {error && <p className="text-xs text-rose-300">{error}</p>}
+    </div>
+  );
+}
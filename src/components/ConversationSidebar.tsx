@@ -0,0 +1,212 @@
+"use client";
+
+import { useState } from "react";
+
+export type ConversationListItem = {
+  id: string;
+  title: string | null;
+  provider: string | null;
+  model: string | null;
+  created_at: string;
+};
+
+export type MessageSearchResult = {
+  message_id: string;
+  conversation_id: string;
+  conversation_title: string | null;
+  role: "user" | "assistant";
+  snippet: string;
+};
+
+type ConversationSidebarProps = {
+  conversations: ConversationListItem[];
+  activeConversationId: string | null;
+  isLoading: boolean;
+  disabled: boolean;
+  searchQuery: string;
+  searchResults: MessageSearchResult[];
+  isSearching: boolean;
+  onSearchChange: (query: string) => void;
+  onSelect: (id: string) => void;
+  onSelectResult: (result: MessageSearchResult) => void;
+  onNewChat: () => void;
+  /** Conversation whose title is being saved or generated. */
+  titleBusyId: string | null;
+  onRename: (id: string, title: string) => void;
+  onRegenerateTitle: (id: string) => void;
+};
+
+/** Renders a search snippet whose matches are wrapped in \u0002…\u0003. */
+function HighlightedSnippet({ snippet }: { snippet: string }) {
+  const parts = snippet.split(/(\u0002[^\u0003]*\u0003)/);
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.startsWith("\u0002") ? (
+          <mark
+            key={index}
+            className="rounded bg-emerald-500/30 px-0.5 text-emerald-100"
+          >
+            {part.slice(1, -1)}
+          </mark>
+        ) : (
+          <span key={index}>{part}</span>
+        ),
+      )}
+    </>
+  );
+}
+
+export function ConversationSidebar({
+  conversations,
+  activeConversationId,
+  isLoading,
+  disabled,
+  searchQuery,
+  searchResults,
+  isSearching,
+  onSearchChange,
+  onSelect,
+  onSelectResult,
+  onNewChat,
+  titleBusyId,
+  onRename,
+  onRegenerateTitle,
+}: ConversationSidebarProps) {
+  const isSearchActive = searchQuery.trim().length > 0;
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState("");
+
+  const startEditing = (conversation: ConversationListItem) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title ?? "");
+  };
+
+  const finishEditing = (conversation: ConversationListItem) => {
+    const title = draftTitle.trim();
+    setEditingId(null);
+    if (title && title !== conversation.title) onRename(conversation.id, title);
+  };
+
+  return (
+    <aside className="hidden w-64 shrink-0 flex-col overflow-hidden rounded-2xl border border-zinc-800 bg-zinc-900/60 md:flex">
+      <div className="border-b border-zinc-800 px-3 py-3">
+        <button
+          type="button"
+          onClick={onNewChat}
+          disabled={disabled}
+          className="w-full rounded-xl bg-emerald-500 px-3 py-2 text-sm font-medium text-emerald-950 hover:bg-emerald-400 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          New chat
+        </button>
+        <input
+          type="search"
+          aria-label="Search conversations"
+          placeholder="Search messages..."
+          value={searchQuery}
+          onChange={(event) => onSearchChange(event.target.value)}
+          className="mt-2 w-full rounded-lg border border-zinc-800 bg-zinc-900 px-2 py-1.5 text-sm text-zinc-50 placeholder:text-zinc-500 focus:border-emerald-500 focus:outline-none"
+        />
+      </div>
+      <nav className="flex-1 space-y-1 overflow-y-auto px-2 py-2">
+        {isSearchActive ? (
+          searchResults.length === 0 ? (
+            <p className="px-2 py-1 text-xs text-zinc-500">
+              {isSearching ? "Searching..." : "No matching messages."}
+            </p>
+          ) : (
+            searchResults.map((result) => (
+              <button
+                key={result.message_id}
+                type="button"
+                onClick={() => onSelectResult(result)}
+                disabled={disabled}
+                className="block w-full rounded-lg px-2 py-1.5 text-left hover:bg-zinc-800/60 disabled:cursor-not-allowed"
+              >
+                <p className="truncate text-xs font-medium text-zinc-400">
+                  {result.conversation_title || "Untitled conversation"}
+                  {" · "}
+                  {result.role === "user" ? "You" : "Assistant"}
+                </p>
+                <p className="line-clamp-3 text-xs leading-relaxed text-zinc-300">
+                  <HighlightedSnippet snippet={result.snippet} />
+                </p>
+              </button>
+            ))
+          )
+        ) : isLoading && conversations.length === 0 ? (
+          <p className="px-2 py-1 text-xs text-zinc-500">
+            Loading conversations...
+          </p>
+        ) : conversations.length === 0 ? (
+          <p className="px-2 py-1 text-xs text-zinc-500">
+            No conversations yet.
+          </p>
+        ) : (
+          conversations.map((conversation) =>
+            conversation.id === editingId ? (
+              <input
+                key={conversation.id}
+                aria-label="Conversation title"
+                autoFocus
+                maxLength={80}
+                value={draftTitle}
+                onChange={(event) => setDraftTitle(event.target.value)}
+                onBlur={() => finishEditing(conversation)}
+                onKeyDown={(event) => {
+                  if (event.key === "Enter") finishEditing(conversation);
+                  if (event.key === "Escape") setEditingId(null);
+                }}
+                className="w-full rounded-lg border border-emerald-500 bg-zinc-900 px-2 py-1 text-sm text-zinc-50 focus:outline-none"
+              />
+            ) : (
+              <div
+                key={conversation.id}
+                className={`group flex items-center rounded-lg ${
+                  conversation.id === activeConversationId
+                    ? "bg-zinc-800 text-zinc-50"
+                    : "text-zinc-300 hover:bg-zinc-800/60"
+                }`}
+              >
+                <button
+                  type="button"
+                  onClick={() => onSelect(conversation.id)}
+                  disabled={disabled}
+                  className="min-w-0 flex-1 truncate px-2 py-1.5 text-left text-sm disabled:cursor-not-allowed"
+                  title={conversation.title ?? undefined}
+                >
+                  {titleBusyId === conversation.id
+                    ? "Naming…"
+                    : conversation.title || "Untitled conversation"}
+                </button>
+                <div className="hidden shrink-0 items-center pr-1 group-focus-within:flex group-hover:flex">
+                  <button
+                    type="button"
+                    aria-label="Rename conversation"
+                    title="Rename"
+                    onClick={() => startEditing(conversation)}
+                    disabled={titleBusyId !== null}
+                    className="rounded px-1 text-xs text-zinc-400 hover:bg-zinc-700 hover:text-zinc-100 disabled:opacity-50"
+                  >
+                    ✎
+                  </button>
+                  <button
+                    type="button"
+                    aria-label="Generate a new title"
+                    title="Generate a new title"
+                    onClick={() => onRegenerateTitle(conversation.id)}
+                    disabled={disabled || titleBusyId !== null}
+                    className="rounded px-1 text-xs text-zinc-400 hover:bg-zinc-700 hover:text-zinc-100 disabled:opacity-50"
+                  >
+                    ↻
+                  </button>
+                </div>
+              </div>
+            ),
+          )
+        )}
+      </nav>
+    </aside>
+  );
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import { useRef, useState, type ComponentPropsWithoutRef } from "react";
+import ReactMarkdown, { type Components } from "react-markdown";
+import rehypeHighlight from "rehype-highlight";
+import rehypeKatex from "rehype-katex";
+import rehypeSanitize, { defaultSchema } from "rehype-sanitize";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import "highlight.js/styles/github-dark.css";
+import "katex/dist/katex.min.css";
+
+// Sanitize the markdown tree before KaTeX and highlight.js run, so their
+// trusted output is kept while anything coming from the model is filtered.
+// The only additions to the default schema are the math classes remark-math
+// puts on `code` elements.
+const sanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [
+      ...(defaultSchema.attributes?.code ?? []),
+      ["className", /^language-./, "math-inline", "math-display"],
+    ],
+  },
+};
+
+// react-markdown passes its hast `node` to every component; keep it off the DOM.
+function withoutNode<P extends object>({
+  node,
+  ...props
+}: P & { node?: unknown }) {
+  void node;
+  return props;
+}
+
+function CodeBlock(props: ComponentPropsWithoutRef<"pre">) {
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    const text = preRef.current?.textContent ?? "";
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.error("Error copying code block", error);
+    }
+  };
+
+  return (
+    <div className="group relative my-2">
+      <button
+        type="button"
+        onClick={() => void handleCopy()}
+        className="absolute right-2 top-2 rounded-md border border-zinc-700 bg-zinc-900/90 px-2 py-0.5 text-[11px] text-zinc-300 opacity-0 transition group-hover:opacity-100 focus:opacity-100"
+      >
+        {copied ? "Copied" : "Copy"}
+      </button>
+      <pre
+        {...props}
+        ref={preRef}
+        className="overflow-x-auto rounded-lg bg-zinc-950 p-3 text-xs leading-relaxed [&>code]:bg-transparent [&>code]:p-0"
+      />
+    </div>
+  );
+}
+
+const components: Components = {
+  pre: (props) => <CodeBlock {...withoutNode(props)} />,
+  code: ({ className, ...props }) => (
+    <code
+      {...withoutNode(props)}
+      className={`${className ?? ""} rounded bg-zinc-950/70 px-1 py-0.5 font-mono text-[0.85em]`}
+    />
+  ),
+  a: (props) => (
+    <a
+      {...withoutNode(props)}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="text-emerald-300 underline underline-offset-2"
+    />
+  ),
+  p: (props) => (
+    <p {...withoutNode(props)} className="my-2 first:mt-0 last:mb-0" />
+  ),
+  ul: (props) => (
+    <ul {...withoutNode(props)} className="my-2 list-disc space-y-1 pl-5" />
+  ),
+  ol: (props) => (
+    <ol {...withoutNode(props)} className="my-2 list-decimal space-y-1 pl-5" />
+  ),
+  h1: (props) => (
+    <h1 {...withoutNode(props)} className="mb-2 mt-3 text-base font-semibold" />
+  ),
+  h2: (props) => (
+    <h2 {...withoutNode(props)} className="mb-2 mt-3 text-sm font-semibold" />
+  ),
+  h3: (props) => (
+    <h3 {...withoutNode(props)} className="mb-1 mt-3 text-sm font-semibold" />
+  ),
+  blockquote: (props) => (
+    <blockquote
+      {...withoutNode(props)}
+      className="my-2 border-l-2 border-zinc-600 pl-3 text-zinc-300"
+    />
+  ),
+  table: (props) => (
+    <div className="my-2 overflow-x-auto">
+      <table {...withoutNode(props)} className="w-full border-collapse text-xs" />
+    </div>
+  ),
+  th: (props) => (
+    <th
+      {...withoutNode(props)}
+      className="border border-zinc-700 bg-zinc-900 px-2 py-1 text-left font-medium"
+    />
+  ),
+  td: (props) => (
+    <td {...withoutNode(props)} className="border border-zinc-700 px-2 py-1 align-top" />
+  ),
+  hr: (props) => (
+    <hr {...withoutNode(props)} className="my-3 border-zinc-700" />
+  ),
+};
+
+/**
+ * Renders assistant markdown (GFM tables, code, KaTeX math). Safe to call on
+ * partially streamed content: unterminated fences and math simply render as
+ * an open block until the rest arrives.
+ */
+export function MarkdownMessage({ content }: { content: string }) {
+  return (
+    <div className="break-words leading-relaxed">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[
+          [rehypeSanitize, sanitizeSchema],
+          [rehypeKatex, { throwOnError: false }],
+          [rehypeHighlight, { detect: false }],
+        ]}
+        components={components}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
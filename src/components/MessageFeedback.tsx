@@ -0,0 +1,148 @@
+"use client";
+
+import { useState } from "react";
+
+export type FeedbackRating = "up" | "down";
+
+export type MessageFeedbackValue = {
+  rating: FeedbackRating;
+  reason: string | null;
+  comment: string | null;
+};
+
+// Mirrors `FEEDBACK_REASONS` in `@/lib/feedback`.
+const REASONS: Record<FeedbackRating, { value: string; label: string }[]> = {
+  up: [
+    { value: "accurate", label: "Accurate" },
+    { value: "helpful", label: "Helpful" },
+    { value: "well_written", label: "Well written" },
+  ],
+  down: [
+    { value: "incorrect", label: "Wrong" },
+    { value: "unhelpful", label: "Not helpful" },
+    { value: "incomplete", label: "Incomplete" },
+    { value: "unsafe", label: "Unsafe" },
+    { value: "too_slow", label: "Too slow" },
+    { value: "other", label: "Other" },
+  ],
+};
+
+const MAX_COMMENT_CHARS = 2_000;
+
+/**
+ * Thumbs up/down under an assistant reply. Picking a rating saves it right
+ * away and offers an optional reason and comment; picking it again clears it.
+ */
+export function MessageFeedbackControls({
+  feedback,
+  onSave,
+  onClear,
+}: {
+  feedback: MessageFeedbackValue | null;
+  onSave: (value: MessageFeedbackValue) => void;
+  onClear: () => void;
+}) {
+  const [isDetailOpen, setIsDetailOpen] = useState(false);
+  const [reason, setReason] = useState<string | null>(null);
+  const [comment, setComment] = useState("");
+
+  const handleRate = (rating: FeedbackRating) => {
+    if (feedback?.rating === rating) {
+      setIsDetailOpen(false);
+      onClear();
+      return;
+    }
+
+    setReason(null);
+    setComment("");
+    setIsDetailOpen(true);
+    onSave({ rating, reason: null, comment: null });
+  };
+
+  const rateButton = (rating: FeedbackRating, label: string, icon: string) => (
+    <button
+      type="button"
+      aria-label={label}
+      aria-pressed={feedback?.rating === rating}
+      title={label}
+      onClick={() => handleRate(rating)}
+      className={`rounded px-1 ${
+        feedback?.rating === rating
+          ? "bg-zinc-700 text-zinc-50"
+          : "hover:bg-zinc-700"
+      }`}
+    >
+      {icon}
+    </button>
+  );
+
+  return (
+    <div className="flex flex-col gap-1.5">
+      <span className="flex items-center gap-1">
+        {rateButton("up", "Good response", "👍")}
+        {rateButton("down", "Bad response", "👎")}
+        {feedback?.reason && !isDetailOpen && (
+          <span className="text-zinc-400">
+            {REASONS[feedback.rating].find((r) => r.value === feedback.reason)
+              ?.label ?? feedback.reason}
+          </span>
+        )}
+      </span>
+      {isDetailOpen && feedback && (
+        <div className="flex flex-col gap-1.5 rounded-lg border border-zinc-700 bg-zinc-900 p-2 text-xs text-zinc-200">
+          <div className="flex flex-wrap gap-1">
+            {REASONS[feedback.rating].map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                aria-pressed={reason === option.value}
+                onClick={() =>
+                  setReason(reason === option.value ? null : option.value)
+                }
+                className={`rounded-full border px-2 py-0.5 ${
+                  reason === option.value
+                    ? "border-emerald-500 bg-emerald-500/20 text-emerald-100"
+                    : "border-zinc-700 hover:bg-zinc-800"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <textarea
+            aria-label="Feedback comment"
+            placeholder="Anything else? (optional)"
+            maxLength={MAX_COMMENT_CHARS}
+            value={comment}
+            onChange={(event) => setComment(event.target.value)}
+            className="min-h-14 w-full resize-y rounded-lg border border-zinc-700 bg-zinc-950 px-2 py-1 text-xs text-zinc-50 placeholder:text-zinc-500 focus:border-emerald-500 focus:outline-none"
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setIsDetailOpen(false)}
+              className="rounded-full px-2 py-0.5 hover:bg-zinc-800"
+            >
+              Skip
+            </button>
+            <button
+              type="button"
+              disabled={!reason && !comment.trim()}
+              onClick={() => {
+                setIsDetailOpen(false);
+                onSave({
+                  rating: feedback.rating,
+                  reason,
+                  comment: comment.trim() || null,
+                });
+              }}
+              className="rounded-full bg-emerald-500 px-2 py-0.5 font-medium text-emerald-950 disabled:opacity-60"
+            >
+              Send feedback
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
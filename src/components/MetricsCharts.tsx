@@ -0,0 +1,87 @@
+"use client";
+
+type LatencyBucket = {
+  label: string;
+  count: number;
+};
+
+type DailyTokens = {
+  day: string;
+  inputTokens: number;
+  outputTokens: number;
+};
+
+export function LatencyHistogram({ buckets }: { buckets: LatencyBucket[] }) {
+  const max = Math.max(1, ...buckets.map((bucket) => bucket.count));
+
+  return (
+    <div className="space-y-1.5">
+      {buckets.map((bucket) => (
+        <div key={bucket.label} className="flex items-center gap-2 text-xs">
+          <span className="w-24 shrink-0 text-right text-zinc-400">
+            {bucket.label}
+          </span>
+          <div className="h-4 flex-1 rounded bg-zinc-900">
+            <div
+              className="h-4 rounded bg-emerald-500/80"
+              style={{ width: `${(bucket.count / max) * 100}%` }}
+            />
+          </div>
+          <span className="w-12 shrink-0 text-zinc-300">{bucket.count}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function TokensOverTimeChart({ days }: { days: DailyTokens[] }) {
+  if (days.length === 0) {
+    return <p className="text-xs text-zinc-500">No invocations in range.</p>;
+  }
+
+  const max = Math.max(
+    1,
+    ...days.map((day) => day.inputTokens + day.outputTokens),
+  );
+
+  return (
+    <div>
+      <div className="flex h-40 items-end gap-1">
+        {days.map((day) => {
+          const total = day.inputTokens + day.outputTokens;
+          return (
+            <div
+              key={day.day}
+              className="flex h-full flex-1 flex-col justify-end"
+              title={`${day.day}: ${day.inputTokens} input / ${day.outputTokens} output tokens`}
+            >
+              <div
+                className="w-full rounded-t bg-sky-400/80"
+                style={{ height: `${(day.outputTokens / max) * 100}%` }}
+              />
+              <div
+                className={`w-full bg-emerald-500/80 ${
+                  day.outputTokens === 0 ? "rounded-t" : ""
+                }`}
+                style={{ height: `${(day.inputTokens / max) * 100}%` }}
+              />
+              <span className="sr-only">{total} tokens</span>
+            </div>
+          );
+        })}
+      </div>
+      <div className="mt-1 flex justify-between text-[11px] text-zinc-500">
+        <span>{days[0].day}</span>
+        <span>{days[days.length - 1].day}</span>
+      </div>
+      <div className="mt-2 flex gap-3 text-[11px] text-zinc-400">
+        <span className="flex items-center gap-1">
+          <span className="h-2 w-2 rounded-sm bg-emerald-500/80" /> Input
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="h-2 w-2 rounded-sm bg-sky-400/80" /> Output
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+"use client";
+
+export type ModelOption = {
+  id: string;
+  provider: string;
+  model: string;
+  label: string;
+  supportsVision?: boolean;
+};
+
+type ModelPickerProps = {
+  models: ModelOption[];
+  value: string | null;
+  disabled: boolean;
+  onChange: (id: string) => void;
+};
+
+export function ModelPicker({
+  models,
+  value,
+  disabled,
+  onChange,
+}: ModelPickerProps) {
+  if (models.length === 0) return null;
+
+  return (
+    <select
+      aria-label="Model"
+      value={value ?? ""}
+      disabled={disabled}
+      onChange={(event) => onChange(event.target.value)}
+      className="max-w-[14rem] truncate rounded-full border border-zinc-700 bg-zinc-900 px-3 py-1 text-xs text-zinc-100 focus:border-emerald-500 focus:outline-none disabled:opacity-60"
+    >
+      {models.map((model) => (
+        <option key={model.id} value={model.id}>
+          {model.label}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,172 @@
+"use client";
+
+import { useState, FormEvent } from "react";
+import type { ModelOption } from "@/components/ModelPicker";
+import type { PersonaOption } from "@/components/PersonaPicker";
+
+export type PersonaFormValues = {
+  name: string;
+  systemPrompt: string;
+  defaultModelId: string | null;
+  temperature: number | null;
+  maxTokens: number | null;
+};
+
+type PersonaEditorProps = {
+  persona: PersonaOption | null;
+  models: ModelOption[];
+  isSaving: boolean;
+  error: string | null;
+  onSave: (values: PersonaFormValues) => void;
+  onDelete: (persona: PersonaOption) => void;
+  onClose: () => void;
+};
+
+function toOptionalNumber(value: string) {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const parsed = Number(trimmed);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/** Modal for creating a persona, or editing/deleting an existing one. */
+export function PersonaEditor({
+  persona,
+  models,
+  isSaving,
+  error,
+  onSave,
+  onDelete,
+  onClose,
+}: PersonaEditorProps) {
+  const [name, setName] = useState(persona?.name ?? "");
+  const [systemPrompt, setSystemPrompt] = useState(
+    persona?.system_prompt ?? "",
+  );
+  const [defaultModelId, setDefaultModelId] = useState(
+    persona?.provider && persona.model
+      ? `${persona.provider}:${persona.model}`
+      : "",
+  );
+  const [temperature, setTemperature] = useState(
+    persona?.temperature?.toString() ?? "",
+  );
+  const [maxTokens, setMaxTokens] = useState(
+    persona?.max_tokens?.toString() ?? "",
+  );
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    onSave({
+      name,
+      systemPrompt,
+      defaultModelId: defaultModelId || null,
+      temperature: toOptionalNumber(temperature),
+      maxTokens: toOptionalNumber(maxTokens),
+    });
+  };
+
+  const inputClassName =
+    "w-full rounded-lg border border-zinc-800 bg-zinc-900 px-2 py-1.5 text-sm text-zinc-50 focus:border-emerald-500 focus:outline-none";
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/60">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-md space-y-3 rounded-2xl border border-zinc-800 bg-zinc-950 px-5 py-4 shadow-xl"
+      >
+        <h2 className="text-sm font-semibold text-zinc-50">
+          {persona ? "Edit persona" : "New persona"}
+        </h2>
+        <label className="block space-y-1 text-xs text-zinc-400">
+          <span>Name</span>
+          <input
+            className={inputClassName}
+            value={name}
+            maxLength={80}
+            onChange={(event) => setName(event.target.value)}
+          />
+        </label>
+        <label className="block space-y-1 text-xs text-zinc-400">
+          <span>System prompt</span>
+          <textarea
+            className={`${inputClassName} min-h-32 resize-y`}
+            value={systemPrompt}
+            onChange={(event) => setSystemPrompt(event.target.value)}
+          />
+        </label>
+        <label className="block space-y-1 text-xs text-zinc-400">
+          <span>Default model</span>
+          <select
+            className={inputClassName}
+            value={defaultModelId}
+            onChange={(event) => setDefaultModelId(event.target.value)}
+          >
+            <option value="">Use the selected model</option>
+            {models.map((model) => (
+              <option key={model.id} value={model.id}>
+                {model.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className="flex gap-3">
+          <label className="block flex-1 space-y-1 text-xs text-zinc-400">
+            <span>Temperature (0–2)</span>
+            <input
+              className={inputClassName}
+              type="number"
+              min={0}
+              max={2}
+              step={0.1}
+              value={temperature}
+              onChange={(event) => setTemperature(event.target.value)}
+            />
+          </label>
+          <label className="block flex-1 space-y-1 text-xs text-zinc-400">
+            <span>Max tokens</span>
+            <input
+              className={inputClassName}
+              type="number"
+              min={1}
+              step={1}
+              value={maxTokens}
+              onChange={(event) => setMaxTokens(event.target.value)}
+            />
+          </label>
+        </div>
+        {error && <p className="text-xs text-rose-300">{error}</p>}
+        <div className="flex items-center justify-between gap-2 pt-1">
+          {persona ? (
+            <button
+              type="button"
+              onClick={() => onDelete(persona)}
+              disabled={isSaving}
+              className="rounded-full px-3 py-1 text-xs font-medium text-rose-300 hover:bg-rose-500/10 disabled:opacity-60"
+            >
+              Delete
+            </button>
+          ) : (
+            <span />
+          )}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="rounded-full border border-zinc-700 px-3 py-1 text-xs font-medium text-zinc-100 hover:bg-zinc-800"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving || !name.trim() || !systemPrompt.trim()}
+              className="rounded-full bg-white px-3 py-1 text-xs font-medium text-zinc-900 hover:bg-zinc-200 disabled:opacity-60"
+            >
+              {isSaving ? "Saving..." : "Save"}
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+export type PersonaOption = {
+  id: string;
+  name: string;
+  system_prompt: string;
+  provider: string | null;
+  model: string | null;
+  temperature: number | null;
+  max_tokens: number | null;
+};
+
+type PersonaPickerProps = {
+  personas: PersonaOption[];
+  value: string | null;
+  disabled: boolean;
+  onChange: (id: string | null) => void;
+  onCreate: () => void;
+  onEdit: (persona: PersonaOption) => void;
+};
+
+export function PersonaPicker({
+  personas,
+  value,
+  disabled,
+  onChange,
+  onCreate,
+  onEdit,
+}: PersonaPickerProps) {
+  const selected = personas.find((persona) => persona.id === value) ?? null;
+
+  return (
+    <div className="flex items-center gap-1">
+      <select
+        aria-label="Persona"
+        value={value ?? ""}
+        disabled={disabled}
+        onChange={(event) => onChange(event.target.value || null)}
+        className="max-w-[10rem] truncate rounded-full border border-zinc-700 bg-zinc-900 px-3 py-1 text-xs text-zinc-100 focus:border-emerald-500 focus:outline-none disabled:opacity-60"
+      >
+        <option value="">Default assistant</option>
+        {personas.map((persona) => (
+          <option key={persona.id} value={persona.id}>
+            {persona.name}
+          </option>
+        ))}
+      </select>
+      {!disabled && selected && (
+        <button
+          type="button"
+          onClick={() => onEdit(selected)}
+          className="rounded-full px-2 py-1 text-xs text-zinc-400 hover:bg-zinc-800 hover:text-zinc-100"
+        >
+          Edit
+        </button>
+      )}
+      {!disabled && (
+        <button
+          type="button"
+          onClick={onCreate}
+          className="rounded-full px-2 py-1 text-xs text-zinc-400 hover:bg-zinc-800 hover:text-zinc-100"
+        >
+          New
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import { useState } from "react";
+
+export type ShareLink = {
+  id: string;
+  token: string;
+  url: string;
+  created_at: string;
+};
+
+type ShareDialogProps = {
+  links: ShareLink[];
+  isBusy: boolean;
+  onCreate: () => void;
+  onRevoke: (link: ShareLink) => void;
+  onClose: () => void;
+};
+
+export function ShareDialog({
+  links,
+  isBusy,
+  onCreate,
+  onRevoke,
+  onClose,
+}: ShareDialogProps) {
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const handleCopy = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(link.url);
+      setCopiedId(link.id);
+      window.setTimeout(() => setCopiedId(null), 1500);
+    } catch (error) {
+      console.error("Error copying share link", error);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/60">
+      <div className="w-full max-w-md space-y-3 rounded-2xl border border-zinc-800 bg-zinc-950 px-5 py-4 shadow-xl">
+        <div>
+          <h2 className="text-sm font-semibold text-zinc-50">
+            Share conversation
+          </h2>
+          <p className="mt-1 text-xs text-zinc-400">
+            Anyone with a link can read a snapshot of the current branch as it
+            was when the link was created. Revoke a link to turn it off.
+          </p>
+        </div>
+        {links.length === 0 ? (
+          <p className="text-xs text-zinc-500">No active links.</p>
+        ) : (
+          <ul className="space-y-2">
+            {links.map((link) => (
+              <li key={link.id} className="flex items-center gap-2">
+                <input
+                  readOnly
+                  value={link.url}
+                  onFocus={(event) => event.target.select()}
+                  className="min-w-0 flex-1 rounded-lg border border-zinc-800 bg-zinc-900 px-2 py-1 font-mono text-xs text-zinc-200"
+                />
+                <button
+                  type="button"
+                  onClick={() => void handleCopy(link)}
+                  className="rounded-full px-2 py-1 text-xs text-zinc-300 hover:bg-zinc-800"
+                >
+                  {copiedId === link.id ? "Copied" : "Copy"}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onRevoke(link)}
+                  disabled={isBusy}
+                  className="rounded-full px-2 py-1 text-xs text-rose-300 hover:bg-rose-500/10 disabled:opacity-60"
+                >
+                  Revoke
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex justify-end gap-2 pt-1">
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-full border border-zinc-700 px-3 py-1 text-xs font-medium text-zinc-100 hover:bg-zinc-800"
+          >
+            Close
+          </button>
+          <button
+            type="button"
+            onClick={onCreate}
+            disabled={isBusy}
+            className="rounded-full bg-white px-3 py-1 text-xs font-medium text-zinc-900 hover:bg-zinc-200 disabled:opacity-60"
+          >
+            Create link
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+export type ToolCall = {
+  id: string;
+  name: string;
+  arguments: string;
+};
+
+/** An assistant message that called tools, or a `tool` result. */
+export type ToolStep = {
+  role: string;
+  content: string;
+  toolCalls?: ToolCall[];
+  toolCallId?: string;
+};
+
+function formatArguments(raw: string) {
+  try {
+    return JSON.stringify(JSON.parse(raw), null, 2);
+  } catch {
+    return raw;
+  }
+}
+
+/**
+ * The tools a reply used, one collapsed card per call with its arguments and
+ * result. A call without a result yet is still running.
+ */
+export function ToolCallCards({ steps }: { steps: ToolStep[] }) {
+  const calls = steps.flatMap((step) =>
+    step.role === "assistant" ? (step.toolCalls ?? []) : [],
+  );
+  if (calls.length === 0) return null;
+
+  const resultOf = (callId: string) =>
+    steps.find((step) => step.role === "tool" && step.toolCallId === callId)
+      ?.content;
+
+  return (
+    <div className="mb-2 flex flex-col gap-1.5">
+      {calls.map((call) => {
+        const result = resultOf(call.id);
+        // Failed calls come back from the server as "Error: …" results.
+        const isError = result?.startsWith("Error:") ?? false;
+
+        return (
+          <details
+            key={call.id}
+            className="rounded-lg border border-zinc-700 bg-zinc-900/60 text-xs"
+          >
+            <summary className="flex cursor-pointer items-center gap-2 px-2.5 py-1.5 text-zinc-300">
+              <span className="font-mono text-zinc-100">{call.name}</span>
+              <span
+                className={
+                  result === undefined
+                    ? "text-zinc-500"
+                    : isError
+                      ? "text-rose-300"
+                      : "text-emerald-300"
+                }
+              >
+                {result === undefined
+                  ? "Running…"
+                  : isError
+                    ? "Failed"
+                    : "Done"}
+              </span>
+            </summary>
+            <div className="flex flex-col gap-2 border-t border-zinc-800 px-2.5 py-2">
+              <div>
+                <p className="mb-1 text-[11px] uppercase tracking-wide text-zinc-500">
+                  Arguments
+                </p>
+                <pre className="max-h-48 overflow-auto whitespace-pre-wrap break-words rounded bg-black/30 p-2 font-mono text-zinc-200">
+                  {formatArguments(call.arguments)}
+                </pre>
+              </div>
+              {result !== undefined && (
+                <div>
+                  <p className="mb-1 text-[11px] uppercase tracking-wide text-zinc-500">
+                    Result
+                  </p>
+                  <pre className="max-h-64 overflow-auto whitespace-pre-wrap break-words rounded bg-black/30 p-2 font-mono text-zinc-200">
+                    {result}
+                  </pre>
+                </div>
+              )}
+            </div>
+          </details>
+        );
+      })}
+    </div>
+  );
+}
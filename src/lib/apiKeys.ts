@@ -0,0 +1,85 @@
+import { createHash, randomBytes } from "node:crypto";
+import type { NextRequest } from "next/server";
+import { supabaseServerClient } from "@/lib/supabaseServerClient";
+
+export type ApiKeySummary = {
+  id: string;
+  name: string;
+  key_prefix: string;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+};
+
+export type ApiKeyCaller = {
+  keyId: string;
+  userId: string;
+};
+
+export const API_KEY_COLUMNS =
+  "id, name, key_prefix, created_at, last_used_at, revoked_at";
+
+const API_KEY_PREFIX = "sk-chat-";
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 6;
+
+export function hashApiKey(key: string) {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/** A new random key. The plaintext is shown to the user once and never stored. */
+export function generateApiKey() {
+  const key = `${API_KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+  return {
+    key,
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    hash: hashApiKey(key),
+  };
+}
+
+export async function listApiKeys(userId: string) {
+  const { data, error } = await supabaseServerClient
+    .from("api_keys")
+    .select(API_KEY_COLUMNS)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+
+  return { data: (data ?? []) as ApiKeySummary[], error };
+}
+
+/**
+ * Resolves a `Authorization: Bearer sk-chat-...` header to an active key.
+ * Revoked and unknown keys resolve to `null`.
+ */
+export async function authenticateApiKey(
+  request: NextRequest,
+): Promise<ApiKeyCaller | null> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) return null;
+
+  const key = authHeader.slice("Bearer ".length).trim();
+  if (!key.startsWith(API_KEY_PREFIX)) return null;
+
+  const { data, error } = await supabaseServerClient
+    .from("api_keys")
+    .select("id, user_id")
+    .eq("key_hash", hashApiKey(key))
+    .is("revoked_at", null)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error authenticating API key", error);
+    return null;
+  }
+  if (!data) return null;
+
+  const { error: touchError } = await supabaseServerClient
+    .from("api_keys")
+    .update({ last_used_at: new Date().toISOString() })
+    .eq("id", data.id);
+
+  if (touchError) {
+    console.error("Error updating API key last_used_at", touchError);
+  }
+
+  return { keyId: data.id as string, userId: data.user_id as string };
+}
@@ -0,0 +1,85 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { supabaseServerClient } from "@/lib/supabaseServerClient";
+
+const BUCKET = process.env.ATTACHMENT_BUCKET || "attachments";
+const LOCAL_DIR = path.resolve(
+  process.env.ATTACHMENT_LOCAL_DIR || ".data/attachments",
+);
+
+/**
+ * `ATTACHMENT_STORAGE=local` keeps files on disk for development without a
+ * Supabase Storage bucket; everything else uses the private bucket.
+ */
+function storesLocally() {
+  return process.env.ATTACHMENT_STORAGE === "local";
+}
+
+function localPath(storagePath: string) {
+  const resolved = path.resolve(LOCAL_DIR, storagePath);
+  if (!resolved.startsWith(`${LOCAL_DIR}${path.sep}`)) {
+    throw new Error(`Invalid attachment path: ${storagePath}`);
+  }
+  return resolved;
+}
+
+export async function putAttachmentObject(
+  storagePath: string,
+  bytes: Buffer,
+  contentType: string,
+) {
+  if (storesLocally()) {
+    try {
+      const filePath = localPath(storagePath);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, bytes);
+      return { error: null };
+    } catch (error) {
+      return { error };
+    }
+  }
+
+  const { error } = await supabaseServerClient.storage
+    .from(BUCKET)
+    .upload(storagePath, bytes, { contentType, upsert: false });
+
+  return { error };
+}
+
+export async function getAttachmentObject(storagePath: string) {
+  if (storesLocally()) {
+    try {
+      return { data: await readFile(localPath(storagePath)), error: null };
+    } catch (error) {
+      return { data: null, error };
+    }
+  }
+
+  const { data, error } = await supabaseServerClient.storage
+    .from(BUCKET)
+    .download(storagePath);
+
+  if (error || !data) return { data: null, error };
+  return { data: Buffer.from(await data.arrayBuffer()), error: null };
+}
+
+export async function removeAttachmentObject(storagePath: string) {
+  if (storesLocally()) {
+    try {
+      await rm(localPath(storagePath), { force: true });
+      return { error: null };
+    } catch (error) {
+      console.error("Error removing attachment file", error);
+      return { error };
+    }
+  }
+
+  const { error } = await supabaseServerClient.storage
+    .from(BUCKET)
+    .remove([storagePath]);
+
+  if (error) {
+    console.error("Error removing attachment object", error);
+  }
+  return { error };
+}
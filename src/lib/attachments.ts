@@ -0,0 +1,415 @@
+import { randomUUID } from "node:crypto";
+import type { Caller } from "@/lib/auth";
+import {
+  getAttachmentObject,
+  putAttachmentObject,
+  removeAttachmentObject,
+} from "@/lib/attachmentStorage";
+import { getOwnedConversation, isUuid } from "@/lib/conversations";
+import { extractPdfText } from "@/lib/pdfText";
+import { supabaseServerClient } from "@/lib/supabaseServerClient";
+import { estimateTokens } from "@/lib/tokens";
+
+export type AttachmentKind = "image" | "pdf" | "text";
+
+export type AttachmentSummary = {
+  id: string;
+  message_id: string | null;
+  kind: AttachmentKind;
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+  created_at: string;
+};
+
+export type Attachment = AttachmentSummary & {
+  user_id: string | null;
+  guest_id: string | null;
+  conversation_id: string | null;
+  storage_path: string;
+  extracted_text: string | null;
+};
+
+export const ATTACHMENT_SUMMARY_COLUMNS =
+  "id, message_id, kind, file_name, content_type, size_bytes, created_at";
+const ATTACHMENT_COLUMNS = `${ATTACHMENT_SUMMARY_COLUMNS}, user_id, guest_id, conversation_id, storage_path, extracted_text`;
+
+// Vercel rejects request bodies over ~4.5 MB, so uploads stay below that.
+export const MAX_ATTACHMENT_BYTES = 4 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5;
+const MAX_EXTRACTED_CHARS = 200_000;
+// Attachments on earlier turns are cut to this many tokens each; the newest
+// turn gets whatever the model's budget has left.
+const HISTORY_ATTACHMENT_TOKENS = 2_000;
+// Uploads that were never sent with a turn are deleted after this long.
+const UNSENT_ATTACHMENT_TTL_MS = 24 * 60 * 60 * 1000;
+const ORPHAN_BATCH_SIZE = 100;
+
+const IMAGE_TYPES = new Set([
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+]);
+
+const TEXT_TYPES = new Set([
+  "application/json",
+  "application/xml",
+  "application/yaml",
+  "application/x-yaml",
+  "application/javascript",
+  "application/typescript",
+  "application/sql",
+  "application/x-sh",
+  "application/toml",
+]);
+
+const TEXT_EXTENSIONS = new Set([
+  "txt",
+  "md",
+  "markdown",
+  "csv",
+  "tsv",
+  "json",
+  "jsonl",
+  "xml",
+  "yaml",
+  "yml",
+  "toml",
+  "ini",
+  "log",
+  "html",
+  "css",
+  "scss",
+  "js",
+  "jsx",
+  "mjs",
+  "cjs",
+  "ts",
+  "tsx",
+  "py",
+  "rb",
+  "go",
+  "rs",
+  "java",
+  "kt",
+  "swift",
+  "c",
+  "h",
+  "cc",
+  "cpp",
+  "hpp",
+  "cs",
+  "php",
+  "sh",
+  "bash",
+  "zsh",
+  "sql",
+  "r",
+  "lua",
+  "pl",
+  "scala",
+  "dart",
+  "vue",
+  "svelte",
+  "graphql",
+  "proto",
+  "tex",
+]);
+
+function extensionOf(fileName: string) {
+  const dot = fileName.lastIndexOf(".");
+  return dot === -1 ? "" : fileName.slice(dot + 1).toLowerCase();
+}
+
+/** Decides how a file is handled, or `null` when it is not supported. */
+export function classifyAttachment(
+  fileName: string,
+  contentType: string,
+): AttachmentKind | null {
+  const type = contentType.split(";")[0].trim().toLowerCase();
+  const extension = extensionOf(fileName);
+
+  if (IMAGE_TYPES.has(type)) return "image";
+  if (type === "application/pdf" || extension === "pdf") return "pdf";
+  if (
+    type.startsWith("text/") ||
+    TEXT_TYPES.has(type) ||
+    TEXT_EXTENSIONS.has(extension)
+  ) {
+    return "text";
+  }
+  return null;
+}
+
+/** The text of a text or PDF file, capped in length; `null` if it has none. */
+export function extractAttachmentText(kind: AttachmentKind, bytes: Buffer) {
+  if (kind === "image") return null;
+
+  const text =
+    kind === "pdf"
+      ? extractPdfText(bytes, MAX_EXTRACTED_CHARS)
+      : bytes.toString("utf8").trim();
+  if (!text) return null;
+
+  return text.length > MAX_EXTRACTED_CHARS
+    ? text.slice(0, MAX_EXTRACTED_CHARS)
+    : text;
+}
+
+function safeFileName(fileName: string) {
+  return (
+    fileName
+      .replace(/[^A-Za-z0-9._-]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(-100) || "file"
+  );
+}
+
+/**
+ * Stores an upload and its extracted text (already moderated by the caller).
+ * The row has no message until it is sent with a chat turn (see
+ * `linkAttachments`).
+ */
+export async function createAttachment(
+  caller: Caller,
+  file: { name: string; type: string; bytes: Buffer },
+  kind: AttachmentKind,
+  extractedText: string | null,
+) {
+  const id = randomUUID();
+  const storagePath = `${id}/${safeFileName(file.name)}`;
+  const contentType = file.type || "application/octet-stream";
+
+  const { error: storageError } = await putAttachmentObject(
+    storagePath,
+    file.bytes,
+    contentType,
+  );
+  if (storageError) return { data: null, error: storageError };
+
+  const { data, error } = await supabaseServerClient
+    .from("attachments")
+    .insert({
+      id,
+      user_id: caller.userId,
+      guest_id: caller.guestId,
+      kind,
+      file_name: file.name.slice(0, 255),
+      content_type: contentType,
+      size_bytes: file.bytes.length,
+      storage_path: storagePath,
+      extracted_text: extractedText,
+    })
+    .select(ATTACHMENT_SUMMARY_COLUMNS)
+    .single();
+
+  if (error) {
+    await removeAttachmentObject(storagePath);
+    return { data: null, error };
+  }
+
+  return { data: data as AttachmentSummary, error: null };
+}
+
+function isUploader(caller: Caller, attachment: Attachment) {
+  if (caller.userId) return attachment.user_id === caller.userId;
+  return (
+    Boolean(caller.guestId) &&
+    attachment.user_id === null &&
+    attachment.guest_id === caller.guestId
+  );
+}
+
+/**
+ * Sent attachments belong to whoever owns their conversation (so they follow
+ * a guest's conversations to their account); unsent ones to the uploader.
+ */
+export async function getOwnedAttachment(caller: Caller, id: string) {
+  if (!isUuid(id)) return { data: null, error: null };
+
+  const { data, error } = await supabaseServerClient
+    .from("attachments")
+    .select(ATTACHMENT_COLUMNS)
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error || !data) return { data: null, error };
+  const attachment = data as Attachment;
+
+  if (attachment.conversation_id) {
+    const { data: conversation, error: conversationError } =
+      await getOwnedConversation(caller, attachment.conversation_id);
+    return { data: conversation ? attachment : null, error: conversationError };
+  }
+
+  return { data: isUploader(caller, attachment) ? attachment : null, error };
+}
+
+/** Unsent uploads of the caller, in the order the ids were given. */
+export async function getPendingAttachments(
+  caller: Caller,
+  requestedIds: string[],
+) {
+  const ids = [...new Set(requestedIds)];
+  if (ids.length === 0 || !ids.every(isUuid)) {
+    return { data: ids.length === 0 ? [] : null, error: null };
+  }
+
+  const { data, error } = await supabaseServerClient
+    .from("attachments")
+    .select(ATTACHMENT_COLUMNS)
+    .in("id", ids)
+    .is("message_id", null);
+
+  if (error) return { data: null, error };
+
+  const rows = (data ?? []) as Attachment[];
+  const owned = ids
+    .map((id) => rows.find((row) => row.id === id))
+    .filter((row): row is Attachment => !!row && isUploader(caller, row));
+
+  return { data: owned.length === ids.length ? owned : null, error: null };
+}
+
+export async function linkAttachments(
+  ids: string[],
+  conversationId: string,
+  messageId: string,
+) {
+  if (ids.length === 0) return;
+
+  const { error } = await supabaseServerClient
+    .from("attachments")
+    .update({ conversation_id: conversationId, message_id: messageId })
+    .in("id", ids);
+
+  if (error) {
+    console.error("Error linking attachments", error);
+  }
+}
+
+/**
+ * Deletes uploads that were not sent within `UNSENT_ATTACHMENT_TTL_MS`, then
+ * removes the storage objects of deleted attachment rows. Rows also disappear
+ * through cascades when a conversation or message is deleted, so a trigger
+ * queues their objects in `attachment_orphans` and this drains the queue.
+ */
+export async function removeStaleAttachments() {
+  const cutoff = new Date(Date.now() - UNSENT_ATTACHMENT_TTL_MS).toISOString();
+
+  const { error: unsentError } = await supabaseServerClient
+    .from("attachments")
+    .delete()
+    .is("message_id", null)
+    .lt("created_at", cutoff);
+
+  if (unsentError) return { error: unsentError };
+
+  const { data, error } = await supabaseServerClient
+    .from("attachment_orphans")
+    .select("storage_path")
+    .order("deleted_at", { ascending: true })
+    .limit(ORPHAN_BATCH_SIZE);
+
+  if (error) return { error };
+
+  // Objects that could not be removed stay queued for the next run.
+  const removed: string[] = [];
+  for (const { storage_path } of (data ?? []) as { storage_path: string }[]) {
+    const { error: storageError } = await removeAttachmentObject(storage_path);
+    if (!storageError) removed.push(storage_path);
+  }
+
+  if (removed.length === 0) return { error: null };
+
+  const { error: dequeueError } = await supabaseServerClient
+    .from("attachment_orphans")
+    .delete()
+    .in("storage_path", removed);
+
+  return { error: dequeueError };
+}
+
+/** Every sent attachment of a conversation, with its text, oldest first. */
+export async function loadConversationAttachments(conversationId: string) {
+  const { data, error } = await supabaseServerClient
+    .from("attachments")
+    .select(ATTACHMENT_COLUMNS)
+    .eq("conversation_id", conversationId)
+    .order("created_at", { ascending: true });
+
+  return { data: (data ?? []) as Attachment[], error };
+}
+
+export async function listConversationAttachments(conversationId: string) {
+  const { data, error } = await supabaseServerClient
+    .from("attachments")
+    .select(ATTACHMENT_SUMMARY_COLUMNS)
+    .eq("conversation_id", conversationId)
+    .order("created_at", { ascending: true });
+
+  return { data: (data ?? []) as AttachmentSummary[], error };
+}
+
+function truncateToTokens(text: string, maxTokens: number) {
+  if (estimateTokens(text) <= maxTokens) return text;
+
+  const notice = "\n[… truncated to fit the context window]";
+  const maxChars = Math.max(0, maxTokens * 4 - notice.length);
+  return maxChars > 0 ? `${text.slice(0, maxChars)}${notice}` : "";
+}
+
+/**
+ * Inlines the extracted text of a turn's attachments after the message.
+ * `maxTokens` is shared between them; images are noted by name only, since
+ * their pixels are sent separately.
+ */
+export function withAttachmentText(
+  content: string,
+  attachments: Attachment[],
+  maxTokens = HISTORY_ATTACHMENT_TOKENS * attachments.length,
+) {
+  if (attachments.length === 0) return content;
+
+  const withText = attachments.filter((a) => a.extracted_text);
+  const perAttachment = withText.length
+    ? Math.floor(maxTokens / withText.length)
+    : 0;
+
+  const blocks = attachments.map((attachment) => {
+    const header = `[Attached ${attachment.kind}: ${attachment.file_name}]`;
+    if (!attachment.extracted_text) {
+      return attachment.kind === "image"
+        ? header
+        : `${header}\n(No text could be extracted from this file.)`;
+    }
+
+    const text = truncateToTokens(attachment.extracted_text, perAttachment);
+    return text
+      ? `${header}\n${text}\n[End of ${attachment.file_name}]`
+      : header;
+  });
+
+  return [content, ...blocks].join("\n\n");
+}
+
+/** Data URLs for the images of a turn, for vision-capable models. */
+export async function loadImageDataUrls(attachments: Attachment[]) {
+  const urls: string[] = [];
+
+  for (const attachment of attachments) {
+    if (attachment.kind !== "image") continue;
+
+    const { data, error } = await getAttachmentObject(attachment.storage_path);
+    if (error || !data) {
+      return { data: null, error: error ?? new Error("Missing image") };
+    }
+
+    urls.push(
+      `data:${attachment.content_type};base64,${data.toString("base64")}`,
+    );
+  }
+
+  return { data: urls, error: null };
+}
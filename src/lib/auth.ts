@@ -0,0 +1,58 @@
+import type { NextRequest } from "next/server";
+import type { User } from "@supabase/supabase-js";
+import { supabaseServerClient } from "@/lib/supabaseServerClient";
+
+export type Caller = {
+  userId: string | null;
+  guestId: string | null;
+};
+
+export function getAccessToken(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+
+  if (!authHeader?.startsWith("Bearer ")) return null;
+
+  return authHeader.slice("Bearer ".length).trim() || null;
+}
+
+export async function getUserFromRequest(request: NextRequest) {
+  const accessToken = getAccessToken(request);
+  if (!accessToken) return null;
+
+  const { data, error } = await supabaseServerClient.auth.getUser(accessToken);
+  if (error || !data.user) return null;
+
+  return data.user;
+}
+
+export async function getUserIdFromRequest(request: NextRequest) {
+  const user = await getUserFromRequest(request);
+  return user?.id ?? null;
+}
+
+/**
+ * Admins are configured through `ADMIN_EMAILS` (comma-separated) and matched
+ * against the verified Supabase user's email.
+ */
+export function isAdminUser(user: User | null) {
+  if (!user?.email) return false;
+
+  const adminEmails = (process.env.ADMIN_EMAILS ?? "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+
+  return adminEmails.includes(user.email.toLowerCase());
+}
+
+/**
+ * Resolves who is calling: a verified Supabase user wins over the guest id,
+ * which is only trusted when no user is signed in.
+ */
+export async function getCaller(
+  request: NextRequest,
+  guestId: string | null,
+): Promise<Caller> {
+  const userId = await getUserIdFromRequest(request);
+  return { userId, guestId: userId ? null : guestId };
+}
@@ -0,0 +1,8 @@
+import { supabaseBrowserClient } from "@/lib/supabaseClient";
+
+export async function getAuthHeaders(): Promise<Record<string, string>> {
+  const { data } = await supabaseBrowserClient.auth.getSession();
+  return data.session?.access_token
+    ? { Authorization: `Bearer ${data.session.access_token}` }
+    : {};
+}
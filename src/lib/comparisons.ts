@@ -0,0 +1,135 @@
+import type { Caller } from "@/lib/auth";
+import { getOwnedConversation, isUuid } from "@/lib/conversations";
+import { toOne, type Embedded } from "@/lib/embeds";
+import { makeModelId } from "@/lib/llm/registry";
+import { supabaseServerClient } from "@/lib/supabaseServerClient";
+
+export type PreferenceWinner = "a" | "b" | "tie";
+
+export type ComparisonSide = {
+  messageId: string | null;
+  invocationId: string;
+};
+
+type InvocationModel = { provider: string; model: string } | null;
+
+export type ModelComparison = {
+  id: string;
+  conversation_id: string | null;
+  message_a_id: string | null;
+  message_b_id: string | null;
+  blind: boolean;
+  winner: PreferenceWinner | null;
+  voted_at: string | null;
+  invocation_a: InvocationModel;
+  invocation_b: InvocationModel;
+};
+
+type ComparisonSelect = Omit<
+  ModelComparison,
+  "invocation_a" | "invocation_b"
+> & {
+  invocation_a: Embedded<InvocationModel>;
+  invocation_b: Embedded<InvocationModel>;
+};
+
+const COMPARISON_COLUMNS =
+  "id, conversation_id, message_a_id, message_b_id, blind, winner, voted_at, invocation_a:invocation_a_id(provider, model), invocation_b:invocation_b_id(provider, model)";
+
+function toModelComparison(row: ComparisonSelect): ModelComparison {
+  return {
+    id: row.id,
+    conversation_id: row.conversation_id,
+    message_a_id: row.message_a_id,
+    message_b_id: row.message_b_id,
+    blind: row.blind,
+    winner: row.winner,
+    voted_at: row.voted_at,
+    invocation_a: toOne(row.invocation_a),
+    invocation_b: toOne(row.invocation_b),
+  };
+}
+
+export function isPreferenceWinner(value: unknown): value is PreferenceWinner {
+  return value === "a" || value === "b" || value === "tie";
+}
+
+/** `provider:model` ids of the two sides, for revealing a blind comparison. */
+export function comparisonModelIds(comparison: ModelComparison) {
+  const idOf = (invocation: InvocationModel) =>
+    invocation ? makeModelId(invocation.provider, invocation.model) : null;
+
+  return {
+    a: idOf(comparison.invocation_a),
+    b: idOf(comparison.invocation_b),
+  };
+}
+
+export async function createComparison({
+  conversationId,
+  userMessageId,
+  a,
+  b,
+  blind,
+}: {
+  conversationId: string;
+  userMessageId: string | null;
+  a: ComparisonSide;
+  b: ComparisonSide;
+  blind: boolean;
+}) {
+  const { data, error } = await supabaseServerClient
+    .from("model_preferences")
+    .insert({
+      conversation_id: conversationId,
+      user_message_id: userMessageId,
+      message_a_id: a.messageId,
+      message_b_id: b.messageId,
+      invocation_a_id: a.invocationId,
+      invocation_b_id: b.invocationId,
+      blind,
+    })
+    .select("id")
+    .single();
+
+  return { data: (data?.id as string | undefined) ?? null, error };
+}
+
+/** A comparison belongs to whoever owns its conversation. */
+export async function getOwnedComparison(caller: Caller, id: string) {
+  if (!isUuid(id)) return { data: null, error: null };
+
+  const { data, error } = await supabaseServerClient
+    .from("model_preferences")
+    .select(COMPARISON_COLUMNS)
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error || !data) return { data: null, error };
+  const comparison = toModelComparison(data);
+  if (!comparison.conversation_id) return { data: null, error: null };
+
+  const { data: conversation, error: conversationError } =
+    await getOwnedConversation(caller, comparison.conversation_id);
+
+  return {
+    data: conversation ? comparison : null,
+    error: conversationError,
+  };
+}
+
+/**
+ * Records the vote once; returns `null` if the comparison was already voted
+ * on, so a result cannot be changed after the models are revealed.
+ */
+export async function recordVote(id: string, winner: PreferenceWinner) {
+  const { data, error } = await supabaseServerClient
+    .from("model_preferences")
+    .update({ winner, voted_at: new Date().toISOString() })
+    .eq("id", id)
+    .is("winner", null)
+    .select(COMPARISON_COLUMNS)
+    .maybeSingle();
+
+  return { data: data ? toModelComparison(data) : null, error };
+}
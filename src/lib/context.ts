@@ -0,0 +1,174 @@
+import type { ChatCompletionMessage } from "@/lib/llm/types";
+import type { ModelOption } from "@/lib/llm/registry";
+import type { StoredMessage } from "@/lib/conversations";
+import { EMPTY_USAGE, recordInvocation } from "@/lib/invocations";
+import { completeWithRetries } from "@/lib/llm/resilience";
+import { supabaseServerClient } from "@/lib/supabaseServerClient";
+import { estimateMessageTokens, estimateTokens } from "@/lib/tokens";
+
+// Room kept for a rolling summary whenever older turns no longer fit.
+const SUMMARY_RESERVE_TOKENS = 600;
+const SUMMARY_PREFIX = "Summary of the earlier conversation:\n\n";
+
+const SUMMARIZER_PROMPT =
+  "You summarize chat transcripts so the conversation can continue with less context. " +
+  "Keep facts, decisions, user preferences, names, code identifiers and open questions. " +
+  "Write at most 250 words of plain prose. Output only the summary.";
+
+/** Tokens available for conversation turns after the reply is reserved. */
+export function getContextBudget(model: ModelOption) {
+  const reserveForOutput = Math.min(4096, Math.floor(model.contextTokens / 4));
+  return model.contextTokens - reserveForOutput;
+}
+
+/**
+ * Picks the newest stored summary that applies to `path` (its parent, the last
+ * turn it covers, is on the path) and returns the turns it does not cover.
+ */
+export function splitAtSummary<T extends StoredMessage>(
+  path: T[],
+  summaries: StoredMessage[],
+) {
+  const positions = new Map(path.map((m, index) => [m.id, index]));
+
+  const summary =
+    [...summaries]
+      .reverse()
+      .find((m) => m.parent_id !== null && positions.has(m.parent_id)) ?? null;
+
+  const cutoff = summary?.parent_id
+    ? (positions.get(summary.parent_id) ?? -1)
+    : -1;
+
+  return { summary, turns: path.slice(cutoff + 1) };
+}
+
+export function toSummaryMessage(content: string): ChatCompletionMessage {
+  return { role: "system", content: `${SUMMARY_PREFIX}${content}` };
+}
+
+/**
+ * Keeps the newest turns that fit in `budgetTokens` next to `newTurn`.
+ * Returns `null` when the new turn alone does not fit.
+ */
+export function fitToBudget<T extends ChatCompletionMessage>({
+  turns,
+  newTurn,
+  summary,
+  budgetTokens,
+}: {
+  turns: T[];
+  newTurn: ChatCompletionMessage;
+  summary: string | null;
+  budgetTokens: number;
+}) {
+  let remaining = budgetTokens - estimateMessageTokens(newTurn);
+  if (remaining < 0) return null;
+
+  const turnTokens = turns.map(estimateMessageTokens);
+  const total = turnTokens.reduce((a, b) => a + b, 0);
+
+  if (summary === null && total <= remaining) {
+    return { kept: turns, overflow: [] as T[] };
+  }
+
+  remaining -= Math.max(
+    SUMMARY_RESERVE_TOKENS,
+    summary === null ? 0 : estimateMessageTokens(toSummaryMessage(summary)),
+  );
+
+  let keptFrom = turns.length;
+  while (keptFrom > 0 && turnTokens[keptFrom - 1] <= remaining) {
+    remaining -= turnTokens[keptFrom - 1];
+    keptFrom -= 1;
+  }
+
+  return { kept: turns.slice(keptFrom), overflow: turns.slice(0, keptFrom) };
+}
+
+/**
+ * Folds `turns` (and the previous summary) into a new summary, with the same
+ * retries and fallbacks as chat turns. Every call, including failed attempts,
+ * is logged with the `summary` purpose. Throws if no model could answer.
+ */
+export async function summarizeTurns({
+  conversationId,
+  model,
+  previousSummary,
+  turns,
+  signal,
+}: {
+  conversationId: string;
+  model: ModelOption;
+  previousSummary: string | null;
+  turns: ChatCompletionMessage[];
+  signal?: AbortSignal;
+}) {
+  const transcriptBudget = getContextBudget(model) - 1024;
+
+  let transcript = turns
+    .map((m) => `${m.role === "user" ? "User" : "Assistant"}: ${m.content}`)
+    .join("\n\n");
+
+  // If even the overflow is larger than the model can read, keep its tail.
+  if (estimateTokens(transcript) > transcriptBudget) {
+    transcript = transcript.slice(-transcriptBudget * 4);
+  }
+
+  const input = previousSummary
+    ? `Previous summary:\n${previousSummary}\n\nConversation since then:\n${transcript}`
+    : `Conversation:\n${transcript}`;
+
+  const startedAt = Date.now();
+  const { model: usedModel, result } = await completeWithRetries({
+    model,
+    call: {
+      messages: [
+        { role: "system", content: SUMMARIZER_PROMPT },
+        { role: "user", content: input },
+      ],
+      signal,
+    },
+    onFailedAttempt: async ({ model: failedModel, code, latencyMs }) => {
+      await recordInvocation({
+        conversationId,
+        model: failedModel,
+        latencyMs,
+        timeToFirstTokenMs: null,
+        usage: EMPTY_USAGE,
+        status: code,
+        purpose: "summary",
+      });
+    },
+  });
+
+  await recordInvocation({
+    conversationId,
+    model: usedModel,
+    latencyMs: Date.now() - startedAt,
+    timeToFirstTokenMs: null,
+    usage: result.usage,
+    status: "success",
+    purpose: "summary",
+  });
+
+  return result.content.trim();
+}
+
+export async function storeSummary(
+  conversationId: string,
+  content: string,
+  summarizedThrough: StoredMessage,
+) {
+  const { error } = await supabaseServerClient.from("messages").insert({
+    conversation_id: conversationId,
+    role: "system",
+    content,
+    parent_id: summarizedThrough.id,
+    summarizes_until: summarizedThrough.created_at,
+  });
+
+  if (error) {
+    console.error("Error inserting conversation summary", error);
+  }
+}
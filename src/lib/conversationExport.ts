@@ -0,0 +1,215 @@
+import {
+  CONVERSATION_COLUMNS,
+  isToolExchange,
+  type ConversationSummary,
+} from "@/lib/conversations";
+import type { ToolCall } from "@/lib/llm/types";
+import { getPath } from "@/lib/messageTree";
+import { supabaseServerClient } from "@/lib/supabaseServerClient";
+
+export const EXPORT_FORMAT = "chat-export";
+export const EXPORT_VERSION = 1;
+
+export type ExportedMessage = {
+  id: string;
+  parent_id: string | null;
+  role: "user" | "assistant" | "system" | "tool";
+  content: string;
+  summarizes_until: string | null;
+  tool_calls: ToolCall[] | null;
+  tool_call_id: string | null;
+  tool_name: string | null;
+  created_at: string;
+};
+
+export type ExportedInvocation = {
+  id: string;
+  provider: string;
+  model: string;
+  latency_ms: number | null;
+  time_to_first_token_ms: number | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  total_tokens: number | null;
+  estimated_cost_usd: number | string | null;
+  status: string;
+  purpose: string;
+  created_at: string;
+};
+
+export type ExportedConversation = ConversationSummary & {
+  messages: ExportedMessage[];
+  model_invocations: ExportedInvocation[];
+};
+
+export type ChatExport = {
+  format: typeof EXPORT_FORMAT;
+  version: typeof EXPORT_VERSION;
+  exported_at: string;
+  conversations: ExportedConversation[];
+};
+
+const PAGE_SIZE = 1000;
+// Keeps `in (...)` filters well under PostgREST's URL length limit.
+const ID_CHUNK_SIZE = 50;
+
+async function fetchAllRows<T>(
+  fetchPage: (
+    from: number,
+    to: number,
+  ) => PromiseLike<{ data: unknown[] | null; error: unknown }>,
+) {
+  const rows: T[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await fetchPage(offset, offset + PAGE_SIZE - 1);
+    if (error) return { data: rows, error };
+
+    rows.push(...((data ?? []) as T[]));
+    if (!data || data.length < PAGE_SIZE) return { data: rows, error: null };
+  }
+}
+
+async function fetchByConversation<T>(
+  table: "messages" | "model_invocations",
+  columns: string,
+  conversationIds: string[],
+) {
+  const rows: (T & { conversation_id: string })[] = [];
+
+  for (let i = 0; i < conversationIds.length; i += ID_CHUNK_SIZE) {
+    const chunk = conversationIds.slice(i, i + ID_CHUNK_SIZE);
+    const { data, error } = await fetchAllRows<T & { conversation_id: string }>(
+      (from, to) =>
+        supabaseServerClient
+          .from(table)
+          .select(`conversation_id, ${columns}`)
+          .in("conversation_id", chunk)
+          .order("created_at", { ascending: true })
+          .order("id", { ascending: true })
+          .range(from, to),
+    );
+
+    if (error) return { data: rows, error };
+    rows.push(...data);
+  }
+
+  return { data: rows, error: null };
+}
+
+function withoutConversationId<T extends { conversation_id: string }>(
+  row: T,
+) {
+  const { conversation_id, ...rest } = row;
+  void conversation_id;
+  return rest;
+}
+
+/** Every conversation owned by a signed-in user, oldest first. */
+export async function listAllUserConversations(userId: string) {
+  return fetchAllRows<ConversationSummary>((from, to) =>
+    supabaseServerClient
+      .from("conversations")
+      .select(CONVERSATION_COLUMNS)
+      .eq("user_id", userId)
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, to),
+  );
+}
+
+/**
+ * Builds the JSON export for conversations the caller has already been
+ * checked to own.
+ */
+export async function buildChatExport(
+  conversations: ConversationSummary[],
+): Promise<{ data: ChatExport | null; error: unknown }> {
+  const ids = conversations.map((c) => c.id);
+
+  const { data: messages, error: messagesError } =
+    await fetchByConversation<ExportedMessage>(
+      "messages",
+      "id, parent_id, role, content, summarizes_until, tool_calls, tool_call_id, tool_name, created_at",
+      ids,
+    );
+  if (messagesError) return { data: null, error: messagesError };
+
+  const { data: invocations, error: invocationsError } =
+    await fetchByConversation<ExportedInvocation>(
+      "model_invocations",
+      "id, provider, model, latency_ms, time_to_first_token_ms, input_tokens, output_tokens, total_tokens, estimated_cost_usd, status, purpose, created_at",
+      ids,
+    );
+  if (invocationsError) return { data: null, error: invocationsError };
+
+  return {
+    data: {
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      exported_at: new Date().toISOString(),
+      conversations: conversations.map((conversation) => ({
+        ...conversation,
+        messages: messages
+          .filter((m) => m.conversation_id === conversation.id)
+          .map(withoutConversationId),
+        model_invocations: invocations
+          .filter((row) => row.conversation_id === conversation.id)
+          .map(withoutConversationId),
+      })),
+    },
+    error: null,
+  };
+}
+
+/**
+ * Renders the branch the user was last viewing as Markdown. Rolling
+ * summaries are internal context and are left out, as are the tool calls
+ * behind a reply.
+ */
+export function toMarkdown(conversation: ExportedConversation) {
+  const turns = conversation.messages
+    .filter((m) => m.role !== "system")
+    .map((m) => ({ ...m, parentId: m.parent_id }));
+  const leafId =
+    conversation.active_message_id ?? turns[turns.length - 1]?.id ?? null;
+
+  const lines = [`# ${conversation.title || "Untitled conversation"}`, ""];
+
+  const details = [
+    `Created ${new Date(conversation.created_at).toUTCString()}`,
+    conversation.model ? `Model: ${conversation.model}` : null,
+  ].filter(Boolean);
+  lines.push(`_${details.join(" · ")}_`, "");
+
+  if (conversation.system_prompt) {
+    lines.push("**System prompt**", "", conversation.system_prompt, "");
+  }
+
+  for (const turn of getPath(turns, leafId).filter((m) => !isToolExchange(m))) {
+    lines.push(
+      "---",
+      "",
+      turn.role === "user" ? "**You**" : "**Assistant**",
+      "",
+      turn.content,
+      "",
+    );
+  }
+
+  return lines.join("\n");
+}
+
+/** A filesystem-safe file name derived from the conversation title. */
+export function exportFileName(
+  conversation: ConversationSummary,
+  extension: string,
+) {
+  const slug = (conversation.title ?? "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+
+  return `${slug || "conversation"}-${conversation.id.slice(0, 8)}.${extension}`;
+}
@@ -0,0 +1,435 @@
+import { randomUUID } from "node:crypto";
+import { EXPORT_FORMAT } from "@/lib/conversationExport";
+import type { ToolCall } from "@/lib/llm/types";
+import { supabaseServerClient } from "@/lib/supabaseServerClient";
+
+type ImportedMessage = {
+  sourceId: string;
+  parentSourceId: string | null;
+  role: "user" | "assistant" | "system" | "tool";
+  content: string;
+  summarizesUntil: string | null;
+  toolCalls: ToolCall[] | null;
+  toolCallId: string | null;
+  toolName: string | null;
+  createdAt: string;
+};
+
+export type ImportedConversation = {
+  title: string | null;
+  provider: string | null;
+  model: string | null;
+  systemPrompt: string | null;
+  temperature: number | null;
+  maxTokens: number | null;
+  createdAt: string;
+  activeSourceId: string | null;
+  messages: ImportedMessage[];
+};
+
+type ParseResult =
+  | { data: ImportedConversation[]; error: null }
+  | { data: null; error: string };
+
+const MAX_IMPORT_CONVERSATIONS = 500;
+const MAX_IMPORT_MESSAGES = 20_000;
+const INSERT_CHUNK_SIZE = 500;
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function asString(value: unknown) {
+  return typeof value === "string" ? value : null;
+}
+
+function asNumber(value: unknown) {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+/** `null` when absent or malformed; the message is then imported as text. */
+function asToolCalls(value: unknown): ToolCall[] | null {
+  if (!Array.isArray(value) || value.length === 0) return null;
+
+  const calls: ToolCall[] = [];
+  for (const call of value) {
+    const id = isObject(call) ? asString(call.id) : null;
+    const name = isObject(call) ? asString(call.name) : null;
+    const args = isObject(call) ? asString(call.arguments) : null;
+    if (id === null || name === null || args === null) return null;
+    calls.push({ id, name, arguments: args });
+  }
+  return calls;
+}
+
+function toIso(value: unknown, fallback: string) {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    // ChatGPT exports use epoch seconds.
+    return new Date(value * 1000).toISOString();
+  }
+  if (typeof value === "string" && !Number.isNaN(Date.parse(value))) {
+    return new Date(value).toISOString();
+  }
+  return fallback;
+}
+
+/**
+ * Orders messages parent-first (siblings by time) and nudges timestamps so
+ * every child sorts after its parent, which the tree helpers rely on.
+ */
+function orderMessages(messages: ImportedMessage[]) {
+  const bySource = new Map(messages.map((m) => [m.sourceId, m]));
+  const children = new Map<string | null, ImportedMessage[]>();
+
+  for (const message of messages) {
+    const parent =
+      message.parentSourceId && bySource.has(message.parentSourceId)
+        ? message.parentSourceId
+        : null;
+    message.parentSourceId = parent;
+    children.set(parent, [...(children.get(parent) ?? []), message]);
+  }
+
+  const sortedChildren = (parentId: string | null) =>
+    (children.get(parentId) ?? []).sort(
+      (a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt),
+    );
+
+  // Iterative depth-first walk; long linear chats would overflow recursion.
+  const ordered: ImportedMessage[] = [];
+  const stack = sortedChildren(null)
+    .reverse()
+    .map((message) => ({ message, parentTime: -Infinity }));
+
+  while (stack.length > 0) {
+    const { message, parentTime } = stack.pop()!;
+    const time = Math.max(Date.parse(message.createdAt), parentTime + 1);
+    message.createdAt = new Date(time).toISOString();
+    ordered.push(message);
+
+    for (const child of sortedChildren(message.sourceId).reverse()) {
+      stack.push({ message: child, parentTime: time });
+    }
+  }
+
+  return ordered;
+}
+
+function parseChatExport(raw: JsonObject): ParseResult {
+  if (!Array.isArray(raw.conversations)) {
+    return { data: null, error: "'conversations' must be an array." };
+  }
+
+  const now = new Date().toISOString();
+  const conversations: ImportedConversation[] = [];
+
+  for (const entry of raw.conversations) {
+    if (!isObject(entry) || !Array.isArray(entry.messages)) {
+      return { data: null, error: "Each conversation needs a messages array." };
+    }
+
+    const createdAt = toIso(entry.created_at, now);
+    const messages: ImportedMessage[] = [];
+
+    for (const [index, message] of entry.messages.entries()) {
+      const role = isObject(message) ? message.role : null;
+      const content = isObject(message) ? asString(message.content) : null;
+      if (
+        !isObject(message) ||
+        (role !== "user" &&
+          role !== "assistant" &&
+          role !== "system" &&
+          role !== "tool") ||
+        content === null
+      ) {
+        return { data: null, error: "Messages need a role and text content." };
+      }
+
+      messages.push({
+        sourceId: asString(message.id) ?? `message-${index}`,
+        parentSourceId: asString(message.parent_id),
+        role,
+        content,
+        summarizesUntil: asString(message.summarizes_until),
+        toolCalls:
+          role === "assistant" ? asToolCalls(message.tool_calls) : null,
+        toolCallId: role === "tool" ? asString(message.tool_call_id) : null,
+        toolName: role === "tool" ? asString(message.tool_name) : null,
+        createdAt: toIso(message.created_at, createdAt),
+      });
+    }
+
+    conversations.push({
+      title: asString(entry.title),
+      provider: asString(entry.provider),
+      model: asString(entry.model),
+      systemPrompt: asString(entry.system_prompt),
+      temperature: asNumber(entry.temperature),
+      maxTokens: asNumber(entry.max_tokens),
+      createdAt,
+      activeSourceId: asString(entry.active_message_id),
+      messages: orderMessages(messages),
+    });
+  }
+
+  return { data: conversations, error: null };
+}
+
+function textFromChatGptContent(content: unknown) {
+  if (!isObject(content) || !Array.isArray(content.parts)) return null;
+  const text = content.parts
+    .filter((part): part is string => typeof part === "string")
+    .join("\n")
+    .trim();
+  return text || null;
+}
+
+/**
+ * ChatGPT's `conversations.json`: a `mapping` of nodes linked by `parent`,
+ * with `current_node` as the branch last viewed. System, tool and empty
+ * nodes are skipped and their children re-attached to the nearest kept
+ * ancestor.
+ */
+function parseChatGptConversation(entry: JsonObject): ImportedConversation {
+  const mapping = isObject(entry.mapping) ? entry.mapping : {};
+  const createdAt = toIso(entry.create_time, new Date().toISOString());
+  const kept = new Map<string, ImportedMessage>();
+  const parentOf = new Map<string, string | null>();
+
+  for (const [nodeId, node] of Object.entries(mapping)) {
+    if (!isObject(node)) continue;
+    parentOf.set(nodeId, asString(node.parent));
+
+    const message = isObject(node.message) ? node.message : null;
+    const role =
+      message && isObject(message.author) ? message.author.role : null;
+    const content = message ? textFromChatGptContent(message.content) : null;
+    if ((role !== "user" && role !== "assistant") || !content) continue;
+
+    kept.set(nodeId, {
+      sourceId: nodeId,
+      parentSourceId: null,
+      role,
+      content,
+      summarizesUntil: null,
+      toolCalls: null,
+      toolCallId: null,
+      toolName: null,
+      createdAt: toIso(message?.create_time, createdAt),
+    });
+  }
+
+  const nearestKept = (nodeId: string | null) => {
+    const seen = new Set<string>();
+    let current = nodeId;
+    while (current && !kept.has(current) && !seen.has(current)) {
+      seen.add(current);
+      current = parentOf.get(current) ?? null;
+    }
+    return current && kept.has(current) ? current : null;
+  };
+
+  for (const message of kept.values()) {
+    message.parentSourceId = nearestKept(parentOf.get(message.sourceId) ?? null);
+  }
+
+  return {
+    title: asString(entry.title),
+    provider: null,
+    model: null,
+    systemPrompt: null,
+    temperature: null,
+    maxTokens: null,
+    createdAt,
+    activeSourceId: nearestKept(asString(entry.current_node)),
+    messages: orderMessages([...kept.values()]),
+  };
+}
+
+/** A single OpenAI chat request body: `{ "messages": [...] }`. */
+function parseOpenAIMessages(raw: JsonObject): ParseResult {
+  const createdAt = new Date().toISOString();
+  const messages: ImportedMessage[] = [];
+  let systemPrompt: string | null = null;
+  let previousId: string | null = null;
+
+  for (const [index, message] of (raw.messages as unknown[]).entries()) {
+    const role = isObject(message) ? message.role : null;
+    const content = isObject(message) ? asString(message.content) : null;
+    if (content === null) continue;
+
+    if ((role === "system" || role === "developer") && messages.length === 0) {
+      systemPrompt = systemPrompt ? `${systemPrompt}\n\n${content}` : content;
+      continue;
+    }
+    if (role !== "user" && role !== "assistant") continue;
+
+    const sourceId = `message-${index}`;
+    messages.push({
+      sourceId,
+      parentSourceId: previousId,
+      role,
+      content,
+      summarizesUntil: null,
+      toolCalls: null,
+      toolCallId: null,
+      toolName: null,
+      createdAt: new Date(Date.parse(createdAt) + index).toISOString(),
+    });
+    previousId = sourceId;
+  }
+
+  return {
+    data: [
+      {
+        title: asString(raw.title) ?? messages[0]?.content.slice(0, 80) ?? null,
+        provider: null,
+        model: asString(raw.model),
+        systemPrompt,
+        temperature: asNumber(raw.temperature),
+        maxTokens: asNumber(raw.max_tokens),
+        createdAt,
+        activeSourceId: previousId,
+        messages,
+      },
+    ],
+    error: null,
+  };
+}
+
+/**
+ * Recognises our own JSON export, a ChatGPT `conversations.json` (or one of
+ * its entries), and an OpenAI-style `{ messages }` body.
+ */
+export function parseImportFile(raw: unknown): ParseResult {
+  let result: ParseResult;
+
+  if (isObject(raw) && raw.format === EXPORT_FORMAT) {
+    result = parseChatExport(raw);
+  } else if (
+    Array.isArray(raw) &&
+    raw.every((entry) => isObject(entry) && isObject(entry.mapping))
+  ) {
+    result = { data: raw.map(parseChatGptConversation), error: null };
+  } else if (isObject(raw) && isObject(raw.mapping)) {
+    result = { data: [parseChatGptConversation(raw)], error: null };
+  } else if (isObject(raw) && Array.isArray(raw.messages)) {
+    result = parseOpenAIMessages(raw);
+  } else {
+    return {
+      data: null,
+      error:
+        "Unrecognised file. Upload a chat export, a ChatGPT conversations.json or an OpenAI messages file.",
+    };
+  }
+
+  if (!result.data) return result;
+
+  const conversations = result.data.filter((c) => c.messages.length > 0);
+  const messageCount = conversations.reduce(
+    (sum, c) => sum + c.messages.length,
+    0,
+  );
+
+  if (conversations.length === 0) {
+    return { data: null, error: "The file has no messages to import." };
+  }
+  if (
+    conversations.length > MAX_IMPORT_CONVERSATIONS ||
+    messageCount > MAX_IMPORT_MESSAGES
+  ) {
+    return {
+      data: null,
+      error: `Imports are limited to ${MAX_IMPORT_CONVERSATIONS} conversations and ${MAX_IMPORT_MESSAGES} messages.`,
+    };
+  }
+
+  return { data: conversations, error: null };
+}
+
+/**
+ * Recreates conversations for `userId` with fresh ids. Usage metadata is not
+ * imported so it does not count towards quotas or metrics again.
+ */
+export async function importConversations(
+  userId: string,
+  conversations: ImportedConversation[],
+) {
+  const conversationIds: string[] = [];
+
+  for (const conversation of conversations) {
+    const messageIds = new Map(
+      conversation.messages.map((m) => [m.sourceId, randomUUID()]),
+    );
+    const activeMessageId = conversation.activeSourceId
+      ? (messageIds.get(conversation.activeSourceId) ?? null)
+      : null;
+
+    const { data, error } = await supabaseServerClient
+      .from("conversations")
+      .insert({
+        user_id: userId,
+        title: conversation.title?.slice(0, 200) ?? null,
+        provider: conversation.provider,
+        model: conversation.model,
+        system_prompt: conversation.systemPrompt,
+        temperature: conversation.temperature,
+        max_tokens: conversation.maxTokens,
+        created_at: conversation.createdAt,
+      })
+      .select("id")
+      .single();
+
+    if (error || !data) {
+      return { data: conversationIds, error };
+    }
+
+    const conversationId = data.id as string;
+    const rows = conversation.messages.map((m) => ({
+      id: messageIds.get(m.sourceId),
+      conversation_id: conversationId,
+      parent_id: m.parentSourceId
+        ? (messageIds.get(m.parentSourceId) ?? null)
+        : null,
+      role: m.role,
+      content: m.content,
+      summarizes_until: m.summarizesUntil,
+      tool_calls: m.toolCalls,
+      tool_call_id: m.toolCallId,
+      tool_name: m.toolName,
+      created_at: m.createdAt,
+    }));
+
+    // Rows are parent-first, so each chunk only references rows that exist.
+    for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+      const { error: messagesError } = await supabaseServerClient
+        .from("messages")
+        .insert(rows.slice(i, i + INSERT_CHUNK_SIZE));
+
+      if (messagesError) {
+        await supabaseServerClient
+          .from("conversations")
+          .delete()
+          .eq("id", conversationId);
+        return { data: conversationIds, error: messagesError };
+      }
+    }
+
+    if (activeMessageId) {
+      const { error: activeError } = await supabaseServerClient
+        .from("conversations")
+        .update({ active_message_id: activeMessageId })
+        .eq("id", conversationId);
+
+      if (activeError) {
+        console.error("Error setting imported active message", activeError);
+      }
+    }
+
+    conversationIds.push(conversationId);
+  }
+
+  return { data: conversationIds, error: null };
+}
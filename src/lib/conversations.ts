@@ -0,0 +1,181 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Caller } from "@/lib/auth";
+import type { ToolCall } from "@/lib/llm/types";
+import { supabaseServerClient } from "@/lib/supabaseServerClient";
+
+export type ConversationSummary = {
+  id: string;
+  title: string | null;
+  provider: string | null;
+  model: string | null;
+  active_message_id: string | null;
+  persona_id: string | null;
+  system_prompt: string | null;
+  temperature: number | null;
+  max_tokens: number | null;
+  created_at: string;
+};
+
+export const CONVERSATION_COLUMNS =
+  "id, title, provider, model, active_message_id, persona_id, system_prompt, temperature, max_tokens, created_at";
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isUuid(value: string) {
+  return UUID_PATTERN.test(value);
+}
+
+/**
+ * Read helpers take an optional client so routes can pass a request-scoped
+ * one (see `getReadClient`). The ownership filters stay either way.
+ */
+export async function listConversations(
+  caller: Caller,
+  db: SupabaseClient = supabaseServerClient,
+) {
+  let query = db
+    .from("conversations")
+    .select(CONVERSATION_COLUMNS)
+    .order("created_at", { ascending: false })
+    .limit(100);
+
+  if (caller.userId) {
+    query = query.eq("user_id", caller.userId);
+  } else if (caller.guestId) {
+    query = query.eq("guest_id", caller.guestId).is("user_id", null);
+  } else {
+    return { data: [] as ConversationSummary[], error: null };
+  }
+
+  const { data, error } = await query;
+  return { data: (data ?? []) as ConversationSummary[], error };
+}
+
+/**
+ * Returns the conversation only when it belongs to the caller, so a guessed
+ * id from another user or guest resolves to `null`.
+ */
+export async function getOwnedConversation(
+  caller: Caller,
+  conversationId: string,
+  db: SupabaseClient = supabaseServerClient,
+) {
+  if (!caller.userId && !caller.guestId) {
+    return { data: null, error: null };
+  }
+
+  if (!isUuid(conversationId)) {
+    return { data: null, error: null };
+  }
+
+  let query = db
+    .from("conversations")
+    .select(CONVERSATION_COLUMNS)
+    .eq("id", conversationId);
+
+  if (caller.userId) {
+    query = query.eq("user_id", caller.userId);
+  } else if (caller.guestId) {
+    query = query.eq("guest_id", caller.guestId).is("user_id", null);
+  }
+
+  const { data, error } = await query.maybeSingle();
+  return { data: data as ConversationSummary | null, error };
+}
+
+export type MessageSearchResult = {
+  message_id: string;
+  conversation_id: string;
+  conversation_title: string | null;
+  role: "user" | "assistant";
+  snippet: string;
+  rank: number;
+  created_at: string;
+};
+
+/**
+ * Full-text search over the caller's conversations. Snippets mark matches
+ * with `\u0002` … `\u0003` (see `search_messages` in the migrations).
+ */
+export async function searchMessages(
+  caller: Caller,
+  query: string,
+  limit = 20,
+) {
+  if (!caller.userId && !caller.guestId) {
+    return { data: [] as MessageSearchResult[], error: null };
+  }
+
+  const { data, error } = await supabaseServerClient.rpc("search_messages", {
+    p_user_id: caller.userId,
+    p_guest_id: caller.guestId,
+    p_query: query,
+    p_limit: limit,
+  });
+
+  return { data: (data ?? []) as MessageSearchResult[], error };
+}
+
+export type StoredMessage = {
+  id: string;
+  role: "user" | "assistant" | "system" | "tool";
+  content: string;
+  created_at: string;
+  parent_id: string | null;
+  summarizes_until: string | null;
+  tool_calls: ToolCall[] | null;
+  tool_call_id: string | null;
+  tool_name: string | null;
+};
+
+/**
+ * Intermediate steps of a tool-using turn: assistant messages that asked for
+ * tool calls and the tool results. Only the final reply is replayed as history
+ * on later turns, shared or exported as Markdown.
+ */
+export function isToolExchange(message: {
+  role: string;
+  tool_calls?: ToolCall[] | null;
+}) {
+  return (
+    message.role === "tool" ||
+    (message.role === "assistant" && (message.tool_calls?.length ?? 0) > 0)
+  );
+}
+
+export async function listConversationMessages(
+  conversationId: string,
+  db: SupabaseClient = supabaseServerClient,
+) {
+  const { data, error } = await db
+    .from("messages")
+    .select(
+      "id, role, content, created_at, parent_id, summarizes_until, tool_calls, tool_call_id, tool_name",
+    )
+    .eq("conversation_id", conversationId)
+    .order("created_at", { ascending: true });
+
+  return { data: (data ?? []) as StoredMessage[], error };
+}
+
+/** User/assistant turns as tree nodes, in created_at order. */
+export function toTurnNodes(messages: StoredMessage[]) {
+  return messages
+    .filter((m) => m.role !== "system")
+    .map((m) => ({ ...m, parentId: m.parent_id }));
+}
+
+export async function setActiveMessage(
+  conversationId: string,
+  messageId: string,
+) {
+  const { error } = await supabaseServerClient
+    .from("conversations")
+    .update({ active_message_id: messageId })
+    .eq("id", conversationId);
+
+  if (error) {
+    console.error("Error updating active message", error);
+  }
+}
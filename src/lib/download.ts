@@ -0,0 +1,15 @@
+/**
+ * Saves a fetched attachment in the browser. Exports need the auth header,
+ * so they cannot be plain links.
+ */
+export async function saveResponseAsFile(res: Response, fallbackName: string) {
+  const disposition = res.headers.get("Content-Disposition") ?? "";
+  const fileName = /filename="([^"]+)"/.exec(disposition)?.[1] ?? fallbackName;
+
+  const url = URL.createObjectURL(await res.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,11 @@
+/** A to-one embed as the untyped client infers it, or as PostgREST sends it. */
+export type Embedded<T> = T | T[] | null;
+
+/**
+ * Narrows a to-one embed such as `persona:persona_id(name)`. The client's
+ * select parser types every embed as an array, but PostgREST returns a
+ * many-to-one relation as a single object, or `null` when the key is null.
+ */
+export function toOne<T>(embed: Embedded<T>): T | null {
+  return Array.isArray(embed) ? (embed[0] ?? null) : embed;
+}
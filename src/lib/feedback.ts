@@ -0,0 +1,146 @@
+import type { Caller } from "@/lib/auth";
+import {
+  isToolExchange,
+  isUuid,
+  type ConversationSummary,
+} from "@/lib/conversations";
+import type { ToolCall } from "@/lib/llm/types";
+import { supabaseServerClient } from "@/lib/supabaseServerClient";
+
+export type FeedbackRating = "up" | "down";
+
+export type FeedbackReason =
+  | "accurate"
+  | "helpful"
+  | "well_written"
+  | "incorrect"
+  | "unhelpful"
+  | "incomplete"
+  | "unsafe"
+  | "too_slow"
+  | "other";
+
+/** Reasons offered for each rating; `other` is meant to come with a comment. */
+export const FEEDBACK_REASONS: Record<FeedbackRating, FeedbackReason[]> = {
+  up: ["accurate", "helpful", "well_written"],
+  down: ["incorrect", "unhelpful", "incomplete", "unsafe", "too_slow", "other"],
+};
+
+export const MAX_FEEDBACK_COMMENT_CHARS = 2_000;
+
+export type MessageFeedback = {
+  message_id: string;
+  rating: FeedbackRating;
+  reason: FeedbackReason | null;
+  comment: string | null;
+  updated_at: string;
+};
+
+const FEEDBACK_COLUMNS = "message_id, rating, reason, comment, updated_at";
+
+export function isFeedbackRating(value: unknown): value is FeedbackRating {
+  return value === "up" || value === "down";
+}
+
+export function isFeedbackReason(
+  rating: FeedbackRating,
+  value: unknown,
+): value is FeedbackReason {
+  return FEEDBACK_REASONS[rating].some((reason) => reason === value);
+}
+
+/** A stored assistant reply of the conversation, or `null`. */
+async function getRatableMessage(conversationId: string, messageId: string) {
+  if (!isUuid(messageId)) return { data: null, error: null };
+
+  const { data, error } = await supabaseServerClient
+    .from("messages")
+    .select("id, role, tool_calls, invocation_id")
+    .eq("id", messageId)
+    .eq("conversation_id", conversationId)
+    .maybeSingle();
+
+  if (error || !data) return { data: null, error };
+
+  const message = data as {
+    id: string;
+    role: string;
+    tool_calls: ToolCall[] | null;
+    invocation_id: string | null;
+  };
+  const ratable = message.role === "assistant" && !isToolExchange(message);
+
+  return { data: ratable ? message : null, error: null };
+}
+
+/**
+ * Rates a reply, replacing any earlier rating of it. Resolves to `null` when
+ * the message is not an assistant reply of the conversation.
+ */
+export async function saveFeedback({
+  caller,
+  conversation,
+  messageId,
+  rating,
+  reason,
+  comment,
+}: {
+  caller: Caller;
+  conversation: ConversationSummary;
+  messageId: string;
+  rating: FeedbackRating;
+  reason: FeedbackReason | null;
+  comment: string | null;
+}) {
+  const { data: message, error: messageError } = await getRatableMessage(
+    conversation.id,
+    messageId,
+  );
+  if (messageError || !message) return { data: null, error: messageError };
+
+  const { data, error } = await supabaseServerClient
+    .from("message_feedback")
+    .upsert(
+      {
+        conversation_id: conversation.id,
+        message_id: message.id,
+        invocation_id: message.invocation_id,
+        persona_id: conversation.persona_id,
+        user_id: caller.userId,
+        guest_id: caller.userId ? null : caller.guestId,
+        rating,
+        reason,
+        comment,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "message_id" },
+    )
+    .select(FEEDBACK_COLUMNS)
+    .single();
+
+  return { data: (data as MessageFeedback | null) ?? null, error };
+}
+
+export async function deleteFeedback(
+  conversationId: string,
+  messageId: string,
+) {
+  if (!isUuid(messageId)) return { error: null };
+
+  const { error } = await supabaseServerClient
+    .from("message_feedback")
+    .delete()
+    .eq("conversation_id", conversationId)
+    .eq("message_id", messageId);
+
+  return { error };
+}
+
+export async function listConversationFeedback(conversationId: string) {
+  const { data, error } = await supabaseServerClient
+    .from("message_feedback")
+    .select(FEEDBACK_COLUMNS)
+    .eq("conversation_id", conversationId);
+
+  return { data: (data ?? []) as MessageFeedback[], error };
+}
@@ -0,0 +1,67 @@
+import type { ModelOption } from "@/lib/llm/registry";
+import type { TokenUsage, UpstreamErrorCode } from "@/lib/llm/types";
+import { estimateCostUsd, getModelPricing } from "@/lib/pricing";
+import { supabaseServerClient } from "@/lib/supabaseServerClient";
+
+export const EMPTY_USAGE: TokenUsage = {
+  inputTokens: null,
+  outputTokens: null,
+  totalTokens: null,
+};
+
+/** Why a call was made; everything but `chat` is a side call of a turn. */
+export type InvocationPurpose = "chat" | "summary" | "title";
+
+/**
+ * Logs one model call to `model_invocations`. Chat turns carry their
+ * conversation; `/api/v1` calls carry the API key instead. Failed attempts
+ * are logged with their `UpstreamErrorCode` as the status, and calls the
+ * client stopped as `cancelled`. Returns the row id, or `null` if the insert
+ * failed.
+ */
+export async function recordInvocation({
+  conversationId = null,
+  apiKeyId = null,
+  model,
+  latencyMs,
+  timeToFirstTokenMs,
+  usage,
+  status,
+  purpose = "chat",
+}: {
+  conversationId?: string | null;
+  apiKeyId?: string | null;
+  model: ModelOption;
+  latencyMs: number;
+  timeToFirstTokenMs: number | null;
+  usage: TokenUsage;
+  status: "success" | "cancelled" | "error" | UpstreamErrorCode;
+  purpose?: InvocationPurpose;
+}) {
+  const pricing = await getModelPricing(model.provider, model.model);
+
+  const { data, error: metricsError } = await supabaseServerClient
+    .from("model_invocations")
+    .insert({
+      conversation_id: conversationId,
+      api_key_id: apiKeyId,
+      provider: model.provider,
+      model: model.model,
+      latency_ms: latencyMs,
+      time_to_first_token_ms: timeToFirstTokenMs,
+      input_tokens: usage.inputTokens,
+      output_tokens: usage.outputTokens,
+      total_tokens: usage.totalTokens,
+      estimated_cost_usd: estimateCostUsd(pricing, usage),
+      status,
+      purpose,
+    })
+    .select("id")
+    .single();
+
+  if (metricsError) {
+    console.error("Error inserting model_invocations", metricsError);
+  }
+
+  return (data?.id as string | undefined) ?? null;
+}
@@ -0,0 +1,92 @@
+import type {
+  ChatCompletionChunk,
+  ChatCompletionRequest,
+  ChatProvider,
+  ToolCall,
+} from "@/lib/llm/types";
+
+// "/tool <name> <json arguments>" makes the mock call that tool.
+const TOOL_COMMAND = /^\/tool\s+(\S+)\s*([\s\S]*)$/;
+
+function buildToolCalls(request: ChatCompletionRequest): ToolCall[] {
+  const last = request.messages[request.messages.length - 1];
+  if (last?.role !== "user" || !request.tools?.length) return [];
+
+  const match = TOOL_COMMAND.exec(last.content.trim());
+  if (!match || !request.tools.some((tool) => tool.name === match[1])) {
+    return [];
+  }
+
+  return [
+    {
+      id: `call_${request.messages.length}`,
+      name: match[1],
+      arguments: match[2] || "{}",
+    },
+  ];
+}
+
+function buildReply(request: ChatCompletionRequest) {
+  const last = request.messages[request.messages.length - 1];
+  if (last?.role === "tool") {
+    return `Mock reply from ${request.model}: the tool returned ${last.content}`;
+  }
+
+  const lastUser = [...request.messages]
+    .reverse()
+    .find((m) => m.role === "user");
+  const images = lastUser?.imageUrls?.length
+    ? ` (+${lastUser.imageUrls.length} image(s))`
+    : "";
+  return `Mock reply from ${request.model}: ${lastUser?.content ?? "(no input)"}${images}`;
+}
+
+function countTokens(text: string) {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Deterministic local provider that echoes the last user turn. Lets the app
+ * and tests run without network access or API keys. A turn written as
+ * `/tool <name> <json>` calls that tool, and a tool result is echoed back.
+ */
+export function createMockProvider(): ChatProvider {
+  const complete = async (request: ChatCompletionRequest) => {
+    const toolCalls = buildToolCalls(request);
+    const content = toolCalls.length > 0 ? "" : buildReply(request);
+    const inputTokens = countTokens(
+      request.messages.map((m) => m.content).join(" "),
+    );
+    const outputTokens = countTokens(content);
+
+    return {
+      content,
+      ...(toolCalls.length > 0 ? { toolCalls } : {}),
+      usage: {
+        inputTokens,
+        outputTokens,
+        totalTokens: inputTokens + outputTokens,
+      },
+    };
+  };
+
+  return {
+    id: "mock",
+
+    complete,
+
+    async *stream(request): AsyncGenerator<ChatCompletionChunk> {
+      const { content, toolCalls, usage } = await complete(request);
+
+      for (const piece of content.match(/\S+\s*/g) ?? []) {
+        if (request.signal?.aborted) return;
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        yield { type: "delta", content: piece };
+      }
+
+      if (toolCalls) yield { type: "tool_calls", toolCalls };
+
+      yield { type: "usage", usage };
+    },
+  };
+}
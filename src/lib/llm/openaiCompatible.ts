@@ -0,0 +1,231 @@
+import { readSseData } from "@/lib/sse";
+import {
+  ProviderRequestError,
+  type ChatCompletionChunk,
+  type ChatCompletionMessage,
+  type ChatCompletionRequest,
+  type ChatProvider,
+  type TokenUsage,
+  type ToolCall,
+} from "@/lib/llm/types";
+
+function parseRetryAfter(value: string | null) {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+export function extractUsage(
+  usage: Record<string, number | undefined> | null | undefined,
+): TokenUsage {
+  const u = usage ?? {};
+  const inputTokens =
+    u.prompt_tokens ?? u.input_tokens ?? u.request_tokens ?? null;
+  const outputTokens =
+    u.completion_tokens ?? u.output_tokens ?? u.response_tokens ?? null;
+  const totalTokens = u.total_tokens ??
+    (inputTokens && outputTokens ? inputTokens + outputTokens : null);
+
+  return { inputTokens, outputTokens, totalTokens };
+}
+
+type OpenAIToolCall = {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+};
+
+function toOpenAIMessage({
+  role,
+  content,
+  imageUrls,
+  toolCalls,
+  toolCallId,
+}: ChatCompletionMessage) {
+  if (role === "tool") return { role, content, tool_call_id: toolCallId };
+
+  if (toolCalls?.length) {
+    return {
+      role,
+      content: content || null,
+      tool_calls: toolCalls.map((call): OpenAIToolCall => ({
+        id: call.id,
+        type: "function",
+        function: { name: call.name, arguments: call.arguments },
+      })),
+    };
+  }
+
+  if (!imageUrls?.length) return { role, content };
+
+  return {
+    role,
+    content: [
+      { type: "text", text: content },
+      ...imageUrls.map((url) => ({ type: "image_url", image_url: { url } })),
+    ],
+  };
+}
+
+function fromOpenAIToolCalls(calls: OpenAIToolCall[] | null | undefined) {
+  return (calls ?? []).map((call): ToolCall => ({
+    id: call.id,
+    name: call.function.name,
+    arguments: call.function.arguments || "{}",
+  }));
+}
+
+/**
+ * Provider for any endpoint that implements the OpenAI `/chat/completions`
+ * contract (Baseten, OpenAI, vLLM, Together, ...).
+ */
+export function createOpenAICompatibleProvider({
+  id,
+  baseUrl,
+  apiKey,
+}: {
+  id: string;
+  baseUrl: string;
+  apiKey: string;
+}): ChatProvider {
+  const url = `${baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  const post = async (request: ChatCompletionRequest, stream: boolean) => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages: request.messages.map(toOpenAIMessage),
+        ...(request.temperature != null
+          ? { temperature: request.temperature }
+          : {}),
+        ...(request.maxTokens != null
+          ? { max_tokens: request.maxTokens }
+          : {}),
+        ...(request.tools?.length
+          ? {
+              tools: request.tools.map((tool) => ({
+                type: "function",
+                function: tool,
+              })),
+            }
+          : {}),
+        ...(stream
+          ? { stream: true, stream_options: { include_usage: true } }
+          : {}),
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => "");
+      throw new ProviderRequestError(
+        id,
+        response.status,
+        text,
+        parseRetryAfter(response.headers.get("retry-after")),
+      );
+    }
+
+    return response;
+  };
+
+  return {
+    id,
+
+    async complete(request) {
+      const response = await post(request, false);
+      const json = await response.json();
+      const choice = json?.choices?.[0];
+      const content: string | undefined = choice?.message?.content;
+      const toolCalls = fromOpenAIToolCalls(choice?.message?.tool_calls);
+
+      if (choice?.finish_reason === "content_filter") {
+        throw new ProviderRequestError(id, response.status, "content_filter");
+      }
+
+      if (!content && toolCalls.length === 0) {
+        throw new ProviderRequestError(id, response.status, "Empty completion");
+      }
+
+      return {
+        content: content ?? "",
+        ...(toolCalls.length > 0 ? { toolCalls } : {}),
+        usage: extractUsage(json?.usage),
+      };
+    },
+
+    async *stream(request): AsyncGenerator<ChatCompletionChunk> {
+      const response = await post(request, true);
+
+      if (!response.body) {
+        throw new ProviderRequestError(id, response.status, "Empty body");
+      }
+
+      // Tool calls arrive in fragments keyed by index: the id and name first,
+      // then the arguments a few characters at a time.
+      const partialCalls: ToolCall[] = [];
+
+      for await (const data of readSseData(response.body)) {
+        if (data === "[DONE]") break;
+
+        let chunk: {
+          choices?: {
+            delta?: {
+              content?: string | null;
+              tool_calls?: {
+                index: number;
+                id?: string;
+                function?: { name?: string; arguments?: string };
+              }[];
+            };
+            finish_reason?: string | null;
+          }[];
+          usage?: Record<string, number | undefined> | null;
+        };
+        try {
+          chunk = JSON.parse(data);
+        } catch {
+          continue;
+        }
+
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) yield { type: "delta", content: delta };
+
+        for (const part of chunk.choices?.[0]?.delta?.tool_calls ?? []) {
+          const call = (partialCalls[part.index] ??= {
+            id: "",
+            name: "",
+            arguments: "",
+          });
+          if (part.id) call.id = part.id;
+          if (part.function?.name) call.name += part.function.name;
+          if (part.function?.arguments) {
+            call.arguments += part.function.arguments;
+          }
+        }
+
+        if (chunk.choices?.[0]?.finish_reason === "content_filter") {
+          throw new ProviderRequestError(id, response.status, "content_filter");
+        }
+
+        if (chunk.usage) {
+          yield { type: "usage", usage: extractUsage(chunk.usage) };
+        }
+      }
+
+      const toolCalls = partialCalls
+        .filter((call) => call?.name)
+        .map((call) => ({ ...call, arguments: call.arguments || "{}" }));
+      if (toolCalls.length > 0) yield { type: "tool_calls", toolCalls };
+    },
+  };
+}
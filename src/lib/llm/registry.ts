@@ -0,0 +1,148 @@
+import { createMockProvider } from "@/lib/llm/mock";
+import { createOpenAICompatibleProvider } from "@/lib/llm/openaiCompatible";
+import type { ChatProvider } from "@/lib/llm/types";
+
+export type ModelOption = {
+  /** Stable key used by the client, `<provider>:<model>`. */
+  id: string;
+  provider: string;
+  model: string;
+  label: string;
+  /** Context window used for token budgeting. */
+  contextTokens: number;
+  /** Accepts image input (`VISION_MODELS`). */
+  supportsVision: boolean;
+  /** Is offered the server-side tools (`TOOL_MODELS`). */
+  supportsTools: boolean;
+};
+
+const BASETEN_BASE_URL = "https://inference.baseten.co/v1";
+const DEFAULT_CONTEXT_TOKENS = 32_000;
+
+type ProviderConfig = {
+  provider: ChatProvider;
+  models: string[];
+  contextTokens: number;
+  visionModels?: string[];
+  toolModels?: string[];
+};
+
+function parseContextTokens(value: string | undefined, fallback: number) {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function splitList(value: string | undefined) {
+  return (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function loadProviderConfigs(): ProviderConfig[] {
+  const configs: ProviderConfig[] = [];
+
+  const basetenApiKey = process.env.BASETEN_API_KEY;
+  const basetenModels = splitList(process.env.BASETEN_MODEL_SLUG);
+  if (basetenApiKey && basetenModels.length > 0) {
+    configs.push({
+      provider: createOpenAICompatibleProvider({
+        id: "baseten",
+        baseUrl: BASETEN_BASE_URL,
+        apiKey: basetenApiKey,
+      }),
+      models: basetenModels,
+      contextTokens: parseContextTokens(
+        process.env.BASETEN_CONTEXT_TOKENS,
+        DEFAULT_CONTEXT_TOKENS,
+      ),
+    });
+  }
+
+  const compatibleBaseUrl = process.env.OPENAI_COMPATIBLE_BASE_URL;
+  const compatibleApiKey = process.env.OPENAI_COMPATIBLE_API_KEY;
+  const compatibleModels = splitList(process.env.OPENAI_COMPATIBLE_MODELS);
+  if (compatibleBaseUrl && compatibleApiKey && compatibleModels.length > 0) {
+    configs.push({
+      provider: createOpenAICompatibleProvider({
+        id: process.env.OPENAI_COMPATIBLE_PROVIDER_NAME || "openai",
+        baseUrl: compatibleBaseUrl,
+        apiKey: compatibleApiKey,
+      }),
+      models: compatibleModels,
+      contextTokens: parseContextTokens(
+        process.env.OPENAI_COMPATIBLE_CONTEXT_TOKENS,
+        DEFAULT_CONTEXT_TOKENS,
+      ),
+    });
+  }
+
+  if (process.env.ENABLE_MOCK_PROVIDER === "true") {
+    configs.push({
+      provider: createMockProvider(),
+      models: ["mock-echo"],
+      contextTokens: 4_000,
+      // Lets the attachment flow be exercised locally; it only counts images.
+      visionModels: ["mock-echo"],
+      toolModels: ["mock-echo"],
+    });
+  }
+
+  return configs;
+}
+
+export function makeModelId(provider: string, model: string) {
+  return `${provider}:${model}`;
+}
+
+export function listModels(): ModelOption[] {
+  const visionModelIds = new Set(splitList(process.env.VISION_MODELS));
+  const toolModelIds = new Set(splitList(process.env.TOOL_MODELS));
+
+  return loadProviderConfigs().flatMap(
+    ({ provider, models, contextTokens, visionModels = [], toolModels = [] }) =>
+      models.map((model) => {
+        const id = makeModelId(provider.id, model);
+        return {
+          id,
+          provider: provider.id,
+          model,
+          label: `${model} (${provider.id})`,
+          contextTokens,
+          supportsVision:
+            visionModelIds.has(id) || visionModels.includes(model),
+          supportsTools: toolModelIds.has(id) || toolModels.includes(model),
+        };
+      }),
+  );
+}
+
+export function getDefaultModel(): ModelOption | null {
+  const models = listModels();
+  const preferred = process.env.DEFAULT_MODEL_ID;
+  return models.find((m) => m.id === preferred) ?? models[0] ?? null;
+}
+
+export function findModel(id: string | null | undefined): ModelOption | null {
+  if (!id) return null;
+  return listModels().find((m) => m.id === id) ?? null;
+}
+
+export function getProvider(providerId: string): ChatProvider | null {
+  return (
+    loadProviderConfigs().find(({ provider }) => provider.id === providerId)
+      ?.provider ?? null
+  );
+}
+
+/**
+ * Models to try, in order, when `primary` keeps failing. Configured through
+ * `LLM_FALLBACK_MODELS` (comma-separated model ids); unknown ids and the
+ * primary itself are skipped.
+ */
+export function getFallbackModels(primary: ModelOption): ModelOption[] {
+  return splitList(process.env.LLM_FALLBACK_MODELS)
+    .filter((id, index, ids) => id !== primary.id && ids.indexOf(id) === index)
+    .map((id) => findModel(id))
+    .filter((model): model is ModelOption => model !== null);
+}
@@ -0,0 +1,311 @@
+import {
+  getFallbackModels,
+  getProvider,
+  type ModelOption,
+} from "@/lib/llm/registry";
+import {
+  ProviderRequestError,
+  UpstreamError,
+  type ChatCompletionChunk,
+  type ChatCompletionRequest,
+  type ChatCompletionResult,
+  type ChatProvider,
+  type UpstreamErrorCode,
+} from "@/lib/llm/types";
+
+export type RetryPolicy = {
+  /** Abort a call that makes no progress (no response or chunk) for this long. */
+  timeoutMs: number;
+  /** Extra attempts per model for timeouts, 429s and 5xx responses. */
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+};
+
+export type FailedAttempt = {
+  model: ModelOption;
+  code: UpstreamErrorCode;
+  latencyMs: number;
+};
+
+type UpstreamCall = Omit<ChatCompletionRequest, "model">;
+
+type AttemptHandle = {
+  signal: AbortSignal;
+  /** Restarts the inactivity timer. */
+  touch(): void;
+  timedOut(): boolean;
+  end(): void;
+};
+
+const RETRYABLE_CODES = new Set<UpstreamErrorCode>([
+  "upstream_timeout",
+  "upstream_rate_limited",
+  "upstream_unavailable",
+]);
+
+function parseNonNegativeInt(value: string | undefined, fallback: number) {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+export function getRetryPolicy(): RetryPolicy {
+  return {
+    timeoutMs: parseNonNegativeInt(process.env.LLM_TIMEOUT_MS, 30_000),
+    maxRetries: parseNonNegativeInt(process.env.LLM_MAX_RETRIES, 2),
+    baseDelayMs: parseNonNegativeInt(process.env.LLM_RETRY_BASE_DELAY_MS, 500),
+    maxDelayMs: parseNonNegativeInt(process.env.LLM_RETRY_MAX_DELAY_MS, 8_000),
+  };
+}
+
+export function classifyUpstreamError(error: unknown): UpstreamErrorCode {
+  if (error instanceof UpstreamError) return error.code;
+
+  if (error instanceof ProviderRequestError) {
+    if (/content[_ ]?(filter|policy)/i.test(error.body)) {
+      return "content_filtered";
+    }
+    if (/context[_ ]length|maximum context|too many tokens/i.test(error.body)) {
+      return "context_length_exceeded";
+    }
+    if (error.status === 429) return "upstream_rate_limited";
+    if (error.status === 408 || error.status === 504) return "upstream_timeout";
+    if (error.status >= 500) return "upstream_unavailable";
+    if (error.status === 401 || error.status === 403) {
+      return "upstream_auth_failed";
+    }
+    if (error.status >= 400) return "upstream_bad_request";
+    return "upstream_error";
+  }
+
+  // fetch() rejects with a TypeError when the connection itself fails.
+  if (error instanceof TypeError) return "upstream_unavailable";
+
+  return "upstream_error";
+}
+
+function toUpstreamError(error: unknown, timedOut: boolean) {
+  if (timedOut) {
+    return new UpstreamError("upstream_timeout", null, { cause: error });
+  }
+  if (error instanceof UpstreamError) return error;
+
+  return new UpstreamError(
+    classifyUpstreamError(error),
+    error instanceof ProviderRequestError ? error.retryAfterMs : null,
+    { cause: error },
+  );
+}
+
+function startAttempt(
+  parent: AbortSignal | undefined,
+  timeoutMs: number,
+): AttemptHandle {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  if (parent?.aborted) abort();
+  parent?.addEventListener("abort", abort);
+
+  const touch = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      abort();
+    }, timeoutMs);
+  };
+  touch();
+
+  return {
+    signal: controller.signal,
+    touch,
+    timedOut: () => timedOut,
+    end() {
+      clearTimeout(timer);
+      parent?.removeEventListener("abort", abort);
+    },
+  };
+}
+
+/** Full jitter: a random wait up to the exponential step. */
+function backoffDelay(policy: RetryPolicy, retry: number) {
+  const step = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry);
+  return Math.random() * step;
+}
+
+function sleep(ms: number, signal: AbortSignal | undefined) {
+  return new Promise<void>((resolve) => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+  });
+}
+
+/**
+ * Runs `attempt` against `primary` and then each fallback model. Retryable
+ * failures are retried with jittered backoff (or the upstream Retry-After,
+ * if it fits in `maxDelayMs`) before moving to the next model; any other
+ * failure moves to the next model straight away, since a fallback may be on
+ * another provider. Once every model has failed, the last failure is thrown
+ * as an `UpstreamError`. A cancelled request rethrows the original abort error.
+ */
+async function withRetries<T>(
+  primary: ModelOption,
+  call: UpstreamCall,
+  policy: RetryPolicy,
+  onFailedAttempt: (attempt: FailedAttempt) => Promise<void> | void,
+  attempt: (
+    provider: ChatProvider,
+    model: ModelOption,
+    handle: AttemptHandle,
+  ) => Promise<T>,
+) {
+  let lastError = new UpstreamError("upstream_unavailable");
+
+  for (const model of [primary, ...getFallbackModels(primary)]) {
+    const provider = getProvider(model.provider);
+    if (!provider) continue;
+
+    for (let retry = 0; retry <= policy.maxRetries; retry++) {
+      const startedAt = Date.now();
+      const handle = startAttempt(call.signal, policy.timeoutMs);
+
+      try {
+        const value = await attempt(provider, model, handle);
+        return { model, value, handle };
+      } catch (error) {
+        handle.end();
+        if (call.signal?.aborted) throw error;
+
+        lastError = toUpstreamError(error, handle.timedOut());
+        await onFailedAttempt({
+          model,
+          code: lastError.code,
+          latencyMs: Date.now() - startedAt,
+        });
+
+        if (!RETRYABLE_CODES.has(lastError.code)) break;
+      }
+
+      if (retry === policy.maxRetries) break;
+
+      const delayMs = Math.max(
+        backoffDelay(policy, retry),
+        lastError.retryAfterMs ?? 0,
+      );
+      if (delayMs > policy.maxDelayMs) break;
+
+      await sleep(delayMs, call.signal);
+      if (call.signal?.aborted) throw lastError;
+    }
+  }
+
+  throw lastError;
+}
+
+export async function completeWithRetries({
+  model,
+  call,
+  policy = getRetryPolicy(),
+  onFailedAttempt,
+}: {
+  model: ModelOption;
+  call: UpstreamCall;
+  policy?: RetryPolicy;
+  onFailedAttempt: (attempt: FailedAttempt) => Promise<void> | void;
+}): Promise<{ model: ModelOption; result: ChatCompletionResult }> {
+  const {
+    model: usedModel,
+    value,
+    handle,
+  } = await withRetries(
+    model,
+    call,
+    policy,
+    onFailedAttempt,
+    (provider, candidate, attemptHandle) =>
+      provider.complete({
+        ...call,
+        model: candidate.model,
+        tools: candidate.supportsTools ? call.tools : undefined,
+        signal: attemptHandle.signal,
+      }),
+  );
+
+  handle.end();
+  return { model: usedModel, result: value };
+}
+
+/**
+ * Opens a stream with the same retry and fallback rules, up to the first
+ * chunk. After that, output has reached the client, so a failure is thrown
+ * from `chunks` as an `UpstreamError` instead of being retried.
+ */
+export async function openStreamWithRetries({
+  model,
+  call,
+  policy = getRetryPolicy(),
+  onFailedAttempt,
+}: {
+  model: ModelOption;
+  call: UpstreamCall;
+  policy?: RetryPolicy;
+  onFailedAttempt: (attempt: FailedAttempt) => Promise<void> | void;
+}): Promise<{
+  model: ModelOption;
+  chunks: AsyncGenerator<ChatCompletionChunk>;
+}> {
+  const {
+    model: usedModel,
+    value: { iterator, first },
+    handle,
+  } = await withRetries(
+    model,
+    call,
+    policy,
+    onFailedAttempt,
+    async (provider, candidate, attemptHandle) => {
+      const iterator = provider.stream({
+        ...call,
+        model: candidate.model,
+        // A fallback model without tool support answers without them.
+        tools: candidate.supportsTools ? call.tools : undefined,
+        signal: attemptHandle.signal,
+      });
+      const first = await iterator.next();
+      attemptHandle.touch();
+
+      // Providers may end quietly when aborted rather than throwing.
+      if (attemptHandle.timedOut()) throw new UpstreamError("upstream_timeout");
+      return { iterator, first };
+    },
+  );
+
+  async function* chunks(): AsyncGenerator<ChatCompletionChunk> {
+    try {
+      let next = first;
+      while (!next.done) {
+        yield next.value;
+        next = await iterator.next();
+        handle.touch();
+      }
+
+      if (handle.timedOut()) throw new UpstreamError("upstream_timeout");
+    } catch (error) {
+      if (call.signal?.aborted) throw error;
+      throw toUpstreamError(error, handle.timedOut());
+    } finally {
+      handle.end();
+      await iterator.return(undefined).catch(() => {});
+    }
+  }
+
+  return { model: usedModel, chunks: chunks() };
+}
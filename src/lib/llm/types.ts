@@ -0,0 +1,92 @@
+/** A function call requested by the model; `arguments` is raw JSON text. */
+export type ToolCall = {
+  id: string;
+  name: string;
+  arguments: string;
+};
+
+/** A tool offered to the model, described by a JSON Schema for its arguments. */
+export type ToolDefinition = {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+};
+
+export type ChatCompletionMessage = {
+  role: "user" | "assistant" | "system" | "tool";
+  content: string;
+  /** Image data URLs; providers send them as multi-part content. */
+  imageUrls?: string[];
+  /** Calls made by an assistant turn. */
+  toolCalls?: ToolCall[];
+  /** The call a `tool` message answers. */
+  toolCallId?: string;
+};
+
+export type TokenUsage = {
+  inputTokens: number | null;
+  outputTokens: number | null;
+  totalTokens: number | null;
+};
+
+export type ChatCompletionRequest = {
+  model: string;
+  messages: ChatCompletionMessage[];
+  temperature?: number | null;
+  maxTokens?: number | null;
+  tools?: ToolDefinition[];
+  signal?: AbortSignal;
+};
+
+export type ChatCompletionResult = {
+  content: string;
+  /** Present when the model asked for tools instead of (or before) answering. */
+  toolCalls?: ToolCall[];
+  usage: TokenUsage;
+};
+
+export type ChatCompletionChunk =
+  | { type: "delta"; content: string }
+  | { type: "tool_calls"; toolCalls: ToolCall[] }
+  | { type: "usage"; usage: TokenUsage };
+
+export type ChatProvider = {
+  id: string;
+  complete(request: ChatCompletionRequest): Promise<ChatCompletionResult>;
+  stream(request: ChatCompletionRequest): AsyncGenerator<ChatCompletionChunk>;
+};
+
+export class ProviderRequestError extends Error {
+  constructor(
+    readonly provider: string,
+    readonly status: number,
+    readonly body: string,
+    /** From the upstream `Retry-After` header, when it sent one. */
+    readonly retryAfterMs: number | null = null,
+  ) {
+    super(`${provider} request failed with status ${status}`);
+    this.name = "ProviderRequestError";
+  }
+}
+
+/** Classified failure of an upstream model call; see `@/lib/llm/resilience`. */
+export type UpstreamErrorCode =
+  | "upstream_timeout"
+  | "upstream_rate_limited"
+  | "upstream_unavailable"
+  | "upstream_auth_failed"
+  | "upstream_bad_request"
+  | "content_filtered"
+  | "context_length_exceeded"
+  | "upstream_error";
+
+export class UpstreamError extends Error {
+  constructor(
+    readonly code: UpstreamErrorCode,
+    readonly retryAfterMs: number | null = null,
+    options?: { cause?: unknown },
+  ) {
+    super(`Upstream model call failed: ${code}`, options);
+    this.name = "UpstreamError";
+  }
+}
@@ -0,0 +1,42 @@
+export type TreeNode = {
+  id: string;
+  parentId: string | null;
+};
+
+// Helpers for the message tree. `nodes` are always in created_at order, which
+// is also the order siblings are numbered in ("2/3").
+
+/** Walks parent links from `leafId` back to the root. */
+export function getPath<T extends TreeNode>(nodes: T[], leafId: string | null) {
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const path: T[] = [];
+  const seen = new Set<string>();
+
+  let current = leafId ? byId.get(leafId) : undefined;
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return path;
+}
+
+export function getSiblings<T extends TreeNode>(nodes: T[], node: T) {
+  return nodes.filter((candidate) => candidate.parentId === node.parentId);
+}
+
+/** Follows the most recent child at each level down to a leaf. */
+export function getLatestLeaf<T extends TreeNode>(nodes: T[], fromId: string) {
+  let currentId = fromId;
+  const seen = new Set<string>();
+
+  while (!seen.has(currentId)) {
+    seen.add(currentId);
+    const children = nodes.filter((node) => node.parentId === currentId);
+    if (children.length === 0) break;
+    currentId = children[children.length - 1].id;
+  }
+
+  return currentId;
+}
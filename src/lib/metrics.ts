@@ -0,0 +1,506 @@
+import { toOne, type Embedded } from "@/lib/embeds";
+import type { InvocationPurpose } from "@/lib/invocations";
+import { supabaseServerClient } from "@/lib/supabaseServerClient";
+
+export type InvocationRow = {
+  provider: string;
+  model: string;
+  latency_ms: number | null;
+  time_to_first_token_ms: number | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  total_tokens: number | null;
+  estimated_cost_usd: number | string | null;
+  status: string;
+  purpose: InvocationPurpose;
+  created_at: string;
+};
+
+type VoteModel = { provider: string; model: string } | null;
+
+export type PreferenceVoteRow = {
+  winner: "a" | "b" | "tie";
+  blind: boolean;
+  invocation_a: VoteModel;
+  invocation_b: VoteModel;
+};
+
+type PreferenceVoteSelect = Omit<
+  PreferenceVoteRow,
+  "invocation_a" | "invocation_b"
+> & {
+  invocation_a: Embedded<VoteModel>;
+  invocation_b: Embedded<VoteModel>;
+};
+
+type RatedInvocation = {
+  provider: string;
+  model: string;
+  latency_ms: number | null;
+  output_tokens: number | null;
+} | null;
+
+export type FeedbackRow = {
+  rating: "up" | "down";
+  reason: string | null;
+  persona_id: string | null;
+  persona: { name: string } | null;
+  invocation: RatedInvocation;
+};
+
+type FeedbackSelect = Omit<FeedbackRow, "persona" | "invocation"> & {
+  persona: Embedded<FeedbackRow["persona"]>;
+  invocation: Embedded<RatedInvocation>;
+};
+
+export type ModelSummary = {
+  modelId: string;
+  provider: string;
+  model: string;
+  requests: number;
+  errors: number;
+  latencyP50: number | null;
+  latencyP90: number | null;
+  latencyP99: number | null;
+  avgTimeToFirstToken: number | null;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number;
+};
+
+export type DailyModelMetrics = {
+  day: string;
+  modelId: string;
+  requests: number;
+  errors: number;
+  latencyP50: number | null;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+};
+
+export type LatencyBucket = {
+  label: string;
+  minMs: number;
+  maxMs: number | null;
+  count: number;
+};
+
+/**
+ * Compare-mode votes for one pair of models; `modelA` sorts before `modelB`.
+ * A tie counts as half a win for each side.
+ */
+export type PairWinRate = {
+  modelA: string;
+  modelB: string;
+  votes: number;
+  blindVotes: number;
+  winsA: number;
+  winsB: number;
+  ties: number;
+  winRateA: number;
+};
+
+/**
+ * Thumbs up/down on replies of one model and persona, with the latency and
+ * output tokens of the rated replies on each side.
+ */
+export type SatisfactionRow = {
+  modelId: string;
+  personaId: string | null;
+  personaName: string | null;
+  ratings: number;
+  up: number;
+  down: number;
+  satisfaction: number;
+  latencyP50Up: number | null;
+  latencyP50Down: number | null;
+  avgOutputTokensUp: number | null;
+  avgOutputTokensDown: number | null;
+  /** Most common reasons given with a thumbs down, most frequent first. */
+  topDownReasons: { reason: string; count: number }[];
+};
+
+export type MetricsReport = {
+  from: string;
+  to: string;
+  availableModels: string[];
+  summary: ModelSummary[];
+  daily: DailyModelMetrics[];
+  latencyHistogram: LatencyBucket[];
+  winRates: PairWinRate[];
+  satisfaction: SatisfactionRow[];
+  truncated: boolean;
+};
+
+const PAGE_SIZE = 1000;
+const MAX_ROWS = 50_000;
+
+const LATENCY_BUCKETS: [number, number | null][] = [
+  [0, 250],
+  [250, 500],
+  [500, 1000],
+  [1000, 2000],
+  [2000, 5000],
+  [5000, 10_000],
+  [10_000, 30_000],
+  [30_000, null],
+];
+
+function formatMs(ms: number) {
+  return ms >= 1000 ? `${ms / 1000}s` : `${ms}ms`;
+}
+
+/** Nearest-rank percentile over an already sorted list. */
+export function percentile(sorted: number[], p: number) {
+  if (sorted.length === 0) return null;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(rank, 1)) - 1];
+}
+
+function modelIdOf(row: { provider: string; model: string }) {
+  return `${row.provider}:${row.model}`;
+}
+
+/**
+ * Summary and title calls add to token use and cost, but not to request,
+ * error or latency figures, which describe the replies users wait for.
+ */
+function isChat(row: InvocationRow) {
+  return row.purpose === "chat";
+}
+
+/** A request the client stopped is counted, but not as an error. */
+function isError(row: InvocationRow) {
+  return row.status !== "success" && row.status !== "cancelled";
+}
+
+function toNumber(value: number | string | null) {
+  if (value === null) return 0;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+export async function fetchInvocations(fromIso: string, toIso: string) {
+  const rows: InvocationRow[] = [];
+
+  for (let offset = 0; offset < MAX_ROWS; offset += PAGE_SIZE) {
+    const { data, error } = await supabaseServerClient
+      .from("model_invocations")
+      .select(
+        "provider, model, latency_ms, time_to_first_token_ms, input_tokens, output_tokens, total_tokens, estimated_cost_usd, status, purpose, created_at",
+      )
+      .gte("created_at", fromIso)
+      .lt("created_at", toIso)
+      .order("created_at", { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) return { data: rows, truncated: false, error };
+
+    rows.push(...((data ?? []) as InvocationRow[]));
+    if (!data || data.length < PAGE_SIZE) {
+      return { data: rows, truncated: false, error: null };
+    }
+  }
+
+  return { data: rows, truncated: true, error: null };
+}
+
+function toPreferenceVoteRow(row: PreferenceVoteSelect): PreferenceVoteRow {
+  return {
+    winner: row.winner,
+    blind: row.blind,
+    invocation_a: toOne(row.invocation_a),
+    invocation_b: toOne(row.invocation_b),
+  };
+}
+
+export async function fetchPreferenceVotes(fromIso: string, toIso: string) {
+  const rows: PreferenceVoteRow[] = [];
+
+  for (let offset = 0; offset < MAX_ROWS; offset += PAGE_SIZE) {
+    const { data, error } = await supabaseServerClient
+      .from("model_preferences")
+      .select(
+        "winner, blind, invocation_a:invocation_a_id(provider, model), invocation_b:invocation_b_id(provider, model)",
+      )
+      .not("winner", "is", null)
+      .gte("voted_at", fromIso)
+      .lt("voted_at", toIso)
+      .order("voted_at", { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) return { data: rows, error };
+
+    rows.push(...(data ?? []).map(toPreferenceVoteRow));
+    if (!data || data.length < PAGE_SIZE) return { data: rows, error: null };
+  }
+
+  return { data: rows, error: null };
+}
+
+function toFeedbackRow(row: FeedbackSelect): FeedbackRow {
+  return {
+    rating: row.rating,
+    reason: row.reason,
+    persona_id: row.persona_id,
+    persona: toOne(row.persona),
+    invocation: toOne(row.invocation),
+  };
+}
+
+/** Ratings of replies whose invocation is known, by when they were last set. */
+export async function fetchFeedback(fromIso: string, toIso: string) {
+  const rows: FeedbackRow[] = [];
+
+  for (let offset = 0; offset < MAX_ROWS; offset += PAGE_SIZE) {
+    const { data, error } = await supabaseServerClient
+      .from("message_feedback")
+      .select(
+        "rating, reason, persona_id, persona:persona_id(name), invocation:invocation_id(provider, model, latency_ms, output_tokens)",
+      )
+      .not("invocation_id", "is", null)
+      .gte("updated_at", fromIso)
+      .lt("updated_at", toIso)
+      .order("updated_at", { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) return { data: rows, error };
+
+    rows.push(...(data ?? []).map(toFeedbackRow));
+    if (!data || data.length < PAGE_SIZE) return { data: rows, error: null };
+  }
+
+  return { data: rows, error: null };
+}
+
+function average(values: number[]) {
+  return values.length > 0
+    ? Math.round(values.reduce((a, b) => a + b, 0) / values.length)
+    : null;
+}
+
+function buildSatisfaction(feedback: FeedbackRow[], modelId: string | null) {
+  const groups = new Map<string, FeedbackRow[]>();
+
+  for (const row of feedback) {
+    if (!row.invocation) continue;
+    const id = modelIdOf(row.invocation);
+    if (modelId && id !== modelId) continue;
+
+    const key = `${id}|${row.persona_id ?? ""}`;
+    const group = groups.get(key);
+    if (group) group.push(row);
+    else groups.set(key, [row]);
+  }
+
+  return [...groups.entries()]
+    .map(([key, group]): SatisfactionRow => {
+      const up = group.filter((row) => row.rating === "up");
+      const down = group.filter((row) => row.rating === "down");
+      const latencies = (rows: FeedbackRow[]) =>
+        rows
+          .map((row) => row.invocation?.latency_ms ?? null)
+          .filter((value): value is number => value !== null)
+          .sort((a, b) => a - b);
+      const outputTokens = (rows: FeedbackRow[]) =>
+        rows
+          .map((row) => row.invocation?.output_tokens ?? null)
+          .filter((value): value is number => value !== null);
+
+      const reasonCounts = new Map<string, number>();
+      for (const row of down) {
+        if (row.reason) {
+          reasonCounts.set(row.reason, (reasonCounts.get(row.reason) ?? 0) + 1);
+        }
+      }
+
+      return {
+        modelId: key.split("|")[0],
+        personaId: group[0].persona_id,
+        personaName: group[0].persona?.name ?? null,
+        ratings: group.length,
+        up: up.length,
+        down: down.length,
+        satisfaction: up.length / group.length,
+        latencyP50Up: percentile(latencies(up), 50),
+        latencyP50Down: percentile(latencies(down), 50),
+        avgOutputTokensUp: average(outputTokens(up)),
+        avgOutputTokensDown: average(outputTokens(down)),
+        topDownReasons: [...reasonCounts.entries()]
+          .map(([reason, count]) => ({ reason, count }))
+          .sort((a, b) => b.count - a.count)
+          .slice(0, 3),
+      };
+    })
+    .sort((a, b) => b.ratings - a.ratings);
+}
+
+function buildWinRates(votes: PreferenceVoteRow[], modelId: string | null) {
+  const pairs = new Map<string, PairWinRate>();
+
+  for (const vote of votes) {
+    if (!vote.invocation_a || !vote.invocation_b) continue;
+
+    const a = modelIdOf(vote.invocation_a);
+    const b = modelIdOf(vote.invocation_b);
+    // A fallback can leave both sides answered by the same model.
+    if (a === b) continue;
+    if (modelId && a !== modelId && b !== modelId) continue;
+
+    const [modelA, modelB] = a < b ? [a, b] : [b, a];
+    const key = `${modelA}|${modelB}`;
+    const pair = pairs.get(key) ?? {
+      modelA,
+      modelB,
+      votes: 0,
+      blindVotes: 0,
+      winsA: 0,
+      winsB: 0,
+      ties: 0,
+      winRateA: 0,
+    };
+
+    pair.votes += 1;
+    if (vote.blind) pair.blindVotes += 1;
+
+    if (vote.winner === "tie") {
+      pair.ties += 1;
+    } else {
+      const winner = vote.winner === "a" ? a : b;
+      if (winner === modelA) pair.winsA += 1;
+      else pair.winsB += 1;
+    }
+
+    pairs.set(key, pair);
+  }
+
+  return [...pairs.values()]
+    .map((pair) => ({
+      ...pair,
+      winRateA: (pair.winsA + pair.ties / 2) / pair.votes,
+    }))
+    .sort((x, y) => y.votes - x.votes);
+}
+
+export function buildMetricsReport(
+  rows: InvocationRow[],
+  votes: PreferenceVoteRow[],
+  feedback: FeedbackRow[],
+  {
+    from,
+    to,
+    modelId,
+    truncated,
+  }: { from: string; to: string; modelId: string | null; truncated: boolean },
+): MetricsReport {
+  const availableModels = [...new Set(rows.map(modelIdOf))].sort();
+  const filtered = modelId
+    ? rows.filter((row) => modelIdOf(row) === modelId)
+    : rows;
+
+  const byModel = new Map<string, InvocationRow[]>();
+  const byDayAndModel = new Map<string, InvocationRow[]>();
+
+  const addTo = (
+    groups: Map<string, InvocationRow[]>,
+    key: string,
+    row: InvocationRow,
+  ) => {
+    const group = groups.get(key);
+    if (group) group.push(row);
+    else groups.set(key, [row]);
+  };
+
+  for (const row of filtered) {
+    const id = modelIdOf(row);
+    addTo(byModel, id, row);
+    addTo(byDayAndModel, `${row.created_at.slice(0, 10)}|${id}`, row);
+  }
+
+  const sortedLatencies = (group: InvocationRow[]) =>
+    group
+      .filter((row) => row.status === "success" && row.latency_ms !== null)
+      .map((row) => row.latency_ms as number)
+      .sort((a, b) => a - b);
+
+  const sum = (group: InvocationRow[], pick: (row: InvocationRow) => number) =>
+    group.reduce((total, row) => total + pick(row), 0);
+
+  const summary: ModelSummary[] = [...byModel.entries()]
+    .map(([id, group]) => {
+      const chats = group.filter(isChat);
+      const latencies = sortedLatencies(chats);
+      const ttfts = chats
+        .map((row) => row.time_to_first_token_ms)
+        .filter((value): value is number => value !== null);
+
+      return {
+        modelId: id,
+        provider: group[0].provider,
+        model: group[0].model,
+        requests: chats.length,
+        errors: chats.filter(isError).length,
+        latencyP50: percentile(latencies, 50),
+        latencyP90: percentile(latencies, 90),
+        latencyP99: percentile(latencies, 99),
+        avgTimeToFirstToken:
+          ttfts.length > 0
+            ? Math.round(ttfts.reduce((a, b) => a + b, 0) / ttfts.length)
+            : null,
+        inputTokens: sum(group, (row) => row.input_tokens ?? 0),
+        outputTokens: sum(group, (row) => row.output_tokens ?? 0),
+        totalTokens: sum(group, (row) => row.total_tokens ?? 0),
+        costUsd: sum(group, (row) => toNumber(row.estimated_cost_usd)),
+      };
+    })
+    .sort((a, b) => b.requests - a.requests);
+
+  const daily: DailyModelMetrics[] = [...byDayAndModel.entries()]
+    .map(([key, group]) => {
+      const [day, id] = key.split("|");
+      const chats = group.filter(isChat);
+      return {
+        day,
+        modelId: id,
+        requests: chats.length,
+        errors: chats.filter(isError).length,
+        latencyP50: percentile(sortedLatencies(chats), 50),
+        inputTokens: sum(group, (row) => row.input_tokens ?? 0),
+        outputTokens: sum(group, (row) => row.output_tokens ?? 0),
+        costUsd: sum(group, (row) => toNumber(row.estimated_cost_usd)),
+      };
+    })
+    .sort(
+      (a, b) =>
+        a.day.localeCompare(b.day) || a.modelId.localeCompare(b.modelId),
+    );
+
+  const latencies = sortedLatencies(filtered.filter(isChat));
+  const latencyHistogram: LatencyBucket[] = LATENCY_BUCKETS.map(
+    ([minMs, maxMs]) => ({
+      label:
+        maxMs === null
+          ? `${formatMs(minMs)}+`
+          : `${formatMs(minMs)}–${formatMs(maxMs)}`,
+      minMs,
+      maxMs,
+      count: latencies.filter(
+        (value) => value >= minMs && (maxMs === null || value < maxMs),
+      ).length,
+    }),
+  );
+
+  return {
+    from,
+    to,
+    availableModels,
+    summary,
+    daily,
+    latencyHistogram,
+    winRates: buildWinRates(votes, modelId),
+    satisfaction: buildSatisfaction(feedback, modelId),
+    truncated,
+  };
+}
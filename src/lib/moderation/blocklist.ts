@@ -0,0 +1,36 @@
+import type { ModerationCheck } from "@/lib/moderation/types";
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Terms from `MODERATION_BLOCKLIST` (comma-separated, case-insensitive,
+ * matched as whole words). Messages containing one are rejected.
+ */
+function blocklistPattern() {
+  const terms = (process.env.MODERATION_BLOCKLIST ?? "")
+    .split(",")
+    .map((term) => term.trim())
+    .filter(Boolean);
+  if (terms.length === 0) return null;
+
+  return new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${terms.map(escapeRegExp).join("|")})(?![\\p{L}\\p{N}])`,
+    "giu",
+  );
+}
+
+export const blocklistCheck: ModerationCheck = {
+  name: "blocklist",
+  async run(content) {
+    const pattern = blocklistPattern();
+    const count = pattern ? (content.match(pattern)?.length ?? 0) : 0;
+
+    return {
+      content,
+      findings:
+        count > 0 ? [{ category: "blocklist", action: "reject", count }] : [],
+    };
+  },
+};
@@ -0,0 +1,102 @@
+import { findModel, getProvider } from "@/lib/llm/registry";
+import type { ModerationCheck, ModerationStage } from "@/lib/moderation/types";
+
+// Long messages are judged on their start; the classifier only needs a gist.
+const MAX_CLASSIFIED_CHARS = 8_000;
+
+const STAGE_LABELS: Record<ModerationStage, string> = {
+  input: "User message",
+  output: "Assistant reply",
+  tool: "Tool result",
+};
+
+const CLASSIFIER_PROMPT =
+  "You are a content moderation classifier for a chat application. " +
+  "Decide whether the text violates the policy: sexual content involving minors, credible threats of violence, " +
+  "instructions for weapons capable of mass harm, promotion of self-harm, or targeted harassment and hate. " +
+  'Reply with JSON only, in the form {"flagged": boolean, "categories": string[]}, using short snake_case categories.';
+
+function parseVerdict(raw: string) {
+  const json = /\{[\s\S]*\}/.exec(raw)?.[0];
+  if (!json) return null;
+
+  try {
+    const value = JSON.parse(json) as {
+      flagged?: unknown;
+      categories?: unknown;
+    };
+    if (typeof value.flagged !== "boolean") return null;
+
+    const categories = Array.isArray(value.categories)
+      ? value.categories
+          .filter((c): c is string => typeof c === "string")
+          .map((c) =>
+            c
+              .toLowerCase()
+              .replace(/[^a-z0-9_]+/g, "_")
+              .slice(0, 40),
+          )
+          .filter(Boolean)
+      : [];
+    return { flagged: value.flagged, categories };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Asks the model in `MODERATION_MODEL_ID` (`<provider>:<model>`) to classify
+ * the text. It fails open: when the model is missing, errors or answers
+ * something unparseable, the message goes through and the failure is logged.
+ */
+export const moderationModelCheck: ModerationCheck = {
+  name: "model",
+  async run(content, { stage, signal }) {
+    const modelId = process.env.MODERATION_MODEL_ID;
+    if (!modelId || !content.trim()) return { content, findings: [] };
+
+    const model = findModel(modelId);
+    const provider = model ? getProvider(model.provider) : null;
+    if (!model || !provider) {
+      console.error("Unknown MODERATION_MODEL_ID", modelId);
+      return { content, findings: [] };
+    }
+
+    try {
+      const result = await provider.complete({
+        model: model.model,
+        messages: [
+          { role: "system", content: CLASSIFIER_PROMPT },
+          {
+            role: "user",
+            content: `${STAGE_LABELS[stage]}:\n${content.slice(0, MAX_CLASSIFIED_CHARS)}`,
+          },
+        ],
+        temperature: 0,
+        signal,
+      });
+
+      const verdict = parseVerdict(result.content);
+      if (!verdict) {
+        console.error("Unparseable moderation verdict", result.content);
+        return { content, findings: [] };
+      }
+      if (!verdict.flagged) return { content, findings: [] };
+
+      const categories = verdict.categories.length
+        ? verdict.categories
+        : ["flagged"];
+      return {
+        content,
+        findings: categories.map((category) => ({
+          category: `model:${category}`,
+          action: "reject" as const,
+          count: 1,
+        })),
+      };
+    } catch (error) {
+      console.error("Error running moderation model", error);
+      return { content, findings: [] };
+    }
+  },
+};
@@ -0,0 +1,87 @@
+import type {
+  ModerationAction,
+  ModerationCheck,
+  ModerationFinding,
+} from "@/lib/moderation/types";
+
+type Detector = {
+  category: string;
+  pattern: RegExp;
+  label: string;
+  /** Filters out look-alikes the pattern cannot rule out. */
+  isMatch?: (value: string) => boolean;
+};
+
+function passesLuhn(value: string) {
+  const digits = value.replace(/\D/g, "");
+  let sum = 0;
+
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+
+  return sum % 10 === 0;
+}
+
+const DETECTORS: Detector[] = [
+  {
+    category: "secret",
+    label: "[secret redacted]",
+    // Private key blocks and the key formats of common providers (OpenAI,
+    // Anthropic, AWS, GitHub, Slack, Google, Stripe), plus JWTs.
+    pattern:
+      /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----|\b(?:sk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}|AKIA[0-9A-Z]{16}|gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,}|xox[abprs]-[A-Za-z0-9-]{10,}|AIza[0-9A-Za-z_-]{35}|[rs]k_live_[A-Za-z0-9]{16,}|eyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,})/g,
+  },
+  {
+    category: "email",
+    label: "[email redacted]",
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+  },
+  {
+    category: "card_number",
+    label: "[card number redacted]",
+    pattern: /\b(?:\d[ -]?){12,18}\d\b/g,
+    isMatch: passesLuhn,
+  },
+];
+
+/**
+ * `MODERATION_PII_POLICY`: `redact` (the default) replaces matches with a
+ * label, `reject` refuses the message, `off` skips the check.
+ */
+function piiPolicy(): ModerationAction | null {
+  const value = process.env.MODERATION_PII_POLICY;
+  if (value === "off") return null;
+  return value === "reject" ? "reject" : "redact";
+}
+
+export const piiCheck: ModerationCheck = {
+  name: "pii",
+  async run(content) {
+    const action = piiPolicy();
+    if (!action) return { content, findings: [] };
+
+    const findings: ModerationFinding[] = [];
+    let redacted = content;
+
+    for (const detector of DETECTORS) {
+      let count = 0;
+      redacted = redacted.replace(detector.pattern, (match) => {
+        if (detector.isMatch && !detector.isMatch(match)) return match;
+        count += 1;
+        return detector.label;
+      });
+
+      if (count > 0) {
+        findings.push({ category: detector.category, action, count });
+      }
+    }
+
+    return { content: action === "redact" ? redacted : content, findings };
+  },
+};
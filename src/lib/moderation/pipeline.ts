@@ -0,0 +1,87 @@
+import type { Caller } from "@/lib/auth";
+import { blocklistCheck } from "@/lib/moderation/blocklist";
+import { moderationModelCheck } from "@/lib/moderation/modelCheck";
+import { piiCheck } from "@/lib/moderation/pii";
+import type {
+  ModerationCheck,
+  ModerationContext,
+  ModerationFinding,
+  ModerationStage,
+} from "@/lib/moderation/types";
+import { supabaseServerClient } from "@/lib/supabaseServerClient";
+
+export type ModerationResult = {
+  /** The content with redactions applied; unchanged when rejected. */
+  content: string;
+  findings: ModerationFinding[];
+  rejected: boolean;
+};
+
+// Cheap local checks first; the model only sees what is left after redaction.
+const CHECKS: ModerationCheck[] = [
+  blocklistCheck,
+  piiCheck,
+  moderationModelCheck,
+];
+
+export async function moderateContent(
+  content: string,
+  context: ModerationContext,
+): Promise<ModerationResult> {
+  const findings: ModerationFinding[] = [];
+  let current = content;
+
+  for (const check of CHECKS) {
+    const result = await check.run(current, context);
+    findings.push(...result.findings);
+
+    if (result.findings.some((f) => f.action === "reject")) {
+      return { content, findings, rejected: true };
+    }
+    current = result.content;
+  }
+
+  return { content: current, findings, rejected: false };
+}
+
+/** Categories of a result, for API responses; never the matched text. */
+export function moderationCategories(result: ModerationResult) {
+  return [...new Set(result.findings.map((f) => f.category))];
+}
+
+/**
+ * Writes a flagged result to `moderation_events`. Only categories and counts
+ * are kept, so the audit log does not become a copy of the data it redacted.
+ */
+export async function recordModerationEvent({
+  caller,
+  conversationId,
+  messageId,
+  stage,
+  result,
+}: {
+  caller: Caller;
+  conversationId: string | null;
+  messageId: string | null;
+  stage: ModerationStage;
+  result: ModerationResult;
+}) {
+  if (result.findings.length === 0) return;
+
+  const { error } = await supabaseServerClient
+    .from("moderation_events")
+    .insert({
+      conversation_id: conversationId,
+      message_id: messageId,
+      user_id: caller.userId,
+      guest_id: caller.userId ? null : caller.guestId,
+      stage,
+      action: result.rejected ? "rejected" : "redacted",
+      categories: moderationCategories(result),
+      findings: result.findings,
+    });
+
+  if (error) {
+    console.error("Error recording moderation event", error);
+  }
+}
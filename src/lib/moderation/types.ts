@@ -0,0 +1,28 @@
+export type ModerationStage = "input" | "output" | "tool";
+
+export type ModerationAction = "redact" | "reject";
+
+export type ModerationFinding = {
+  /** e.g. `email`, `blocklist` or `model:harassment`. */
+  category: string;
+  action: ModerationAction;
+  count: number;
+};
+
+export type ModerationContext = {
+  stage: ModerationStage;
+  signal?: AbortSignal;
+};
+
+/**
+ * One stage of the pipeline. A check returns the content it passes on (with
+ * anything it redacted replaced) and what it found; a `reject` finding stops
+ * the pipeline.
+ */
+export type ModerationCheck = {
+  name: string;
+  run: (
+    content: string,
+    context: ModerationContext,
+  ) => Promise<{ content: string; findings: ModerationFinding[] }>;
+};
@@ -0,0 +1,310 @@
+import { inflateSync } from "node:zlib";
+
+// Content streams are mostly drawing operators, so a text cap of N chars
+// allows this many times N bytes of decompressed content in total.
+const CONTENT_BYTES_PER_CHAR = 16;
+
+/**
+ * Best-effort text extraction for PDFs without a parser dependency. It reads
+ * the text-showing operators (`Tj`, `TJ`, `'`, `"`) from uncompressed and
+ * Flate-compressed content streams, and stops once `maxChars` of text have
+ * been found. Text in composite (Type0/CID) fonts, custom font encodings,
+ * object streams or encrypted files is not recovered; callers treat an empty
+ * result as "no text found".
+ */
+export function extractPdfText(bytes: Buffer, maxChars: number) {
+  const raw = bytes.toString("latin1");
+  const isCompositeFont = compositeFontMatcher(raw);
+  const pages: string[] = [];
+  let length = 0;
+
+  for (const content of contentStreams(
+    raw,
+    bytes,
+    maxChars * CONTENT_BYTES_PER_CHAR,
+  )) {
+    const text = textFromContentStream(content, isCompositeFont);
+    if (!text.trim()) continue;
+
+    pages.push(text);
+    length += text.length;
+    if (length > maxChars) break;
+  }
+
+  return pages
+    .join("\n")
+    .replace(/[^\S\n]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Strings shown in a composite font are glyph ids, not characters, and only
+ * its ToUnicode CMap maps them back. Returns whether a font resource name
+ * (`F1` in `/F1 12 Tf`) refers to one. When composite fonts exist but cannot
+ * be matched to names (e.g. they sit in object streams), every font counts.
+ */
+function compositeFontMatcher(raw: string): (font: string) => boolean {
+  if (!/\/Subtype\s*\/Type0\b/.test(raw)) return () => false;
+
+  const compositeObjects = new Set<string>();
+  for (const match of raw.matchAll(/(\d+)\s+\d+\s+obj\b/g)) {
+    const start = match.index + match[0].length;
+    const end = raw.indexOf("endobj", start);
+    const streamStart = raw.indexOf("stream", start);
+    const dict = raw.slice(
+      start,
+      Math.min(
+        end === -1 ? raw.length : end,
+        streamStart === -1 ? raw.length : streamStart,
+      ),
+    );
+    if (/\/Subtype\s*\/Type0\b/.test(dict)) compositeObjects.add(match[1]);
+  }
+
+  const names = new Set<string>();
+  for (const [, fonts] of raw.matchAll(/\/Font\s*<<([^>]*)>>/g)) {
+    for (const [, name, object] of fonts.matchAll(
+      /\/([^\s/<>[\]()]+)\s+(\d+)\s+\d+\s+R/g,
+    )) {
+      if (compositeObjects.has(object)) names.add(name);
+    }
+  }
+
+  if (names.size === 0) return () => true;
+  return (font) => names.has(font);
+}
+
+function* contentStreams(raw: string, bytes: Buffer, maxBytes: number) {
+  let remainingBytes = maxBytes;
+  const streamPattern = /stream\r?\n/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = streamPattern.exec(raw))) {
+    const start = match.index + match[0].length;
+    const end = raw.indexOf("endstream", start);
+    if (end === -1) break;
+
+    const dictStart = raw.lastIndexOf("<<", match.index);
+    const dict = dictStart === -1 ? "" : raw.slice(dictStart, match.index);
+    streamPattern.lastIndex = end + "endstream".length;
+
+    // Images, fonts and other binary payloads are not content streams.
+    if (/\/Subtype\s*\/Image|\/Length1|\/DCTDecode|\/JPXDecode/.test(dict)) {
+      continue;
+    }
+
+    let data = bytes.subarray(start, end);
+    if (/\/FlateDecode/.test(dict)) {
+      try {
+        data = inflateSync(data, { maxOutputLength: remainingBytes });
+      } catch (error) {
+        // Past the budget: a decompression bomb or simply too much content.
+        if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") {
+          return;
+        }
+        continue;
+      }
+    } else if (/\/Filter/.test(dict)) {
+      continue;
+    }
+
+    const content = data.toString("latin1");
+    if (/\bBT\b/.test(content)) yield content;
+
+    remainingBytes -= data.length;
+    if (remainingBytes <= 0) return;
+  }
+}
+
+type Operand = string | number | Operand[];
+
+function textFromContentStream(
+  content: string,
+  isCompositeFont: (font: string) => boolean,
+) {
+  let output = "";
+  let operands: Operand[] = [];
+  const arrays: Operand[][] = [];
+  let font = "";
+  let i = 0;
+
+  const push = (value: Operand) => {
+    if (arrays.length > 0) arrays[arrays.length - 1].push(value);
+    else operands.push(value);
+  };
+
+  const newline = () => {
+    if (output && !output.endsWith("\n")) output += "\n";
+  };
+
+  while (i < content.length) {
+    const char = content[i];
+
+    if (/\s/.test(char)) {
+      i += 1;
+    } else if (char === "%") {
+      while (i < content.length && content[i] !== "\n" && content[i] !== "\r") {
+        i += 1;
+      }
+    } else if (char === "(") {
+      const [value, next] = readLiteralString(content, i + 1);
+      push(value);
+      i = next;
+    } else if (char === "<" && content[i + 1] === "<") {
+      i += 2;
+    } else if (char === ">" && content[i + 1] === ">") {
+      i += 2;
+    } else if (char === "<") {
+      const end = content.indexOf(">", i);
+      if (end === -1) break;
+      push(decodeHexString(content.slice(i + 1, end)));
+      i = end + 1;
+    } else if (char === "[") {
+      arrays.push([]);
+      i += 1;
+    } else if (char === "]") {
+      const array = arrays.pop() ?? [];
+      push(array);
+      i += 1;
+    } else {
+      const token = /^[^\s()<>[\]{}/%]+|^\/[^\s()<>[\]{}/%]*|^[{}]/.exec(
+        content.slice(i, i + 64),
+      )?.[0];
+      if (!token) {
+        i += 1;
+        continue;
+      }
+      i += token.length;
+
+      const number = Number(token);
+      if (token.startsWith("/") || token === "{" || token === "}") {
+        push(token);
+        continue;
+      }
+      if (!Number.isNaN(number)) {
+        push(number);
+        continue;
+      }
+
+      const last = operands[operands.length - 1];
+      if (isCompositeFont(font) && /^(Tj|TJ|'|")$/.test(token)) {
+        operands = [];
+        continue;
+      }
+
+      switch (token) {
+        case "Tf": {
+          const name = operands[operands.length - 2];
+          if (typeof name === "string" && name.startsWith("/")) {
+            font = name.slice(1);
+          }
+          break;
+        }
+        case "Tj":
+          if (typeof last === "string") output += last;
+          break;
+        case "'":
+        case '"':
+          newline();
+          if (typeof last === "string") output += last;
+          break;
+        case "TJ":
+          if (Array.isArray(last)) {
+            for (const part of last) {
+              if (typeof part === "string") output += part;
+              // Large negative kerning is how many PDFs encode a space.
+              else if (typeof part === "number" && part < -200) output += " ";
+            }
+          }
+          break;
+        case "Td":
+        case "TD": {
+          const ty = operands[operands.length - 1];
+          if (typeof ty === "number" && ty !== 0) newline();
+          else output += " ";
+          break;
+        }
+        case "T*":
+        case "ET":
+          newline();
+          break;
+        case "Tm":
+          newline();
+          break;
+      }
+      operands = [];
+    }
+  }
+
+  return output;
+}
+
+const ESCAPES: Record<string, string> = {
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  b: "\b",
+  f: "\f",
+  "(": "(",
+  ")": ")",
+  "\\": "\\",
+};
+
+function readLiteralString(content: string, start: number): [string, number] {
+  let value = "";
+  let depth = 1;
+  let i = start;
+
+  while (i < content.length) {
+    const char = content[i];
+
+    if (char === "\\") {
+      const next = content[i + 1] ?? "";
+      const octal = /^[0-7]{1,3}/.exec(content.slice(i + 1, i + 4))?.[0];
+      if (octal) {
+        value += String.fromCharCode(parseInt(octal, 8));
+        i += 1 + octal.length;
+      } else if (next === "\r" || next === "\n") {
+        // Line continuation.
+        i += next === "\r" && content[i + 2] === "\n" ? 3 : 2;
+      } else {
+        value += ESCAPES[next] ?? next;
+        i += 2;
+      }
+      continue;
+    }
+
+    if (char === "(") depth += 1;
+    if (char === ")") {
+      depth -= 1;
+      if (depth === 0) return [value, i + 1];
+    }
+
+    value += char;
+    i += 1;
+  }
+
+  return [value, i];
+}
+
+function decodeHexString(hex: string) {
+  const clean = hex.replace(/[^0-9a-f]/gi, "");
+  const bytes = Buffer.from(
+    clean.length % 2 === 0 ? clean : `${clean}0`,
+    "hex",
+  );
+
+  // Two-byte strings starting with a BOM or a zero byte are usually UTF-16.
+  if (
+    bytes.length >= 2 &&
+    bytes.length % 2 === 0 &&
+    (bytes[0] === 0xfe || bytes[0] === 0x00)
+  ) {
+    const body = bytes[0] === 0xfe ? bytes.subarray(2) : bytes;
+    return Buffer.from(body).swap16().toString("utf16le");
+  }
+
+  return bytes.toString("latin1");
+}
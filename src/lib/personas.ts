@@ -0,0 +1,123 @@
+import { isUuid } from "@/lib/conversations";
+import { findModel } from "@/lib/llm/registry";
+import { supabaseServerClient } from "@/lib/supabaseServerClient";
+
+export type Persona = {
+  id: string;
+  name: string;
+  system_prompt: string;
+  provider: string | null;
+  model: string | null;
+  temperature: number | null;
+  max_tokens: number | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type PersonaInput = {
+  name: string;
+  system_prompt: string;
+  provider: string | null;
+  model: string | null;
+  temperature: number | null;
+  max_tokens: number | null;
+};
+
+export const PERSONA_COLUMNS =
+  "id, name, system_prompt, provider, model, temperature, max_tokens, created_at, updated_at";
+
+const MAX_NAME_LENGTH = 80;
+const MAX_SYSTEM_PROMPT_LENGTH = 8000;
+
+export async function listPersonas(userId: string) {
+  const { data, error } = await supabaseServerClient
+    .from("personas")
+    .select(PERSONA_COLUMNS)
+    .eq("user_id", userId)
+    .order("name", { ascending: true });
+
+  return { data: (data ?? []) as Persona[], error };
+}
+
+export async function getOwnedPersona(userId: string, personaId: string) {
+  if (!isUuid(personaId)) return { data: null, error: null };
+
+  const { data, error } = await supabaseServerClient
+    .from("personas")
+    .select(PERSONA_COLUMNS)
+    .eq("id", personaId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  return { data: data as Persona | null, error };
+}
+
+/**
+ * Validates a create/update body. `defaultModelId` uses the same
+ * `provider:model` ids as the model picker and must be a configured model.
+ */
+export function parsePersonaInput(
+  body: Record<string, unknown>,
+): { value: PersonaInput; error: null } | { value: null; error: string } {
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    return {
+      value: null,
+      error: `'name' is required and must be at most ${MAX_NAME_LENGTH} characters.`,
+    };
+  }
+
+  const systemPrompt =
+    typeof body.systemPrompt === "string" ? body.systemPrompt.trim() : "";
+  if (!systemPrompt || systemPrompt.length > MAX_SYSTEM_PROMPT_LENGTH) {
+    return {
+      value: null,
+      error: `'systemPrompt' is required and must be at most ${MAX_SYSTEM_PROMPT_LENGTH} characters.`,
+    };
+  }
+
+  let provider: string | null = null;
+  let model: string | null = null;
+  if (body.defaultModelId != null && body.defaultModelId !== "") {
+    const option =
+      typeof body.defaultModelId === "string"
+        ? findModel(body.defaultModelId)
+        : null;
+    if (!option) return { value: null, error: "Unknown model." };
+    provider = option.provider;
+    model = option.model;
+  }
+
+  const temperature = body.temperature ?? null;
+  if (
+    temperature !== null &&
+    (typeof temperature !== "number" || temperature < 0 || temperature > 2)
+  ) {
+    return {
+      value: null,
+      error: "'temperature' must be a number between 0 and 2.",
+    };
+  }
+
+  const maxTokens = body.maxTokens ?? null;
+  if (
+    maxTokens !== null &&
+    (typeof maxTokens !== "number" ||
+      !Number.isInteger(maxTokens) ||
+      maxTokens <= 0)
+  ) {
+    return { value: null, error: "'maxTokens' must be a positive integer." };
+  }
+
+  return {
+    value: {
+      name,
+      system_prompt: systemPrompt,
+      provider,
+      model,
+      temperature,
+      max_tokens: maxTokens,
+    },
+    error: null,
+  };
+}
@@ -0,0 +1,51 @@
+import type { TokenUsage } from "@/lib/llm/types";
+import { supabaseServerClient } from "@/lib/supabaseServerClient";
+
+export type ModelPricing = {
+  inputUsdPerMillion: number;
+  outputUsdPerMillion: number;
+};
+
+/** Returns the price row in effect for the model at `at`, if any. */
+export async function getModelPricing(
+  provider: string,
+  model: string,
+  at: Date = new Date(),
+): Promise<ModelPricing | null> {
+  const { data, error } = await supabaseServerClient
+    .from("model_pricing")
+    .select("input_usd_per_million, output_usd_per_million")
+    .eq("provider", provider)
+    .eq("model", model)
+    .lte("effective_from", at.toISOString())
+    .order("effective_from", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error loading model_pricing", error);
+    return null;
+  }
+
+  if (!data) return null;
+
+  return {
+    inputUsdPerMillion: Number(data.input_usd_per_million),
+    outputUsdPerMillion: Number(data.output_usd_per_million),
+  };
+}
+
+export function estimateCostUsd(
+  pricing: ModelPricing | null,
+  usage: TokenUsage,
+) {
+  if (!pricing) return null;
+  if (usage.inputTokens === null && usage.outputTokens === null) return null;
+
+  const cost =
+    ((usage.inputTokens ?? 0) * pricing.inputUsdPerMillion +
+      (usage.outputTokens ?? 0) * pricing.outputUsdPerMillion) /
+    1_000_000;
+
+  return Number(cost.toFixed(6));
+}
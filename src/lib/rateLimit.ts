@@ -0,0 +1,167 @@
+import type { NextRequest } from "next/server";
+import type { Caller } from "@/lib/auth";
+import { supabaseServerClient } from "@/lib/supabaseServerClient";
+
+type RateLimitTier = {
+  name: "guest" | "authenticated" | "ip";
+  capacity: number;
+  refillPerSecond: number;
+};
+
+// Capacity is the burst size; the refill rate is the sustained limit.
+const RATE_LIMIT_TIERS: Record<RateLimitTier["name"], RateLimitTier> = {
+  guest: { name: "guest", capacity: 10, refillPerSecond: 10 / 60 },
+  authenticated: {
+    name: "authenticated",
+    capacity: 30,
+    refillPerSecond: 30 / 60,
+  },
+  ip: { name: "ip", capacity: 40, refillPerSecond: 40 / 60 },
+};
+
+const DAILY_TOKEN_QUOTA_GUEST = 20_000;
+const DAILY_TOKEN_QUOTA_AUTH = 200_000;
+
+export type RateLimitResult = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfterSeconds: number;
+  resetSeconds: number;
+};
+
+export type QuotaResult = {
+  allowed: boolean;
+  limit: number;
+  used: number;
+  retryAfterSeconds: number;
+};
+
+export function getClientIp(request: NextRequest) {
+  const ipHeader = request.headers.get("x-forwarded-for");
+  return ipHeader?.split(",")[0]?.trim() || null;
+}
+
+async function consume(
+  bucketKey: string,
+  tier: RateLimitTier,
+): Promise<RateLimitResult | null> {
+  const { data, error } = await supabaseServerClient
+    .rpc("consume_rate_limit", {
+      p_bucket_key: `${tier.name}:${bucketKey}`,
+      p_capacity: tier.capacity,
+      p_refill_per_second: tier.refillPerSecond,
+    })
+    .single<{
+      allowed: boolean;
+      remaining: number;
+      retry_after_ms: number;
+      reset_ms: number;
+    }>();
+
+  if (error || !data) {
+    // Fail open: a rate limiter outage should not take chat down with it.
+    console.error("Error consuming rate limit", error);
+    return null;
+  }
+
+  return {
+    allowed: data.allowed,
+    limit: tier.capacity,
+    remaining: data.remaining,
+    retryAfterSeconds: Math.ceil(data.retry_after_ms / 1000),
+    resetSeconds: Math.ceil(data.reset_ms / 1000),
+  };
+}
+
+/**
+ * Consumes one request from the caller's identity bucket (user or guest) and
+ * from the per-IP bucket, returning whichever is more restrictive.
+ */
+export async function checkRateLimit(
+  request: NextRequest,
+  caller: Caller,
+): Promise<RateLimitResult | null> {
+  const ip = getClientIp(request) ?? "anonymous";
+  const checks: Promise<RateLimitResult | null>[] = [
+    consume(ip, RATE_LIMIT_TIERS.ip),
+  ];
+
+  if (caller.userId) {
+    checks.push(consume(caller.userId, RATE_LIMIT_TIERS.authenticated));
+  } else if (caller.guestId) {
+    checks.push(consume(caller.guestId, RATE_LIMIT_TIERS.guest));
+  }
+
+  const results = (await Promise.all(checks)).filter(
+    (result): result is RateLimitResult => result !== null,
+  );
+
+  if (results.length === 0) return null;
+
+  const blocked = results.filter((result) => !result.allowed);
+  if (blocked.length > 0) {
+    return blocked.reduce((a, b) =>
+      b.retryAfterSeconds > a.retryAfterSeconds ? b : a,
+    );
+  }
+
+  return results.reduce((a, b) =>
+    b.remaining / b.limit < a.remaining / a.limit ? b : a,
+  );
+}
+
+function secondsUntilUtcMidnight() {
+  const now = new Date();
+  const midnight = Date.UTC(
+    now.getUTCFullYear(),
+    now.getUTCMonth(),
+    now.getUTCDate() + 1,
+  );
+  return Math.ceil((midnight - now.getTime()) / 1000);
+}
+
+/** Daily token quota based on today's `model_invocations.total_tokens`. */
+export async function checkDailyTokenQuota(
+  caller: Caller,
+): Promise<QuotaResult | null> {
+  if (!caller.userId && !caller.guestId) return null;
+
+  const { data, error } = await supabaseServerClient.rpc("daily_token_usage", {
+    p_user_id: caller.userId,
+    p_guest_id: caller.guestId,
+  });
+
+  if (error) {
+    console.error("Error loading daily token usage", error);
+    return null;
+  }
+
+  const limit = caller.userId
+    ? DAILY_TOKEN_QUOTA_AUTH
+    : DAILY_TOKEN_QUOTA_GUEST;
+  const used = Number(data ?? 0);
+
+  return {
+    allowed: used < limit,
+    limit,
+    used,
+    retryAfterSeconds: secondsUntilUtcMidnight(),
+  };
+}
+
+export function rateLimitHeaders(result: RateLimitResult | null) {
+  if (!result) return {} as Record<string, string>;
+
+  const headers: Record<string, string> = {
+    "X-RateLimit-Limit": String(result.limit),
+    "X-RateLimit-Remaining": String(Math.max(0, result.remaining)),
+    "X-RateLimit-Reset": String(result.resetSeconds),
+  };
+
+  if (!result.allowed) {
+    headers["Retry-After"] = String(Math.max(1, result.retryAfterSeconds));
+  }
+
+  return headers;
+}
@@ -0,0 +1,179 @@
+import { randomBytes, randomUUID } from "node:crypto";
+import type { Caller } from "@/lib/auth";
+import {
+  isToolExchange,
+  listConversationMessages,
+  toTurnNodes,
+  type ConversationSummary,
+} from "@/lib/conversations";
+import { getPath } from "@/lib/messageTree";
+import { supabaseServerClient } from "@/lib/supabaseServerClient";
+
+/**
+ * What a share link publishes. The system prompt is left out: it may be the
+ * owner's private persona, and a fork would hand it to the visitor.
+ */
+export type ShareSnapshot = {
+  provider: string | null;
+  model: string | null;
+  temperature: number | null;
+  max_tokens: number | null;
+  messages: {
+    role: "user" | "assistant";
+    content: string;
+    created_at: string;
+  }[];
+};
+
+export type ConversationShare = {
+  id: string;
+  token: string;
+  conversation_id: string;
+  title: string | null;
+  snapshot: ShareSnapshot;
+  created_at: string;
+  revoked_at: string | null;
+};
+
+const SHARE_COLUMNS =
+  "id, token, conversation_id, title, snapshot, created_at, revoked_at";
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{32}$/;
+
+/** 24 random bytes, base64url-encoded to 32 characters. */
+function generateShareToken() {
+  return randomBytes(24).toString("base64url");
+}
+
+export function isShareToken(value: string) {
+  return TOKEN_PATTERN.test(value);
+}
+
+/** Copies the branch currently being viewed into a new share link. */
+export async function createShare(conversation: ConversationSummary) {
+  const { data: messages, error: messagesError } =
+    await listConversationMessages(conversation.id);
+  if (messagesError) return { data: null, error: messagesError };
+
+  const turns = toTurnNodes(messages);
+  const leafId =
+    conversation.active_message_id ?? turns[turns.length - 1]?.id ?? null;
+
+  const snapshot: ShareSnapshot = {
+    provider: conversation.provider,
+    model: conversation.model,
+    temperature: conversation.temperature,
+    max_tokens: conversation.max_tokens,
+    messages: getPath(turns, leafId)
+      .filter((m) => !isToolExchange(m))
+      .map((m) => ({
+        role: m.role as "user" | "assistant",
+        content: m.content,
+        created_at: m.created_at,
+      })),
+  };
+
+  const { data, error } = await supabaseServerClient
+    .from("conversation_shares")
+    .insert({
+      token: generateShareToken(),
+      conversation_id: conversation.id,
+      title: conversation.title,
+      snapshot,
+    })
+    .select(SHARE_COLUMNS)
+    .single();
+
+  return { data: data as ConversationShare | null, error };
+}
+
+export async function listActiveShares(conversationId: string) {
+  const { data, error } = await supabaseServerClient
+    .from("conversation_shares")
+    .select(SHARE_COLUMNS)
+    .eq("conversation_id", conversationId)
+    .is("revoked_at", null)
+    .order("created_at", { ascending: false });
+
+  return { data: (data ?? []) as ConversationShare[], error };
+}
+
+/** Public lookup: revoked and malformed tokens resolve to `null`. */
+export async function getActiveShare(token: string) {
+  if (!isShareToken(token)) return { data: null, error: null };
+
+  const { data, error } = await supabaseServerClient
+    .from("conversation_shares")
+    .select(SHARE_COLUMNS)
+    .eq("token", token)
+    .is("revoked_at", null)
+    .maybeSingle();
+
+  return { data: data as ConversationShare | null, error };
+}
+
+/**
+ * Copies a shared snapshot into a new conversation owned by the caller, so
+ * they can keep chatting without touching the original.
+ */
+export async function forkShare(share: ConversationShare, caller: Caller) {
+  const { snapshot } = share;
+
+  const { data: conversation, error } = await supabaseServerClient
+    .from("conversations")
+    .insert({
+      user_id: caller.userId,
+      guest_id: caller.guestId,
+      title: share.title,
+      provider: snapshot.provider,
+      model: snapshot.model,
+      temperature: snapshot.temperature,
+      max_tokens: snapshot.max_tokens,
+    })
+    .select("id")
+    .single();
+
+  if (error || !conversation) return { data: null, error };
+
+  const conversationId = conversation.id as string;
+  if (snapshot.messages.length === 0) {
+    return { data: conversationId, error: null };
+  }
+
+  // Fresh ids and timestamps (one millisecond apart) keep the chain ordered.
+  const startedAt = Date.now();
+  const rows = snapshot.messages.map((m, index) => ({
+    id: randomUUID(),
+    conversation_id: conversationId,
+    role: m.role,
+    content: m.content,
+    created_at: new Date(startedAt + index).toISOString(),
+  }));
+
+  const { error: messagesError } = await supabaseServerClient
+    .from("messages")
+    .insert(
+      rows.map((row, index) => ({
+        ...row,
+        parent_id: index > 0 ? rows[index - 1].id : null,
+      })),
+    );
+
+  if (messagesError) {
+    await supabaseServerClient
+      .from("conversations")
+      .delete()
+      .eq("id", conversationId);
+    return { data: null, error: messagesError };
+  }
+
+  const { error: activeError } = await supabaseServerClient
+    .from("conversations")
+    .update({ active_message_id: rows[rows.length - 1].id })
+    .eq("id", conversationId);
+
+  if (activeError) {
+    console.error("Error setting forked active message", activeError);
+  }
+
+  return { data: conversationId, error: null };
+}
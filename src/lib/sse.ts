@@ -0,0 +1,43 @@
+export function encodeSseEvent(data: unknown) {
+  return `data: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Reads a `text/event-stream` body and yields the `data:` payload of each
+ * event. Works for both the upstream OpenAI-compatible stream and our own
+ * `/api/chat` stream.
+ */
+export async function* readSseData(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      buffer = buffer.replace(/\r\n/g, "\n");
+
+      let boundary = buffer.indexOf("\n\n");
+      while (boundary !== -1) {
+        const rawEvent = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+
+        const data = rawEvent
+          .split("\n")
+          .filter((line) => line.startsWith("data:"))
+          .map((line) => line.slice("data:".length).trimStart())
+          .join("\n");
+
+        if (data) yield data;
+        boundary = buffer.indexOf("\n\n");
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
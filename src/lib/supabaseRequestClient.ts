@@ -0,0 +1,44 @@
+import type { NextRequest } from "next/server";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { getAccessToken, type Caller } from "@/lib/auth";
+import { supabaseServerClient } from "@/lib/supabaseServerClient";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+if (!supabaseUrl || !supabaseAnonKey) {
+  throw new Error(
+    "Missing NEXT_PUBLIC_SUPABASE_URL or NEXT_PUBLIC_SUPABASE_ANON_KEY for request-scoped Supabase client."
+  );
+}
+
+/**
+ * A client that runs as the caller's JWT (anon key plus their access token),
+ * so Postgres row level security applies to everything it reads.
+ */
+export function createRequestClient(accessToken: string): SupabaseClient {
+  return createClient(supabaseUrl!, supabaseAnonKey!, {
+    global: {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    },
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  });
+}
+
+/**
+ * Client for reading the caller's own data. Signed-in users get a
+ * request-scoped client; guests have no JWT, so their reads stay on the
+ * service role and rely on the guest id filters in `@/lib/conversations`.
+ */
+export function getReadClient(
+  request: NextRequest,
+  caller: Caller,
+): SupabaseClient {
+  const accessToken = getAccessToken(request);
+  if (!caller.userId || !accessToken) return supabaseServerClient;
+
+  return createRequestClient(accessToken);
+}
@@ -0,0 +1,183 @@
+import { isToolExchange, listConversationMessages } from "@/lib/conversations";
+import { EMPTY_USAGE, recordInvocation } from "@/lib/invocations";
+import { findModel, getProvider, type ModelOption } from "@/lib/llm/registry";
+import { classifyUpstreamError } from "@/lib/llm/resilience";
+import { supabaseServerClient } from "@/lib/supabaseServerClient";
+
+export const MAX_TITLE_CHARS = 80;
+// Titles are a nicety; a slow model should not hold the stream open for long.
+const TITLE_TIMEOUT_MS = 10_000;
+const MAX_EXCERPT_CHARS = 2_000;
+
+const TITLE_PROMPT =
+  "You name chat conversations for a sidebar. " +
+  "Reply with a title of at most six words that says what the conversation is about, " +
+  "in the language of the user's message. No quotes, no trailing punctuation, nothing else.";
+
+/** Collapses whitespace and cuts at a word boundary. */
+function truncateTitle(text: string) {
+  const title = text.replace(/\s+/g, " ").trim();
+  if (title.length <= MAX_TITLE_CHARS) return title;
+
+  const cut = title.slice(0, MAX_TITLE_CHARS - 1);
+  const space = cut.lastIndexOf(" ");
+  return `${(space > MAX_TITLE_CHARS / 2 ? cut.slice(0, space) : cut).trimEnd()}…`;
+}
+
+/** Placeholder until a title is generated: the first line of the message. */
+export function titleFromMessage(content: string) {
+  const line = content.split("\n").find((l) => l.trim()) ?? "";
+  return truncateTitle(line) || null;
+}
+
+/** A title typed by the user, or `null` if there is nothing left of it. */
+export function normalizeTitle(value: string) {
+  return truncateTitle(value) || null;
+}
+
+function cleanGeneratedTitle(raw: string) {
+  const line = raw.split("\n").find((l) => l.trim()) ?? "";
+  return normalizeTitle(
+    line
+      .replace(/^\s*title\s*:\s*/i, "")
+      .replace(/^["'“‘*#\s]+|["'”’*\s]+$/g, "")
+      .replace(/[.!。]+$/, ""),
+  );
+}
+
+/** `TITLE_MODEL_ID` (`<provider>:<model>`) if it is configured, else `model`. */
+export function getTitleModel(model: ModelOption) {
+  const configured = process.env.TITLE_MODEL_ID;
+  if (!configured) return model;
+
+  const titleModel = findModel(configured);
+  if (!titleModel) console.error("Unknown TITLE_MODEL_ID", configured);
+  return titleModel ?? model;
+}
+
+function excerpt(text: string) {
+  return text.length > MAX_EXCERPT_CHARS
+    ? `${text.slice(0, MAX_EXCERPT_CHARS)}…`
+    : text;
+}
+
+/**
+ * Asks a model for a short title from the first exchange and stores it. The
+ * call is logged with the `title` purpose. Unless `overwrite` is set (the user
+ * asked for a new title), a title the user typed is left alone. Resolves to the
+ * stored title, or `null` when nothing was changed.
+ */
+export async function generateConversationTitle({
+  conversationId,
+  model,
+  overwrite = false,
+}: {
+  conversationId: string;
+  model: ModelOption;
+  overwrite?: boolean;
+}) {
+  const { data: messages, error: messagesError } =
+    await listConversationMessages(conversationId);
+  if (messagesError) return { data: null, error: messagesError };
+
+  const firstUser = messages.find((m) => m.role === "user");
+  const firstReply = messages.find(
+    (m) => m.role === "assistant" && !isToolExchange(m) && m.content.trim(),
+  );
+  if (!firstUser || !firstReply) return { data: null, error: null };
+
+  const titleModel = getTitleModel(model);
+  const provider = getProvider(titleModel.provider);
+  if (!provider) {
+    return { data: null, error: new Error("Title model is not available") };
+  }
+
+  const startedAt = Date.now();
+  let raw: string;
+
+  try {
+    const result = await provider.complete({
+      model: titleModel.model,
+      messages: [
+        { role: "system", content: TITLE_PROMPT },
+        {
+          role: "user",
+          content: `User: ${excerpt(firstUser.content)}\n\nAssistant: ${excerpt(firstReply.content)}`,
+        },
+      ],
+      temperature: 0.2,
+      maxTokens: 24,
+      signal: AbortSignal.timeout(TITLE_TIMEOUT_MS),
+    });
+
+    await recordInvocation({
+      conversationId,
+      model: titleModel,
+      latencyMs: Date.now() - startedAt,
+      timeToFirstTokenMs: null,
+      usage: result.usage,
+      status: "success",
+      purpose: "title",
+    });
+    raw = result.content;
+  } catch (error) {
+    await recordInvocation({
+      conversationId,
+      model: titleModel,
+      latencyMs: Date.now() - startedAt,
+      timeToFirstTokenMs: null,
+      usage: EMPTY_USAGE,
+      status: classifyUpstreamError(error),
+      purpose: "title",
+    });
+    return { data: null, error };
+  }
+
+  const title = cleanGeneratedTitle(raw);
+  if (!title) return { data: null, error: null };
+
+  let update = supabaseServerClient
+    .from("conversations")
+    .update({ title, title_source: "generated" })
+    .eq("id", conversationId);
+  if (!overwrite) update = update.neq("title_source", "user");
+
+  const { data, error } = await update.select("title").maybeSingle();
+
+  return { data: (data?.title as string | undefined) ?? null, error };
+}
+
+/**
+ * The stored title, and whether it is still the placeholder taken from the
+ * first message (no title has been generated or typed yet).
+ */
+export async function getConversationTitle(conversationId: string) {
+  const { data, error } = await supabaseServerClient
+    .from("conversations")
+    .select("title, title_source")
+    .eq("id", conversationId)
+    .single();
+
+  if (error || !data) return { data: null, error };
+  return {
+    data: {
+      title: data.title as string | null,
+      isPlaceholder: data.title_source === "message",
+    },
+    error: null,
+  };
+}
+
+export async function renameConversation(
+  conversationId: string,
+  title: string,
+) {
+  const { data, error } = await supabaseServerClient
+    .from("conversations")
+    .update({ title, title_source: "user" })
+    .eq("id", conversationId)
+    .select("title")
+    .single();
+
+  return { data: (data?.title as string | undefined) ?? null, error };
+}
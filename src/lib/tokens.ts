@@ -0,0 +1,29 @@
+import type { ChatCompletionMessage } from "@/lib/llm/types";
+
+// Roughly 4 characters per token for English text and code. We deliberately
+// avoid a tokenizer dependency: budgets only need to be conservative, not exact.
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Vision models bill images by size; this covers a detailed ~1024px image.
+const IMAGE_TOKENS = 1_000;
+
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateMessageTokens(message: ChatCompletionMessage) {
+  const toolCallTokens = (message.toolCalls ?? []).reduce(
+    (total, call) =>
+      total +
+      estimateTokens(call.name + call.arguments) +
+      MESSAGE_OVERHEAD_TOKENS,
+    0,
+  );
+
+  return (
+    estimateTokens(message.content) +
+    (message.imageUrls?.length ?? 0) * IMAGE_TOKENS +
+    toolCallTokens +
+    MESSAGE_OVERHEAD_TOKENS
+  );
+}
@@ -0,0 +1,198 @@
+import type { ServerTool } from "@/lib/tools/types";
+
+const MAX_EXPRESSION_LENGTH = 500;
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  abs: Math.abs,
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  exp: Math.exp,
+  ln: Math.log,
+  log: Math.log10,
+  log2: Math.log2,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  min: Math.min,
+  max: Math.max,
+};
+
+const TOKEN_PATTERN =
+  /\s*(?:(\d+\.?\d*(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|([a-z_]\w*)|(\*\*|[-+*/%^(),]))/iy;
+
+type Token =
+  | { type: "number"; value: number }
+  | { type: "name"; value: string }
+  | { type: "symbol"; value: string };
+
+function tokenize(expression: string) {
+  const tokens: Token[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+
+  while (TOKEN_PATTERN.lastIndex < expression.length) {
+    const start = TOKEN_PATTERN.lastIndex;
+    const match = TOKEN_PATTERN.exec(expression);
+
+    if (!match) {
+      if (!expression.slice(start).trim()) break;
+      throw new Error(`Unexpected character at position ${start + 1}.`);
+    }
+
+    if (match[1] !== undefined) {
+      tokens.push({ type: "number", value: Number(match[1]) });
+    } else if (match[2] !== undefined) {
+      tokens.push({ type: "name", value: match[2].toLowerCase() });
+    } else {
+      // `**` is accepted as an alias for `^`.
+      tokens.push({
+        type: "symbol",
+        value: match[3] === "**" ? "^" : match[3],
+      });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive-descent evaluator for arithmetic, so model input never reaches
+ * `eval`. `^` is right-associative and binds tighter than unary minus.
+ */
+export function evaluateExpression(expression: string) {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isSymbol = (value: string) =>
+    peek()?.type === "symbol" && peek()?.value === value;
+  const expect = (value: string) => {
+    if (!isSymbol(value)) throw new Error(`Expected "${value}".`);
+    position += 1;
+  };
+
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    while (isSymbol("+") || isSymbol("-")) {
+      const operator = tokens[position++].value;
+      const right = parseTerm();
+      value = operator === "+" ? value + right : value - right;
+    }
+    return value;
+  };
+
+  const parseTerm = (): number => {
+    let value = parseUnary();
+    while (isSymbol("*") || isSymbol("/") || isSymbol("%")) {
+      const operator = tokens[position++].value;
+      const right = parseUnary();
+      value =
+        operator === "*"
+          ? value * right
+          : operator === "/"
+            ? value / right
+            : value % right;
+    }
+    return value;
+  };
+
+  const parseUnary = (): number => {
+    if (isSymbol("-")) {
+      position += 1;
+      return -parseUnary();
+    }
+    if (isSymbol("+")) {
+      position += 1;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    if (!isSymbol("^")) return base;
+    position += 1;
+    return base ** parseUnary();
+  };
+
+  const parsePrimary = (): number => {
+    const token = tokens[position++];
+    if (!token) throw new Error("Unexpected end of expression.");
+
+    if (token.type === "number") return token.value;
+
+    if (token.type === "symbol" && token.value === "(") {
+      const value = parseExpression();
+      expect(")");
+      return value;
+    }
+
+    if (token.type === "name") {
+      const fn = FUNCTIONS[token.value];
+      if (fn && isSymbol("(")) {
+        position += 1;
+        const args = [parseExpression()];
+        while (isSymbol(",")) {
+          position += 1;
+          args.push(parseExpression());
+        }
+        expect(")");
+        return fn(...args);
+      }
+
+      if (token.value in CONSTANTS) return CONSTANTS[token.value];
+      throw new Error(`Unknown name "${token.value}".`);
+    }
+
+    throw new Error(`Unexpected "${token.value}".`);
+  };
+
+  const value = parseExpression();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${tokens[position].value}".`);
+  }
+  if (!Number.isFinite(value)) {
+    throw new Error("The result is not a finite number.");
+  }
+
+  // Trims floating-point noise such as 0.1 + 0.2 = 0.30000000000000004.
+  return Number(value.toPrecision(15));
+}
+
+export const calculatorTool: ServerTool<{ expression: string }> = {
+  definition: {
+    name: "calculator",
+    description:
+      "Evaluates an arithmetic expression exactly. Supports + - * / % ^, parentheses, pi, e and the functions abs, sqrt, cbrt, exp, ln, log (base 10), log2, sin, cos, tan (radians), round, floor, ceil, min and max.",
+    parameters: {
+      type: "object",
+      properties: {
+        expression: {
+          type: "string",
+          description: 'The expression, e.g. "(17.5 * 3) / 2 ^ 4".',
+        },
+      },
+      required: ["expression"],
+    },
+  },
+  parse(input) {
+    const { expression } = input;
+    if (typeof expression !== "string" || !expression.trim()) {
+      return { data: null, error: "'expression' must be a non-empty string." };
+    }
+    if (expression.length > MAX_EXPRESSION_LENGTH) {
+      return {
+        data: null,
+        error: `'expression' is limited to ${MAX_EXPRESSION_LENGTH} characters.`,
+      };
+    }
+    return { data: { expression }, error: null };
+  },
+  async run({ expression }) {
+    return `${expression.trim()} = ${evaluateExpression(expression)}`;
+  },
+};
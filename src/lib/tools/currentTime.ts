@@ -0,0 +1,49 @@
+import type { ServerTool } from "@/lib/tools/types";
+
+function isTimeZone(value: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const currentTimeTool: ServerTool<{ timeZone: string }> = {
+  definition: {
+    name: "current_time",
+    description:
+      "Returns the current date and time, in UTC or in the given IANA time zone.",
+    parameters: {
+      type: "object",
+      properties: {
+        timeZone: {
+          type: "string",
+          description:
+            'An IANA time zone such as "Europe/Berlin". Defaults to UTC.',
+        },
+      },
+    },
+  },
+  parse(input) {
+    const { timeZone = "UTC" } = input;
+    if (typeof timeZone !== "string" || !isTimeZone(timeZone)) {
+      return {
+        data: null,
+        error:
+          "'timeZone' must be an IANA time zone such as \"Europe/Berlin\".",
+      };
+    }
+    return { data: { timeZone }, error: null };
+  },
+  async run({ timeZone }) {
+    const now = new Date();
+    const local = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      dateStyle: "full",
+      timeStyle: "long",
+    }).format(now);
+
+    return `${local} (${timeZone}); ISO 8601 UTC: ${now.toISOString()}`;
+  },
+};
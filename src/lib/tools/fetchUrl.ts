@@ -0,0 +1,146 @@
+import type { ServerTool } from "@/lib/tools/types";
+
+const FETCH_TIMEOUT_MS = 5_000;
+const MAX_RESPONSE_BYTES = 64 * 1024;
+
+/**
+ * URL prefixes the fetch tool may read, from `TOOL_FETCH_ALLOWLIST`
+ * (comma-separated). Without it the tool is not offered at all.
+ */
+function allowedPrefixes() {
+  return (process.env.TOOL_FETCH_ALLOWLIST ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .flatMap((entry) => {
+      try {
+        return [new URL(entry)];
+      } catch {
+        console.error("Ignoring invalid TOOL_FETCH_ALLOWLIST entry", entry);
+        return [];
+      }
+    });
+}
+
+/**
+ * Same origin (scheme, host and port) as an allowed prefix, and a path that
+ * is the prefix's path or lies under it: `https://docs.example.com/api`
+ * allows `/api` and `/api/v1`, but not `/apiary` or `docs.example.com.evil`.
+ */
+function isAllowed(url: URL) {
+  return allowedPrefixes().some((prefix) => {
+    if (url.origin !== prefix.origin) return false;
+
+    const base = prefix.pathname.replace(/\/+$/, "");
+    return url.pathname === base || url.pathname.startsWith(`${base}/`);
+  });
+}
+
+function htmlToText(html: string) {
+  return html
+    .replace(/<(script|style|noscript)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<(br|\/p|\/div|\/li|\/h[1-6]|\/tr)[^>]*>/gi, "\n")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/[^\S\n]+/g, " ")
+    .replace(/ *\n[\s]*/g, "\n")
+    .trim();
+}
+
+async function readLimited(response: Response) {
+  const reader = response.body?.getReader();
+  if (!reader) return { text: "", truncated: false };
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  let truncated = false;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.byteLength;
+    if (size > MAX_RESPONSE_BYTES) {
+      truncated = true;
+      await reader.cancel();
+      break;
+    }
+  }
+
+  const text = new TextDecoder().decode(
+    Buffer.concat(chunks).subarray(0, MAX_RESPONSE_BYTES),
+  );
+  return { text, truncated };
+}
+
+export const fetchUrlTool: ServerTool<{ url: URL }> = {
+  definition: {
+    name: "fetch_url",
+    description:
+      "Fetches a page from the allow-listed sites and returns its text. Only GET requests; other URLs are refused.",
+    parameters: {
+      type: "object",
+      properties: {
+        url: { type: "string", description: "The absolute http(s) URL." },
+      },
+      required: ["url"],
+    },
+  },
+  isEnabled: () => allowedPrefixes().length > 0,
+  parse(input) {
+    const { url } = input;
+    if (typeof url !== "string") {
+      return { data: null, error: "'url' must be a string." };
+    }
+
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return { data: null, error: "'url' must be an absolute URL." };
+    }
+
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+      return { data: null, error: "Only http and https URLs can be fetched." };
+    }
+    if (!isAllowed(parsed)) {
+      return {
+        data: null,
+        error: `${parsed.href} is not on the allow list. Allowed prefixes: ${allowedPrefixes()
+          .map((prefix) => prefix.href)
+          .join(", ")}`,
+      };
+    }
+    return { data: { url: parsed }, error: null };
+  },
+  async run({ url }, { signal }) {
+    const timeout = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+
+    // Redirects are not followed, since they could leave the allow list.
+    const response = await fetch(url, {
+      redirect: "manual",
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+      headers: { accept: "text/html, text/plain, application/json" },
+    });
+
+    if (response.status >= 300 && response.status < 400) {
+      const location = response.headers.get("location");
+      return `HTTP ${response.status}: redirected to ${location ?? "an unknown location"}, which was not followed.`;
+    }
+
+    const { text, truncated } = await readLimited(response);
+    const contentType = response.headers.get("content-type") ?? "";
+    const body = contentType.includes("html") ? htmlToText(text) : text.trim();
+    const suffix = truncated ? "\n[… response truncated]" : "";
+
+    if (!response.ok) {
+      return `HTTP ${response.status}: ${body.slice(0, 500)}`;
+    }
+    return `${body}${suffix}`;
+  },
+};
@@ -0,0 +1,110 @@
+import type { ToolCall } from "@/lib/llm/types";
+import { calculatorTool } from "@/lib/tools/calculator";
+import { currentTimeTool } from "@/lib/tools/currentTime";
+import { fetchUrlTool } from "@/lib/tools/fetchUrl";
+import { searchConversationsTool } from "@/lib/tools/searchConversations";
+import type { ServerTool, ToolContext } from "@/lib/tools/types";
+
+// Keeps a chatty tool from filling the context window on the next step.
+const MAX_RESULT_CHARS = 8_000;
+
+/** A tool whose argument type is sealed inside `prepare`. */
+type RegisteredTool = Pick<ServerTool<unknown>, "definition" | "isEnabled"> & {
+  /** Parses the model's arguments into a ready-to-run call, or an error. */
+  prepare: (
+    input: Record<string, unknown>,
+  ) =>
+    | { run: (context: ToolContext) => Promise<string>; error: null }
+    | { run: null; error: string };
+};
+
+function defineTool<Args>(tool: ServerTool<Args>): RegisteredTool {
+  return {
+    definition: tool.definition,
+    isEnabled: tool.isEnabled,
+    prepare(input) {
+      const parsed = tool.parse(input);
+      if (parsed.error !== null) return { run: null, error: parsed.error };
+      return {
+        run: (context) => tool.run(parsed.data, context),
+        error: null,
+      };
+    },
+  };
+}
+
+const TOOLS: RegisteredTool[] = [
+  defineTool(calculatorTool),
+  defineTool(currentTimeTool),
+  defineTool(searchConversationsTool),
+  defineTool(fetchUrlTool),
+];
+
+/**
+ * Model calls per turn that may still ask for tools (`TOOL_MAX_STEPS`,
+ * default 4). The call after the last step gets no tools, so it has to answer.
+ */
+export function getToolMaxSteps() {
+  const parsed = Number(process.env.TOOL_MAX_STEPS);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : 4;
+}
+
+function enabledTools() {
+  return TOOLS.filter((tool) => tool.isEnabled?.() ?? true);
+}
+
+/** Definitions to offer the model on a tool-capable turn. */
+export function listToolDefinitions() {
+  return enabledTools().map((tool) => tool.definition);
+}
+
+function parseArguments(raw: string): Record<string, unknown> | null {
+  if (!raw.trim()) return {};
+  try {
+    const value: unknown = JSON.parse(raw);
+    return value && typeof value === "object" && !Array.isArray(value)
+      ? (value as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Runs one call from the model. Failures come back as the result text rather
+ * than throwing, so the model sees what went wrong and can try again.
+ */
+export async function executeToolCall(call: ToolCall, context: ToolContext) {
+  const tool = enabledTools().find((t) => t.definition.name === call.name);
+  if (!tool) {
+    return { content: `Error: unknown tool "${call.name}".`, isError: true };
+  }
+
+  const input = parseArguments(call.arguments);
+  if (!input) {
+    return {
+      content: "Error: the arguments must be a JSON object.",
+      isError: true,
+    };
+  }
+
+  const prepared = tool.prepare(input);
+  if (prepared.error !== null) {
+    return { content: `Error: ${prepared.error}`, isError: true };
+  }
+
+  try {
+    const result = await prepared.run(context);
+    return {
+      content:
+        result.length > MAX_RESULT_CHARS
+          ? `${result.slice(0, MAX_RESULT_CHARS)}\n[… truncated]`
+          : result,
+      isError: false,
+    };
+  } catch (e) {
+    console.error("Error running tool", call.name, e);
+    const message = e instanceof Error ? e.message : "The tool failed.";
+    return { content: `Error: ${message}`, isError: true };
+  }
+}
@@ -0,0 +1,66 @@
+import { searchMessages } from "@/lib/conversations";
+import type { ServerTool } from "@/lib/tools/types";
+
+const DEFAULT_LIMIT = 5;
+const MAX_LIMIT = 10;
+
+export const searchConversationsTool: ServerTool<{
+  query: string;
+  limit: number;
+}> = {
+  definition: {
+    name: "search_conversations",
+    description:
+      "Full-text search over the user's own earlier conversations. Returns matching snippets with the conversation title and date.",
+    parameters: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description:
+            'Search terms; supports "quoted phrases", OR and -exclusions.',
+        },
+        limit: {
+          type: "integer",
+          minimum: 1,
+          maximum: MAX_LIMIT,
+          description: `How many matches to return (default ${DEFAULT_LIMIT}).`,
+        },
+      },
+      required: ["query"],
+    },
+  },
+  parse(input) {
+    const { query, limit = DEFAULT_LIMIT } = input;
+    if (typeof query !== "string" || !query.trim()) {
+      return { data: null, error: "'query' must be a non-empty string." };
+    }
+    if (
+      typeof limit !== "number" ||
+      !Number.isInteger(limit) ||
+      limit < 1 ||
+      limit > MAX_LIMIT
+    ) {
+      return {
+        data: null,
+        error: `'limit' must be an integer from 1 to ${MAX_LIMIT}.`,
+      };
+    }
+    return { data: { query: query.trim(), limit }, error: null };
+  },
+  async run({ query, limit }, { caller }) {
+    const { data, error } = await searchMessages(caller, query, limit);
+    if (error) throw new Error("The search failed.");
+    if (data.length === 0) return `No messages match "${query}".`;
+
+    return data
+      .map((result, index) => {
+        const title = result.conversation_title ?? "Untitled conversation";
+        const date = result.created_at.slice(0, 10);
+        // Drops the highlight markers the sidebar uses.
+        const snippet = result.snippet.replace(/[\u0002\u0003]/g, "");
+        return `${index + 1}. "${title}" (${result.role}, ${date}): ${snippet}`;
+      })
+      .join("\n");
+  },
+};
@@ -0,0 +1,23 @@
+import type { Caller } from "@/lib/auth";
+import type { ToolDefinition } from "@/lib/llm/types";
+
+export type ToolContext = {
+  caller: Caller;
+  signal?: AbortSignal;
+};
+
+export type ParsedArguments<Args> =
+  { data: Args; error: null } | { data: null; error: string };
+
+/**
+ * A tool the server runs on the model's behalf. `parse` validates the
+ * model's arguments; its error message, like anything `run` throws, is sent
+ * back to the model as the tool result so it can correct itself.
+ */
+export type ServerTool<Args> = {
+  definition: ToolDefinition;
+  /** Tools that need configuration are left out until it is present. */
+  isEnabled?: () => boolean;
+  parse: (input: Record<string, unknown>) => ParsedArguments<Args>;
+  run: (args: Args, context: ToolContext) => Promise<string>;
+};
@@ -0,0 +1,122 @@
+import type { PGlite } from "@electric-sql/pglite";
+import { NextRequest } from "next/server";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { POST as createChatCompletion } from "@/app/api/v1/chat/completions/route";
+import { authenticateApiKey, generateApiKey, hashApiKey } from "@/lib/apiKeys";
+import { createTestDatabase } from "./database";
+import { createPostgrestFetch } from "./postgrest";
+import { seedDatabase, type SeededUser } from "./seed";
+
+function requestWith(authorization: string | null, body: unknown = {}) {
+  return new NextRequest("http://localhost/api/v1/chat/completions", {
+    method: "POST",
+    headers: authorization ? { authorization } : {},
+    body: JSON.stringify(body),
+  });
+}
+
+describe("API key authentication", () => {
+  let db: PGlite;
+  let alice: SeededUser;
+  let activeKey: ReturnType<typeof generateApiKey>;
+  let activeKeyId: string;
+  let revokedKey: ReturnType<typeof generateApiKey>;
+
+  async function insertKey(
+    key: ReturnType<typeof generateApiKey>,
+    revoked = false,
+  ) {
+    const { rows } = await db.query<{ id: string }>(
+      `insert into api_keys (user_id, name, key_prefix, key_hash, revoked_at)
+       values ($1, 'ci', $2, $3, $4) returning id`,
+      [alice.id, key.prefix, key.hash, revoked ? new Date() : null],
+    );
+    return rows[0].id;
+  }
+
+  beforeAll(async () => {
+    vi.stubEnv("ENABLE_MOCK_PROVIDER", "true");
+    db = await createTestDatabase();
+    ({ alice } = await seedDatabase(db));
+    vi.stubGlobal("fetch", createPostgrestFetch(db, {}));
+
+    activeKey = generateApiKey();
+    activeKeyId = await insertKey(activeKey);
+    revokedKey = generateApiKey();
+    await insertKey(revokedKey, true);
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    await db.close();
+  });
+
+  it("generates keys whose plaintext is never what is stored", () => {
+    const { key, prefix, hash } = generateApiKey();
+
+    expect(key).toMatch(/^sk-chat-[A-Za-z0-9_-]{32}$/);
+    expect(key.startsWith(prefix)).toBe(true);
+    expect(hash).toBe(hashApiKey(key));
+    expect(hash).not.toContain(key);
+  });
+
+  it("resolves an active key to its owner and marks it used", async () => {
+    const caller = await authenticateApiKey(
+      requestWith(`Bearer ${activeKey.key}`),
+    );
+
+    expect(caller).toEqual({ keyId: activeKeyId, userId: alice.id });
+    const { rows } = await db.query<{ last_used_at: Date | null }>(
+      "select last_used_at from api_keys where id = $1",
+      [activeKeyId],
+    );
+    expect(rows[0].last_used_at).not.toBeNull();
+  });
+
+  it.each([
+    ["no header", null],
+    ["a revoked key", () => `Bearer ${revokedKey.key}`],
+    ["an unknown key", () => `Bearer ${generateApiKey().key}`],
+    ["a Supabase access token", "Bearer alice-access-token"],
+    ["a non-bearer scheme", () => `Basic ${activeKey.key}`],
+  ])("rejects %s", async (_, authorization) => {
+    const header =
+      typeof authorization === "function" ? authorization() : authorization;
+
+    expect(await authenticateApiKey(requestWith(header))).toBeNull();
+  });
+
+  it("answers completions for a valid key and logs usage against it", async () => {
+    const response = await createChatCompletion(
+      requestWith(`Bearer ${activeKey.key}`, {
+        model: "mock:mock-echo",
+        messages: [{ role: "user", content: "ping" }],
+      }),
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.choices[0].message.content).toBe(
+      "Mock reply from mock-echo: ping",
+    );
+    const { rows } = await db.query<{ status: string }>(
+      "select status from model_invocations where api_key_id = $1",
+      [activeKeyId],
+    );
+    expect(rows).toEqual([{ status: "success" }]);
+  });
+
+  it("returns an OpenAI-style 401 for a revoked key", async () => {
+    const response = await createChatCompletion(
+      requestWith(`Bearer ${revokedKey.key}`, {
+        messages: [{ role: "user", content: "ping" }],
+      }),
+    );
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({
+      error: { type: "authentication_error" },
+    });
+  });
+});
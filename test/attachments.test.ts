@@ -0,0 +1,150 @@
+import { deflateSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import {
+  classifyAttachment,
+  extractAttachmentText,
+  withAttachmentText,
+  type Attachment,
+} from "@/lib/attachments";
+
+function attachment(overrides: Partial<Attachment>): Attachment {
+  return {
+    id: "attachment-id",
+    message_id: null,
+    kind: "text",
+    file_name: "notes.txt",
+    content_type: "text/plain",
+    size_bytes: 0,
+    created_at: "2026-01-01T00:00:00Z",
+    user_id: null,
+    guest_id: "guest-test",
+    conversation_id: null,
+    storage_path: "guest-test/notes.txt",
+    extracted_text: null,
+    ...overrides,
+  };
+}
+
+/** A one-page PDF whose content stream shows `text`. */
+function pdfWith(text: string, { compressed = false } = {}) {
+  const content = Buffer.from(`BT /F1 12 Tf (${text}) Tj ET`, "latin1");
+  const data = compressed ? deflateSync(content) : content;
+  const filter = compressed ? " /Filter /FlateDecode" : "";
+
+  return Buffer.concat([
+    Buffer.from(
+      `%PDF-1.4\n4 0 obj\n<< /Length ${data.length}${filter} >>\nstream\n`,
+      "latin1",
+    ),
+    data,
+    Buffer.from("\nendstream\nendobj\n%%EOF\n", "latin1"),
+  ]);
+}
+
+describe("classifyAttachment", () => {
+  it.each([
+    ["photo.png", "image/png", "image"],
+    ["photo.JPG", "image/jpeg", "image"],
+    ["paper.pdf", "application/pdf", "pdf"],
+    ["paper.pdf", "application/octet-stream", "pdf"],
+    ["notes.txt", "text/plain; charset=utf-8", "text"],
+    ["data.json", "application/json", "text"],
+    ["main.rs", "application/octet-stream", "text"],
+    ["Makefile", "text/x-makefile", "text"],
+  ])("treats %s (%s) as %s", (fileName, contentType, kind) => {
+    expect(classifyAttachment(fileName, contentType)).toBe(kind);
+  });
+
+  it.each([
+    ["movie.mp4", "video/mp4"],
+    ["icon.svg", "image/svg+xml"],
+    ["archive.zip", "application/zip"],
+    ["binary", "application/octet-stream"],
+  ])("rejects %s (%s)", (fileName, contentType) => {
+    expect(classifyAttachment(fileName, contentType)).toBeNull();
+  });
+});
+
+describe("extractAttachmentText", () => {
+  it("has no text for images", () => {
+    expect(extractAttachmentText("image", Buffer.from("GIF89a"))).toBeNull();
+  });
+
+  it("trims text files and treats blank ones as having no text", () => {
+    expect(extractAttachmentText("text", Buffer.from("  hello\n"))).toBe(
+      "hello",
+    );
+    expect(extractAttachmentText("text", Buffer.from(" \n\t"))).toBeNull();
+  });
+
+  it("reads the text of plain and Flate-compressed PDF streams", () => {
+    expect(extractAttachmentText("pdf", pdfWith("Quarterly report"))).toBe(
+      "Quarterly report",
+    );
+    expect(
+      extractAttachmentText(
+        "pdf",
+        pdfWith("Compressed page", { compressed: true }),
+      ),
+    ).toBe("Compressed page");
+  });
+
+  it("has no text for a PDF without text operators", () => {
+    expect(
+      extractAttachmentText("pdf", Buffer.from("%PDF-1.4\n%%EOF\n")),
+    ).toBeNull();
+  });
+});
+
+describe("withAttachmentText", () => {
+  it("returns the message unchanged without attachments", () => {
+    expect(withAttachmentText("Hello", [])).toBe("Hello");
+  });
+
+  it("inlines file text after the message and names images only", () => {
+    const content = withAttachmentText("Summarize these", [
+      attachment({ file_name: "notes.txt", extracted_text: "Buy milk." }),
+      attachment({ kind: "image", file_name: "chart.png" }),
+      attachment({ kind: "pdf", file_name: "scan.pdf" }),
+    ]);
+
+    expect(content).toBe(
+      [
+        "Summarize these",
+        "[Attached text: notes.txt]\nBuy milk.\n[End of notes.txt]",
+        "[Attached image: chart.png]",
+        "[Attached pdf: scan.pdf]\n(No text could be extracted from this file.)",
+      ].join("\n\n"),
+    );
+  });
+
+  it("splits the token budget between attachments with text", () => {
+    const long = "x".repeat(4_000);
+    const content = withAttachmentText(
+      "Compare",
+      [
+        attachment({ file_name: "a.txt", extracted_text: long }),
+        attachment({ file_name: "b.txt", extracted_text: long }),
+      ],
+      200,
+    );
+
+    const blocks = content.split("\n\n").slice(1);
+    expect(blocks).toHaveLength(2);
+    for (const block of blocks) {
+      expect(block).toContain("[… truncated to fit the context window]");
+      // Each file gets half of the 200 tokens, about 400 characters.
+      expect(block.length).toBeLessThan(500);
+    }
+  });
+
+  it("names a file without its text when the budget leaves no room", () => {
+    expect(
+      withAttachmentText(
+        "Hi",
+        [attachment({ file_name: "a.txt", extracted_text: "x".repeat(100) })],
+        0,
+      ),
+    ).toBe("Hi\n\n[Attached text: a.txt]");
+  });
+});
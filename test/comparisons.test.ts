@@ -0,0 +1,145 @@
+import type { PGlite } from "@electric-sql/pglite";
+import { NextRequest } from "next/server";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { POST as vote } from "@/app/api/comparisons/[id]/vote/route";
+import { createComparison, recordVote } from "@/lib/comparisons";
+import { createTestDatabase } from "./database";
+import { createPostgrestFetch } from "./postgrest";
+import { seedDatabase, type SeededUser } from "./seed";
+
+const ACCESS_TOKENS = { alice: "alice-access-token", bob: "bob-access-token" };
+
+function voteAs(accessToken: string, id: string, winner: unknown) {
+  return vote(
+    new NextRequest(`http://localhost/api/comparisons/${id}/vote`, {
+      method: "POST",
+      headers: { authorization: `Bearer ${accessToken}` },
+      body: JSON.stringify({ winner }),
+    }),
+    { params: Promise.resolve({ id }) },
+  );
+}
+
+describe("voting on model comparisons", () => {
+  let db: PGlite;
+  let alice: SeededUser;
+  let bob: SeededUser;
+
+  /** A compare-mode turn on alice's seeded question, answered by two models. */
+  async function createAliceComparison() {
+    const sides = [];
+    for (const model of ["echo-a", "echo-b"]) {
+      const { rows } = await db.query<{ invocation: string; message: string }>(
+        `with invocation as (
+           insert into model_invocations (conversation_id, provider, model)
+           values ($1, 'mock', $2) returning id
+         )
+         insert into messages (conversation_id, role, content, parent_id, invocation_id)
+         select $1, 'assistant', $2, $3, id from invocation
+         returning invocation_id as invocation, id as message`,
+        [alice.conversationId, model, alice.userMessageId],
+      );
+      sides.push(rows[0]);
+    }
+
+    const { data } = await createComparison({
+      conversationId: alice.conversationId,
+      userMessageId: alice.userMessageId,
+      a: { messageId: sides[0].message, invocationId: sides[0].invocation },
+      b: { messageId: sides[1].message, invocationId: sides[1].invocation },
+      blind: true,
+    });
+    return { id: data!, a: sides[0].message, b: sides[1].message };
+  }
+
+  async function activeMessageOf(conversationId: string) {
+    const { rows } = await db.query<{ active_message_id: string | null }>(
+      "select active_message_id from conversations where id = $1",
+      [conversationId],
+    );
+    return rows[0].active_message_id;
+  }
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    ({ alice, bob } = await seedDatabase(db));
+    vi.stubGlobal(
+      "fetch",
+      createPostgrestFetch(db, {
+        [ACCESS_TOKENS.alice]: alice.id,
+        [ACCESS_TOKENS.bob]: bob.id,
+      }),
+    );
+  });
+
+  afterAll(async () => {
+    vi.unstubAllGlobals();
+    await db.close();
+  });
+
+  it("records a vote once, reveals the models and follows the winner", async () => {
+    const comparison = await createAliceComparison();
+
+    const response = await voteAs(ACCESS_TOKENS.alice, comparison.id, "b");
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      comparison: {
+        id: comparison.id,
+        winner: "b",
+        models: { a: "mock:echo-a", b: "mock:echo-b" },
+        messageIds: { a: comparison.a, b: comparison.b },
+      },
+      activeMessageId: comparison.b,
+    });
+    expect(await activeMessageOf(alice.conversationId)).toBe(comparison.b);
+
+    const again = await voteAs(ACCESS_TOKENS.alice, comparison.id, "a");
+
+    expect(again.status).toBe(409);
+    const { rows } = await db.query<{ winner: string }>(
+      "select winner from model_preferences where id = $1",
+      [comparison.id],
+    );
+    expect(rows[0].winner).toBe("b");
+    expect(await activeMessageOf(alice.conversationId)).toBe(comparison.b);
+  });
+
+  it("lets only the first of two racing votes through", async () => {
+    const comparison = await createAliceComparison();
+
+    const first = await recordVote(comparison.id, "a");
+    const second = await recordVote(comparison.id, "tie");
+
+    expect(first).toMatchObject({
+      data: {
+        winner: "a",
+        invocation_a: { provider: "mock", model: "echo-a" },
+        invocation_b: { provider: "mock", model: "echo-b" },
+      },
+      error: null,
+    });
+    expect(second).toEqual({ data: null, error: null });
+  });
+
+  it("hides another user's comparison", async () => {
+    const comparison = await createAliceComparison();
+
+    const response = await voteAs(ACCESS_TOKENS.bob, comparison.id, "a");
+
+    expect(response.status).toBe(404);
+    const { rows } = await db.query<{ winner: string | null }>(
+      "select winner from model_preferences where id = $1",
+      [comparison.id],
+    );
+    expect(rows[0].winner).toBeNull();
+  });
+
+  it("rejects an unknown winner", async () => {
+    const comparison = await createAliceComparison();
+
+    expect(
+      (await voteAs(ACCESS_TOKENS.alice, comparison.id, "both")).status,
+    ).toBe(400);
+  });
+});
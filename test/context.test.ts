@@ -0,0 +1,260 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  fitToBudget,
+  getContextBudget,
+  splitAtSummary,
+  summarizeTurns,
+} from "@/lib/context";
+import type { StoredMessage } from "@/lib/conversations";
+import type { ModelOption } from "@/lib/llm/registry";
+import type { FailedAttempt } from "@/lib/llm/resilience";
+import type { ChatCompletionMessage } from "@/lib/llm/types";
+
+const mocks = vi.hoisted(() => ({
+  completeWithRetries: vi.fn(),
+  recordInvocation: vi.fn(),
+}));
+
+vi.mock("@/lib/llm/resilience", () => ({
+  completeWithRetries: mocks.completeWithRetries,
+}));
+
+vi.mock("@/lib/invocations", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/invocations")>()),
+  recordInvocation: mocks.recordInvocation,
+}));
+
+const model: ModelOption = {
+  id: "mock:echo",
+  provider: "mock",
+  model: "echo",
+  label: "echo",
+  contextTokens: 4_000,
+  supportsVision: false,
+  supportsTools: false,
+};
+
+// 400 characters is 100 tokens, plus 4 tokens of message overhead.
+const TURN_TOKENS = 104;
+
+function turn(index: number, length = 400): ChatCompletionMessage {
+  return {
+    role: index % 2 === 0 ? "user" : "assistant",
+    content: String(index).padEnd(length, "."),
+  };
+}
+
+function stored(
+  id: string,
+  parentId: string | null,
+  role: StoredMessage["role"] = "user",
+): StoredMessage {
+  return {
+    id,
+    role,
+    content: id,
+    created_at: "2026-01-01T00:00:00Z",
+    parent_id: parentId,
+    summarizes_until: role === "system" ? "2026-01-01T00:00:00Z" : null,
+    tool_calls: null,
+    tool_call_id: null,
+    tool_name: null,
+  };
+}
+
+describe("getContextBudget", () => {
+  it("keeps a quarter of a small window for the reply", () => {
+    expect(getContextBudget(model)).toBe(3_000);
+  });
+
+  it("keeps at most 4096 tokens for the reply", () => {
+    expect(getContextBudget({ ...model, contextTokens: 128_000 })).toBe(
+      128_000 - 4096,
+    );
+  });
+});
+
+describe("fitToBudget", () => {
+  const turns = Array.from({ length: 10 }, (_, index) => turn(index));
+  const newTurn = turn(10);
+
+  it("keeps every turn when they fit and nothing was summarized", () => {
+    const fitted = fitToBudget({
+      turns,
+      newTurn,
+      summary: null,
+      budgetTokens: 11 * TURN_TOKENS,
+    });
+
+    expect(fitted).toEqual({ kept: turns, overflow: [] });
+  });
+
+  it("returns null when the new turn alone is over budget", () => {
+    expect(
+      fitToBudget({
+        turns,
+        newTurn,
+        summary: null,
+        budgetTokens: TURN_TOKENS - 1,
+      }),
+    ).toBeNull();
+  });
+
+  it("reserves room for a summary and overflows the oldest turns", () => {
+    // The new turn, the 600-token summary reserve and two turns fit.
+    const fitted = fitToBudget({
+      turns,
+      newTurn,
+      summary: null,
+      budgetTokens: TURN_TOKENS + 600 + 2 * TURN_TOKENS + 50,
+    });
+
+    expect(fitted?.kept).toEqual(turns.slice(8));
+    expect(fitted?.overflow).toEqual(turns.slice(0, 8));
+  });
+
+  it("makes room for an existing summary larger than the reserve", () => {
+    const budgetTokens = TURN_TOKENS + 600 + 4 * TURN_TOKENS;
+    const short = fitToBudget({
+      turns,
+      newTurn,
+      summary: "Short.",
+      budgetTokens,
+    });
+    const long = fitToBudget({
+      turns,
+      newTurn,
+      summary: "x".repeat(3_200),
+      budgetTokens,
+    });
+
+    expect(short?.kept).toHaveLength(4);
+    expect(long?.kept).toHaveLength(1);
+  });
+
+  it("keeps only newer turns than one that does not fit", () => {
+    const withLongTurn = [turn(0), turn(1, 4_000), turn(2), turn(3)];
+    const fitted = fitToBudget({
+      turns: withLongTurn,
+      newTurn,
+      summary: null,
+      budgetTokens: TURN_TOKENS + 600 + 4 * TURN_TOKENS,
+    });
+
+    expect(fitted?.kept).toEqual(withLongTurn.slice(2));
+    expect(fitted?.overflow).toEqual(withLongTurn.slice(0, 2));
+  });
+});
+
+describe("splitAtSummary", () => {
+  const path = [
+    stored("q1", null),
+    stored("a1", "q1", "assistant"),
+    stored("q2", "a1"),
+    stored("a2", "q2", "assistant"),
+    stored("q3", "a2"),
+  ];
+
+  it("returns the whole path when nothing was summarized", () => {
+    expect(splitAtSummary(path, [])).toEqual({ summary: null, turns: path });
+  });
+
+  it("returns the turns after the newest summary on the path", () => {
+    const older = stored("summary through a1", "a1", "system");
+    const newer = stored("summary through a2", "a2", "system");
+    const { summary, turns } = splitAtSummary(path, [older, newer]);
+
+    expect(summary).toBe(newer);
+    expect(turns.map((m) => m.id)).toEqual(["q3"]);
+  });
+
+  it("ignores summaries of another branch", () => {
+    const otherBranch = stored("summary elsewhere", "edited q2", "system");
+    const onPath = stored("summary through a1", "a1", "system");
+    const { summary, turns } = splitAtSummary(path, [onPath, otherBranch]);
+
+    expect(summary).toBe(onPath);
+    expect(turns.map((m) => m.id)).toEqual(["q2", "a2", "q3"]);
+  });
+});
+
+describe("summarizeTurns", () => {
+  beforeEach(() => {
+    mocks.completeWithRetries.mockReset();
+    mocks.recordInvocation.mockReset();
+  });
+
+  it("folds the previous summary in and logs every call as a summary", async () => {
+    mocks.completeWithRetries.mockImplementation(
+      async ({
+        onFailedAttempt,
+      }: {
+        onFailedAttempt: (attempt: FailedAttempt) => Promise<void>;
+      }) => {
+        await onFailedAttempt({
+          model,
+          code: "upstream_rate_limited",
+          latencyMs: 5,
+        });
+        return {
+          model,
+          result: {
+            content: "  The user likes tea.  ",
+            usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+          },
+        };
+      },
+    );
+
+    const summary = await summarizeTurns({
+      conversationId: "conversation-id",
+      model,
+      previousSummary: "The user is called Sam.",
+      turns: [
+        { role: "user", content: "I like tea." },
+        { role: "assistant", content: "Noted." },
+      ],
+    });
+
+    expect(summary).toBe("The user likes tea.");
+    const [{ call }] = mocks.completeWithRetries.mock.calls[0];
+    expect(call.messages[1].content).toBe(
+      "Previous summary:\nThe user is called Sam.\n\nConversation since then:\nUser: I like tea.\n\nAssistant: Noted.",
+    );
+    expect(
+      mocks.recordInvocation.mock.calls.map(([row]) => [
+        row.status,
+        row.purpose,
+      ]),
+    ).toEqual([
+      ["upstream_rate_limited", "summary"],
+      ["success", "summary"],
+    ]);
+  });
+
+  it("keeps the tail of a transcript larger than the model can read", async () => {
+    mocks.completeWithRetries.mockResolvedValue({
+      model,
+      result: { content: "Summary.", usage: {} },
+    });
+
+    await summarizeTurns({
+      conversationId: "conversation-id",
+      model,
+      previousSummary: null,
+      turns: [
+        { role: "user", content: "OLDEST".padEnd(20_000, ".") },
+        { role: "assistant", content: "NEWEST" },
+      ],
+    });
+
+    const [{ call }] = mocks.completeWithRetries.mock.calls[0];
+    const input: string = call.messages[1].content;
+    // The budget is 3000 - 1024 tokens, about 7904 characters.
+    expect(input.length).toBeLessThanOrEqual(
+      "Conversation:\n".length + (3_000 - 1024) * 4,
+    );
+    expect(input).not.toContain("OLDEST");
+    expect(input.endsWith("Assistant: NEWEST")).toBe(true);
+  });
+});
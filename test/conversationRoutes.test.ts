@@ -0,0 +1,159 @@
+import type { PGlite } from "@electric-sql/pglite";
+import { NextRequest } from "next/server";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { GET as getConversation } from "@/app/api/conversations/[id]/route";
+import { GET as listConversationsRoute } from "@/app/api/conversations/route";
+import type { Caller } from "@/lib/auth";
+import {
+  getOwnedConversation,
+  listConversationMessages,
+  listConversations,
+} from "@/lib/conversations";
+import { supabaseServerClient } from "@/lib/supabaseServerClient";
+import { getReadClient } from "@/lib/supabaseRequestClient";
+import { createTestDatabase } from "./database";
+import { createPostgrestFetch } from "./postgrest";
+import { seedDatabase, type SeededUser } from "./seed";
+
+const ACCESS_TOKENS = { alice: "alice-access-token", bob: "bob-access-token" };
+
+function requestAs(path: string, accessToken: string | null) {
+  return new NextRequest(`http://localhost${path}`, {
+    headers: accessToken ? { authorization: `Bearer ${accessToken}` } : {},
+  });
+}
+
+describe("conversation routes read through the caller's RLS scope", () => {
+  let db: PGlite;
+  let alice: SeededUser;
+  let bob: SeededUser;
+  let guestConversationId: string;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    ({ alice, bob, guestConversationId } = await seedDatabase(db));
+    vi.stubGlobal(
+      "fetch",
+      createPostgrestFetch(db, {
+        [ACCESS_TOKENS.alice]: alice.id,
+        [ACCESS_TOKENS.bob]: bob.id,
+      }),
+    );
+  });
+
+  afterAll(async () => {
+    vi.unstubAllGlobals();
+    await db.close();
+  });
+
+  it("lists only the caller's conversations", async () => {
+    const response = await listConversationsRoute(
+      requestAs("/api/conversations", ACCESS_TOKENS.alice),
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.conversations.map((c: { id: string }) => c.id)).toEqual([
+      alice.conversationId,
+    ]);
+  });
+
+  it("returns the caller's own conversation with its messages", async () => {
+    const response = await getConversation(
+      requestAs(
+        `/api/conversations/${alice.conversationId}`,
+        ACCESS_TOKENS.alice,
+      ),
+      { params: Promise.resolve({ id: alice.conversationId }) },
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.messages.map((m: { id: string }) => m.id)).toEqual([
+      alice.userMessageId,
+      alice.replyId,
+    ]);
+  });
+
+  it("does not return another user's conversation", async () => {
+    const response = await getConversation(
+      requestAs(
+        `/api/conversations/${bob.conversationId}`,
+        ACCESS_TOKENS.alice,
+      ),
+      { params: Promise.resolve({ id: bob.conversationId }) },
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(JSON.stringify(body)).not.toContain("bob");
+  });
+
+  it("does not return a signed-in user's conversation to a guest", async () => {
+    const response = await getConversation(
+      requestAs(
+        `/api/conversations/${alice.conversationId}?guestId=${alice.guestId}`,
+        null,
+      ),
+      { params: Promise.resolve({ id: alice.conversationId }) },
+    );
+
+    expect(response.status).toBe(404);
+  });
+
+  it("does not return a guest conversation to a signed-in user", async () => {
+    const response = await getConversation(
+      requestAs(`/api/conversations/${guestConversationId}`, ACCESS_TOKENS.bob),
+      { params: Promise.resolve({ id: guestConversationId }) },
+    );
+
+    expect(response.status).toBe(404);
+  });
+
+  // The routes filter by owner as well; these call the read helpers as if
+  // that filter were wrong, so only RLS stands between the caller and the rows.
+  describe("with a broken ownership filter", () => {
+    const aliceClient = () =>
+      getReadClient(requestAs("/", ACCESS_TOKENS.alice), {
+        userId: alice.id,
+        guestId: null,
+      });
+    const forgedCaller = (): Caller => ({ userId: bob.id, guestId: null });
+
+    it("reads no messages of another user's conversation", async () => {
+      const unscoped = await listConversationMessages(
+        bob.conversationId,
+        supabaseServerClient,
+      );
+      const scoped = await listConversationMessages(
+        bob.conversationId,
+        aliceClient(),
+      );
+
+      expect(unscoped.data).toHaveLength(2);
+      expect(scoped.error).toBeNull();
+      expect(scoped.data).toEqual([]);
+    });
+
+    it("resolves another user's conversation to nothing", async () => {
+      const { data, error } = await getOwnedConversation(
+        forgedCaller(),
+        bob.conversationId,
+        aliceClient(),
+      );
+
+      expect(error).toBeNull();
+      expect(data).toBeNull();
+    });
+
+    it("lists none of another user's conversations", async () => {
+      const { data, error } = await listConversations(
+        forgedCaller(),
+        aliceClient(),
+      );
+
+      expect(error).toBeNull();
+      expect(data).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { PGlite, type Transaction } from "@electric-sql/pglite";
+import { pgcrypto } from "@electric-sql/pglite/contrib/pgcrypto";
+
+const MIGRATIONS_DIR = path.join(__dirname, "..", "db", "migrations");
+
+// What a Supabase database provides before the migrations run: the API roles
+// with Supabase's default grants (every table in `public` is open to anon and
+// authenticated until RLS says otherwise), `auth.users` and `auth.uid()`.
+const SUPABASE_SHIM = `
+create role anon nologin;
+create role authenticated nologin;
+create role service_role nologin bypassrls;
+
+grant usage on schema public to anon, authenticated, service_role;
+alter default privileges in schema public
+  grant all on tables to anon, authenticated, service_role;
+alter default privileges in schema public
+  grant all on functions to anon, authenticated, service_role;
+alter default privileges in schema public
+  grant all on sequences to anon, authenticated, service_role;
+
+create schema auth;
+grant usage on schema auth to anon, authenticated, service_role;
+
+create table auth.users (
+  id uuid primary key,
+  email text
+);
+
+create function auth.uid() returns uuid
+language sql
+stable
+as $$
+  select (nullif(current_setting('request.jwt.claims', true), '')::jsonb ->> 'sub')::uuid
+$$;
+`;
+
+export type DatabaseRole = "anon" | "authenticated" | "service_role";
+
+/** A throwaway in-memory Postgres with every migration applied in order. */
+export async function createTestDatabase() {
+  const db = await PGlite.create({ extensions: { pgcrypto } });
+  await db.exec(SUPABASE_SHIM);
+
+  const files = readdirSync(MIGRATIONS_DIR)
+    .filter((file) => /^\d+_.+\.sql$/.test(file) && !file.endsWith(".down.sql"))
+    .sort();
+
+  for (const file of files) {
+    await db.exec(readFileSync(path.join(MIGRATIONS_DIR, file), "utf8"));
+  }
+
+  return db;
+}
+
+/**
+ * Runs `work` the way PostgREST runs a request: in a transaction, as `role`,
+ * with the caller's JWT claims visible to `auth.uid()`. Nothing is committed
+ * unless `commit` is set.
+ */
+export async function asRole<T>(
+  db: PGlite,
+  role: DatabaseRole,
+  userId: string | null,
+  work: (tx: Transaction) => Promise<T>,
+  { commit = false }: { commit?: boolean } = {},
+) {
+  let result: T | undefined;
+
+  await db.transaction(async (tx) => {
+    await tx.exec(`set local role ${role}`);
+    await tx.query("select set_config('request.jwt.claims', $1, true)", [
+      JSON.stringify(userId ? { sub: userId, role } : { role }),
+    ]);
+    result = await work(tx);
+    if (!commit) await tx.rollback();
+  });
+
+  return result as T;
+}
@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fetchUrlTool } from "@/lib/tools/fetchUrl";
+
+function parseUrl(url: unknown) {
+  return fetchUrlTool.parse({ url });
+}
+
+describe("fetch_url allow list", () => {
+  beforeEach(() => {
+    vi.stubEnv(
+      "TOOL_FETCH_ALLOWLIST",
+      "https://docs.example.com/api, https://status.example.com",
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it("is offered only when an allow list is configured", () => {
+    expect(fetchUrlTool.isEnabled?.()).toBe(true);
+    vi.stubEnv("TOOL_FETCH_ALLOWLIST", "");
+    expect(fetchUrlTool.isEnabled?.()).toBe(false);
+  });
+
+  it.each([
+    "https://docs.example.com/api",
+    "https://docs.example.com/api/",
+    "https://docs.example.com/api/v1/users?page=2",
+    "https://status.example.com/",
+    "https://status.example.com/incidents/42",
+  ])("allows %s", (url) => {
+    const { data, error } = parseUrl(url);
+
+    expect(error).toBeNull();
+    expect(data?.url.href).toBe(new URL(url).href);
+  });
+
+  it.each([
+    // A sibling path that only shares the prefix's characters.
+    "https://docs.example.com/apiary",
+    "https://docs.example.com/",
+    // A host that starts with an allowed one.
+    "https://docs.example.com.evil.test/api",
+    "https://docs.example.com@evil.test/api",
+    // Same host, different scheme or port.
+    "http://docs.example.com/api",
+    "https://docs.example.com:8443/api",
+    "https://other.example.com/api",
+  ])("refuses %s", (url) => {
+    const { data, error } = parseUrl(url);
+
+    expect(data).toBeNull();
+    expect(error).toContain("is not on the allow list");
+  });
+
+  it("refuses arguments that are not absolute http(s) URLs", () => {
+    expect(parseUrl(42).error).toBe("'url' must be a string.");
+    expect(parseUrl("/api/v1").error).toBe("'url' must be an absolute URL.");
+    expect(parseUrl("file:///etc/passwd").error).toBe(
+      "Only http and https URLs can be fetched.",
+    );
+  });
+
+  it("does not follow redirects, which could leave the allow list", async () => {
+    const fetchMock = vi.fn(
+      async () =>
+        new Response(null, {
+          status: 302,
+          headers: { location: "https://evil.test/" },
+        }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const { data } = parseUrl("https://docs.example.com/api/moved");
+    const result = await fetchUrlTool.run(data!, {
+      caller: { userId: null, guestId: "guest-test" },
+    });
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      data!.url,
+      expect.objectContaining({ redirect: "manual" }),
+    );
+    expect(result).toBe(
+      "HTTP 302: redirected to https://evil.test/, which was not followed.",
+    );
+  });
+});
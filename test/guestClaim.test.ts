@@ -0,0 +1,115 @@
+import { randomUUID } from "node:crypto";
+import type { PGlite } from "@electric-sql/pglite";
+import { NextRequest } from "next/server";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { POST as claimGuestConversations } from "@/app/api/guest/claim/route";
+import { createTestDatabase } from "./database";
+import { createPostgrestFetch } from "./postgrest";
+import { seedDatabase, type SeededUser } from "./seed";
+
+const ACCESS_TOKENS = { alice: "alice-access-token", bob: "bob-access-token" };
+
+function claimAs(accessToken: string | null, body: unknown) {
+  return claimGuestConversations(
+    new NextRequest("http://localhost/api/guest/claim", {
+      method: "POST",
+      headers: accessToken ? { authorization: `Bearer ${accessToken}` } : {},
+      body: JSON.stringify(body),
+    }),
+  );
+}
+
+describe("claiming guest conversations on sign-in", () => {
+  let db: PGlite;
+  let alice: SeededUser;
+  let bob: SeededUser;
+
+  async function createGuestConversation(guestId: string) {
+    const { rows } = await db.query<{ id: string }>(
+      "insert into conversations (guest_id, title) values ($1, 'Guest chat') returning id",
+      [guestId],
+    );
+    return rows[0].id;
+  }
+
+  async function ownerOf(conversationId: string) {
+    const { rows } = await db.query<{ user_id: string | null }>(
+      "select user_id from conversations where id = $1",
+      [conversationId],
+    );
+    return rows[0].user_id;
+  }
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    ({ alice, bob } = await seedDatabase(db));
+    vi.stubGlobal(
+      "fetch",
+      createPostgrestFetch(db, {
+        [ACCESS_TOKENS.alice]: alice.id,
+        [ACCESS_TOKENS.bob]: bob.id,
+      }),
+    );
+  });
+
+  afterAll(async () => {
+    vi.unstubAllGlobals();
+    await db.close();
+  });
+
+  it("moves the guest's conversations to the signed-in user", async () => {
+    const guestId = randomUUID();
+    const first = await createGuestConversation(guestId);
+    const second = await createGuestConversation(guestId);
+    const otherGuests = await createGuestConversation(randomUUID());
+
+    const response = await claimAs(ACCESS_TOKENS.alice, { guestId });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ claimed: 2 });
+    expect(await ownerOf(first)).toBe(alice.id);
+    expect(await ownerOf(second)).toBe(alice.id);
+    expect(await ownerOf(otherGuests)).toBeNull();
+  });
+
+  it("is idempotent and picks up conversations started since the last claim", async () => {
+    const guestId = randomUUID();
+    await createGuestConversation(guestId);
+
+    expect(
+      await (await claimAs(ACCESS_TOKENS.alice, { guestId })).json(),
+    ).toEqual({ claimed: 1 });
+    expect(
+      await (await claimAs(ACCESS_TOKENS.alice, { guestId })).json(),
+    ).toEqual({ claimed: 0 });
+
+    const later = await createGuestConversation(guestId);
+    expect(
+      await (await claimAs(ACCESS_TOKENS.alice, { guestId })).json(),
+    ).toEqual({ claimed: 1 });
+    expect(await ownerOf(later)).toBe(alice.id);
+  });
+
+  it("refuses a guest id already bound to another account", async () => {
+    const guestId = randomUUID();
+    await claimAs(ACCESS_TOKENS.alice, { guestId });
+    const conversationId = await createGuestConversation(guestId);
+
+    const response = await claimAs(ACCESS_TOKENS.bob, { guestId });
+
+    expect(response.status).toBe(409);
+    expect(await ownerOf(conversationId)).toBeNull();
+  });
+
+  it("requires a signed-in user and a well-formed guest id", async () => {
+    const guestId = randomUUID();
+    const conversationId = await createGuestConversation(guestId);
+
+    expect((await claimAs(null, { guestId })).status).toBe(401);
+    expect((await claimAs("forged-token", { guestId })).status).toBe(401);
+    expect(
+      (await claimAs(ACCESS_TOKENS.alice, { guestId: "guest-alice" })).status,
+    ).toBe(400);
+    expect(await ownerOf(conversationId)).toBeNull();
+  });
+});
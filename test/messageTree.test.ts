@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { getLatestLeaf, getPath, getSiblings } from "@/lib/messageTree";
+
+// question ─┬─ answer ── follow-up ── reply
+//           ├─ regenerated answer
+//           └─ newest answer ── newest follow-up
+// edited question ── edited answer
+const nodes = [
+  { id: "question", parentId: null },
+  { id: "answer", parentId: "question" },
+  { id: "follow-up", parentId: "answer" },
+  { id: "reply", parentId: "follow-up" },
+  { id: "regenerated answer", parentId: "question" },
+  { id: "edited question", parentId: null },
+  { id: "edited answer", parentId: "edited question" },
+  { id: "newest answer", parentId: "question" },
+  { id: "newest follow-up", parentId: "newest answer" },
+];
+
+const ids = (list: { id: string }[]) => list.map((node) => node.id);
+const byId = (id: string) => nodes.find((node) => node.id === id)!;
+
+describe("getPath", () => {
+  it("returns the branch from the root down to the leaf", () => {
+    expect(ids(getPath(nodes, "reply"))).toEqual([
+      "question",
+      "answer",
+      "follow-up",
+      "reply",
+    ]);
+    expect(ids(getPath(nodes, "edited answer"))).toEqual([
+      "edited question",
+      "edited answer",
+    ]);
+  });
+
+  it("is empty without a leaf or for an unknown one", () => {
+    expect(getPath(nodes, null)).toEqual([]);
+    expect(getPath(nodes, "missing")).toEqual([]);
+  });
+
+  it("stops at a parent link cycle instead of looping", () => {
+    const cyclic = [
+      { id: "a", parentId: "b" },
+      { id: "b", parentId: "a" },
+    ];
+
+    expect(ids(getPath(cyclic, "a"))).toEqual(["b", "a"]);
+  });
+});
+
+describe("getSiblings", () => {
+  it("numbers regenerated replies in creation order", () => {
+    expect(ids(getSiblings(nodes, byId("regenerated answer")))).toEqual([
+      "answer",
+      "regenerated answer",
+      "newest answer",
+    ]);
+  });
+
+  it("treats edited first turns as siblings of the original", () => {
+    expect(ids(getSiblings(nodes, byId("question")))).toEqual([
+      "question",
+      "edited question",
+    ]);
+  });
+});
+
+describe("getLatestLeaf", () => {
+  it("follows the newest child at each level", () => {
+    expect(getLatestLeaf(nodes, "question")).toBe("newest follow-up");
+    expect(getLatestLeaf(nodes, "answer")).toBe("reply");
+  });
+
+  it("returns the node itself when it has no children", () => {
+    expect(getLatestLeaf(nodes, "reply")).toBe("reply");
+  });
+});
@@ -0,0 +1,107 @@
+import type { PGlite } from "@electric-sql/pglite";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { toOne } from "@/lib/embeds";
+import { fetchFeedback, fetchPreferenceVotes } from "@/lib/metrics";
+import { createTestDatabase } from "./database";
+import { createPostgrestFetch } from "./postgrest";
+import { seedDatabase, type SeededUser } from "./seed";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function aroundNow() {
+  const now = Date.now();
+  return [
+    new Date(now - DAY_MS).toISOString(),
+    new Date(now + DAY_MS).toISOString(),
+  ] as const;
+}
+
+describe("toOne", () => {
+  it("passes an embedded object or null through", () => {
+    expect(toOne({ name: "Tutor" })).toEqual({ name: "Tutor" });
+    expect(toOne(null)).toBeNull();
+  });
+
+  it("takes the single row of an array-shaped embed", () => {
+    expect(toOne([{ name: "Tutor" }])).toEqual({ name: "Tutor" });
+    expect(toOne([])).toBeNull();
+  });
+});
+
+describe("metrics queries", () => {
+  let db: PGlite;
+  let alice: SeededUser;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    ({ alice } = await seedDatabase(db));
+    vi.stubGlobal("fetch", createPostgrestFetch(db, {}));
+  });
+
+  afterAll(async () => {
+    vi.unstubAllGlobals();
+    await db.close();
+  });
+
+  it("returns feedback with its persona and invocation as objects", async () => {
+    await db.query(
+      "update model_invocations set latency_ms = 120, output_tokens = 30 where id = $1",
+      [alice.invocationId],
+    );
+    await db.query(
+      "update message_feedback set persona_id = $1, rating = 'down', reason = 'unhelpful' where user_id = $2",
+      [alice.personaId, alice.id],
+    );
+
+    const { data, error } = await fetchFeedback(...aroundNow());
+
+    expect(error).toBeNull();
+    expect(data).toHaveLength(2);
+    expect(data).toContainEqual({
+      rating: "down",
+      reason: "unhelpful",
+      persona_id: alice.personaId,
+      persona: { name: "alice's persona" },
+      invocation: {
+        provider: "mock",
+        model: "echo",
+        latency_ms: 120,
+        output_tokens: 30,
+      },
+    });
+    expect(data).toContainEqual(
+      expect.objectContaining({ rating: "up", persona: null }),
+    );
+  });
+
+  it("returns voted comparisons with both sides' models as objects", async () => {
+    await db.query(
+      "update model_preferences set winner = 'a', voted_at = now() where conversation_id = $1",
+      [alice.conversationId],
+    );
+
+    const { data, error } = await fetchPreferenceVotes(...aroundNow());
+
+    // Bob's comparison has no vote yet.
+    expect(error).toBeNull();
+    expect(data).toEqual([
+      {
+        winner: "a",
+        blind: false,
+        invocation_a: { provider: "mock", model: "echo" },
+        invocation_b: { provider: "mock", model: "echo" },
+      },
+    ]);
+  });
+
+  it("leaves out feedback set outside the range", async () => {
+    const [from] = aroundNow();
+
+    const { data } = await fetchFeedback(
+      new Date(Date.parse(from) - DAY_MS).toISOString(),
+      from,
+    );
+
+    expect(data).toEqual([]);
+  });
+});
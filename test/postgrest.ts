@@ -0,0 +1,378 @@
+import type { PGlite } from "@electric-sql/pglite";
+import { asRole, type DatabaseRole } from "./database";
+
+export const TEST_SUPABASE_URL = "http://supabase.test";
+export const TEST_ANON_KEY = "test-anon-key";
+export const TEST_SERVICE_ROLE_KEY = "test-service-role-key";
+
+const IDENTIFIER = /^[a-z_][a-z0-9_]*$/;
+const OBJECT_MEDIA_TYPE = "application/vnd.pgrst.object+json";
+// Query parameters that are not column filters.
+const RESERVED_PARAMS = new Set([
+  "select",
+  "order",
+  "limit",
+  "offset",
+  "columns",
+]);
+const COMPARISONS: Record<string, string> = {
+  eq: "=",
+  neq: "<>",
+  lt: "<",
+  lte: "<=",
+  gt: ">",
+  gte: ">=",
+};
+
+type Query = { sql: string; values: unknown[]; isScalar?: boolean };
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function quote(identifier: string) {
+  if (!IDENTIFIER.test(identifier)) {
+    throw new Error(`Unsupported identifier in test request: ${identifier}`);
+  }
+  return `"${identifier}"`;
+}
+
+/** Splits `a,b:c(d,e),f` on the commas outside parentheses. */
+function splitTopLevel(list: string) {
+  const items: string[] = [];
+  let depth = 0;
+  let current = "";
+
+  for (const char of list) {
+    if (char === "," && depth === 0) {
+      items.push(current);
+      current = "";
+      continue;
+    }
+    if (char === "(") depth += 1;
+    if (char === ")") depth -= 1;
+    current += char;
+  }
+
+  return [...items, current].filter(Boolean);
+}
+
+/** The table and column a foreign key column points at. */
+async function foreignKeyTarget(db: PGlite, table: string, column: string) {
+  const { rows } = await db.query<{ table: string; column: string }>(
+    `select target.relname as table, target_column.attname as column
+     from pg_constraint c
+     join pg_class source on source.oid = c.conrelid
+     join pg_attribute source_column
+       on source_column.attrelid = c.conrelid and source_column.attnum = c.conkey[1]
+     join pg_class target on target.oid = c.confrelid
+     join pg_attribute target_column
+       on target_column.attrelid = c.confrelid and target_column.attnum = c.confkey[1]
+     where c.contype = 'f' and source.relname = $1 and source_column.attname = $2`,
+    [table, column],
+  );
+
+  if (rows.length !== 1) {
+    throw new Error(`No foreign key for ${table}.${column} in test request`);
+  }
+  return rows[0];
+}
+
+/**
+ * `select=*,col,alias:col,alias:fk_col(a,b)` as a select list over `table`.
+ * An embedded resource follows the foreign key of `fk_col` and is returned as
+ * a JSON object, or `null` when the key is null or the row is not visible.
+ */
+async function toSelectList(db: PGlite, table: string, select: string | null) {
+  const items = splitTopLevel(select ?? "*");
+
+  const columns = await Promise.all(
+    items.map(async (item) => {
+      if (item === "*") return `${quote(table)}.*`;
+
+      const embedded = /^(?:(\w+):)?(\w+)\((.*)\)$/.exec(item);
+      if (embedded) {
+        const [, alias, column, inner] = embedded;
+        const target = await foreignKeyTarget(db, table, column);
+        return `(select to_jsonb(embedded) from (select ${splitTopLevel(inner)
+          .map(quote)
+          .join(", ")} from ${quote(target.table)} where ${quote(
+          target.table,
+        )}.${quote(target.column)} = ${quote(table)}.${quote(
+          column,
+        )}) embedded) as ${quote(alias ?? column)}`;
+      }
+
+      const [alias, column = alias] = item.split(":");
+      return `${quote(table)}.${quote(column)} as ${quote(alias)}`;
+    }),
+  );
+
+  return columns.join(", ");
+}
+
+/** `in.(a,"b,c")` operands as a list of strings. */
+function parseList(operand: string) {
+  const inner = operand.replace(/^\(|\)$/g, "");
+  return (inner.match(/"[^"]*"|[^,]+/g) ?? []).map((item) =>
+    item.replace(/^"|"$/g, ""),
+  );
+}
+
+/**
+ * Column filters (`eq`, `neq`, `lt`, `lte`, `gt`, `gte`, `in`, `is`, each
+ * optionally negated with `not.`) as SQL conditions. Operands are passed as
+ * untyped parameters, so Postgres reads them as the column's type.
+ */
+function toWhereClause(table: string, params: URLSearchParams, query: Query) {
+  const conditions: string[] = [];
+
+  for (const [key, raw] of params) {
+    if (RESERVED_PARAMS.has(key)) continue;
+
+    const negated = raw.startsWith("not.");
+    const filter = negated ? raw.slice("not.".length) : raw;
+    const dot = filter.indexOf(".");
+    const operator = filter.slice(0, dot);
+    const operand = filter.slice(dot + 1);
+    const column = `${quote(table)}.${quote(key)}`;
+    let condition: string;
+
+    if (operator in COMPARISONS) {
+      query.values.push(operand);
+      condition = `${column} ${COMPARISONS[operator]} $${query.values.length}`;
+    } else if (operator === "in") {
+      query.values.push(parseList(operand));
+      condition = `${column} = any($${query.values.length})`;
+    } else if (
+      operator === "is" &&
+      ["null", "true", "false"].includes(operand)
+    ) {
+      condition = `${column} is ${operand}`;
+    } else {
+      throw new Error(`Unsupported filter in test request: ${key}=${raw}`);
+    }
+
+    conditions.push(negated ? `not (${condition})` : condition);
+  }
+
+  return conditions.length > 0 ? ` where ${conditions.join(" and ")}` : "";
+}
+
+/** `order=col.desc.nullslast,col2&limit=n&offset=m` as SQL. */
+function toOrderAndLimit(table: string, params: URLSearchParams) {
+  let sql = "";
+
+  const order = params.get("order");
+  if (order) {
+    sql += ` order by ${order
+      .split(",")
+      .map((part) => {
+        const [column, ...modifiers] = part.split(".");
+        const direction = modifiers.includes("desc") ? "desc" : "asc";
+        const nulls = modifiers.includes("nullsfirst")
+          ? " nulls first"
+          : modifiers.includes("nullslast")
+            ? " nulls last"
+            : "";
+        return `${quote(table)}.${quote(column)} ${direction}${nulls}`;
+      })
+      .join(", ")}`;
+  }
+
+  const limit = params.get("limit");
+  if (limit) sql += ` limit ${Number.parseInt(limit, 10)}`;
+  const offset = params.get("offset");
+  if (offset) sql += ` offset ${Number.parseInt(offset, 10)}`;
+
+  return sql;
+}
+
+/**
+ * A read, insert, update or delete on `table`, returning the rows in the
+ * shape of the `select` parameter. Writes return their changed rows through
+ * a CTE so the select list (and its embeds) can be applied to them.
+ */
+async function toTableQuery(
+  db: PGlite,
+  method: string,
+  table: string,
+  params: URLSearchParams,
+  body: unknown,
+): Promise<Query> {
+  const query: Query = { sql: "", values: [] };
+  const selectList = await toSelectList(db, table, params.get("select"));
+  const target = quote(table);
+
+  if (method === "GET") {
+    const where = toWhereClause(table, params, query);
+    query.sql = `select ${selectList} from ${target}${where}${toOrderAndLimit(
+      table,
+      params,
+    )}`;
+    return query;
+  }
+
+  let change: string;
+
+  if (method === "POST") {
+    const rows = (Array.isArray(body) ? body : [body]) as Record<
+      string,
+      unknown
+    >[];
+    const columns = [...new Set(rows.flatMap(Object.keys))]
+      .map(quote)
+      .join(", ");
+    query.values.push(JSON.stringify(rows));
+    change = `insert into ${target} (${columns}) select ${columns} from jsonb_populate_recordset(null::${target}, $1::jsonb) returning ${target}.*`;
+  } else if (method === "PATCH") {
+    const assignments = Object.keys(body as Record<string, unknown>)
+      .map((column) => `${quote(column)} = patch.${quote(column)}`)
+      .join(", ");
+    query.values.push(JSON.stringify(body));
+    const where = toWhereClause(table, params, query);
+    change = `update ${target} set ${assignments} from jsonb_populate_record(null::${target}, $1::jsonb) as patch${where} returning ${target}.*`;
+  } else if (method === "DELETE") {
+    const where = toWhereClause(table, params, query);
+    change = `delete from ${target}${where} returning ${target}.*`;
+  } else {
+    throw new Error(`Unsupported method in test request: ${method}`);
+  }
+
+  query.sql = `with changed as (${change}) select ${selectList} from changed as ${target}${toOrderAndLimit(
+    table,
+    params,
+  )}`;
+  return query;
+}
+
+/**
+ * A call to a database function with named arguments. Set-returning
+ * functions return their rows; others return their value, like PostgREST.
+ */
+async function toRpcQuery(
+  db: PGlite,
+  name: string,
+  body: unknown,
+): Promise<Query> {
+  const { rows } = await db.query<{ retset: boolean }>(
+    "select proretset as retset from pg_proc where proname = $1",
+    [name],
+  );
+  if (rows.length !== 1) {
+    throw new Error(`Unknown function in test request: ${name}`);
+  }
+
+  const args = Object.entries((body ?? {}) as Record<string, unknown>);
+  const argumentList = args
+    .map(([arg], index) => `${quote(arg)} => $${index + 1}`)
+    .join(", ");
+  const call = `${quote(name)}(${argumentList})`;
+
+  return {
+    sql: rows[0].retset ? `select * from ${call}` : `select ${call} as value`,
+    values: args.map(([, value]) => value),
+    isScalar: !rows[0].retset,
+  };
+}
+
+/**
+ * A `fetch` that stands in for Supabase's REST and auth APIs, backed by a
+ * test database. Like PostgREST, it runs each request as the role of its
+ * bearer token: the service-role key bypasses RLS, a user's access token runs
+ * as `authenticated` with that user's id, and the anon key runs as `anon`.
+ * Reads, inserts, updates, deletes and function calls are supported, with the
+ * filters and embeds the code under test uses; writes are committed.
+ */
+export function createPostgrestFetch(
+  db: PGlite,
+  accessTokens: Record<string, string>,
+) {
+  return async (input: string | URL | Request, init?: RequestInit) => {
+    const request = new Request(input, init);
+    const url = new URL(request.url);
+    const token = request.headers.get("authorization")?.replace(/^Bearer /, "");
+    const userId = token ? (accessTokens[token] ?? null) : null;
+
+    if (url.pathname === "/auth/v1/user") {
+      return userId
+        ? json({ id: userId, aud: "authenticated", role: "authenticated" })
+        : json({ code: 401, msg: "Invalid JWT" }, 401);
+    }
+
+    const rpc = url.pathname.match(/^\/rest\/v1\/rpc\/([^/]+)$/)?.[1];
+    const table = url.pathname.match(/^\/rest\/v1\/([^/]+)$/)?.[1];
+    if (!rpc && !table) {
+      throw new Error(`Unsupported test request: ${request.method} ${url}`);
+    }
+
+    let role: DatabaseRole;
+    if (token === TEST_SERVICE_ROLE_KEY) role = "service_role";
+    else if (userId) role = "authenticated";
+    else if (token === TEST_ANON_KEY) role = "anon";
+    else return json({ message: "Invalid JWT" }, 401);
+
+    const text = await request.text();
+    const body: unknown = text ? JSON.parse(text) : undefined;
+    const isRead = request.method === "GET";
+    const returnsRows =
+      isRead ||
+      Boolean(rpc) ||
+      (request.headers.get("prefer") ?? "").includes("return=representation");
+    const wantsObject = request.headers.get("accept") === OBJECT_MEDIA_TYPE;
+
+    let rows: Record<string, unknown>[];
+    let isScalar = false;
+
+    try {
+      const query: Query = rpc
+        ? await toRpcQuery(db, rpc, body)
+        : await toTableQuery(
+            db,
+            request.method,
+            table!,
+            url.searchParams,
+            body,
+          );
+      isScalar = query.isScalar ?? false;
+
+      rows = await asRole(
+        db,
+        role,
+        userId,
+        async (tx) =>
+          (await tx.query<Record<string, unknown>>(query.sql, query.values))
+            .rows,
+        { commit: !isRead },
+      );
+    } catch (error) {
+      const { message, code } = error as { message: string; code?: string };
+      return json(
+        { message, code: code ?? null, details: null, hint: null },
+        400,
+      );
+    }
+
+    if (isScalar) return json(rows[0]?.value ?? null);
+
+    if (wantsObject) {
+      return rows.length === 1
+        ? json(rows[0], isRead ? 200 : 201)
+        : json(
+            {
+              code: "PGRST116",
+              details: `The result contains ${rows.length} rows`,
+              hint: null,
+              message: "JSON object requested, multiple (or no) rows returned",
+            },
+            406,
+          );
+    }
+
+    if (!returnsRows) return new Response(null, { status: 204 });
+    return json(rows, request.method === "POST" && table ? 201 : 200);
+  };
+}
@@ -0,0 +1,142 @@
+import type { PGlite } from "@electric-sql/pglite";
+import { NextRequest } from "next/server";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  checkDailyTokenQuota,
+  checkRateLimit,
+  rateLimitHeaders,
+} from "@/lib/rateLimit";
+import { createTestDatabase } from "./database";
+import { createPostgrestFetch } from "./postgrest";
+import { seedDatabase, type SeededUser } from "./seed";
+
+function requestFrom(ip: string) {
+  return new NextRequest("http://localhost/api/chat", {
+    method: "POST",
+    headers: { "x-forwarded-for": `${ip}, 10.0.0.1` },
+  });
+}
+
+describe("rate limits and quotas", () => {
+  let db: PGlite;
+  let alice: SeededUser;
+  let bob: SeededUser;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    ({ alice, bob } = await seedDatabase(db));
+    vi.stubGlobal("fetch", createPostgrestFetch(db, {}));
+  });
+
+  afterAll(async () => {
+    vi.unstubAllGlobals();
+    await db.close();
+  });
+
+  it("lets a guest burst to the bucket capacity, then asks them to wait", async () => {
+    const caller = { userId: null, guestId: "guest-burst" };
+    const results = [];
+    for (let i = 0; i < 11; i++) {
+      results.push(await checkRateLimit(requestFrom("203.0.113.1"), caller));
+    }
+
+    expect(results.slice(0, 10).every((result) => result?.allowed)).toBe(true);
+    expect(results[9]).toMatchObject({ limit: 10, remaining: 0 });
+
+    const blocked = results[10]!;
+    expect(blocked.allowed).toBe(false);
+    // One token refills every six seconds at 10 per minute.
+    expect(blocked.retryAfterSeconds).toBeGreaterThan(0);
+    expect(blocked.retryAfterSeconds).toBeLessThanOrEqual(6);
+    expect(rateLimitHeaders(blocked)).toMatchObject({
+      "X-RateLimit-Limit": "10",
+      "X-RateLimit-Remaining": "0",
+      "Retry-After": String(blocked.retryAfterSeconds),
+    });
+  });
+
+  it("keeps separate buckets per identity and a shared one per IP", async () => {
+    const user = { userId: alice.id, guestId: null };
+    const first = await checkRateLimit(requestFrom("203.0.113.2"), user);
+
+    // The authenticated tier allows 30, the IP tier 40; the first request
+    // leaves the authenticated bucket the more drained of the two.
+    expect(first).toMatchObject({ allowed: true, limit: 30, remaining: 29 });
+
+    const { rows } = await db.query<{ bucket_key: string }>(
+      "select bucket_key from rate_limit_buckets where bucket_key like '%203.0.113.2' or bucket_key = $1",
+      [`authenticated:${alice.id}`],
+    );
+    expect(rows.map((row) => row.bucket_key).sort()).toEqual([
+      `authenticated:${alice.id}`,
+      "ip:203.0.113.2",
+    ]);
+  });
+
+  it("blocks on the IP bucket even when the caller's own bucket is full", async () => {
+    for (let i = 0; i < 40; i++) {
+      await checkRateLimit(requestFrom("203.0.113.3"), {
+        userId: null,
+        guestId: `guest-ip-${i}`,
+      });
+    }
+
+    const result = await checkRateLimit(requestFrom("203.0.113.3"), {
+      userId: null,
+      guestId: "guest-fresh",
+    });
+
+    expect(result).toMatchObject({ allowed: false, limit: 40 });
+  });
+
+  it("counts today's tokens of the caller's conversations against the quota", async () => {
+    await db.query(
+      `insert into model_invocations (conversation_id, provider, model, total_tokens)
+       values ($1, 'mock', 'echo', 150000), ($1, 'mock', 'echo', 50000)`,
+      [bob.conversationId],
+    );
+    await db.query(
+      `insert into model_invocations (conversation_id, provider, model, total_tokens, created_at)
+       values ($1, 'mock', 'echo', 500000, now() - interval '2 days')`,
+      [alice.conversationId],
+    );
+
+    const overQuota = await checkDailyTokenQuota({
+      userId: bob.id,
+      guestId: null,
+    });
+    const underQuota = await checkDailyTokenQuota({
+      userId: alice.id,
+      guestId: null,
+    });
+
+    expect(overQuota).toMatchObject({
+      allowed: false,
+      limit: 200_000,
+      used: 200_000,
+    });
+    expect(overQuota!.retryAfterSeconds).toBeLessThanOrEqual(24 * 60 * 60);
+    expect(underQuota).toMatchObject({ allowed: true, used: 0 });
+  });
+
+  it("gives guests the smaller quota, counted per guest id", async () => {
+    const { rows } = await db.query<{ id: string }>(
+      "insert into conversations (guest_id) values ('guest-heavy') returning id",
+    );
+    await db.query(
+      `insert into model_invocations (conversation_id, provider, model, total_tokens)
+       values ($1, 'mock', 'echo', 20000)`,
+      [rows[0].id],
+    );
+
+    expect(
+      await checkDailyTokenQuota({ userId: null, guestId: "guest-heavy" }),
+    ).toMatchObject({ allowed: false, limit: 20_000, used: 20_000 });
+    expect(
+      await checkDailyTokenQuota({ userId: null, guestId: "guest-light" }),
+    ).toMatchObject({ allowed: true, used: 0 });
+    expect(
+      await checkDailyTokenQuota({ userId: null, guestId: null }),
+    ).toBeNull();
+  });
+});
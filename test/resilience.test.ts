@@ -0,0 +1,276 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { ModelOption } from "@/lib/llm/registry";
+import {
+  classifyUpstreamError,
+  completeWithRetries,
+  openStreamWithRetries,
+  type FailedAttempt,
+  type RetryPolicy,
+} from "@/lib/llm/resilience";
+import {
+  ProviderRequestError,
+  UpstreamError,
+  type ChatCompletionChunk,
+  type ChatProvider,
+} from "@/lib/llm/types";
+
+const registry = vi.hoisted(() => ({
+  providers: new Map<string, ChatProvider>(),
+  fallbacks: [] as ModelOption[],
+}));
+
+vi.mock("@/lib/llm/registry", () => ({
+  getProvider: (id: string) => registry.providers.get(id) ?? null,
+  getFallbackModels: () => registry.fallbacks,
+}));
+
+const POLICY: RetryPolicy = {
+  timeoutMs: 1_000,
+  maxRetries: 2,
+  baseDelayMs: 0,
+  maxDelayMs: 0,
+};
+
+function modelOption(provider: string, model: string): ModelOption {
+  return {
+    id: `${provider}:${model}`,
+    provider,
+    model,
+    label: model,
+    contextTokens: 4_000,
+    supportsVision: false,
+    supportsTools: false,
+  };
+}
+
+const primary = modelOption("primary", "big");
+const fallback = modelOption("backup", "small");
+
+const USAGE = { inputTokens: 1, outputTokens: 1, totalTokens: 2 };
+
+/** A provider that fails with each error in turn, then answers. */
+function providerFailing(id: string, errors: unknown[]): ChatProvider {
+  const queue = [...errors];
+  return {
+    id,
+    complete: vi.fn(async () => {
+      const error = queue.shift();
+      if (error) throw error;
+      return { content: `answer from ${id}`, usage: USAGE };
+    }),
+    stream: vi.fn(async function* (): AsyncGenerator<ChatCompletionChunk> {
+      const error = queue.shift();
+      if (error) throw error;
+      yield { type: "delta", content: `streamed by ${id}` };
+    }),
+  };
+}
+
+function rejected(status: number, body = "") {
+  return new ProviderRequestError("test", status, body);
+}
+
+function recordAttempts() {
+  const attempts: FailedAttempt[] = [];
+  return {
+    attempts,
+    onFailedAttempt: (attempt: FailedAttempt) => {
+      attempts.push(attempt);
+    },
+  };
+}
+
+describe("classifyUpstreamError", () => {
+  it.each([
+    [rejected(429), "upstream_rate_limited"],
+    [rejected(408), "upstream_timeout"],
+    [rejected(504), "upstream_timeout"],
+    [rejected(502), "upstream_unavailable"],
+    [rejected(401), "upstream_auth_failed"],
+    [rejected(403), "upstream_auth_failed"],
+    [rejected(422), "upstream_bad_request"],
+    [rejected(400, '{"error":"content_filter"}'), "content_filtered"],
+    [
+      rejected(400, "This model's maximum context length is 8192 tokens"),
+      "context_length_exceeded",
+    ],
+    [new TypeError("fetch failed"), "upstream_unavailable"],
+    [new UpstreamError("upstream_timeout"), "upstream_timeout"],
+    [new Error("something else"), "upstream_error"],
+  ])("classifies %s as %s", (error, code) => {
+    expect(classifyUpstreamError(error)).toBe(code);
+  });
+});
+
+describe("completeWithRetries", () => {
+  beforeEach(() => {
+    registry.providers.clear();
+    registry.fallbacks = [];
+  });
+
+  it("retries a retryable failure on the same model", async () => {
+    const provider = providerFailing("primary", [rejected(503), rejected(429)]);
+    registry.providers.set("primary", provider);
+    const { attempts, onFailedAttempt } = recordAttempts();
+
+    const { model, result } = await completeWithRetries({
+      model: primary,
+      call: { messages: [] },
+      policy: POLICY,
+      onFailedAttempt,
+    });
+
+    expect(model).toBe(primary);
+    expect(result.content).toBe("answer from primary");
+    expect(provider.complete).toHaveBeenCalledTimes(3);
+    expect(attempts.map((a) => a.code)).toEqual([
+      "upstream_unavailable",
+      "upstream_rate_limited",
+    ]);
+  });
+
+  it("falls back once the primary runs out of retries", async () => {
+    registry.providers.set(
+      "primary",
+      providerFailing("primary", [rejected(500), rejected(500), rejected(500)]),
+    );
+    registry.providers.set("backup", providerFailing("backup", []));
+    registry.fallbacks = [fallback];
+    const { attempts, onFailedAttempt } = recordAttempts();
+
+    const { model, result } = await completeWithRetries({
+      model: primary,
+      call: { messages: [] },
+      policy: POLICY,
+      onFailedAttempt,
+    });
+
+    expect(model).toBe(fallback);
+    expect(result.content).toBe("answer from backup");
+    expect(attempts).toHaveLength(3);
+    expect(attempts.every((a) => a.model === primary)).toBe(true);
+  });
+
+  it("moves to the fallback without retrying a non-retryable failure", async () => {
+    const provider = providerFailing("primary", [rejected(401)]);
+    registry.providers.set("primary", provider);
+    registry.providers.set("backup", providerFailing("backup", []));
+    registry.fallbacks = [fallback];
+    const { attempts, onFailedAttempt } = recordAttempts();
+
+    const { model } = await completeWithRetries({
+      model: primary,
+      call: { messages: [] },
+      policy: POLICY,
+      onFailedAttempt,
+    });
+
+    expect(model).toBe(fallback);
+    expect(provider.complete).toHaveBeenCalledTimes(1);
+    expect(attempts.map((a) => a.code)).toEqual(["upstream_auth_failed"]);
+  });
+
+  it("throws the last classified failure once every model has failed", async () => {
+    registry.providers.set(
+      "primary",
+      providerFailing("primary", [rejected(400, "content_policy")]),
+    );
+    registry.providers.set(
+      "backup",
+      providerFailing("backup", [rejected(422)]),
+    );
+    registry.fallbacks = [fallback];
+    const { onFailedAttempt } = recordAttempts();
+
+    const failure = completeWithRetries({
+      model: primary,
+      call: { messages: [] },
+      policy: POLICY,
+      onFailedAttempt,
+    });
+
+    await expect(failure).rejects.toBeInstanceOf(UpstreamError);
+    await expect(failure).rejects.toMatchObject({
+      code: "upstream_bad_request",
+    });
+  });
+
+  it("rethrows the abort without recording it when the caller cancels", async () => {
+    const controller = new AbortController();
+    const abortError = new DOMException("aborted", "AbortError");
+    registry.providers.set("primary", {
+      ...providerFailing("primary", []),
+      complete: async () => {
+        controller.abort();
+        throw abortError;
+      },
+    });
+    const { attempts, onFailedAttempt } = recordAttempts();
+
+    await expect(
+      completeWithRetries({
+        model: primary,
+        call: { messages: [], signal: controller.signal },
+        policy: POLICY,
+        onFailedAttempt,
+      }),
+    ).rejects.toBe(abortError);
+    expect(attempts).toEqual([]);
+  });
+});
+
+describe("openStreamWithRetries", () => {
+  beforeEach(() => {
+    registry.providers.clear();
+    registry.fallbacks = [];
+  });
+
+  it("retries a stream that fails before its first chunk", async () => {
+    const provider = providerFailing("primary", [rejected(503)]);
+    registry.providers.set("primary", provider);
+    const { attempts, onFailedAttempt } = recordAttempts();
+
+    const { model, chunks } = await openStreamWithRetries({
+      model: primary,
+      call: { messages: [] },
+      policy: POLICY,
+      onFailedAttempt,
+    });
+
+    const received: ChatCompletionChunk[] = [];
+    for await (const chunk of chunks) received.push(chunk);
+
+    expect(model).toBe(primary);
+    expect(received).toEqual([
+      { type: "delta", content: "streamed by primary" },
+    ]);
+    expect(attempts.map((a) => a.code)).toEqual(["upstream_unavailable"]);
+  });
+
+  it("throws a failure after the first chunk instead of retrying", async () => {
+    const stream = vi.fn(async function* () {
+      yield { type: "delta", content: "partial" } as ChatCompletionChunk;
+      throw rejected(502);
+    });
+    registry.providers.set("primary", {
+      ...providerFailing("primary", []),
+      stream,
+    });
+    const { attempts, onFailedAttempt } = recordAttempts();
+
+    const { chunks } = await openStreamWithRetries({
+      model: primary,
+      call: { messages: [] },
+      policy: POLICY,
+      onFailedAttempt,
+    });
+
+    const received: ChatCompletionChunk[] = [];
+    await expect(async () => {
+      for await (const chunk of chunks) received.push(chunk);
+    }).rejects.toMatchObject({ code: "upstream_unavailable" });
+    expect(received).toEqual([{ type: "delta", content: "partial" }]);
+    expect(stream).toHaveBeenCalledTimes(1);
+    expect(attempts).toEqual([]);
+  });
+});
@@ -0,0 +1,238 @@
+import type { PGlite } from "@electric-sql/pglite";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { asRole, createTestDatabase } from "./database";
+import { seedDatabase, type SeededUser } from "./seed";
+
+// Tables a signed-in user may read their own rows of, and which rows those
+// are ($1 is the user id).
+const OWNER_READABLE: Record<string, string> = {
+  conversations: "user_id = $1",
+  messages:
+    "conversation_id in (select id from conversations where user_id = $1)",
+  model_invocations:
+    "conversation_id in (select id from conversations where user_id = $1) or api_key_id in (select id from api_keys where user_id = $1)",
+  personas: "user_id = $1",
+  api_keys: "user_id = $1",
+  attachments:
+    "conversation_id in (select id from conversations where user_id = $1)",
+  model_preferences:
+    "conversation_id in (select id from conversations where user_id = $1)",
+  message_feedback:
+    "conversation_id in (select id from conversations where user_id = $1)",
+};
+
+const SERVER_ONLY = [
+  "conversation_shares",
+  "moderation_events",
+  "model_pricing",
+  "rate_limit_buckets",
+  "guest_claims",
+  "attachment_orphans",
+];
+
+describe("row level security", () => {
+  let db: PGlite;
+  let alice: SeededUser;
+  let bob: SeededUser;
+  let guestConversationId: string;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    ({ alice, bob, guestConversationId } = await seedDatabase(db));
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  const rowsAs = (userId: string | null, sql: string, params: unknown[] = []) =>
+    asRole(db, userId ? "authenticated" : "anon", userId, async (tx) => {
+      const result = await tx.query(sql, params);
+      return result.rows;
+    });
+
+  it("is enabled on every table in public", async () => {
+    const { rows } = await db.query(
+      `select c.relname from pg_class c
+       join pg_namespace n on n.oid = c.relnamespace
+       where n.nspname = 'public' and c.relkind = 'r' and not c.relrowsecurity`,
+    );
+
+    expect(rows).toEqual([]);
+  });
+
+  it.each(Object.entries(OWNER_READABLE))(
+    "only shows a user their own %s",
+    async (table, ownRows) => {
+      const { rows: expected } = await db.query(
+        `select id from ${table} where ${ownRows} order by id`,
+        [alice.id],
+      );
+      const visible = await rowsAs(
+        alice.id,
+        `select id from ${table} order by id`,
+      );
+
+      expect(expected.length).toBeGreaterThan(0);
+      expect(visible).toEqual(expected);
+    },
+  );
+
+  it.each([...Object.keys(OWNER_READABLE), ...SERVER_ONLY])(
+    "shows the anon role no %s",
+    async (table) => {
+      expect(await rowsAs(null, `select * from ${table}`)).toEqual([]);
+    },
+  );
+
+  it.each(SERVER_ONLY)("shows signed-in users no %s", async (table) => {
+    expect(await rowsAs(alice.id, `select * from ${table}`)).toEqual([]);
+  });
+
+  it("never shows guest conversations", async () => {
+    const rows = await rowsAs(
+      alice.id,
+      "select id from conversations where id = $1",
+      [guestConversationId],
+    );
+
+    expect(rows).toEqual([]);
+  });
+
+  it("does not let a user change or delete another user's rows", async () => {
+    expect(
+      await rowsAs(
+        alice.id,
+        "update conversations set title = 'mine now' where id = $1 returning id",
+        [bob.conversationId],
+      ),
+    ).toEqual([]);
+    expect(
+      await rowsAs(
+        alice.id,
+        "update conversations set user_id = $1 where id = $2 returning id",
+        [alice.id, guestConversationId],
+      ),
+    ).toEqual([]);
+    expect(
+      await rowsAs(
+        alice.id,
+        "delete from messages where conversation_id = $1 returning id",
+        [bob.conversationId],
+      ),
+    ).toEqual([]);
+    expect(
+      await rowsAs(
+        alice.id,
+        "delete from personas where id = $1 returning id",
+        [bob.personaId],
+      ),
+    ).toEqual([]);
+  });
+
+  it("does not let a user write into another user's conversation", async () => {
+    await expect(
+      rowsAs(
+        alice.id,
+        "insert into messages (conversation_id, role, content) values ($1, 'user', 'hi')",
+        [bob.conversationId],
+      ),
+    ).rejects.toThrow(/row-level security/);
+    await expect(
+      rowsAs(alice.id, "insert into conversations (user_id) values ($1)", [
+        bob.id,
+      ]),
+    ).rejects.toThrow(/row-level security/);
+  });
+
+  it("keeps server-written tables read-only to their owner", async () => {
+    await expect(
+      rowsAs(
+        alice.id,
+        "insert into model_invocations (conversation_id, provider, model) values ($1, 'mock', 'echo')",
+        [alice.conversationId],
+      ),
+    ).rejects.toThrow(/row-level security/);
+    expect(
+      await rowsAs(
+        alice.id,
+        "update message_feedback set rating = 'down' returning id",
+      ),
+    ).toEqual([]);
+    expect(
+      await rowsAs(
+        alice.id,
+        "update api_keys set revoked_at = null returning id",
+      ),
+    ).toEqual([]);
+  });
+
+  it("does not let anyone reset rate limits, claims or prices", async () => {
+    for (const userId of [null, alice.id]) {
+      expect(
+        await rowsAs(
+          userId,
+          "update rate_limit_buckets set tokens = 1000 returning bucket_key",
+        ),
+      ).toEqual([]);
+      expect(
+        await rowsAs(
+          userId,
+          "delete from rate_limit_buckets returning bucket_key",
+        ),
+      ).toEqual([]);
+      expect(
+        await rowsAs(userId, "delete from guest_claims returning guest_id"),
+      ).toEqual([]);
+      expect(
+        await rowsAs(
+          userId,
+          "update model_pricing set input_usd_per_million = 0 returning id",
+        ),
+      ).toEqual([]);
+      await expect(
+        rowsAs(
+          userId,
+          "insert into guest_claims (guest_id, user_id) values ('guest-dave', $1)",
+          [bob.id],
+        ),
+      ).rejects.toThrow(/row-level security/);
+      await expect(
+        rowsAs(
+          userId,
+          "insert into model_pricing (provider, model, input_usd_per_million, output_usd_per_million) values ('mock', 'echo', 0, 0)",
+        ),
+      ).rejects.toThrow(/row-level security/);
+    }
+  });
+
+  it("queues the files of a conversation its owner deletes", async () => {
+    const queued = await asRole(db, "authenticated", alice.id, async (tx) => {
+      const deleted = await tx.query(
+        "delete from conversations where id = $1 returning id",
+        [alice.conversationId],
+      );
+      await tx.query("reset role");
+      const orphans = await tx.query(
+        "select storage_path from attachment_orphans",
+      );
+      return { deleted: deleted.rows.length, orphans: orphans.rows };
+    });
+
+    expect(queued).toEqual({
+      deleted: 1,
+      orphans: [{ storage_path: "alice/notes.txt" }],
+    });
+  });
+
+  it("does not let clients call the server-side functions", async () => {
+    await expect(
+      rowsAs(null, "select * from consume_rate_limit('user:alice', 10, 1)"),
+    ).rejects.toThrow(/permission denied/);
+    await expect(
+      rowsAs(alice.id, "select claim_guest_conversations('guest-carol', $1)", [
+        alice.id,
+      ]),
+    ).rejects.toThrow(/permission denied/);
+  });
+});
@@ -0,0 +1,136 @@
+import { randomUUID } from "node:crypto";
+import type { PGlite } from "@electric-sql/pglite";
+
+export type SeededUser = {
+  id: string;
+  guestId: string;
+  personaId: string;
+  apiKeyId: string;
+  conversationId: string;
+  userMessageId: string;
+  replyId: string;
+  invocationId: string;
+  apiInvocationId: string;
+};
+
+async function seedUser(db: PGlite, name: string): Promise<SeededUser> {
+  const user: SeededUser = {
+    id: randomUUID(),
+    guestId: `guest-${name}`,
+    personaId: randomUUID(),
+    apiKeyId: randomUUID(),
+    conversationId: randomUUID(),
+    userMessageId: randomUUID(),
+    replyId: randomUUID(),
+    invocationId: randomUUID(),
+    apiInvocationId: randomUUID(),
+  };
+
+  await db.query("insert into auth.users (id, email) values ($1, $2)", [
+    user.id,
+    `${name}@example.com`,
+  ]);
+  await db.query(
+    `insert into personas (id, user_id, name, system_prompt)
+     values ($1, $2, $3, 'Be brief.')`,
+    [user.personaId, user.id, `${name}'s persona`],
+  );
+  await db.query(
+    `insert into api_keys (id, user_id, name, key_prefix, key_hash)
+     values ($1, $2, 'laptop', $3, $4)`,
+    [user.apiKeyId, user.id, `sk-${name}`, `hash-${name}`],
+  );
+  await db.query(
+    `insert into conversations (id, user_id, title, persona_id)
+     values ($1, $2, $3, $4)`,
+    [user.conversationId, user.id, `${name}'s chat`, user.personaId],
+  );
+  await db.query(
+    `insert into model_invocations (id, conversation_id, provider, model)
+     values ($1, $2, 'mock', 'echo')`,
+    [user.invocationId, user.conversationId],
+  );
+  await db.query(
+    `insert into model_invocations (id, api_key_id, provider, model)
+     values ($1, $2, 'mock', 'echo')`,
+    [user.apiInvocationId, user.apiKeyId],
+  );
+  await db.query(
+    `insert into messages (id, conversation_id, role, content)
+     values ($1, $2, 'user', $3)`,
+    [user.userMessageId, user.conversationId, `${name}'s secret question`],
+  );
+  await db.query(
+    `insert into messages (id, conversation_id, role, content, parent_id, invocation_id)
+     values ($1, $2, 'assistant', $3, $4, $5)`,
+    [
+      user.replyId,
+      user.conversationId,
+      `${name}'s secret answer`,
+      user.userMessageId,
+      user.invocationId,
+    ],
+  );
+  await db.query(
+    `insert into conversation_shares (token, conversation_id, snapshot)
+     values ($1, $2, '{}'::jsonb)`,
+    [`share-${name}`, user.conversationId],
+  );
+  await db.query(
+    `insert into attachments
+       (user_id, conversation_id, message_id, kind, file_name, content_type, size_bytes, storage_path)
+     values ($1, $2, $3, 'text', 'notes.txt', 'text/plain', 5, $4)`,
+    [user.id, user.conversationId, user.userMessageId, `${name}/notes.txt`],
+  );
+  await db.query(
+    `insert into model_preferences (conversation_id, invocation_a_id, invocation_b_id)
+     values ($1, $2, $2)`,
+    [user.conversationId, user.invocationId],
+  );
+  await db.query(
+    `insert into message_feedback (conversation_id, message_id, invocation_id, user_id, rating)
+     values ($1, $2, $3, $4, 'up')`,
+    [user.conversationId, user.replyId, user.invocationId, user.id],
+  );
+  await db.query(
+    `insert into moderation_events (conversation_id, user_id, stage, action, categories)
+     values ($1, $2, 'input', 'redacted', array['email'])`,
+    [user.conversationId, user.id],
+  );
+  await db.query(
+    "insert into guest_claims (guest_id, user_id) values ($1, $2)",
+    [user.guestId, user.id],
+  );
+
+  return user;
+}
+
+/**
+ * Two signed-in users with a row in every user data table, a guest
+ * conversation, and rows in the server-only tables.
+ */
+export async function seedDatabase(db: PGlite) {
+  const alice = await seedUser(db, "alice");
+  const bob = await seedUser(db, "bob");
+
+  const guestConversationId = randomUUID();
+  await db.query(
+    "insert into conversations (id, guest_id, title) values ($1, 'guest-carol', 'Guest chat')",
+    [guestConversationId],
+  );
+  await db.query(
+    `insert into messages (conversation_id, role, content)
+     values ($1, 'user', 'carol''s secret question')`,
+    [guestConversationId],
+  );
+
+  await db.query(
+    `insert into model_pricing (provider, model, input_usd_per_million, output_usd_per_million)
+     values ('mock', 'echo', 1, 2)`,
+  );
+  await db.query(
+    "insert into rate_limit_buckets (bucket_key, tokens) values ('user:alice', 1)",
+  );
+
+  return { alice, bob, guestConversationId };
+}
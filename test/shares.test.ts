@@ -0,0 +1,173 @@
+import type { PGlite } from "@electric-sql/pglite";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { getOwnedConversation } from "@/lib/conversations";
+import { createShare, forkShare, getActiveShare } from "@/lib/shares";
+import { createTestDatabase } from "./database";
+import { createPostgrestFetch } from "./postgrest";
+import { seedDatabase, type SeededUser } from "./seed";
+
+describe("sharing and forking conversations", () => {
+  let db: PGlite;
+  let alice: SeededUser;
+  let bob: SeededUser;
+  let conversationId: string;
+
+  async function insertMessage(
+    role: string,
+    content: string,
+    parentId: string | null,
+    extra: { tool_calls?: string; tool_call_id?: string } = {},
+  ) {
+    const { rows } = await db.query<{ id: string }>(
+      `insert into messages
+         (conversation_id, role, content, parent_id, tool_calls, tool_call_id, created_at)
+       values ($1, $2, $3, $4, $5::jsonb, $6, clock_timestamp())
+       returning id`,
+      [
+        conversationId,
+        role,
+        content,
+        parentId,
+        extra.tool_calls ?? null,
+        extra.tool_call_id ?? null,
+      ],
+    );
+    return rows[0].id;
+  }
+
+  async function shareOf(conversation: string) {
+    const { data } = await getOwnedConversation(
+      { userId: alice.id, guestId: null },
+      conversation,
+    );
+    return createShare(data!);
+  }
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    ({ alice, bob } = await seedDatabase(db));
+    vi.stubGlobal("fetch", createPostgrestFetch(db, {}));
+
+    // q1 has two replies; the active branch is the second, which used a tool.
+    const { rows } = await db.query<{ id: string }>(
+      `insert into conversations (user_id, title, model, temperature, system_prompt)
+       values ($1, 'Trip plans', 'mock-echo', 0.5, 'Alice is planning a surprise.')
+       returning id`,
+      [alice.id],
+    );
+    conversationId = rows[0].id;
+    const q1 = await insertMessage("user", "Where should I go?", null);
+    await insertMessage("assistant", "Try Lisbon.", q1);
+    const call = await insertMessage("assistant", "", q1, {
+      tool_calls: JSON.stringify([
+        {
+          id: "call-1",
+          type: "function",
+          function: { name: "fetch_url", arguments: "{}" },
+        },
+      ]),
+    });
+    const result = await insertMessage("tool", "Porto is sunny.", call, {
+      tool_call_id: "call-1",
+    });
+    const a1 = await insertMessage("assistant", "Try Porto.", result);
+    await db.query(
+      "update conversations set active_message_id = $1 where id = $2",
+      [a1, conversationId],
+    );
+  });
+
+  afterAll(async () => {
+    vi.unstubAllGlobals();
+    await db.close();
+  });
+
+  it("snapshots the active branch without tool exchanges or the system prompt", async () => {
+    const { data: share, error } = await shareOf(conversationId);
+
+    expect(error).toBeNull();
+    expect(share!.title).toBe("Trip plans");
+    expect(share!.snapshot).toMatchObject({
+      model: "mock-echo",
+      messages: [
+        { role: "user", content: "Where should I go?" },
+        { role: "assistant", content: "Try Porto." },
+      ],
+    });
+    expect(share!.snapshot).not.toHaveProperty("system_prompt");
+    expect(JSON.stringify(share!.snapshot)).not.toContain("surprise");
+  });
+
+  it("resolves active tokens only", async () => {
+    const { data: share } = await shareOf(conversationId);
+
+    expect((await getActiveShare(share!.token)).data?.id).toBe(share!.id);
+    expect((await getActiveShare("share-alice")).data).toBeNull();
+
+    await db.query(
+      "update conversation_shares set revoked_at = now() where id = $1",
+      [share!.id],
+    );
+    expect(await getActiveShare(share!.token)).toEqual({
+      data: null,
+      error: null,
+    });
+  });
+
+  it("forks a share into a new conversation owned by the caller", async () => {
+    const { data: share } = await shareOf(conversationId);
+
+    const { data: forkId, error } = await forkShare(share!, {
+      userId: bob.id,
+      guestId: null,
+    });
+
+    expect(error).toBeNull();
+    const { rows: conversations } = await db.query<{
+      user_id: string;
+      title: string;
+      system_prompt: string | null;
+      active_message_id: string;
+    }>(
+      "select user_id, title, system_prompt, active_message_id from conversations where id = $1",
+      [forkId],
+    );
+    expect(conversations[0]).toMatchObject({
+      user_id: bob.id,
+      title: "Trip plans",
+      system_prompt: null,
+    });
+
+    const { rows: messages } = await db.query<{
+      id: string;
+      parent_id: string | null;
+      content: string;
+    }>(
+      "select id, parent_id, content from messages where conversation_id = $1 order by created_at",
+      [forkId],
+    );
+    expect(messages.map((m) => m.content)).toEqual([
+      "Where should I go?",
+      "Try Porto.",
+    ]);
+    expect(messages[0].parent_id).toBeNull();
+    expect(messages[1].parent_id).toBe(messages[0].id);
+    expect(conversations[0].active_message_id).toBe(messages[1].id);
+  });
+
+  it("forks an empty share for a guest", async () => {
+    const { data: share } = await shareOf(conversationId);
+
+    const { data: forkId } = await forkShare(
+      { ...share!, snapshot: { ...share!.snapshot, messages: [] } },
+      { userId: null, guestId: "guest-visitor" },
+    );
+
+    const { rows } = await db.query<{ guest_id: string; count: number }>(
+      `select guest_id, (select count(*)::int from messages where conversation_id = c.id) as count
+       from conversations c where id = $1`,
+      [forkId],
+    );
+    expect(rows).toEqual([{ guest_id: "guest-visitor", count: 0 }]);
+  });
+});
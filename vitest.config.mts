@@ -0,0 +1,21 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": fileURLToPath(new URL("./src", import.meta.url)) },
+  },
+  test: {
+    include: ["test/**/*.test.ts"],
+    environment: "node",
+    // The Supabase clients refuse to load without these; every request they
+    // make is answered by `test/postgrest.ts`.
+    env: {
+      NEXT_PUBLIC_SUPABASE_URL: "http://supabase.test",
+      NEXT_PUBLIC_SUPABASE_ANON_KEY: "test-anon-key",
+      SUPABASE_SERVICE_ROLE_KEY: "test-service-role-key",
+    },
+    // Booting Postgres and applying every migration takes a few seconds.
+    hookTimeout: 60_000,
+  },
+});